@@ -0,0 +1,249 @@
+/**
+ * Batteries Component
+ *
+ * Battery levels of all battery-powered devices, most urgent first, with a
+ * replacement date projected from the daily battery readings.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { differenceInCalendarDays, format, subDays } from 'date-fns';
+import { BatteryFull } from 'lucide-react';
+import type { DirigeeraDevice, SensorReading } from '@zigbee-visualizer/shared-types';
+import { useSensorData } from '@/lib/api/hooks/useSensorData';
+import { querySensorReadings } from '@/lib/storage/history';
+import { getHubProfiles } from '@/lib/storage/config';
+import {
+  getBatteryLevel,
+  getBatteryStatus,
+  projectBatteryEmptyDate,
+  type BatteryStatus,
+} from '@/lib/utils/battery';
+import { getDeviceKey } from '@/lib/utils/devices';
+import { formatRelativeTime } from '@/lib/utils/formatters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { BatteryBadge } from '@/components/BatteryBadge';
+import { cn } from '@/lib/utils';
+
+/** How far back battery readings are used for the projection */
+const BATTERY_HISTORY_DAYS = 90;
+
+const STATUS_RANK: Record<BatteryStatus, number> = { critical: 0, low: 1, ok: 2 };
+
+const STATUS_BAR_CLASSES: Record<BatteryStatus, string> = {
+  ok: 'bg-green-500',
+  low: 'bg-amber-500',
+  critical: 'bg-red-500',
+};
+
+/**
+ * Battery-powered device with its projection
+ */
+interface BatteryRow {
+  device: DirigeeraDevice;
+  level: number;
+  status: BatteryStatus;
+  emptyDate: Date | null;
+  lastReadingAt?: string;
+}
+
+/**
+ * Order rows by urgency: critical, then low, then the rest; within each
+ * status the earliest projected replacement first, devices without a
+ * projection after those with one, and the lowest level first
+ */
+function compareUrgency(a: BatteryRow, b: BatteryRow): number {
+  const byStatus = STATUS_RANK[a.status] - STATUS_RANK[b.status];
+  if (byStatus !== 0) {
+    return byStatus;
+  }
+  if (a.emptyDate && b.emptyDate) {
+    return a.emptyDate.getTime() - b.emptyDate.getTime();
+  }
+  if (a.emptyDate || b.emptyDate) {
+    return a.emptyDate ? -1 : 1;
+  }
+  return a.level - b.level;
+}
+
+/**
+ * Text for a projected replacement date
+ */
+function describeReplacement(emptyDate: Date | null): string {
+  if (!emptyDate) {
+    return 'Not enough readings for a projection yet';
+  }
+  const days = differenceInCalendarDays(emptyDate, new Date());
+  if (days <= 0) {
+    return 'Replace now';
+  }
+  return `Replace by ${format(emptyDate, 'd MMM yyyy')} (in ${days} ${days === 1 ? 'day' : 'days'})`;
+}
+
+function BatteryRowCard({ row, hubName }: { row: BatteryRow; hubName?: string }) {
+  const { device, level, status, emptyDate, lastReadingAt } = row;
+
+  return (
+    <Card className={cn(status === 'critical' && 'border-red-500', status === 'low' && 'border-amber-400')}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="font-semibold truncate">{device.customName || device.id}</p>
+            <p className="text-sm text-muted-foreground truncate">
+              {[hubName, device.room?.name, device.attributes.model].filter(Boolean).join(' • ')}
+            </p>
+          </div>
+          <BatteryBadge level={level} />
+        </div>
+        <div className="h-2 rounded-full bg-muted overflow-hidden">
+          <div
+            className={cn('h-full rounded-full', STATUS_BAR_CLASSES[status])}
+            style={{ width: `${Math.min(100, Math.max(0, level))}%` }}
+          />
+        </div>
+        <div className="flex flex-wrap justify-between gap-x-4 text-sm">
+          <span className={cn(emptyDate ? 'font-medium' : 'text-muted-foreground')}>
+            {describeReplacement(emptyDate)}
+          </span>
+          {lastReadingAt && (
+            <span className="text-muted-foreground">Last stored {formatRelativeTime(lastReadingAt)}</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function Batteries() {
+  const { data: devices, isLoading } = useSensorData();
+  const [readings, setReadings] = useState<SensorReading[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const hubNames = useMemo(
+    () => new Map(getHubProfiles().map((profile) => [profile.id, profile.name])),
+    []
+  );
+
+  useEffect(() => {
+    async function fetchReadings() {
+      try {
+        const now = new Date();
+        const data = await querySensorReadings({
+          types: ['battery'],
+          timeRange: {
+            start: subDays(now, BATTERY_HISTORY_DAYS).toISOString(),
+            end: now.toISOString(),
+          },
+        });
+        setReadings(data);
+      } catch (err) {
+        console.error('Failed to load battery readings:', err);
+        setError('Failed to load stored battery readings.');
+        setReadings([]);
+      }
+    }
+
+    fetchReadings();
+  }, []);
+
+  const rows = useMemo((): BatteryRow[] => {
+    const byDevice = new Map<string, SensorReading[]>();
+    for (const reading of readings ?? []) {
+      const key = getDeviceKey(reading);
+      byDevice.set(key, [...(byDevice.get(key) ?? []), reading]);
+    }
+
+    return (devices ?? [])
+      .flatMap((device): BatteryRow[] => {
+        const level = getBatteryLevel(device);
+        if (level === undefined) {
+          return [];
+        }
+        // Readings are sorted newest first
+        const deviceReadings = byDevice.get(getDeviceKey({ hubId: device.hubId, deviceId: device.id })) ?? [];
+        return [
+          {
+            device,
+            level,
+            status: getBatteryStatus(level),
+            emptyDate: projectBatteryEmptyDate(deviceReadings),
+            lastReadingAt: deviceReadings[0]?.timestamp,
+          },
+        ];
+      })
+      .sort(compareUrgency);
+  }, [devices, readings]);
+
+  if (isLoading || readings === null) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-24" />
+        <Skeleton className="h-24" />
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return (
+      <Alert>
+        <BatteryFull className="h-4 w-4" />
+        <AlertTitle>No battery-powered devices</AlertTitle>
+        <AlertDescription>
+          None of your devices report a battery level. Sensors and remotes such as IKEA TIMMERFLOTTE,
+          PARASOLL, VALLHORN and STYRBAR show up here once they are paired with the hub.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const counts = rows.reduce(
+    (total, row) => ({ ...total, [row.status]: total[row.status] + 1 }),
+    { critical: 0, low: 0, ok: 0 } as Record<BatteryStatus, number>
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Overview</CardTitle>
+          <CardDescription>
+            {rows.length} battery-powered {rows.length === 1 ? 'device' : 'devices'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-3xl font-bold text-red-600 dark:text-red-400">{counts.critical}</p>
+            <p className="text-sm text-muted-foreground">Critical</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold text-amber-600 dark:text-amber-400">{counts.low}</p>
+            <p className="text-sm text-muted-foreground">Low</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold text-green-600 dark:text-green-400">{counts.ok}</p>
+            <p className="text-sm text-muted-foreground">OK</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {rows.map((row) => (
+          <BatteryRowCard
+            key={`${row.device.hubId}:${row.device.id}`}
+            row={row}
+            hubName={hubNames.size > 1 ? hubNames.get(row.device.hubId ?? '') : undefined}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * BatteryBadge Component
+ *
+ * Small badge with a device's battery level, colored by battery status.
+ */
+
+import { Battery, BatteryLow, BatteryWarning } from 'lucide-react';
+import { getBatteryStatus } from '@/lib/utils/battery';
+import { formatPercentage } from '@/lib/utils/formatters';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+const STATUS_CLASSES = {
+  ok: 'border-green-500/40 text-green-700 dark:text-green-400',
+  low: 'border-amber-500/60 text-amber-700 dark:text-amber-400',
+  critical: 'border-red-500/60 bg-red-50 text-red-700 dark:bg-red-950/30 dark:text-red-400',
+};
+
+export function BatteryBadge({ level, className }: { level: number; className?: string }) {
+  const status = getBatteryStatus(level);
+  const Icon = status === 'critical' ? BatteryWarning : status === 'low' ? BatteryLow : Battery;
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn('gap-1 shrink-0', STATUS_CLASSES[status], className)}
+      title={`Battery ${formatPercentage(level, 0, false)}`}
+    >
+      <Icon className="w-3.5 h-3.5" />
+      {formatPercentage(level, 0, false)}
+    </Badge>
+  );
+}
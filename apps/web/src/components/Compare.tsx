@@ -0,0 +1,340 @@
+/**
+ * Compare Component
+ *
+ * Overlays the history of any number of environment sensors, one chart per
+ * selected metric on a shared time axis, with a combined CSV export.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import { format, subDays, subHours } from 'date-fns';
+import { Check, Download, GitCompare } from 'lucide-react';
+import { isEnvironmentSensor, type SensorReading } from '@zigbee-visualizer/shared-types';
+import { useSensorData } from '@/lib/api/hooks/useSensorData';
+import { querySensorReadings } from '@/lib/storage/history';
+import { getHubProfiles } from '@/lib/storage/config';
+import { getDeviceKey, parseDeviceKey } from '@/lib/utils/devices';
+import {
+  ENVIRONMENT_METRICS,
+  getSeriesColor,
+  mergeSeriesByTime,
+  METRIC_INFO,
+  type EnvironmentMetric,
+} from '@/lib/utils/metrics';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { OverlayChart, type OverlaySeries } from '@/components/OverlayChart';
+import { cn } from '@/lib/utils';
+
+type TimeRangeOption = '24h' | '7d' | '30d';
+
+const RANGE_OPTIONS: { value: TimeRangeOption; label: string }[] = [
+  { value: '24h', label: 'Last 24h' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+];
+
+/**
+ * Rows of the CSV export are one minute apart, about the snapshot interval
+ */
+const CSV_BUCKET_MS = 60 * 1000;
+
+/**
+ * Devices and metrics being compared
+ */
+export interface CompareSelection {
+  /** Device keys (see getDeviceKey), in the order they were picked */
+  devices: string[];
+  metrics: EnvironmentMetric[];
+}
+
+interface CompareProps {
+  selection: CompareSelection;
+  onSelectionChange: (selection: CompareSelection) => void;
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function escapeCsvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toggleItem<T>(items: T[], item: T): T[] {
+  return items.includes(item) ? items.filter((entry) => entry !== item) : [...items, item];
+}
+
+export function Compare({ selection, onSelectionChange }: CompareProps) {
+  const { data: devices, isLoading } = useSensorData();
+  const [timeRange, setTimeRange] = useState<TimeRangeOption>('24h');
+  const [readings, setReadings] = useState<SensorReading[] | null>(null);
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null);
+  const [hiddenKeys, setHiddenKeys] = useState<ReadonlySet<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const sensors = useMemo(() => (devices ?? []).filter(isEnvironmentSensor), [devices]);
+
+  // Display names by device key; devices of different hubs may share a name
+  const sensorNames = useMemo(() => {
+    const hubNames = new Map(getHubProfiles().map((profile) => [profile.id, profile.name]));
+    return new Map(
+      sensors.map((sensor) => {
+        const name = sensor.customName || sensor.id;
+        const hubName = hubNames.size > 1 && sensor.hubId ? hubNames.get(sensor.hubId) : undefined;
+        return [
+          getDeviceKey({ hubId: sensor.hubId, deviceId: sensor.id }),
+          hubName ? `${name} (${hubName})` : name,
+        ];
+      })
+    );
+  }, [sensors]);
+  const getSensorName = (key: string) => sensorNames.get(key) ?? parseDeviceKey(key).deviceId;
+
+  const selectedDevices = selection.devices.join(',');
+
+  useEffect(() => {
+    if (!selectedDevices) {
+      setReadings([]);
+      setRange(null);
+      return;
+    }
+
+    async function fetchReadings() {
+      try {
+        setReadings(null);
+        setError(null);
+        const now = new Date();
+        const start =
+          timeRange === '24h' ? subHours(now, 24) : subDays(now, timeRange === '7d' ? 7 : 30);
+
+        const perDevice = await Promise.all(
+          selectedDevices.split(',').map((key) =>
+            querySensorReadings({
+              ...parseDeviceKey(key),
+              types: ENVIRONMENT_METRICS,
+              timeRange: { start: start.toISOString(), end: now.toISOString() },
+            })
+          )
+        );
+        setReadings(perDevice.flat());
+        setRange({ start: start.getTime(), end: now.getTime() });
+      } catch (err) {
+        console.error('Failed to load comparison readings:', err);
+        setError('Failed to load the history of the selected devices.');
+        setReadings([]);
+      }
+    }
+
+    fetchReadings();
+  }, [selectedDevices, timeRange]);
+
+  // One series per selected device and metric; a device keeps its colour
+  // across the charts
+  const seriesByMetric = useMemo(() => {
+    return selection.metrics.map((metric) => {
+      const series: OverlaySeries[] = selection.devices.map((key, index) => ({
+        key,
+        name: sensorNames.get(key) ?? parseDeviceKey(key).deviceId,
+        color: getSeriesColor(index),
+        points: (readings ?? [])
+          .filter((reading) => reading.type === metric && getDeviceKey(reading) === key)
+          .map((reading) => ({ time: new Date(reading.timestamp).getTime(), value: reading.value })),
+      }));
+      return { metric, series };
+    });
+  }, [selection, readings, sensorNames]);
+
+  const toggleSeries = (key: string) => {
+    setHiddenKeys((current) => {
+      const next = new Set(current);
+      if (!next.delete(key)) {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  // Export every selected device and metric as one table, a column per series
+  const exportToCSV = () => {
+    const columns = seriesByMetric.flatMap(({ metric, series }) =>
+      series.map((entry) => ({
+        key: `${metric}|${entry.key}`,
+        header: `${entry.name} ${METRIC_INFO[metric].label} (${METRIC_INFO[metric].unit})`,
+        decimals: METRIC_INFO[metric].decimals,
+        points: entry.points,
+      }))
+    );
+    const rows = mergeSeriesByTime(columns, CSV_BUCKET_MS).map((row) => [
+      new Date(row.time).toISOString(),
+      ...columns.map((column) => row[column.key]?.toFixed(column.decimals) ?? ''),
+    ]);
+
+    const headers = ['Timestamp', ...columns.map((column) => escapeCsvField(column.header))];
+    const csv = [headers, ...rows].map((row) => row.join(',')).join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sensor-comparison-${timeRange}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-32" />
+        <Skeleton className="h-80" />
+      </div>
+    );
+  }
+
+  if (sensors.length === 0) {
+    return (
+      <Alert>
+        <GitCompare className="h-4 w-4" />
+        <AlertTitle>No environment sensors</AlertTitle>
+        <AlertDescription>
+          None of your devices records temperature, humidity or air quality.{' '}
+          <Link to="/dashboard" className="underline">
+            Back to the Dashboard
+          </Link>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const hasReadings = seriesByMetric.some(({ series }) =>
+    series.some((entry) => entry.points.length > 0)
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Devices and metrics</CardTitle>
+          <CardDescription>
+            Pick the sensors to overlay and the metrics to chart. Click a name in a chart legend to
+            hide its line.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {sensors.map((sensor) => {
+              const key = getDeviceKey({ hubId: sensor.hubId, deviceId: sensor.id });
+              const index = selection.devices.indexOf(key);
+              return (
+                <Button
+                  key={key}
+                  variant="outline"
+                  size="sm"
+                  className={cn(index >= 0 && 'border-2')}
+                  style={index >= 0 ? { borderColor: getSeriesColor(index) } : undefined}
+                  onClick={() =>
+                    onSelectionChange({ ...selection, devices: toggleItem(selection.devices, key) })
+                  }
+                >
+                  {index >= 0 && (
+                    <span
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: getSeriesColor(index) }}
+                    />
+                  )}
+                  {getSensorName(key)}
+                </Button>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2">
+              {ENVIRONMENT_METRICS.map((metric) => {
+                const selected = selection.metrics.includes(metric);
+                return (
+                  <Button
+                    key={metric}
+                    variant={selected ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() =>
+                      onSelectionChange({
+                        ...selection,
+                        // Keep the display order whatever order metrics are picked in
+                        metrics: ENVIRONMENT_METRICS.filter((entry) =>
+                          toggleItem(selection.metrics, metric).includes(entry)
+                        ),
+                      })
+                    }
+                  >
+                    {selected && <Check className="h-4 w-4" />}
+                    {METRIC_INFO[metric].label}
+                  </Button>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex border border-border rounded-lg p-1">
+                {RANGE_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant={timeRange === option.value ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => setTimeRange(option.value)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <Button variant="outline" size="sm" onClick={exportToCSV} disabled={!hasReadings}>
+                <Download className="h-4 w-4" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {selection.devices.length === 0 || selection.metrics.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Pick at least one device and one metric to compare.
+        </p>
+      ) : readings === null ? (
+        <Skeleton className="h-80" />
+      ) : !range || !hasReadings ? (
+        <p className="text-sm text-muted-foreground">
+          No readings stored for the selected devices in this range yet.
+        </p>
+      ) : (
+        seriesByMetric.map(({ metric, series }) => (
+          <Card key={metric}>
+            <CardHeader>
+              <CardTitle>{METRIC_INFO[metric].label}</CardTitle>
+              <CardDescription>
+                {series.length} {series.length === 1 ? 'device' : 'devices'} •{' '}
+                {RANGE_OPTIONS.find((option) => option.value === timeRange)?.label}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OverlayChart
+                metric={metric}
+                series={series}
+                range={range}
+                hiddenKeys={hiddenKeys}
+                onToggleSeries={toggleSeries}
+              />
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * ConnectivityIndicator Component
+ *
+ * Shows whether the configured hubs are reachable, as tracked by the hub
+ * transport: a compact badge for the header and a banner for pages that keep
+ * showing the last known data while a hub is down.
+ */
+
+import { AlertTriangle, WifiOff } from 'lucide-react';
+import { useHubConnectivity } from '@/lib/api/hooks/useHubConnectivity';
+import type { ConnectivityStatus } from '@/lib/api/transport';
+import { formatRelativeTime } from '@/lib/utils/formatters';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+const STATUS_LABELS: Record<ConnectivityStatus, string> = {
+  online: 'Online',
+  degraded: 'Degraded',
+  offline: 'Offline',
+};
+
+const STATUS_STYLES: Record<ConnectivityStatus, { badge: string; dot: string }> = {
+  online: {
+    badge: 'border-green-500/50 text-green-700 dark:text-green-400',
+    dot: 'bg-green-500',
+  },
+  degraded: {
+    badge: 'border-amber-500/50 text-amber-700 dark:text-amber-400',
+    dot: 'bg-amber-500',
+  },
+  offline: {
+    badge: 'border-red-500/50 text-red-700 dark:text-red-400',
+    dot: 'bg-red-500',
+  },
+};
+
+/**
+ * Compact hub connectivity badge
+ * Renders nothing until a hub has answered (or failed) a request
+ */
+export function ConnectivityIndicator({ className }: { className?: string }) {
+  const connectivity = useHubConnectivity();
+
+  if (!connectivity) {
+    return null;
+  }
+
+  const { status, since, lastError } = connectivity;
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn('gap-1.5', STATUS_STYLES[status].badge, className)}
+      title={`Hub ${STATUS_LABELS[status].toLowerCase()} for ${formatRelativeTime(since, false)}${
+        lastError ? `\n${lastError}` : ''
+      }`}
+    >
+      <span className={cn('h-2 w-2 rounded-full', STATUS_STYLES[status].dot)} />
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+/**
+ * Banner explaining that data may be stale while a hub is degraded or offline
+ * Renders nothing while every hub is online
+ */
+export function ConnectivityBanner({ className }: { className?: string }) {
+  const connectivity = useHubConnectivity();
+
+  if (!connectivity || connectivity.status === 'online') {
+    return null;
+  }
+
+  const { status, since, retryAt } = connectivity;
+
+  if (status === 'offline') {
+    return (
+      <Alert variant="destructive" className={className}>
+        <WifiOff className="h-4 w-4" />
+        <AlertTitle>Hub offline for {formatRelativeTime(since, false)}</AlertTitle>
+        <AlertDescription>
+          Showing the last known values.
+          {retryAt && ` The next connection attempt is ${formatRelativeTime(retryAt)}.`}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Hub connection degraded</AlertTitle>
+      <AlertDescription>
+        Requests have needed retries or failed for {formatRelativeTime(since, false)}. Values
+        may be delayed.
+      </AlertDescription>
+    </Alert>
+  );
+}
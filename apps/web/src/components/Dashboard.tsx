@@ -2,10 +2,12 @@
  * Dashboard Component
  *
  * Main screen showing all environment sensors with real-time data,
- * air quality indicators, and historical data storage.
+ * air quality indicators, and historical data storage, followed by the
+ * other devices on the hub grouped by family. Sensors are shown in one grid
+ * or grouped by room.
  */
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { Link } from '@tanstack/react-router';
 import {
   Thermometer,
@@ -17,8 +19,13 @@ import {
   AlertCircle,
   TrendingUp,
   Activity,
+  Radio,
+  FlaskConical,
+  LayoutGrid,
+  House,
 } from 'lucide-react';
-import { useSensorData } from '@/lib/api/hooks/useSensorData';
+import { useAllRooms, useSensorData } from '@/lib/api/hooks/useSensorData';
+import { useEventStreamStatus } from '@/lib/api/hooks/useDeviceEvents';
 import {
   formatTemperature,
   formatHumidity,
@@ -29,13 +36,121 @@ import {
   getAirQualityColor,
   formatDeviceStatus,
 } from '@/lib/utils/formatters';
-import { storeDeviceSnapshot, cleanupOldReadings } from '@/lib/storage/history';
-import type { EnvironmentSensorDevice } from '@zigbee-visualizer/shared-types';
+import {
+  storeDeviceSnapshot,
+  storeDailyBatteryReading,
+} from '@/lib/storage/history';
+import { recordDeviceStates } from '@/lib/storage/events';
+import { isEnergyMonitoringOutlet } from '@/lib/utils/energy';
+import { getFanSpeedPercent } from '@/lib/utils/purifier';
+import {
+  getDashboardLayout,
+  getHubProfiles,
+  isDemoMode,
+  saveDashboardLayout,
+  type DashboardLayout,
+} from '@/lib/storage/config';
+import { groupSensorsByRoom } from '@/lib/utils/rooms';
+import {
+  isAirPurifier,
+  isEnvironmentSensor,
+  isOutlet,
+  type BatteryReading,
+  type DeviceSensorSnapshot,
+  type DeviceType,
+  type DirigeeraDevice,
+  type EnvironmentSensorDevice,
+} from '@zigbee-visualizer/shared-types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
+import { ConnectivityBanner } from '@/components/ConnectivityIndicator';
+import { DeviceNameEditor } from '@/components/DeviceNameEditor';
+import { BatteryBadge } from '@/components/BatteryBadge';
+import { DeviceCard, PurifierCard, type NonSensorDevice } from '@/components/DeviceCards';
+import { RoomHeader } from '@/components/RoomHeader';
+
+/**
+ * Time between stored snapshots of the same device
+ * Event stream updates can arrive many times per minute, or not at all while
+ * a sensor's values hold steady; history keeps the same cadence as the
+ * polling fallback either way
+ */
+const SNAPSHOT_INTERVAL_MS = 30000;
+
+/**
+ * Dashboard sections for the device families below the environment sensors,
+ * in display order
+ */
+const DEVICE_SECTIONS: { type: Exclude<DeviceType, 'environment_sensor'>; title: string }[] = [
+  { type: 'light', title: 'Lights' },
+  { type: 'outlet', title: 'Outlets' },
+  { type: 'blinds', title: 'Blinds' },
+  { type: 'controller', title: 'Controllers' },
+  { type: 'motion_sensor', title: 'Motion Sensors' },
+  { type: 'open_close_sensor', title: 'Doors & Windows' },
+  { type: 'water_sensor', title: 'Water Leak Sensors' },
+];
+
+/**
+ * Build the history snapshot of a device
+ * History covers environment sensor readings (with the fan speed of air
+ * purifiers) and the power and energy of energy monitoring outlets
+ * @returns Snapshot, or null if the device has nothing to record
+ */
+function toHistorySnapshot(device: DirigeeraDevice, timestamp: string): DeviceSensorSnapshot | null {
+  const base = {
+    hubId: device.hubId,
+    deviceId: device.id,
+    deviceName: device.customName,
+    roomName: device.room?.name,
+    timestamp,
+  };
+
+  if (isEnvironmentSensor(device)) {
+    return {
+      ...base,
+      temperature: device.attributes.currentTemperature,
+      humidity: device.attributes.currentRH,
+      pm25: device.attributes.currentPM25,
+      vocIndex: device.attributes.vocIndex,
+      fanSpeed: getFanSpeedPercent(device.attributes),
+    };
+  }
+
+  if (isOutlet(device) && isEnergyMonitoringOutlet(device)) {
+    return {
+      ...base,
+      power: device.attributes.currentActivePower,
+      energy: device.attributes.totalEnergyConsumed,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Build the battery reading of a battery-powered device
+ * @returns Reading, or null if the device reports no battery level
+ */
+function toBatteryReading(device: DirigeeraDevice, timestamp: string): BatteryReading | null {
+  const { batteryPercentage } = device.attributes;
+  if (typeof batteryPercentage !== 'number') {
+    return null;
+  }
+  return {
+    hubId: device.hubId,
+    deviceId: device.id,
+    deviceName: device.customName,
+    roomName: device.room?.name,
+    timestamp,
+    type: 'battery',
+    value: batteryPercentage,
+    unit: '%',
+  };
+}
 
 /**
  * Loading skeleton for sensor cards
@@ -57,7 +172,7 @@ function SensorCardSkeleton() {
 }
 
 /**
- * Empty state when no sensors are found
+ * Empty state when the hub reports no devices
  */
 function EmptyState() {
   return (
@@ -66,11 +181,11 @@ function EmptyState() {
         <Activity className="w-12 h-12 text-indigo-600 dark:text-indigo-400" />
       </div>
       <h3 className="text-2xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
-        No Sensors Found
+        No Devices Found
       </h3>
       <p className="text-gray-600 dark:text-gray-400 text-center max-w-md">
-        No environment sensors are currently connected to your Dirigera hub.
-        Make sure your sensors are powered on and paired with the hub.
+        No devices are currently connected to your Dirigera hub.
+        Make sure your devices are powered on and paired with the hub.
       </p>
     </div>
   );
@@ -178,11 +293,82 @@ function StatsOverview({ sensors }: { sensors: EnvironmentSensorDevice[] }) {
   );
 }
 
+/**
+ * Indicator showing whether updates arrive live or by polling
+ */
+function LiveIndicator() {
+  const status = useEventStreamStatus();
+  const isLive = status === 'open';
+
+  if (isDemoMode()) {
+    return (
+      <Badge
+        variant="outline"
+        className="gap-1.5 border-amber-500/50 text-amber-700 dark:text-amber-400"
+        title="Synthetic data from the built-in demo hub, refreshed every 30 seconds"
+      >
+        <FlaskConical className="w-3 h-3" />
+        Demo
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'gap-1.5',
+        isLive
+          ? 'border-green-500/50 text-green-700 dark:text-green-400'
+          : 'text-gray-600 dark:text-gray-400'
+      )}
+      title={isLive ? 'Receiving updates from the hub event stream' : 'Event stream unavailable, polling every 30 seconds'}
+    >
+      <Radio className="w-3 h-3" />
+      {isLive ? 'Live' : 'Polling'}
+    </Badge>
+  );
+}
+
+/**
+ * Switch between the sensor grid and the room view
+ */
+function LayoutToggle({
+  layout,
+  onChange,
+}: {
+  layout: DashboardLayout;
+  onChange: (layout: DashboardLayout) => void;
+}) {
+  return (
+    <div className="flex border border-border rounded-lg p-1">
+      <Button
+        variant={layout === 'grid' ? 'default' : 'ghost'}
+        size="sm"
+        className="gap-1.5"
+        onClick={() => onChange('grid')}
+      >
+        <LayoutGrid className="w-4 h-4" />
+        Grid
+      </Button>
+      <Button
+        variant={layout === 'rooms' ? 'default' : 'ghost'}
+        size="sm"
+        className="gap-1.5"
+        onClick={() => onChange('rooms')}
+      >
+        <House className="w-4 h-4" />
+        Rooms
+      </Button>
+    </div>
+  );
+}
+
 /**
  * Individual sensor card displaying all sensor metrics
  */
-function SensorCard({ sensor }: { sensor: EnvironmentSensorDevice }) {
-  const { attributes, room, customName, id, isReachable } = sensor;
+function SensorCard({ sensor, hubName }: { sensor: EnvironmentSensorDevice; hubName?: string }) {
+  const { attributes, room, customName, id, isReachable, hubId, capabilities } = sensor;
   const { currentTemperature, currentRH, currentPM25, vocIndex } = attributes;
 
   // Determine air quality color based on PM2.5
@@ -196,36 +382,52 @@ function SensorCard({ sensor }: { sensor: EnvironmentSensorDevice }) {
   // Use a timestamp for "last updated" - in real scenarios this would come from the device
   const lastUpdated = new Date().toISOString();
 
+  // The link covers the whole card; the name editor sits above it, as a
+  // form cannot be nested in a link
   return (
-    <Link
-      to="/history/$deviceId"
-      params={{ deviceId: id }}
-      className="block group"
-    >
-      <Card className="h-full overflow-hidden transition-all duration-300 hover:shadow-xl hover:scale-[1.02] hover:border-indigo-300 dark:hover:border-indigo-700 cursor-pointer">
+    <div className="relative h-full group">
+      <Card className="relative h-full overflow-hidden transition-all duration-300 group-hover:shadow-xl group-hover:scale-[1.02] group-hover:border-indigo-300 dark:group-hover:border-indigo-700">
+        <Link
+          to="/history/$deviceId"
+          params={{ deviceId: id }}
+          search={{ hubId }}
+          className="absolute inset-0 z-0"
+          aria-label={`History of ${customName || id}`}
+        />
         {/* Gradient header with device name */}
         <div className="bg-gradient-to-br from-indigo-500 to-teal-500 p-6 text-white">
           <div className="flex items-start justify-between mb-2">
             <div className="flex-1">
-              <h3 className="text-xl font-bold mb-1">
-                {customName || id}
-              </h3>
-              {room && (
+              <div className="relative z-10 mb-1 w-fit">
+                <DeviceNameEditor
+                  deviceId={id}
+                  hubId={hubId}
+                  name={customName || id}
+                  canRename={capabilities.canReceive.includes('customName')}
+                  className="text-xl font-bold"
+                  buttonClassName="text-white"
+                />
+              </div>
+              {(room || hubName) && (
                 <p className="text-indigo-100 text-sm">
-                  {room.name}
+                  {[hubName, room?.name].filter(Boolean).join(' • ')}
                 </p>
               )}
             </div>
-            <Badge
-              className={cn(
-                'ml-2',
-                isReachable
-                  ? 'bg-green-500 hover:bg-green-600 border-green-400'
-                  : 'bg-gray-500 hover:bg-gray-600 border-gray-400'
+            <div className="ml-2 flex flex-col items-end gap-1">
+              <Badge
+                className={cn(
+                  isReachable
+                    ? 'bg-green-500 hover:bg-green-600 border-green-400'
+                    : 'bg-gray-500 hover:bg-gray-600 border-gray-400'
+                )}
+              >
+                {formatDeviceStatus(isReachable)}
+              </Badge>
+              {attributes.batteryPercentage !== undefined && (
+                <BatteryBadge level={attributes.batteryPercentage} className="bg-white/90" />
               )}
-            >
-              {formatDeviceStatus(isReachable)}
-            </Badge>
+            </div>
           </div>
         </div>
 
@@ -326,7 +528,7 @@ function SensorCard({ sensor }: { sensor: EnvironmentSensorDevice }) {
           </Button>
         </CardContent>
       </Card>
-    </Link>
+    </div>
   );
 }
 
@@ -335,60 +537,94 @@ function SensorCard({ sensor }: { sensor: EnvironmentSensorDevice }) {
  */
 export function Dashboard() {
   const { data: devices, isLoading, error, refetch } = useSensorData();
-  const [lastCleanup, setLastCleanup] = useState<Date | null>(null);
+  const [layout, setLayout] = useState<DashboardLayout>(getDashboardLayout);
+  const { data: rooms } = useAllRooms({ enabled: layout === 'rooms' });
+  const lastSnapshotAt = useRef(new Map<string, number>());
+  // Day each device's battery level was last stored, to store it once a day
+  const batteryStoredOn = useRef(new Map<string, string>());
+  // Hub names are only shown on the cards when devices come from several hubs
+  const hubNames = new Map(getHubProfiles().map((profile) => [profile.id, profile.name]));
 
-  // Filter only environment sensors
-  const sensors = (devices || []).filter(
-    (device): device is EnvironmentSensorDevice =>
-      device.type === 'environment_sensor' && device.deviceType === 'environmentSensor'
+  // Environment sensors get the stats and detailed cards; everything else is grouped by family
+  const sensors = (devices || []).filter(isEnvironmentSensor);
+  // Purifiers also keep their sensor card, for air quality and history
+  const purifiers = sensors.filter(isAirPurifier);
+  const otherDevices = (devices || []).filter(
+    (device): device is NonSensorDevice => !isEnvironmentSensor(device)
   );
+  const sections = DEVICE_SECTIONS.map((section) => ({
+    ...section,
+    devices: otherDevices.filter((device) => device.type === section.type),
+  })).filter((section) => section.devices.length > 0);
+  const getHubName = (hubId?: string) =>
+    hubNames.size > 1 ? hubNames.get(hubId ?? '') : undefined;
+  const roomGroups = layout === 'rooms' ? groupSensorsByRoom(sensors, rooms ?? []) : [];
 
-  // Auto-save sensor data to IndexedDB when data is fetched
-  useEffect(() => {
-    if (devices && devices.length > 0) {
-      const saveData = async () => {
-        try {
-          for (const device of devices) {
-            if (device.type === 'environment_sensor') {
-              const sensor = device as EnvironmentSensorDevice;
-              const snapshot = {
-                deviceId: sensor.id,
-                deviceName: sensor.customName,
-                roomName: sensor.room?.name,
-                timestamp: new Date().toISOString(),
-                temperature: sensor.attributes.currentTemperature,
-                humidity: sensor.attributes.currentRH,
-                pm25: sensor.attributes.currentPM25,
-                vocIndex: sensor.attributes.vocIndex,
-              };
-              await storeDeviceSnapshot(snapshot);
-            }
-          }
-        } catch (error) {
-          console.error('Failed to save sensor data to history:', error);
-        }
-      };
-      saveData();
+  const changeLayout = (newLayout: DashboardLayout) => {
+    setLayout(newLayout);
+    saveDashboardLayout(newLayout);
+  };
+
+  // Latest device data, for the snapshot timer
+  const latestDevices = useRef(devices);
+  latestDevices.current = devices;
+
+  // Save sensor data to IndexedDB, at most one snapshot per device per interval
+  const saveToHistory = useCallback(async (current: DirigeeraDevice[] | undefined) => {
+    if (!current || current.length === 0) {
+      return;
     }
-  }, [devices]);
 
-  // Cleanup old readings periodically (once per session or every hour)
-  useEffect(() => {
-    const shouldCleanup = !lastCleanup || Date.now() - lastCleanup.getTime() > 3600000; // 1 hour
-
-    if (shouldCleanup) {
-      const cleanup = async () => {
-        try {
-          const deletedCount = await cleanupOldReadings();
-          console.log(`Cleaned up ${deletedCount} old sensor readings`);
-          setLastCleanup(new Date());
-        } catch (error) {
-          console.error('Failed to cleanup old readings:', error);
+    try {
+      const now = Date.now();
+      const today = new Date(now).toDateString();
+      // Motion and door/window sensors are stored as state changes instead
+      await recordDeviceStates(current, new Date(now).toISOString());
+
+      for (const device of current) {
+        const snapshotKey = `${device.hubId}:${device.id}`;
+
+        const batteryReading = toBatteryReading(device, new Date(now).toISOString());
+        if (batteryReading && batteryStoredOn.current.get(snapshotKey) !== today) {
+          batteryStoredOn.current.set(snapshotKey, today);
+          await storeDailyBatteryReading(batteryReading);
+        }
+
+        // An unreachable device only repeats its last values; the gap
+        // is shown as an offline band in History instead
+        if (!device.isReachable) {
+          continue;
+        }
+
+        const lastSaved = lastSnapshotAt.current.get(snapshotKey);
+        if (lastSaved !== undefined && now - lastSaved < SNAPSHOT_INTERVAL_MS) {
+          continue;
+        }
+
+        const snapshot = toHistorySnapshot(device, new Date().toISOString());
+        if (snapshot) {
+          lastSnapshotAt.current.set(snapshotKey, now);
+          await storeDeviceSnapshot(snapshot);
         }
-      };
-      cleanup();
+      }
+    } catch (error) {
+      console.error('Failed to save sensor data to history:', error);
     }
-  }, [lastCleanup]);
+  }, []);
+
+  // Auto-save sensor data to IndexedDB when data is fetched or streamed
+  useEffect(() => {
+    saveToHistory(devices);
+  }, [devices, saveToHistory]);
+
+  // The event stream only delivers changes and polling pauses while it is
+  // open, so unchanged sensors are stored on a timer instead
+  useEffect(() => {
+    const timer = setInterval(() => {
+      saveToHistory(latestDevices.current);
+    }, SNAPSHOT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [saveToHistory]);
 
   // Loading state
   if (isLoading) {
@@ -415,8 +651,8 @@ export function Dashboard() {
     );
   }
 
-  // Error state
-  if (error) {
+  // Error state (with cached data, the connectivity banner explains the failure instead)
+  if (error && !devices) {
     return (
       <div className="container mx-auto px-4 py-8">
         <ErrorState error={error} onRetry={() => refetch()} />
@@ -425,16 +661,16 @@ export function Dashboard() {
   }
 
   // Empty state
-  if (sensors.length === 0) {
+  if (!devices || devices.length === 0) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="flex items-center justify-between mb-8">
           <div>
             <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
-              Environment Sensors
+              Devices
             </h1>
             <p className="text-gray-600 dark:text-gray-400 mt-1">
-              Monitor temperature, humidity, and air quality across your home
+              Monitor air quality, lights and sensors across your home
             </p>
           </div>
           <Button onClick={() => refetch()} variant="outline" className="gap-2">
@@ -454,31 +690,113 @@ export function Dashboard() {
       <div className="flex items-center justify-between mb-8">
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
-            Environment Sensors
+            Devices
           </h1>
           <p className="text-gray-600 dark:text-gray-400 mt-1">
-            Monitor temperature, humidity, and air quality across your home
+            Monitor air quality, lights and sensors across your home
           </p>
         </div>
-        <Button
-          onClick={() => refetch()}
-          variant="outline"
-          className="gap-2 hover:bg-indigo-50 hover:text-indigo-700 dark:hover:bg-indigo-950 dark:hover:text-indigo-300"
-        >
-          <RefreshCw className="w-4 h-4" />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-3">
+          <LiveIndicator />
+          {sensors.length > 0 && <LayoutToggle layout={layout} onChange={changeLayout} />}
+          <Button
+            onClick={() => refetch()}
+            variant="outline"
+            className="gap-2 hover:bg-indigo-50 hover:text-indigo-700 dark:hover:bg-indigo-950 dark:hover:text-indigo-300"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </Button>
+        </div>
       </div>
 
-      {/* Stats Overview */}
-      <StatsOverview sensors={sensors} />
+      {/* Hub connectivity */}
+      <ConnectivityBanner className="mb-8" />
 
-      {/* Sensor Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-        {sensors.map((sensor) => (
-          <SensorCard key={sensor.id} sensor={sensor} />
-        ))}
-      </div>
+      {sensors.length > 0 && (
+        <>
+          {/* Stats Overview */}
+          <StatsOverview sensors={sensors} />
+
+          {layout === 'grid' ? (
+            /* Sensor Grid */
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {sensors.map((sensor) => (
+                <SensorCard
+                  key={`${sensor.hubId}:${sensor.id}`}
+                  sensor={sensor}
+                  hubName={getHubName(sensor.hubId)}
+                />
+              ))}
+            </div>
+          ) : (
+            /* Sensors by room */
+            <div className="space-y-10">
+              {roomGroups.map((group) => (
+                <section key={group.key} className="space-y-4">
+                  <RoomHeader
+                    room={group.room}
+                    sensors={group.sensors}
+                    hubName={group.room && getHubName(group.room.hubId)}
+                    showHistoryLink
+                  />
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                    {group.sensors.map((sensor) => (
+                      <SensorCard
+                        key={`${sensor.hubId}:${sensor.id}`}
+                        sensor={sensor}
+                        hubName={getHubName(sensor.hubId)}
+                      />
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Air purifier controls and filter status */}
+      {purifiers.length > 0 && (
+        <section className="mt-10">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            Air Purifiers
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              {purifiers.length}
+            </span>
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {purifiers.map((purifier) => (
+              <PurifierCard
+                key={`${purifier.hubId}:${purifier.id}`}
+                device={purifier}
+                hubName={getHubName(purifier.hubId)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Other device families */}
+      {sections.map((section) => (
+        <section key={section.type} className="mt-10">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            {section.title}
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              {section.devices.length}
+            </span>
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {section.devices.map((device) => (
+              <DeviceCard
+                key={`${device.hubId}:${device.id}`}
+                device={device}
+                hubName={getHubName(device.hubId)}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
     </div>
   );
 }
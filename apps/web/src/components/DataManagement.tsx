@@ -0,0 +1,608 @@
+/**
+ * DataManagement Component
+ *
+ * Local data settings: how much of the browser's storage the app uses and
+ * whether it is safe from eviction, the size of the stored history, and
+ * how long each resolution of it is kept per metric and per device.
+ */
+
+import { useMemo, useState, type FormEvent } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, HardDrive, Plus, Trash2 } from 'lucide-react';
+import {
+  hasBattery,
+  isEnvironmentSensor,
+  isOutlet,
+  type ReadingResolution,
+  type SensorReadingType,
+} from '@zigbee-visualizer/shared-types';
+import { useSensorData } from '@/lib/api/hooks/useSensorData';
+import { storageQueryKeys, useStorageQuota, useStorageStats } from '@/lib/api/hooks/useStorage';
+import {
+  getHubProfiles,
+  getLastCleanup,
+  getRetentionSettings,
+  resolveRetentionPolicy,
+  saveRetentionSettings,
+  type RetentionPolicy,
+  type RetentionSettings,
+} from '@/lib/storage/config';
+import { runCleanup, type CleanupResult } from '@/lib/storage/maintenance';
+import { getDeviceKey, parseDeviceKey } from '@/lib/utils/devices';
+import { DAILY_CONSUMPTION_DAYS, isEnergyMonitoringOutlet } from '@/lib/utils/energy';
+import { isNearQuota, requestPersistentStorage } from '@/lib/utils/quota';
+import {
+  formatBytes,
+  formatDateTime,
+  formatNumber,
+  formatPercentage,
+  formatRelativeTime,
+} from '@/lib/utils/formatters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+
+const RESOLUTIONS: { value: ReadingResolution; label: string }[] = [
+  { value: 'raw', label: 'Raw' },
+  { value: '5m', label: '5-minute' },
+  { value: '1h', label: 'Hourly' },
+  { value: '1d', label: 'Daily' },
+];
+
+const METRIC_LABELS: Record<SensorReadingType, string> = {
+  temperature: 'Temperature',
+  humidity: 'Humidity',
+  pm25: 'PM2.5',
+  voc: 'VOC',
+  power: 'Power',
+  energy: 'Energy',
+  fanSpeed: 'Fan speed',
+  battery: 'Battery',
+};
+
+const METRICS = Object.keys(METRIC_LABELS) as SensorReadingType[];
+
+/**
+ * Metrics the Energy page computes its daily bars from
+ */
+const ENERGY_METRICS: SensorReadingType[] = ['power', 'energy'];
+
+/**
+ * Days per resolution as typed; empty means inherited
+ */
+type PolicyDraft = Record<ReadingResolution, string>;
+
+function toDraft(policy: Partial<RetentionPolicy> = {}): PolicyDraft {
+  return {
+    raw: policy.raw?.toString() ?? '',
+    '5m': policy['5m']?.toString() ?? '',
+    '1h': policy['1h']?.toString() ?? '',
+    '1d': policy['1d']?.toString() ?? '',
+  };
+}
+
+/**
+ * Parse a draft; throws on anything but whole days of at least one
+ */
+function parseDraft(draft: PolicyDraft, name: string): Partial<RetentionPolicy> {
+  const policy: Partial<RetentionPolicy> = {};
+  for (const { value: resolution, label } of RESOLUTIONS) {
+    const text = draft[resolution].trim();
+    if (text === '') {
+      continue;
+    }
+    const days = Number(text);
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error(`${name}: enter whole days of at least 1 for ${label.toLowerCase()}`);
+    }
+    policy[resolution] = days;
+  }
+  return policy;
+}
+
+/**
+ * Table row of retention inputs; empty inputs show the inherited days
+ */
+function PolicyRow({
+  label,
+  draft,
+  inherited,
+  onChange,
+  onRemove,
+}: {
+  label: string;
+  draft: PolicyDraft;
+  inherited?: RetentionPolicy;
+  onChange: (draft: PolicyDraft) => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-2 pr-4 font-medium">{label}</td>
+      {RESOLUTIONS.map(({ value, label: resolutionLabel }) => (
+        <td key={value} className="py-2 pr-2">
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            aria-label={`${label} ${resolutionLabel.toLowerCase()} retention in days`}
+            value={draft[value]}
+            placeholder={inherited?.[value].toString()}
+            onChange={(event) => onChange({ ...draft, [value]: event.target.value })}
+            className="w-24"
+          />
+        </td>
+      ))}
+      <td className="py-2">
+        {onRemove && (
+          <Button variant="ghost" size="sm" onClick={onRemove} aria-label={`Remove ${label}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Browser storage use, persistence and eviction warnings
+ */
+function StorageCard() {
+  const { data: quota, isLoading } = useStorageQuota();
+  const queryClient = useQueryClient();
+  const [denied, setDenied] = useState(false);
+
+  const persist = async () => {
+    const granted = await requestPersistentStorage();
+    setDenied(!granted);
+    queryClient.invalidateQueries({ queryKey: storageQueryKeys.quota() });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Browser storage</CardTitle>
+        <CardDescription>Space the app uses in this browser, as estimated by the browser</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-16" />
+        ) : !quota ? (
+          <Alert>
+            <HardDrive className="h-4 w-4" />
+            <AlertTitle>Storage estimate unavailable</AlertTitle>
+            <AlertDescription>
+              This browser does not report storage use. The Storage API needs HTTPS or localhost.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span>
+                  {formatBytes(quota.usage)} of {formatBytes(quota.quota)} used
+                  {quota.quota > 0 && ` (${formatPercentage(quota.usage / quota.quota, 1)})`}
+                </span>
+                <Badge variant={quota.persisted ? 'default' : 'secondary'}>
+                  {quota.persisted ? 'Persistent' : 'Best effort'}
+                </Badge>
+              </div>
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className={cn('h-full', isNearQuota(quota) ? 'bg-amber-500' : 'bg-primary')}
+                  style={{
+                    width: `${quota.quota > 0 ? Math.min(100, (quota.usage / quota.quota) * 100) : 0}%`,
+                  }}
+                />
+              </div>
+            </div>
+
+            {isNearQuota(quota) && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Storage almost full</AlertTitle>
+                <AlertDescription>
+                  {quota.persisted
+                    ? 'New readings will fail to save once the quota is reached. Shorten the retention below or clear old data.'
+                    : 'The browser may soon delete the stored history to free up space. Shorten the retention below or request persistent storage.'}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {!quota.persisted && (
+              <Alert>
+                <HardDrive className="h-4 w-4" />
+                <AlertTitle>History may be evicted</AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <p>
+                    Storage is best effort: when the disk runs low, the browser may delete the
+                    sensor history without asking. Persistent storage is only cleared by you.
+                  </p>
+                  <Button size="sm" onClick={persist}>
+                    Request persistent storage
+                  </Button>
+                  {denied && (
+                    <p className="text-sm">
+                      The browser declined. Some browsers only grant it to sites that are
+                      bookmarked, installed or used often.
+                    </p>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Size of the stored history and the cleanup schedule
+ */
+function HistoryCard({ cleanupIntervalHours }: { cleanupIntervalHours: number }) {
+  const { data: stats, isLoading } = useStorageStats();
+  const queryClient = useQueryClient();
+  const [lastCleanup, setLastCleanup] = useState(getLastCleanup);
+  const [cleaning, setCleaning] = useState(false);
+  const [result, setResult] = useState<CleanupResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const cleanUp = async () => {
+    setCleaning(true);
+    try {
+      const next = await runCleanup();
+      setResult(next);
+      setLastCleanup(next.timestamp);
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: storageQueryKeys.all });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clean up the history');
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  const entries = stats
+    ? [
+        { label: 'Raw readings', value: formatNumber(stats.totalCount) },
+        { label: '5-minute rollups', value: formatNumber(stats.rollupCounts['5m']) },
+        { label: 'Hourly rollups', value: formatNumber(stats.rollupCounts['1h']) },
+        { label: 'Daily rollups', value: formatNumber(stats.rollupCounts['1d']) },
+        { label: 'Devices', value: formatNumber(stats.deviceCount) },
+        {
+          label: 'Oldest',
+          value: stats.oldestTimestamp ? formatDateTime(stats.oldestTimestamp) : '—',
+        },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sensor history</CardTitle>
+        <CardDescription>
+          Readings stored while the app is open. Older readings are summed up into rollups before
+          they are deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-20" />
+        ) : (
+          <dl className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 text-sm">
+            {entries.map((entry) => (
+              <div key={entry.label}>
+                <dt className="text-muted-foreground">{entry.label}</dt>
+                <dd className="text-lg font-semibold">{entry.value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+          <p className="text-muted-foreground">
+            Cleaned up every {cleanupIntervalHours === 1 ? 'hour' : `${cleanupIntervalHours} hours`}{' '}
+            while the app is open •{' '}
+            {lastCleanup ? `last ${formatRelativeTime(lastCleanup)}` : 'not cleaned up yet'}
+            {result &&
+              ` • deleted ${formatNumber(result.readings)} readings and ${formatNumber(result.events)} events`}
+          </p>
+          <Button variant="outline" size="sm" onClick={cleanUp} disabled={cleaning}>
+            {cleaning ? 'Cleaning up…' : 'Clean up now'}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Retention per resolution: defaults, per metric and per device
+ */
+function RetentionForm({
+  settings,
+  onChange,
+}: {
+  settings: RetentionSettings;
+  onChange: (settings: RetentionSettings) => void;
+}) {
+  const { data: devices } = useSensorData();
+  const [defaults, setDefaults] = useState(() => toDraft(settings.defaults));
+  const [metrics, setMetrics] = useState(
+    () =>
+      Object.fromEntries(
+        METRICS.map((metric) => [metric, toDraft(settings.metrics[metric])])
+      ) as Record<SensorReadingType, PolicyDraft>
+  );
+  const [deviceDrafts, setDeviceDrafts] = useState<Record<string, PolicyDraft>>(() =>
+    Object.fromEntries(
+      Object.entries(settings.devices).map(([key, policy]) => [key, toDraft(policy)])
+    )
+  );
+  const [eventDays, setEventDays] = useState(String(settings.eventDays));
+  const [cleanupInterval, setCleanupInterval] = useState(String(settings.cleanupIntervalHours));
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [raised, setRaised] = useState<string[]>([]);
+
+  // Devices that record history, by device key; names gain the hub name
+  // when several hubs are configured
+  const recordingDevices = useMemo(() => {
+    const hubNames = new Map(getHubProfiles().map((profile) => [profile.id, profile.name]));
+    return new Map(
+      (devices ?? [])
+        .filter(
+          (device) =>
+            isEnvironmentSensor(device) ||
+            (isOutlet(device) && isEnergyMonitoringOutlet(device)) ||
+            hasBattery(device)
+        )
+        .map((device) => {
+          const name = device.customName || device.id;
+          const hubName = hubNames.size > 1 && device.hubId ? hubNames.get(device.hubId) : undefined;
+          return [
+            getDeviceKey({ hubId: device.hubId, deviceId: device.id }),
+            hubName ? `${name} (${hubName})` : name,
+          ];
+        })
+    );
+  }, [devices]);
+  const getDeviceName = (key: string) =>
+    recordingDevices.get(key) ?? parseDeviceKey(key).deviceId;
+
+  const energyOutlets = useMemo(
+    () =>
+      new Set(
+        (devices ?? [])
+          .filter((device) => isOutlet(device) && isEnergyMonitoringOutlet(device))
+          .map((device) => getDeviceKey({ hubId: device.hubId, deviceId: device.id }))
+      ),
+    [devices]
+  );
+
+  // Days shown in empty inputs: the defaults as currently typed
+  const inheritedDefaults = useMemo(() => {
+    try {
+      return { ...settings.defaults, ...parseDraft(defaults, 'Defaults') };
+    } catch {
+      return settings.defaults;
+    }
+  }, [defaults, settings.defaults]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      const parsedDefaults = parseDraft(defaults, 'Defaults');
+      if (RESOLUTIONS.some(({ value }) => parsedDefaults[value] === undefined)) {
+        throw new Error('Defaults: enter the days for every resolution');
+      }
+      const parsedEventDays = Number(eventDays);
+      if (!Number.isInteger(parsedEventDays) || parsedEventDays < 1) {
+        throw new Error('Device events: enter whole days of at least 1');
+      }
+      const parsedInterval = Number(cleanupInterval);
+      if (!Number.isInteger(parsedInterval) || parsedInterval < 1) {
+        throw new Error('Cleanup interval: enter whole hours of at least 1');
+      }
+
+      const next: RetentionSettings = {
+        defaults: parsedDefaults as RetentionPolicy,
+        metrics: Object.fromEntries(
+          METRICS.map(
+            (metric) => [metric, parseDraft(metrics[metric], METRIC_LABELS[metric])] as const
+          ).filter(([, policy]) => Object.keys(policy).length > 0)
+        ),
+        devices: Object.fromEntries(
+          Object.entries(deviceDrafts)
+            .map(([key, draft]) => [key, parseDraft(draft, getDeviceName(key))] as const)
+            .filter(([, policy]) => Object.keys(policy).length > 0)
+        ),
+        eventDays: parsedEventDays,
+        cleanupIntervalHours: parsedInterval,
+      };
+
+      // Raise raw power and energy retention to the days of the Energy
+      // page's daily bars, or older bars would come up empty
+      const raisedNames: string[] = [];
+      const raisedMetrics = { ...metrics };
+      for (const metric of ENERGY_METRICS) {
+        if (resolveRetentionPolicy(next, metric).raw < DAILY_CONSUMPTION_DAYS) {
+          next.metrics[metric] = { ...next.metrics[metric], raw: DAILY_CONSUMPTION_DAYS };
+          raisedMetrics[metric] = { ...metrics[metric], raw: String(DAILY_CONSUMPTION_DAYS) };
+          raisedNames.push(METRIC_LABELS[metric]);
+        }
+      }
+      const raisedDevices = { ...deviceDrafts };
+      for (const [key, policy] of Object.entries(next.devices)) {
+        if (
+          energyOutlets.has(key) &&
+          policy.raw !== undefined &&
+          policy.raw < DAILY_CONSUMPTION_DAYS
+        ) {
+          next.devices[key] = { ...policy, raw: DAILY_CONSUMPTION_DAYS };
+          raisedDevices[key] = { ...deviceDrafts[key]!, raw: String(DAILY_CONSUMPTION_DAYS) };
+          raisedNames.push(getDeviceName(key));
+        }
+      }
+      setMetrics(raisedMetrics);
+      setDeviceDrafts(raisedDevices);
+
+      saveRetentionSettings(next);
+      setError(null);
+      setSaved(true);
+      setRaised(raisedNames);
+      onChange(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the retention settings');
+      setSaved(false);
+      setRaised([]);
+    }
+  };
+
+  const availableDevices = [...recordingDevices.keys()].filter((key) => !(key in deviceDrafts));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Retention</CardTitle>
+        <CardDescription>
+          Days each resolution is kept. Charts use raw readings for short ranges and rollups for
+          longer or older ones. Leave a field empty to use the default; a device setting overrides
+          its metrics.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6" onChange={() => setSaved(false)}>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Applies to</th>
+                  {RESOLUTIONS.map(({ value, label }) => (
+                    <th key={value} className="py-2 pr-2 font-medium">
+                      {label}
+                    </th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                <PolicyRow label="Default" draft={defaults} onChange={setDefaults} />
+                {METRICS.map((metric) => (
+                  <PolicyRow
+                    key={metric}
+                    label={METRIC_LABELS[metric]}
+                    draft={metrics[metric]}
+                    inherited={inheritedDefaults}
+                    onChange={(draft) => setMetrics({ ...metrics, [metric]: draft })}
+                  />
+                ))}
+                {Object.entries(deviceDrafts).map(([key, draft]) => (
+                  <PolicyRow
+                    key={key}
+                    label={getDeviceName(key)}
+                    draft={draft}
+                    inherited={inheritedDefaults}
+                    onChange={(next) => setDeviceDrafts({ ...deviceDrafts, [key]: next })}
+                    onRemove={() => {
+                      const { [key]: _removed, ...rest } = deviceDrafts;
+                      setDeviceDrafts(rest);
+                      setSaved(false);
+                    }}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            The Energy page computes its daily bars from raw power and energy readings, so those
+            are kept for at least {DAILY_CONSUMPTION_DAYS} days.
+          </p>
+
+          {availableDevices.length > 0 && (
+            <div className="space-y-2">
+              <Label>Add a device setting</Label>
+              <div className="flex flex-wrap gap-2">
+                {availableDevices.map((key) => (
+                  <Button
+                    key={key}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setDeviceDrafts({ ...deviceDrafts, [key]: toDraft() });
+                      setSaved(false);
+                    }}
+                  >
+                    <Plus className="h-4 w-4" />
+                    {getDeviceName(key)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="retention-events">Device events (days)</Label>
+              <Input
+                id="retention-events"
+                type="number"
+                min={1}
+                step={1}
+                value={eventDays}
+                onChange={(event) => setEventDays(event.target.value)}
+                className="w-32"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="retention-interval">Clean up every (hours)</Label>
+              <Input
+                id="retention-interval"
+                type="number"
+                min={1}
+                step={1}
+                value={cleanupInterval}
+                onChange={(event) => setCleanupInterval(event.target.value)}
+                className="w-32"
+              />
+            </div>
+            <Button type="submit">Save</Button>
+            {saved && (
+              <span className="text-sm text-muted-foreground">
+                Saved; applied at the next cleanup
+              </span>
+            )}
+          </div>
+          {saved && raised.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Raw retention raised to {DAILY_CONSUMPTION_DAYS} days for {raised.join(', ')}, as the
+              Energy page needs them for its daily bars.
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function DataManagement() {
+  const [settings, setSettings] = useState(getRetentionSettings);
+
+  return (
+    <div className="space-y-6">
+      <StorageCard />
+      <HistoryCard cleanupIntervalHours={settings.cleanupIntervalHours} />
+      <RetentionForm settings={settings} onChange={setSettings} />
+    </div>
+  );
+}
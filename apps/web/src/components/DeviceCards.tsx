@@ -0,0 +1,443 @@
+/**
+ * Device Cards
+ *
+ * Dashboard cards for the device families other than environment sensors:
+ * lights, outlets, blinds, controllers and binary sensors (motion, door and
+ * window, water leak). Each card shows the live state the hub reports.
+ * Light cards also carry the light's controls, motion and door/window
+ * cards link to their event timeline and leak cards to the incident log;
+ * environment sensors keep their own card on the Dashboard. Air purifiers
+ * report as environment sensors too, and get a purifier card here for their
+ * fan and filter.
+ */
+
+import type { ReactNode } from 'react';
+import { Link } from '@tanstack/react-router';
+import {
+  Activity,
+  AlertTriangle,
+  Blinds,
+  CircleHelp,
+  DoorClosed,
+  DoorOpen,
+  Droplet,
+  Fan,
+  Footprints,
+  Gamepad2,
+  History,
+  Lightbulb,
+  LightbulbOff,
+  Plug,
+  ShieldCheck,
+} from 'lucide-react';
+import type {
+  BlindsDevice,
+  ControllerDevice,
+  DirigeeraDevice,
+  EnvironmentSensorDevice,
+  LightDevice,
+  MotionSensorDevice,
+  OpenCloseSensorDevice,
+  OutletDevice,
+  WaterSensorDevice,
+} from '@zigbee-visualizer/shared-types';
+import { formatDeviceStatus, formatEnergy, formatPM25, formatPower } from '@/lib/utils/formatters';
+import {
+  FAN_MODE_LABELS,
+  getFanSpeedPercent,
+  getFilterLifePercent,
+  needsFilterChange,
+} from '@/lib/utils/purifier';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { DeviceNameEditor } from '@/components/DeviceNameEditor';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { BatteryBadge } from '@/components/BatteryBadge';
+import { LightControls } from '@/components/LightControls';
+import { PurifierControls } from '@/components/PurifierControls';
+
+/**
+ * Devices shown with the cards in this module
+ */
+export type NonSensorDevice = Exclude<DirigeeraDevice, { type: 'environment_sensor' }>;
+
+interface DeviceCardShellProps {
+  device: DirigeeraDevice;
+  /** Hub name, shown when devices come from several hubs */
+  hubName?: string;
+  /** Icon next to the name */
+  icon: ReactNode;
+  /** Highlights the card, e.g. for an active alarm */
+  highlight?: 'active' | 'alarm';
+  children: ReactNode;
+}
+
+/**
+ * Frame shared by all device cards: name, room, hub, reachability and
+ * battery level
+ */
+function DeviceCardShell({ device, hubName, icon, highlight, children }: DeviceCardShellProps) {
+  const { id, hubId, customName, room, isReachable, capabilities } = device;
+
+  return (
+    <Card
+      className={cn(
+        'h-full overflow-hidden transition-colors',
+        highlight === 'active' && 'border-amber-300 dark:border-amber-700',
+        highlight === 'alarm' && 'border-red-500 bg-red-50 dark:bg-red-950/20',
+        !isReachable && 'opacity-70'
+      )}
+    >
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-start gap-3 min-w-0">
+            <div className="p-2 rounded-full bg-muted shrink-0">{icon}</div>
+            <div className="min-w-0">
+              <DeviceNameEditor
+                deviceId={id}
+                hubId={hubId}
+                name={customName || id}
+                canRename={capabilities.canReceive.includes('customName')}
+                className="font-semibold text-gray-900 dark:text-gray-100"
+              />
+              <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                {[hubName, room?.name, device.attributes.model].filter(Boolean).join(' • ')}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Badge variant={isReachable ? 'secondary' : 'outline'} className="shrink-0">
+              {formatDeviceStatus(isReachable)}
+            </Badge>
+            {device.attributes.batteryPercentage !== undefined && (
+              <BatteryBadge level={device.attributes.batteryPercentage} />
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Large state line, e.g. "On" or "Motion detected"
+ */
+function StateLine({ label, detail, className }: { label: string; detail?: string; className?: string }) {
+  return (
+    <div>
+      <p className={cn('text-2xl font-bold text-gray-900 dark:text-gray-100', className)}>{label}</p>
+      {detail && <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{detail}</p>}
+    </div>
+  );
+}
+
+/**
+ * Horizontal bar showing a percentage
+ */
+function LevelBar({ value, className }: { value: number; className?: string }) {
+  const clamped = Math.min(100, Math.max(0, value));
+  return (
+    <div className="h-2 mt-3 rounded-full bg-muted overflow-hidden">
+      <div className={cn('h-full rounded-full', className)} style={{ width: `${clamped}%` }} />
+    </div>
+  );
+}
+
+/**
+ * Link to the event timeline of a motion or door/window sensor
+ */
+function TimelineLink({ device }: { device: MotionSensorDevice | OpenCloseSensorDevice }) {
+  return (
+    <Link
+      to="/events/$deviceId"
+      params={{ deviceId: device.id }}
+      search={{ hubId: device.hubId }}
+      className="inline-flex items-center gap-1 mt-3 text-sm text-muted-foreground hover:text-foreground transition-colors"
+    >
+      <Activity className="w-4 h-4" />
+      View timeline
+    </Link>
+  );
+}
+
+/**
+ * Light: on/off, brightness and color temperature, with controls
+ */
+export function LightCard({ device, hubName }: { device: LightDevice; hubName?: string }) {
+  const { isOn, lightLevel, colorTemperature, colorMode } = device.attributes;
+  const details = [
+    isOn ? `${lightLevel}% brightness` : undefined,
+    isOn && colorMode !== 'color' && colorTemperature !== undefined ? `${colorTemperature} K` : undefined,
+  ].filter(Boolean);
+
+  return (
+    <DeviceCardShell
+      device={device}
+      hubName={hubName}
+      highlight={isOn ? 'active' : undefined}
+      icon={
+        isOn ? (
+          <Lightbulb className="w-5 h-5 text-amber-500" />
+        ) : (
+          <LightbulbOff className="w-5 h-5 text-gray-500" />
+        )
+      }
+    >
+      <StateLine label={isOn ? 'On' : 'Off'} detail={details.join(' • ') || undefined} />
+      <div className="mt-4 pt-4 border-t">
+        <LightControls device={device} />
+      </div>
+    </DeviceCardShell>
+  );
+}
+
+/**
+ * Outlet: on/off, and current power for energy monitoring outlets
+ */
+export function OutletCard({ device, hubName }: { device: OutletDevice; hubName?: string }) {
+  const { isOn, currentActivePower, totalEnergyConsumed } = device.attributes;
+  const detail = [
+    currentActivePower !== undefined ? formatPower(currentActivePower, 1) : undefined,
+    totalEnergyConsumed !== undefined ? `${formatEnergy(totalEnergyConsumed, 1)} total` : undefined,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+  return (
+    <DeviceCardShell
+      device={device}
+      hubName={hubName}
+      highlight={isOn ? 'active' : undefined}
+      icon={<Plug className={cn('w-5 h-5', isOn ? 'text-green-600 dark:text-green-400' : 'text-gray-500')} />}
+    >
+      <StateLine label={isOn ? 'On' : 'Off'} detail={detail || undefined} />
+    </DeviceCardShell>
+  );
+}
+
+const BLINDS_STATE_LABELS: Record<NonNullable<BlindsDevice['attributes']['blindsState']>, string> = {
+  stopped: 'Stopped',
+  up: 'Opening',
+  down: 'Closing',
+};
+
+/**
+ * Blinds: position and movement
+ */
+export function BlindsCard({ device, hubName }: { device: BlindsDevice; hubName?: string }) {
+  const { blindsCurrentLevel, blindsTargetLevel, blindsState } = device.attributes;
+  const isMoving = blindsState === 'up' || blindsState === 'down';
+  const label =
+    blindsCurrentLevel <= 0 ? 'Open' : blindsCurrentLevel >= 100 ? 'Closed' : `${blindsCurrentLevel}% closed`;
+  const detail = isMoving
+    ? `${BLINDS_STATE_LABELS[blindsState]}${blindsTargetLevel !== undefined ? ` to ${blindsTargetLevel}%` : ''}`
+    : undefined;
+
+  return (
+    <DeviceCardShell
+      device={device}
+      hubName={hubName}
+      icon={<Blinds className="w-5 h-5 text-sky-600 dark:text-sky-400" />}
+    >
+      <StateLine label={label} detail={detail} />
+      <LevelBar value={blindsCurrentLevel} className="bg-sky-500" />
+    </DeviceCardShell>
+  );
+}
+
+/**
+ * Controller: remotes and shortcut buttons have no state of their own
+ */
+export function ControllerCard({ device, hubName }: { device: ControllerDevice; hubName?: string }) {
+  const { isOn } = device.attributes;
+
+  return (
+    <DeviceCardShell
+      device={device}
+      hubName={hubName}
+      icon={<Gamepad2 className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />}
+    >
+      <StateLine
+        label="Controller"
+        detail={isOn === undefined ? undefined : `Controlled lights are ${isOn ? 'on' : 'off'}`}
+        className="text-lg"
+      />
+    </DeviceCardShell>
+  );
+}
+
+/**
+ * Motion sensor: detected or clear
+ */
+export function MotionSensorCard({ device, hubName }: { device: MotionSensorDevice; hubName?: string }) {
+  const { isDetected } = device.attributes;
+
+  return (
+    <DeviceCardShell
+      device={device}
+      hubName={hubName}
+      highlight={isDetected ? 'active' : undefined}
+      icon={
+        <Footprints className={cn('w-5 h-5', isDetected ? 'text-amber-500' : 'text-gray-500')} />
+      }
+    >
+      <StateLine label={isDetected ? 'Motion detected' : 'No motion'} />
+      <TimelineLink device={device} />
+    </DeviceCardShell>
+  );
+}
+
+/**
+ * Door or window sensor: open or closed
+ */
+export function OpenCloseSensorCard({ device, hubName }: { device: OpenCloseSensorDevice; hubName?: string }) {
+  const { isOpen } = device.attributes;
+
+  return (
+    <DeviceCardShell
+      device={device}
+      hubName={hubName}
+      highlight={isOpen ? 'active' : undefined}
+      icon={
+        isOpen ? (
+          <DoorOpen className="w-5 h-5 text-amber-500" />
+        ) : (
+          <DoorClosed className="w-5 h-5 text-gray-500" />
+        )
+      }
+    >
+      <StateLine label={isOpen ? 'Open' : 'Closed'} />
+      <TimelineLink device={device} />
+    </DeviceCardShell>
+  );
+}
+
+/**
+ * Water leak sensor: dry or leak detected
+ */
+export function WaterLeakSensorCard({ device, hubName }: { device: WaterSensorDevice; hubName?: string }) {
+  const { waterLeakDetected } = device.attributes;
+
+  return (
+    <DeviceCardShell
+      device={device}
+      hubName={hubName}
+      highlight={waterLeakDetected ? 'alarm' : undefined}
+      icon={
+        waterLeakDetected ? (
+          <Droplet className="w-5 h-5 text-red-600 dark:text-red-400" />
+        ) : (
+          <ShieldCheck className="w-5 h-5 text-green-600 dark:text-green-400" />
+        )
+      }
+    >
+      <StateLine
+        label={waterLeakDetected ? 'Leak detected' : 'Dry'}
+        className={waterLeakDetected ? 'text-red-600 dark:text-red-400' : undefined}
+      />
+      <Link
+        to="/leaks"
+        className="inline-flex items-center gap-1 mt-3 text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <History className="w-4 h-4" />
+        Incident log
+      </Link>
+    </DeviceCardShell>
+  );
+}
+
+/**
+ * Air purifier: fan mode and speed, filter life, with controls
+ */
+export function PurifierCard({ device, hubName }: { device: EnvironmentSensorDevice; hubName?: string }) {
+  const { attributes } = device;
+  const fanSpeed = getFanSpeedPercent(attributes);
+  const filterLife = getFilterLifePercent(attributes);
+  const filterWarning = needsFilterChange(attributes);
+  const isRunning = attributes.fanMode !== 'off' && (fanSpeed ?? 0) > 0;
+  const detail = [
+    fanSpeed !== undefined ? `Fan speed ${fanSpeed}%` : undefined,
+    attributes.currentPM25 !== undefined ? `PM2.5 ${formatPM25(attributes.currentPM25)}` : undefined,
+  ].filter(Boolean);
+  const filterDays = attributes.filterElapsedTime !== undefined
+    ? Math.floor(attributes.filterElapsedTime / (24 * 60))
+    : undefined;
+
+  return (
+    <DeviceCardShell
+      device={device}
+      hubName={hubName}
+      highlight={isRunning ? 'active' : undefined}
+      icon={<Fan className={cn('w-5 h-5', isRunning ? 'text-sky-500' : 'text-gray-500')} />}
+    >
+      <StateLine
+        label={attributes.fanMode ? FAN_MODE_LABELS[attributes.fanMode] : 'Unknown'}
+        detail={detail.join(' • ') || undefined}
+      />
+
+      {filterLife !== undefined && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400">Filter life</span>
+            <span className="font-medium tabular-nums">{filterLife}%</span>
+          </div>
+          <LevelBar value={filterLife} className={filterWarning ? 'bg-red-500' : 'bg-sky-500'} />
+          {filterDays !== undefined && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              In use for {filterDays} {filterDays === 1 ? 'day' : 'days'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {filterWarning && (
+        <Alert variant="destructive" className="mt-4">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>Filter needs replacing soon</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="mt-4 pt-4 border-t">
+        <PurifierControls device={device} />
+      </div>
+    </DeviceCardShell>
+  );
+}
+
+/**
+ * Card for any device other than an environment sensor
+ * Types the app does not know yet (reported as schema drift) get the
+ * shared frame only.
+ */
+export function DeviceCard({ device, hubName }: { device: NonSensorDevice; hubName?: string }) {
+  const unknownDevice: NonSensorDevice = device;
+
+  switch (device.type) {
+    case 'light':
+      return <LightCard device={device} hubName={hubName} />;
+    case 'outlet':
+      return <OutletCard device={device} hubName={hubName} />;
+    case 'blinds':
+      return <BlindsCard device={device} hubName={hubName} />;
+    case 'controller':
+      return <ControllerCard device={device} hubName={hubName} />;
+    case 'motion_sensor':
+      return <MotionSensorCard device={device} hubName={hubName} />;
+    case 'open_close_sensor':
+      return <OpenCloseSensorCard device={device} hubName={hubName} />;
+    case 'water_sensor':
+      return <WaterLeakSensorCard device={device} hubName={hubName} />;
+    default:
+      return (
+        <DeviceCardShell
+          device={unknownDevice}
+          hubName={hubName}
+          icon={<CircleHelp className="w-5 h-5 text-gray-500" />}
+        >
+          <StateLine label="Unsupported device" detail={`Type: ${unknownDevice.type}`} className="text-lg" />
+        </DeviceCardShell>
+      );
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * DeviceNameEditor Component
+ *
+ * Device name with inline rename: the pencil button turns the name into an
+ * input, Enter saves and Escape cancels. The new name shows immediately and
+ * is rolled back if the hub rejects it.
+ */
+
+import { useState, type FormEvent, type KeyboardEvent, type MouseEvent } from 'react';
+import { Check, Loader2, Pencil, X } from 'lucide-react';
+import { useUpdateDevice } from '@/lib/api/hooks/useUpdateDevice';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+const MAX_NAME_LENGTH = 64;
+
+interface DeviceNameEditorProps {
+  /** Device to rename */
+  deviceId: string;
+  /** Hub the device belongs to */
+  hubId?: string;
+  /** Current name */
+  name: string;
+  /** Whether the device accepts a new customName; hides the edit button otherwise */
+  canRename?: boolean;
+  /** Classes for the name text */
+  className?: string;
+  /** Classes for the edit and confirm buttons (e.g. light icons on a dark header) */
+  buttonClassName?: string;
+}
+
+export function DeviceNameEditor({
+  deviceId,
+  hubId,
+  name,
+  canRename = true,
+  className,
+  buttonClassName,
+}: DeviceNameEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(name);
+  const { mutate, isPending, error, reset } = useUpdateDevice();
+
+  // Keep clicks from reaching click handlers of the surrounding card;
+  // preventing their default would also cancel the submit button
+  const stopPropagation = (event: MouseEvent) => {
+    event.stopPropagation();
+  };
+
+  const startEditing = (event: MouseEvent) => {
+    stopPropagation(event);
+    reset();
+    setDraft(name);
+    setIsEditing(true);
+  };
+
+  const cancelEditing = () => {
+    setIsEditing(false);
+    setDraft(name);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const customName = draft.trim();
+    setIsEditing(false);
+    if (!customName || customName === name) {
+      return;
+    }
+
+    mutate({ deviceId, hubId, update: { attributes: { customName } } });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      cancelEditing();
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSubmit} onClick={stopPropagation} className="flex items-center gap-1">
+        <Input
+          autoFocus
+          value={draft}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={handleKeyDown}
+          aria-label="Device name"
+          className="h-8 text-base text-foreground bg-background"
+        />
+        <button
+          type="submit"
+          className={cn('p-1 rounded-md hover:bg-black/10', buttonClassName)}
+          aria-label="Save name"
+        >
+          <Check className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={(event) => {
+            stopPropagation(event);
+            cancelEditing();
+          }}
+          className={cn('p-1 rounded-md hover:bg-black/10', buttonClassName)}
+          aria-label="Cancel rename"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="group/name">
+      <div className="flex items-center gap-1.5">
+        <span className={className}>{name}</span>
+        {isPending ? (
+          <Loader2 className={cn('h-4 w-4 animate-spin shrink-0', buttonClassName)} />
+        ) : (
+          canRename && (
+            <button
+              type="button"
+              onClick={startEditing}
+              className={cn(
+                'p-1 rounded-md shrink-0 opacity-0 transition-opacity group-hover/name:opacity-100 focus:opacity-100 hover:bg-black/10',
+                buttonClassName
+              )}
+              aria-label={`Rename ${name}`}
+              title="Rename"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+          )
+        )}
+      </div>
+      {error && (
+        <p className={cn('text-xs mt-1 text-red-600 dark:text-red-400', buttonClassName)} role="alert">
+          Rename failed: {error.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+/**
+ * DeviceTimeline Component
+ *
+ * Event timeline of a motion or door/window sensor: one 24-hour strip per
+ * day with the occupancy or door-open spans, activations and active time
+ * per day, and the most recent spans with their durations. Built from the
+ * state changes in the event store.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { format, startOfDay, subDays } from 'date-fns';
+import { Activity } from 'lucide-react';
+import type { DeviceEventType, DeviceStateEvent } from '@zigbee-visualizer/shared-types';
+import { useSensorData } from '@/lib/api/hooks/useSensorData';
+import { queryDeviceEvents } from '@/lib/storage/events';
+import {
+  buildActivitySpans,
+  EVENT_SPAN_LABELS,
+  EVENT_STATE_LABELS,
+  getDeviceEventType,
+  summarizeActivityByDay,
+  toDeviceStateEvent,
+  type ActivitySpan,
+} from '@/lib/utils/events';
+import { formatDateTime, formatDuration, formatRelativeTime } from '@/lib/utils/formatters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+
+/** How often stored events are reloaded while the page is open */
+const RELOAD_INTERVAL_MS = 30000;
+
+/** Recent spans listed below the timeline */
+const RECENT_SPANS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TimelineRange = 7 | 14 | 30;
+
+const RANGE_OPTIONS: TimelineRange[] = [7, 14, 30];
+
+const SPAN_CLASSES: Record<DeviceEventType, string> = {
+  motion: 'bg-amber-500',
+  contact: 'bg-sky-500',
+  reachability: 'bg-red-500',
+};
+
+/**
+ * Summary tile
+ */
+function SummaryCard({ title, value, detail }: { title: string; value: string; detail: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-3xl">{value}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * One day as a 24-hour strip with its activity spans
+ */
+function DayStrip({ day, spans, type }: { day: Date; spans: ActivitySpan[]; type: DeviceEventType }) {
+  const dayStart = day.getTime();
+  const dayEnd = dayStart + DAY_MS;
+  const segments = spans
+    .filter((span) => span.end.getTime() > dayStart && span.start.getTime() < dayEnd)
+    .map((span) => {
+      const start = Math.max(span.start.getTime(), dayStart);
+      const end = Math.min(span.end.getTime(), dayEnd);
+      return {
+        key: span.start.toISOString(),
+        left: ((start - dayStart) / DAY_MS) * 100,
+        // Keep short spans visible
+        width: Math.max(((end - start) / DAY_MS) * 100, 0.2),
+        title: `${format(span.start, 'HH:mm')}–${span.ongoing ? 'now' : format(span.end, 'HH:mm')} (${formatDuration(span.end.getTime() - span.start.getTime())})`,
+      };
+    });
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-20 shrink-0 text-xs text-muted-foreground">{format(day, 'EEE d MMM')}</span>
+      <div className="relative h-5 flex-1 rounded bg-muted overflow-hidden">
+        {segments.map((segment) => (
+          <div
+            key={segment.key}
+            className={`absolute inset-y-0 ${SPAN_CLASSES[type]}`}
+            style={{ left: `${segment.left}%`, width: `${segment.width}%` }}
+            title={segment.title}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function DeviceTimeline({ deviceId, hubId }: { deviceId: string; hubId?: string }) {
+  const { data: devices, isLoading } = useSensorData();
+  const [events, setEvents] = useState<DeviceStateEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<TimelineRange>(7);
+  const [reloadTick, setReloadTick] = useState(0);
+
+  const device = devices?.find(
+    (candidate) => candidate.id === deviceId && (!hubId || candidate.hubId === hubId)
+  );
+  const currentEvent = device ? toDeviceStateEvent(device, new Date().toISOString()) : undefined;
+  const type = (device && getDeviceEventType(device)) ?? events?.[0]?.type;
+
+  useEffect(() => {
+    const timer = setInterval(() => setReloadTick((tick) => tick + 1), RELOAD_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    async function fetchEvents() {
+      try {
+        // All stored events, so a span that started before the range is complete
+        setEvents(await queryDeviceEvents({ hubId, deviceId, types: ['motion', 'contact'] }));
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load device events:', err);
+        setError('Failed to load stored events.');
+        setEvents([]);
+      }
+    }
+
+    fetchEvents();
+  }, [deviceId, hubId, reloadTick]);
+
+  const timeline = useMemo(() => {
+    const now = new Date();
+    const rangeStart = startOfDay(subDays(now, range - 1));
+    const spans = buildActivitySpans(events ?? [], now).filter((span) => span.end > rangeStart);
+    const days = summarizeActivityByDay(spans, { start: rangeStart, end: now });
+    const durations = spans.map((span) => span.end.getTime() - Math.max(span.start.getTime(), rangeStart.getTime()));
+    const activeMs = durations.reduce((sum, duration) => sum + duration, 0);
+
+    return {
+      spans,
+      days,
+      activeMs,
+      longestMs: Math.max(0, ...durations),
+      averageMs: durations.length > 0 ? activeMs / durations.length : 0,
+      chart: days.map((day) => ({
+        label: format(day.date, range > 7 ? 'd MMM' : 'EEE'),
+        count: day.count,
+        minutes: Math.round(day.activeMs / 60000),
+      })),
+    };
+  }, [events, range]);
+
+  if (isLoading || events === null) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  if (!type) {
+    return (
+      <Alert>
+        <Activity className="h-4 w-4" />
+        <AlertTitle>No timeline for this device</AlertTitle>
+        <AlertDescription>
+          Timelines are kept for motion sensors and door/window sensors such as IKEA VALLHORN and
+          PARASOLL. This device is not one of them, or has not been seen yet.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const labels = EVENT_STATE_LABELS[type];
+  const spanLabel = EVENT_SPAN_LABELS[type];
+  const lastEvent = events[events.length - 1];
+  const recentSpans = timeline.spans.slice(-RECENT_SPANS).reverse();
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-xl font-semibold">{device?.customName || lastEvent?.deviceName || deviceId}</p>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            {currentEvent && (
+              <Badge variant={currentEvent.active ? 'default' : 'secondary'}>
+                {currentEvent.active ? labels.active : labels.inactive}
+              </Badge>
+            )}
+            {lastEvent && <span>Last change {formatRelativeTime(lastEvent.timestamp)}</span>}
+          </div>
+        </div>
+
+        <div className="flex border border-border rounded-lg p-1">
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={range === option ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setRange(option)}
+            >
+              Last {option} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {events.length === 0 ? (
+        <Alert>
+          <Activity className="h-4 w-4" />
+          <AlertTitle>No events recorded yet</AlertTitle>
+          <AlertDescription>
+            State changes are recorded while the app is open, from live hub updates or polling. The
+            timeline fills in as the sensor reports {type === 'motion' ? 'motion' : 'openings'}.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <SummaryCard
+              title={type === 'motion' ? 'Occupancy spans' : 'Openings'}
+              value={String(timeline.spans.length)}
+              detail={`Last ${range} days`}
+            />
+            <SummaryCard
+              title={`${spanLabel} time`}
+              value={formatDuration(timeline.activeMs)}
+              detail={`${formatDuration(timeline.activeMs / range)} per day on average`}
+            />
+            <SummaryCard
+              title={`Longest ${spanLabel.toLowerCase()} span`}
+              value={formatDuration(timeline.longestMs)}
+              detail={`Average ${formatDuration(timeline.averageMs)}`}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+              <CardDescription>
+                {type === 'motion' ? 'When motion was detected' : 'When the door or window was open'}, per day
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {[...timeline.days].reverse().map((day) => (
+                <DayStrip key={day.date.toISOString()} day={day.date} spans={timeline.spans} type={type} />
+              ))}
+              <div className="flex justify-between pl-[5.75rem] text-xs text-muted-foreground">
+                {['00', '06', '12', '18', '24'].map((hour) => (
+                  <span key={hour}>{hour}</span>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Per day</CardTitle>
+              <CardDescription>
+                {type === 'motion' ? 'Occupancy spans' : 'Openings'} and minutes {type === 'motion' ? 'occupied' : 'open'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={timeline.chart}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="label" className="text-xs" stroke="currentColor" tick={{ fill: 'currentColor' }} />
+                  <YAxis
+                    yAxisId="count"
+                    allowDecimals={false}
+                    className="text-xs"
+                    stroke="currentColor"
+                    tick={{ fill: 'currentColor' }}
+                  />
+                  <YAxis
+                    yAxisId="minutes"
+                    orientation="right"
+                    className="text-xs"
+                    stroke="currentColor"
+                    tick={{ fill: 'currentColor' }}
+                  />
+                  <Tooltip />
+                  <Bar
+                    yAxisId="count"
+                    dataKey="count"
+                    name={type === 'motion' ? 'Occupancy spans' : 'Openings'}
+                    fill={type === 'motion' ? '#f59e0b' : '#0ea5e9'}
+                    radius={[4, 4, 0, 0]}
+                  />
+                  <Bar yAxisId="minutes" dataKey="minutes" name="Minutes" fill="#94a3b8" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent {spanLabel.toLowerCase()} spans</CardTitle>
+              <CardDescription>Most recent first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {recentSpans.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing in the last {range} days</p>
+              ) : (
+                <ul className="divide-y">
+                  {recentSpans.map((span) => (
+                    <li key={span.start.toISOString()} className="flex justify-between gap-4 py-2 text-sm">
+                      <span>{formatDateTime(span.start, 'datetime')}</span>
+                      <span className="text-muted-foreground">
+                        {span.ongoing ? `${labels.active} for ` : ''}
+                        {formatDuration(span.end.getTime() - span.start.getTime())}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+/**
+ * Diagnostics Component
+ *
+ * Shows what response validation found: devices quarantined because their
+ * payload does not match the schema, and schema issues grouped by model and
+ * firmware version, so API changes after a firmware update are easy to spot.
+ */
+
+import { useMemo } from 'react';
+import { AlertTriangle, CheckCircle, PackageX, RefreshCw, Trash2 } from 'lucide-react';
+import type { SchemaIssue } from '@zigbee-visualizer/shared-types';
+import { useSensorData } from '@/lib/api/hooks/useSensorData';
+import { useDriftReport } from '@/lib/api/hooks/useDriftReport';
+import { clearDriftReport, type DriftEntry, type QuarantinedDevice } from '@/lib/api/schema-drift';
+import { getHubProfiles } from '@/lib/storage/config';
+import { formatRelativeTime } from '@/lib/utils/formatters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+const ISSUE_LABELS: Record<SchemaIssue['kind'], string> = {
+  notAnObject: 'Not an object',
+  missingField: 'Missing field',
+  wrongType: 'Wrong type',
+  unexpectedValue: 'Unexpected value',
+  unknownAttribute: 'Unknown attribute',
+};
+
+/**
+ * Describe what was expected and what arrived
+ */
+function describeIssue(issue: Pick<SchemaIssue, 'kind' | 'expected' | 'received'>): string {
+  if (issue.kind === 'unknownAttribute') {
+    return issue.received ? `${issue.received} value` : '';
+  }
+  if (issue.kind === 'missingField') {
+    return `expected ${issue.expected}`;
+  }
+  return `expected ${issue.expected}, got ${issue.received}`;
+}
+
+/**
+ * Issues of one model and firmware version
+ */
+interface FirmwareGroup {
+  key: string;
+  model: string;
+  firmwareVersion: string;
+  entries: DriftEntry[];
+}
+
+/**
+ * Group drift entries by model and firmware version, errors first
+ */
+function groupByFirmware(entries: DriftEntry[]): FirmwareGroup[] {
+  const groups = new Map<string, FirmwareGroup>();
+
+  for (const entry of entries) {
+    const key = `${entry.source}|${entry.model}|${entry.firmwareVersion}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, model: entry.model, firmwareVersion: entry.firmwareVersion, entries: [] };
+      groups.set(key, group);
+    }
+    group.entries.push(entry);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      entries: [...group.entries].sort(
+        (a, b) => (a.severity === b.severity ? a.path.localeCompare(b.path) : a.severity === 'error' ? -1 : 1)
+      ),
+    }))
+    .sort((a, b) => a.model.localeCompare(b.model) || a.firmwareVersion.localeCompare(b.firmwareVersion));
+}
+
+/**
+ * Summary tile
+ */
+function SummaryCard({ title, value, description }: { title: string; value: number; description: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-3xl">{value}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Schema issues of one model and firmware version
+ */
+function FirmwareGroupCard({ group }: { group: FirmwareGroup }) {
+  const errorCount = group.entries.filter((entry) => entry.severity === 'error').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">{group.model}</CardTitle>
+            <CardDescription>Firmware {group.firmwareVersion}</CardDescription>
+          </div>
+          {errorCount > 0 ? (
+            <Badge variant="destructive">{errorCount} mismatch{errorCount === 1 ? '' : 'es'}</Badge>
+          ) : (
+            <Badge variant="secondary">Warnings only</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Field</th>
+                <th className="py-2 pr-4 font-medium">Issue</th>
+                <th className="py-2 pr-4 font-medium">Details</th>
+                <th className="py-2 pr-4 font-medium text-right">Devices</th>
+                <th className="py-2 font-medium text-right">Last seen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {group.entries.map((entry) => (
+                <tr key={`${entry.path}|${entry.kind}`} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-mono text-xs">{entry.path}</td>
+                  <td className="py-2 pr-4">
+                    <span
+                      className={
+                        entry.severity === 'error'
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-amber-600 dark:text-amber-400'
+                      }
+                    >
+                      {ISSUE_LABELS[entry.kind]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-muted-foreground">{describeIssue(entry)}</td>
+                  <td className="py-2 pr-4 text-right" title={entry.deviceIds.join('\n')}>
+                    {entry.deviceIds.length}
+                  </td>
+                  <td className="py-2 text-right text-muted-foreground whitespace-nowrap">
+                    {formatRelativeTime(entry.lastSeen)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Device left out of the dashboard because its payload failed validation
+ */
+function QuarantinedDeviceCard({ device, hubName }: { device: QuarantinedDevice; hubName?: string }) {
+  const errors = device.issues.filter((issue) => issue.severity === 'error');
+
+  return (
+    <Card className="border-red-500/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">
+          {device.customName || device.deviceId || 'Unidentified payload'}
+        </CardTitle>
+        <CardDescription>
+          {[hubName, device.model, device.firmwareVersion && `firmware ${device.firmwareVersion}`]
+            .filter(Boolean)
+            .join(' • ') || 'No device details in payload'}
+          {' • received '}
+          {formatRelativeTime(device.receivedAt)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ul className="space-y-1 text-sm">
+          {errors.map((issue) => (
+            <li key={`${issue.path}|${issue.kind}`}>
+              <span className="font-mono text-xs">{issue.path}</span>
+              <span className="text-muted-foreground">
+                {' '}— {ISSUE_LABELS[issue.kind].toLowerCase()}, {describeIssue(issue)}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <details className="text-xs">
+          <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+            Raw payload
+          </summary>
+          <pre className="mt-2 p-3 bg-muted rounded-md overflow-auto max-h-64">
+            {typeof device.payload === 'string'
+              ? device.payload
+              : JSON.stringify(device.payload, null, 2)}
+          </pre>
+        </details>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function Diagnostics() {
+  // Fetching devices is what fills the report
+  const { refetch, isFetching } = useSensorData();
+  const { quarantined, entries } = useDriftReport();
+
+  const groups = useMemo(() => groupByFirmware(entries), [entries]);
+  const hubNames = useMemo(
+    () => new Map(getHubProfiles().map((profile) => [profile.id, profile.name])),
+    []
+  );
+  const mismatchCount = entries.filter((entry) => entry.severity === 'error').length;
+  const unknownCount = entries.filter((entry) => entry.kind === 'unknownAttribute').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching} className="gap-2">
+          <RefreshCw className={isFetching ? 'w-4 h-4 animate-spin' : 'w-4 h-4'} />
+          Check Again
+        </Button>
+        <Button
+          variant="outline"
+          onClick={clearDriftReport}
+          disabled={entries.length === 0 && quarantined.length === 0}
+          className="gap-2"
+        >
+          <Trash2 className="w-4 h-4" />
+          Clear Report
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <SummaryCard
+          title="Quarantined devices"
+          value={quarantined.length}
+          description="Hidden from the dashboard and history until the hub sends a valid payload"
+        />
+        <SummaryCard
+          title="Schema mismatches"
+          value={mismatchCount}
+          description="Missing fields or values of the wrong type"
+        />
+        <SummaryCard
+          title="Unknown attributes"
+          value={unknownCount}
+          description="Attributes the app does not know yet; reported only"
+        />
+      </div>
+
+      {entries.length === 0 && quarantined.length === 0 && (
+        <Alert variant="success">
+          <CheckCircle className="h-4 w-4" />
+          <AlertTitle>All responses match the schema</AlertTitle>
+          <AlertDescription>
+            Every device, room and hub response received this session had the expected shape.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {quarantined.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xl font-semibold">
+            <PackageX className="h-5 w-5 text-red-600 dark:text-red-400" />
+            Quarantined Devices
+          </h2>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {quarantined.map((device) => (
+              <QuarantinedDeviceCard
+                key={`${device.hubId}:${device.deviceId ?? device.receivedAt}`}
+                device={device}
+                hubName={hubNames.size > 1 && device.hubId ? hubNames.get(device.hubId) : undefined}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {groups.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xl font-semibold">
+            <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+            Schema Drift by Firmware
+          </h2>
+          {groups.map((group) => (
+            <FirmwareGroupCard key={group.key} group={group} />
+          ))}
+        </section>
+      )}
+    </div>
+  );
+}
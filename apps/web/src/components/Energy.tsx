@@ -0,0 +1,464 @@
+/**
+ * Energy Component
+ *
+ * Power and consumption of energy monitoring outlets: current draw, daily
+ * and monthly consumption bars built from the stored power and energy
+ * readings, cost estimates from a configurable tariff, and an on/off switch
+ * per outlet.
+ */
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { format, getDaysInMonth, startOfDay, startOfMonth, subDays, subMonths } from 'date-fns';
+import { Plug, Zap } from 'lucide-react';
+import { isOutlet, type OutletDevice, type SensorReading } from '@zigbee-visualizer/shared-types';
+import { useSensorData } from '@/lib/api/hooks/useSensorData';
+import { useUpdateDevice } from '@/lib/api/hooks/useUpdateDevice';
+import { querySensorReadings } from '@/lib/storage/history';
+import { getEnergyTariff, getHubProfiles, saveEnergyTariff, type EnergyTariff } from '@/lib/storage/config';
+import {
+  computeConsumption,
+  DAILY_CONSUMPTION_DAYS,
+  estimateCost,
+  isEnergyMonitoringOutlet,
+  type ConsumptionBucket,
+} from '@/lib/utils/energy';
+import { getDeviceKey } from '@/lib/utils/devices';
+import { formatCurrency, formatEnergy, formatPower } from '@/lib/utils/formatters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+
+/** How often stored readings are reloaded while the page is open */
+const RELOAD_INTERVAL_MS = 60000;
+
+const DAILY_BARS = DAILY_CONSUMPTION_DAYS;
+const MONTHLY_BARS = 12;
+
+/**
+ * Bar of the consumption charts
+ */
+interface ConsumptionBar {
+  label: string;
+  kwh: number;
+  cost: number;
+}
+
+function toBars(buckets: ConsumptionBucket[], labelFormat: string, tariff: EnergyTariff): ConsumptionBar[] {
+  return buckets.map((bucket) => ({
+    label: format(new Date(bucket.start), labelFormat),
+    kwh: Number(bucket.kwh.toFixed(3)),
+    cost: estimateCost(bucket.kwh, tariff),
+  }));
+}
+
+/**
+ * Tooltip showing consumption and cost of a bar
+ */
+function ConsumptionTooltip({
+  active,
+  payload,
+  currency,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: ConsumptionBar }>;
+  currency: string;
+}) {
+  const bar = payload?.[0]?.payload;
+  if (!active || !bar) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 text-sm">
+      <p className="font-semibold mb-1 text-gray-900 dark:text-gray-100">{bar.label}</p>
+      <p className="text-gray-700 dark:text-gray-300">{formatEnergy(bar.kwh)}</p>
+      <p className="text-gray-500 dark:text-gray-400">{formatCurrency(bar.cost, currency)}</p>
+    </div>
+  );
+}
+
+/**
+ * Bar chart of consumption per day or month
+ */
+function ConsumptionChart({
+  title,
+  description,
+  bars,
+  currency,
+}: {
+  title: string;
+  description: string;
+  bars: ConsumptionBar[];
+  currency: string;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={260}>
+          <BarChart data={bars}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis dataKey="label" className="text-xs" stroke="currentColor" tick={{ fill: 'currentColor' }} />
+            <YAxis
+              className="text-xs"
+              stroke="currentColor"
+              tick={{ fill: 'currentColor' }}
+              label={{ value: 'kWh', angle: -90, position: 'insideLeft', style: { fill: 'currentColor' } }}
+            />
+            <Tooltip content={<ConsumptionTooltip currency={currency} />} />
+            <Bar dataKey="kwh" name="Consumption" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Summary tile
+ */
+function SummaryCard({ title, value, detail }: { title: string; value: string; detail: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-3xl">{value}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Form for the electricity price
+ */
+function TariffForm({ tariff, onChange }: { tariff: EnergyTariff; onChange: (tariff: EnergyTariff) => void }) {
+  const [price, setPrice] = useState(String(tariff.pricePerKwh));
+  const [currency, setCurrency] = useState(tariff.currency);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const pricePerKwh = Number(price);
+    const code = currency.trim().toUpperCase();
+    if (!isFinite(pricePerKwh) || pricePerKwh < 0) {
+      setError('Enter a price of zero or more');
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(code)) {
+      setError('Enter a three-letter currency code, e.g. EUR');
+      return;
+    }
+
+    try {
+      const next = { pricePerKwh, currency: code };
+      saveEnergyTariff(next);
+      setError(null);
+      onChange(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the tariff');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tariff</CardTitle>
+        <CardDescription>Electricity price used for the cost estimates</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="tariff-price">Price per kWh</Label>
+            <Input
+              id="tariff-price"
+              type="number"
+              min={0}
+              step="0.0001"
+              value={price}
+              onChange={(event) => setPrice(event.target.value)}
+              className="w-36"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tariff-currency">Currency</Label>
+            <Input
+              id="tariff-currency"
+              value={currency}
+              maxLength={3}
+              onChange={(event) => setCurrency(event.target.value)}
+              className="w-24 uppercase"
+            />
+          </div>
+          <Button type="submit">Save</Button>
+        </form>
+        {error && <p className="text-sm text-red-600 dark:text-red-400 mt-3">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Outlet with its live power, consumption and on/off switch
+ */
+function OutletRow({
+  outlet,
+  todayKwh,
+  monthKwh,
+  hubName,
+  tariff,
+}: {
+  outlet: OutletDevice;
+  todayKwh: number;
+  monthKwh: number;
+  hubName?: string;
+  tariff: EnergyTariff;
+}) {
+  const { mutate, isPending, error } = useUpdateDevice();
+  const { id, hubId, customName, room, isReachable, capabilities, attributes } = outlet;
+  const canSwitch = capabilities.canReceive.includes('isOn');
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 py-4 border-b last:border-0">
+      <div className="flex items-center gap-3 min-w-0">
+        <div className="p-2 rounded-full bg-muted">
+          <Plug className={attributes.isOn ? 'w-5 h-5 text-green-600 dark:text-green-400' : 'w-5 h-5 text-gray-500'} />
+        </div>
+        <div className="min-w-0">
+          <p className="font-medium truncate">{customName || id}</p>
+          <p className="text-sm text-muted-foreground truncate">
+            {[hubName, room?.name, attributes.model].filter(Boolean).join(' • ')}
+          </p>
+          {error && <p className="text-xs text-red-600 dark:text-red-400">Switching failed: {error.message}</p>}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-6 text-sm">
+        <div className="text-right">
+          <p className="font-semibold">
+            {attributes.currentActivePower !== undefined ? formatPower(attributes.currentActivePower) : '—'}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {attributes.currentVoltage !== undefined ? `${attributes.currentVoltage.toFixed(0)} V` : 'Power'}
+            {attributes.currentAmps !== undefined && ` • ${attributes.currentAmps.toFixed(2)} A`}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="font-semibold">{formatEnergy(todayKwh)}</p>
+          <p className="text-xs text-muted-foreground">Today</p>
+        </div>
+        <div className="text-right">
+          <p className="font-semibold">{formatEnergy(monthKwh)}</p>
+          <p className="text-xs text-muted-foreground">
+            This month • {formatCurrency(estimateCost(monthKwh, tariff), tariff.currency)}
+          </p>
+        </div>
+        {!isReachable ? (
+          <Badge variant="outline">Offline</Badge>
+        ) : (
+          canSwitch && (
+            <Switch
+              checked={attributes.isOn}
+              disabled={isPending}
+              onCheckedChange={(isOn) => mutate({ deviceId: id, hubId, update: { attributes: { isOn } } })}
+              aria-label={`Switch ${customName || id} ${attributes.isOn ? 'off' : 'on'}`}
+            />
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function Energy() {
+  const { data: devices, isLoading } = useSensorData();
+  const [readings, setReadings] = useState<SensorReading[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadTick, setReloadTick] = useState(0);
+  const [tariff, setTariff] = useState(getEnergyTariff);
+
+  const outlets = useMemo(
+    () => (devices ?? []).filter(isOutlet).filter(isEnergyMonitoringOutlet),
+    [devices]
+  );
+  const hubNames = useMemo(
+    () => new Map(getHubProfiles().map((profile) => [profile.id, profile.name])),
+    []
+  );
+
+  useEffect(() => {
+    const timer = setInterval(() => setReloadTick((tick) => tick + 1), RELOAD_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    async function fetchReadings() {
+      try {
+        const now = new Date();
+        const dailyStart = startOfDay(subDays(now, DAILY_BARS - 1)).toISOString();
+        // Before the daily bars, daily rollups carry the energy meter readings
+        // and the average power of each day
+        const [recent, older] = await Promise.all([
+          querySensorReadings({
+            types: ['power', 'energy'],
+            timeRange: { start: dailyStart, end: now.toISOString() },
+            resolution: 'raw',
+          }),
+          querySensorReadings({
+            types: ['power', 'energy'],
+            timeRange: {
+              start: startOfMonth(subMonths(now, MONTHLY_BARS - 1)).toISOString(),
+              end: dailyStart,
+            },
+            resolution: '1d',
+          }),
+        ]);
+        // The rollup of the first daily bar's day is covered by raw readings
+        setReadings([...recent, ...older.filter((reading) => reading.timestamp < dailyStart)]);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load energy readings:', err);
+        setError('Failed to load stored energy readings.');
+      }
+    }
+
+    fetchReadings();
+  }, [reloadTick]);
+
+  const { daily, monthly } = useMemo(() => {
+    const now = new Date();
+    return {
+      daily: computeConsumption(readings ?? [], 'day', { start: subDays(now, DAILY_BARS - 1), end: now }),
+      monthly: computeConsumption(readings ?? [], 'month', {
+        start: subMonths(now, MONTHLY_BARS - 1),
+        end: now,
+      }),
+    };
+  }, [readings]);
+
+  if (isLoading || readings === null) {
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Skeleton className="h-32" />
+          <Skeleton className="h-32" />
+          <Skeleton className="h-32" />
+        </div>
+        <Skeleton className="h-72" />
+      </div>
+    );
+  }
+
+  if (outlets.length === 0) {
+    return (
+      <Alert>
+        <Zap className="h-4 w-4" />
+        <AlertTitle>No energy monitoring outlets</AlertTitle>
+        <AlertDescription>
+          None of your outlets report power or energy. Outlets such as IKEA INSPELNING show up here
+          once they are paired with the hub.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const today = daily[daily.length - 1];
+  const thisMonth = monthly[monthly.length - 1];
+  const todayKwh = today?.kwh ?? 0;
+  const monthKwh = thisMonth?.kwh ?? 0;
+  const now = new Date();
+  const elapsedDays = now.getDate() - 1 + (now.getHours() + now.getMinutes() / 60) / 24;
+  const projectedMonthKwh = elapsedDays > 0 ? (monthKwh / elapsedDays) * getDaysInMonth(now) : monthKwh;
+  const totalPower = outlets.reduce(
+    (sum, outlet) => sum + (outlet.isReachable && outlet.attributes.isOn ? outlet.attributes.currentActivePower ?? 0 : 0),
+    0
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <SummaryCard
+          title="Current power"
+          value={formatPower(totalPower)}
+          detail={`${outlets.filter((outlet) => outlet.attributes.isOn).length} of ${outlets.length} outlets on`}
+        />
+        <SummaryCard
+          title="Today"
+          value={formatEnergy(todayKwh)}
+          detail={`Estimated ${formatCurrency(estimateCost(todayKwh, tariff), tariff.currency)}`}
+        />
+        <SummaryCard
+          title="This month"
+          value={formatEnergy(monthKwh)}
+          detail={`${formatCurrency(estimateCost(monthKwh, tariff), tariff.currency)} so far, about ${formatCurrency(
+            estimateCost(projectedMonthKwh, tariff),
+            tariff.currency
+          )} by the end of the month`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Outlets</CardTitle>
+          <CardDescription>Live power draw and consumption per outlet</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {outlets.map((outlet) => {
+            const key = getDeviceKey({ hubId: outlet.hubId, deviceId: outlet.id });
+            return (
+              <OutletRow
+                key={key}
+                outlet={outlet}
+                todayKwh={today?.byDevice[key] ?? 0}
+                monthKwh={thisMonth?.byDevice[key] ?? 0}
+                hubName={hubNames.size > 1 ? hubNames.get(outlet.hubId ?? '') : undefined}
+                tariff={tariff}
+              />
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <ConsumptionChart
+        title="Daily Consumption"
+        description={`Last ${DAILY_BARS} days, from readings stored while the app was open`}
+        bars={toBars(daily, 'MMM d', tariff)}
+        currency={tariff.currency}
+      />
+      <ConsumptionChart
+        title="Monthly Consumption"
+        description={`Outlets without an energy meter only count the last ${DAILY_BARS} days`}
+        bars={toBars(monthly, 'MMM yyyy', tariff)}
+        currency={tariff.currency}
+      />
+
+      <TariffForm tariff={tariff} onChange={setTariff} />
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Heatmap Component
+ *
+ * Hourly averages of one metric of a device as a calendar heatmap: a row
+ * per day and a column per hour of day, built from the readings stored in
+ * IndexedDB. Each cell links to History zoomed in on that hour.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import { format, setHours, startOfDay, subDays } from 'date-fns';
+import { Grid3x3 } from 'lucide-react';
+import { querySensorReadings } from '@/lib/storage/history';
+import { useDevice } from '@/lib/api/hooks/useSensorData';
+import {
+  averageByHourOfDay,
+  buildHourlyHeatmap,
+  getHeatmapColor,
+  HEATMAP_SCALES,
+  type HourlyAverage,
+} from '@/lib/utils/heatmap';
+import { ENVIRONMENT_METRICS, METRIC_INFO, type EnvironmentMetric } from '@/lib/utils/metrics';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+
+export type HeatmapRange = 7 | 14 | 30;
+
+const RANGE_OPTIONS: HeatmapRange[] = [7, 14, 30];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Hour labels shown above the columns
+ */
+const LABELLED_HOURS = [0, 3, 6, 9, 12, 15, 18, 21];
+
+/**
+ * Row label column followed by one column per hour
+ */
+const GRID_COLUMNS = '6rem repeat(24, minmax(0, 1fr))';
+
+interface HeatmapProps {
+  deviceId: string;
+  /** Hub the device belongs to (device IDs are only unique per hub) */
+  hubId?: string;
+  metric: EnvironmentMetric;
+  days: HeatmapRange;
+  onChange: (change: { metric: EnvironmentMetric; days: HeatmapRange }) => void;
+}
+
+/**
+ * One hour of one day; links to History zoomed in on that hour, with an
+ * hour either side to show how it came about
+ */
+function HeatmapCell({
+  deviceId,
+  hubId,
+  metric,
+  hourStart,
+  cell,
+}: {
+  deviceId: string;
+  hubId?: string;
+  metric: EnvironmentMetric;
+  hourStart: Date;
+  cell?: HourlyAverage;
+}) {
+  if (!cell) {
+    return <div className="h-6 rounded-sm bg-muted" />;
+  }
+
+  const info = METRIC_INFO[metric];
+  return (
+    <Link
+      to="/history/$deviceId"
+      params={{ deviceId }}
+      search={{
+        hubId,
+        from: hourStart.getTime() - HOUR_MS,
+        to: hourStart.getTime() + 2 * HOUR_MS,
+      }}
+      className="h-6 rounded-sm transition-transform hover:scale-110 hover:ring-2 hover:ring-ring"
+      style={{ backgroundColor: getHeatmapColor(metric, cell.average) }}
+      title={`${format(hourStart, 'EEE d MMM, HH:00')}–${format(hourStart.getTime() + HOUR_MS, 'HH:00')}: ${info.format(cell.average)} (average of ${cell.count} ${cell.count === 1 ? 'reading' : 'readings'})`}
+    />
+  );
+}
+
+export function Heatmap({ deviceId, hubId, metric, days, onChange }: HeatmapProps) {
+  const { data: device } = useDevice(deviceId, { hubId });
+  const [points, setPoints] = useState<{ time: number; value: number }[] | null>(null);
+  const [range, setRange] = useState<{ start: Date; end: Date } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReadings() {
+      try {
+        setPoints(null);
+        setError(null);
+        const end = new Date();
+        // Whole days, today included
+        const start = startOfDay(subDays(end, days - 1));
+        const readings = await querySensorReadings({
+          hubId,
+          deviceId,
+          types: [metric],
+          timeRange: { start: start.toISOString(), end: end.toISOString() },
+        });
+        setPoints(
+          readings.map((reading) => ({
+            time: new Date(reading.timestamp).getTime(),
+            value: reading.value,
+          }))
+        );
+        setRange({ start, end });
+      } catch (err) {
+        console.error('Failed to load heatmap readings:', err);
+        setError('Failed to load the stored readings of this device.');
+        setPoints([]);
+      }
+    }
+
+    fetchReadings();
+  }, [deviceId, hubId, metric, days]);
+
+  const heatmap = useMemo(() => {
+    if (!points || !range) return null;
+    const rows = buildHourlyHeatmap(points, range);
+    return { rows: [...rows].reverse(), hourly: averageByHourOfDay(rows) };
+  }, [points, range]);
+
+  const info = METRIC_INFO[metric];
+  const steps = HEATMAP_SCALES[metric];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-xl font-semibold">{device?.customName || deviceId}</p>
+
+        <div className="flex flex-wrap gap-2">
+          <div className="flex border border-border rounded-lg p-1">
+            {ENVIRONMENT_METRICS.map((option) => (
+              <Button
+                key={option}
+                variant={metric === option ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => onChange({ metric: option, days })}
+              >
+                {METRIC_INFO[option].label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex border border-border rounded-lg p-1">
+            {RANGE_OPTIONS.map((option) => (
+              <Button
+                key={option}
+                variant={days === option ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => onChange({ metric, days: option })}
+              >
+                Last {option} days
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {points === null ? (
+        <Skeleton className="h-96" />
+      ) : points.length === 0 || !heatmap ? (
+        <Alert>
+          <Grid3x3 className="h-4 w-4" />
+          <AlertTitle>No {info.label.toLowerCase()} readings</AlertTitle>
+          <AlertDescription>
+            No {info.label.toLowerCase()} readings of this device are stored for the last {days}{' '}
+            days. Readings are stored while the Dashboard is open.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>{info.label} by hour of day</CardTitle>
+            <CardDescription>
+              Hourly averages ({info.unit}), newest day on top. Click an hour to see it in History.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <div className="min-w-[640px] space-y-1">
+                <div
+                  className="grid gap-1 text-xs text-muted-foreground"
+                  style={{ gridTemplateColumns: GRID_COLUMNS }}
+                >
+                  <span />
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <span key={hour}>
+                      {LABELLED_HOURS.includes(hour) ? String(hour).padStart(2, '0') : ''}
+                    </span>
+                  ))}
+                </div>
+
+                {heatmap.rows.map((day) => (
+                  <div
+                    key={day.date.toISOString()}
+                    className="grid items-center gap-1"
+                    style={{ gridTemplateColumns: GRID_COLUMNS }}
+                  >
+                    <span className="text-xs text-muted-foreground">{format(day.date, 'EEE d MMM')}</span>
+                    {day.hours.map((cell, hour) => (
+                      <HeatmapCell
+                        key={hour}
+                        deviceId={deviceId}
+                        hubId={hubId}
+                        metric={metric}
+                        hourStart={setHours(day.date, hour)}
+                        cell={cell}
+                      />
+                    ))}
+                  </div>
+                ))}
+
+                {/* Average of each hour over all days: the daily rhythm */}
+                <div
+                  className="grid items-center gap-1 border-t pt-2"
+                  style={{ gridTemplateColumns: GRID_COLUMNS }}
+                >
+                  <span className="text-xs font-medium">All days</span>
+                  {heatmap.hourly.map((cell, hour) =>
+                    cell ? (
+                      <div
+                        key={hour}
+                        className="h-6 rounded-sm"
+                        style={{ backgroundColor: getHeatmapColor(metric, cell.average) }}
+                        title={`${String(hour).padStart(2, '0')}:00–${String(hour + 1).padStart(2, '0')}:00: ${info.format(cell.average)} on average`}
+                      />
+                    ) : (
+                      <div key={hour} className="h-6 rounded-sm bg-muted" />
+                    )
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Colour scale */}
+            <div className="flex flex-wrap gap-x-4 gap-y-2 text-xs">
+              {steps.map((step, index) => {
+                const previous = steps[index - 1];
+                const bounds = !previous
+                  ? `≤${step.max}`
+                  : step.max === Infinity
+                    ? `>${previous.max}`
+                    : `${previous.max}–${step.max}`;
+                return (
+                  <div key={step.label} className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded" style={{ backgroundColor: step.color }} />
+                    <span>
+                      {step.label} ({bounds})
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -3,35 +3,63 @@
  *
  * Displays historical sensor data for a specific device with interactive charts,
  * statistics, and device information. Features multiple time range options,
- * professional data visualization, and CSV export functionality.
+ * professional data visualization, and CSV export functionality. Times the
+ * device was offline are shaded on every chart, explaining gaps in the data.
+ * Dragging across any chart zooms all charts to the selected range; the
+ * shown range is kept in the URL so a zoomed view can be bookmarked. The
+ * same range a day, week or month earlier can be overlaid as dashed lines,
+ * with the change in min, max and average in the stats cards.
  */
 
 import { useState, useEffect, useMemo } from 'react';
+import { Link } from '@tanstack/react-router';
+import { ChevronLeft, ChevronRight, GitCompare, Grid3x3, RotateCcw } from 'lucide-react';
 import {
   LineChart,
   Line,
   AreaChart,
   Area,
-  BarChart,
   Bar,
+  ComposedChart,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceArea,
   Cell,
 } from 'recharts';
 import { format, subDays, subHours } from 'date-fns';
-import type { SensorReading } from '@zigbee-visualizer/shared-types';
-import { querySensorReadings } from '@/lib/storage/history';
+import type { ReadingResolution, SensorReading } from '@zigbee-visualizer/shared-types';
+import {
+  coarsestResolution,
+  querySensorReadings,
+  RESOLUTION_STEP_MS,
+  selectResolution,
+} from '@/lib/storage/history';
+import { useDevice } from '@/lib/api/hooks/useSensorData';
+import { useReachabilityEvents } from '@/lib/api/hooks/useReachability';
+import { buildActivitySpans, getActiveMs } from '@/lib/utils/events';
+import {
+  alignPreviousPeriod,
+  getAlignmentTolerance,
+  COMPARISON_PERIOD_LABELS,
+  COMPARISON_PERIOD_MS,
+  COMPARISON_PERIODS,
+  summarizeValues,
+  type ComparisonPeriod,
+  type PeriodStats,
+} from '@/lib/utils/periods';
 import {
   formatTemperature,
   formatHumidity,
   formatPM25,
   formatVOCIndex,
   formatDateTime,
+  formatDelta,
   formatRelativeTime,
+  formatUptime,
   getAirQualityColor,
   getAirQualityDescription,
 } from '@/lib/utils/formatters';
@@ -43,23 +71,84 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DeviceNameEditor } from '@/components/DeviceNameEditor';
+import { getDeviceKey } from '@/lib/utils/devices';
 import { cn } from '@/lib/utils';
 
+export type TimeRangeOption = '24h' | '7d' | '30d';
+
+/**
+ * Range shown in the charts
+ */
+export interface HistoryView {
+  /** Range ending now, shown when no absolute range is set */
+  range: TimeRangeOption;
+  /** Start of an absolute range in epoch milliseconds, e.g. after zooming in */
+  from?: number;
+  /** End of the absolute range in epoch milliseconds */
+  to?: number;
+  /** Earlier period overlaid for comparison */
+  compare?: ComparisonPeriod;
+}
+
 interface HistoryProps {
   deviceId: string;
+  /** Hub the device belongs to; omitted for links created before multi-hub support */
+  hubId?: string;
+  view: HistoryView;
+  onViewChange: (view: HistoryView) => void;
 }
 
-type TimeRangeOption = '24h' | '7d' | '30d';
+const RANGE_LABELS: Record<TimeRangeOption, string> = {
+  '24h': 'last 24 hours',
+  '7d': 'last 7 days',
+  '30d': 'last 30 days',
+};
+
+/**
+ * Ranges up to this length get time of day ticks instead of dates
+ */
+const TIME_TICKS_MAX_MS = 36 * 60 * 60 * 1000;
+
+/**
+ * Shortest range a drag selection zooms to; shorter drags are treated as clicks
+ */
+const MIN_ZOOM_MS = 5 * 60 * 1000;
+
+/**
+ * Value format of datetime-local inputs, in local time
+ */
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
 
 interface ChartDataPoint {
   timestamp: string;
-  time: string;
+  /** Timestamp in epoch milliseconds, the x axis value */
+  time: number;
   temperature?: number;
   humidity?: number;
   pm25?: number;
   voc?: number;
+  /** Air purifier fan speed percentage */
+  fanSpeed?: number;
+  /** Values of the compared earlier period at this time */
+  previousTemperature?: number;
+  previousHumidity?: number;
+  previousPm25?: number;
+  previousVoc?: number;
 }
 
+type EnvironmentReadingType = 'temperature' | 'humidity' | 'pm25' | 'voc';
+
+const ENVIRONMENT_READING_TYPES: EnvironmentReadingType[] = ['temperature', 'humidity', 'pm25', 'voc'];
+
+const PREVIOUS_KEYS = {
+  temperature: 'previousTemperature',
+  humidity: 'previousHumidity',
+  pm25: 'previousPm25',
+  voc: 'previousVoc',
+} as const satisfies Record<EnvironmentReadingType, keyof ChartDataPoint>;
+
 interface MetricStats {
   min: number;
   max: number;
@@ -69,6 +158,8 @@ interface MetricStats {
   current?: number;
   previous?: number;
   trend?: 'up' | 'down' | 'stable';
+  /** Change against the compared period */
+  deltas?: { min: number; max: number; average: number };
 }
 
 interface DeviceInfo {
@@ -83,11 +174,42 @@ interface DeviceInfo {
   };
 }
 
-export default function History({ deviceId }: HistoryProps) {
-  const [timeRange, setTimeRange] = useState<TimeRangeOption>('24h');
+function StatRow({ label, value, delta }: { label: string; value: string; delta?: string }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">{label}:</span>
+      <span className="font-medium">
+        {value}
+        {delta && <span className="ml-2 text-xs font-normal text-muted-foreground">{delta}</span>}
+      </span>
+    </div>
+  );
+}
+
+export default function History({ deviceId, hubId, view, onViewChange }: HistoryProps) {
+  const timeRange = view.range;
+  const isAbsolute = view.from !== undefined && view.to !== undefined;
   const [readings, setReadings] = useState<SensorReading[]>([]);
+  // Readings of the compared earlier period, at their own times
+  const [previousReadings, setPreviousReadings] = useState<SensorReading[]>([]);
+  // Resolution both periods were queried at while comparing
+  const [compareResolution, setCompareResolution] = useState<ReadingResolution>('raw');
+  // Queried range in epoch milliseconds, the x axis domain
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Range being dragged across a chart, drawn on every chart
+  const [dragSelection, setDragSelection] = useState<{ start: number; end: number } | null>(null);
+  // Absolute range picker inputs
+  const [fromInput, setFromInput] = useState('');
+  const [toInput, setToInput] = useState('');
+
+  // Zooming, panning and picking a range keep the comparison
+  const changeRange = (range: Omit<HistoryView, 'compare'>) =>
+    onViewChange({ ...range, compare: view.compare });
+  // Live device for its current name; history only knows the name at each reading
+  const { data: device } = useDevice(deviceId, { hubId });
+  const { data: reachabilityEvents } = useReachabilityEvents({ hubId, deviceId });
 
   // Fetch historical data based on selected time range
   useEffect(() => {
@@ -96,30 +218,66 @@ export default function History({ deviceId }: HistoryProps) {
         setLoading(true);
         setError(null);
 
-        const now = new Date();
+        const endDate = view.to !== undefined ? new Date(view.to) : new Date();
         let startDate: Date;
 
-        switch (timeRange) {
-          case '24h':
-            startDate = subHours(now, 24);
-            break;
-          case '7d':
-            startDate = subDays(now, 7);
-            break;
-          case '30d':
-            startDate = subDays(now, 30);
-            break;
+        if (view.from !== undefined && view.to !== undefined) {
+          startDate = new Date(view.from);
+        } else {
+          switch (view.range) {
+            case '24h':
+              startDate = subHours(endDate, 24);
+              break;
+            case '7d':
+              startDate = subDays(endDate, 7);
+              break;
+            case '30d':
+              startDate = subDays(endDate, 30);
+              break;
+          }
         }
 
-        const data = await querySensorReadings({
-          deviceId,
-          timeRange: {
-            start: startDate.toISOString(),
-            end: now.toISOString(),
-          },
-        });
+        const offsetMs = view.compare ? COMPARISON_PERIOD_MS[view.compare] : 0;
+        const queryRange = {
+          start: startDate.toISOString(),
+          end: endDate.toISOString(),
+        };
+        const previousRange = {
+          start: new Date(startDate.getTime() - offsetMs).toISOString(),
+          end: new Date(endDate.getTime() - offsetMs).toISOString(),
+        };
+        // The earlier period may only be kept in coarser rollups; query both
+        // periods at the coarser of their resolutions so they are compared at
+        // the same step
+        const deviceKey = getDeviceKey({ hubId, deviceId });
+        const resolution = coarsestResolution(
+          selectResolution(queryRange, [], deviceKey),
+          selectResolution(previousRange, ENVIRONMENT_READING_TYPES, deviceKey)
+        );
+        const [data, previousData] = await Promise.all([
+          querySensorReadings({
+            hubId,
+            deviceId,
+            timeRange: queryRange,
+            resolution: view.compare ? resolution : 'auto',
+          }),
+          view.compare
+            ? querySensorReadings({
+                hubId,
+                deviceId,
+                types: ENVIRONMENT_READING_TYPES,
+                timeRange: previousRange,
+                resolution,
+              })
+            : Promise.resolve([]),
+        ]);
 
         setReadings(data);
+        setPreviousReadings(previousData);
+        setCompareResolution(resolution);
+        setRange({ start: startDate.getTime(), end: endDate.getTime() });
+        setFromInput(format(startDate, DATETIME_INPUT_FORMAT));
+        setToInput(format(endDate, DATETIME_INPUT_FORMAT));
       } catch (err) {
         console.error('Failed to fetch historical data:', err);
         setError('Failed to load historical data. Please try again.');
@@ -129,7 +287,26 @@ export default function History({ deviceId }: HistoryProps) {
     }
 
     fetchData();
-  }, [deviceId, timeRange]);
+  }, [deviceId, hubId, view.range, view.from, view.to, view.compare]);
+
+  // Earlier period's points by reading type, ascending
+  const previousPoints = useMemo(() => {
+    const points = new Map<string, { time: number; value: number; min?: number; max?: number }[]>();
+    for (const reading of previousReadings) {
+      const list = points.get(reading.type) ?? [];
+      list.push({
+        time: new Date(reading.timestamp).getTime(),
+        value: reading.value,
+        min: reading.min,
+        max: reading.max,
+      });
+      points.set(reading.type, list);
+    }
+    for (const list of points.values()) {
+      list.sort((a, b) => a.time - b.time);
+    }
+    return points;
+  }, [previousReadings]);
 
   // Process readings into chart data
   const chartData = useMemo(() => {
@@ -139,7 +316,7 @@ export default function History({ deviceId }: HistoryProps) {
       const timestamp = reading.timestamp;
       const existing = dataMap.get(timestamp) || {
         timestamp,
-        time: formatDateTime(timestamp, 'short'),
+        time: new Date(timestamp).getTime(),
       };
 
       switch (reading.type) {
@@ -155,44 +332,97 @@ export default function History({ deviceId }: HistoryProps) {
         case 'voc':
           existing.voc = reading.value;
           break;
+        case 'fanSpeed':
+          existing.fanSpeed = reading.value;
+          break;
       }
 
       dataMap.set(timestamp, existing);
     });
 
-    return Array.from(dataMap.values()).sort(
-      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    const rows = Array.from(dataMap.values()).sort((a, b) => a.time - b.time);
+
+    // Earlier period drawn at the times of this one
+    if (view.compare) {
+      const times = rows.map((row) => row.time);
+      for (const type of ENVIRONMENT_READING_TYPES) {
+        const points = previousPoints.get(type);
+        if (!points) continue;
+        alignPreviousPeriod(
+          times,
+          points,
+          COMPARISON_PERIOD_MS[view.compare],
+          getAlignmentTolerance(points, RESOLUTION_STEP_MS[compareResolution])
+        ).forEach((value, index) => {
+          rows[index]![PREVIOUS_KEYS[type]] = value;
+        });
+      }
+    }
+
+    return rows;
+  }, [readings, previousPoints, compareResolution, view.compare]);
+
+  // Offline spans within the range, drawn as bands behind the data
+  const offlineSpans = useMemo(() => {
+    if (!range) return [];
+    return buildActivitySpans(reachabilityEvents ?? []).filter(
+      (span) => span.end.getTime() > range.start && span.start.getTime() < range.end
     );
-  }, [readings]);
+  }, [reachabilityEvents, range]);
+
+  const uptime = useMemo(() => {
+    if (!range) return undefined;
+    const offlineMs = getActiveMs(offlineSpans, {
+      start: new Date(range.start),
+      end: new Date(Math.min(range.end, Date.now())),
+    });
+    return 1 - offlineMs / (range.end - range.start);
+  }, [offlineSpans, range]);
+
+  const rangeLabel =
+    isAbsolute && range
+      ? `${formatDateTime(new Date(range.start), 'datetime')} – ${formatDateTime(new Date(range.end), 'datetime')}`
+      : RANGE_LABELS[timeRange];
 
   // Calculate statistics for each metric
   const statistics = useMemo(() => {
     const stats: Record<string, MetricStats> = {};
 
-    const calculateStats = (
-      type: 'temperature' | 'humidity' | 'pm25' | 'voc'
-    ): MetricStats | null => {
-      const values = chartData
-        .map((d) => ({ value: d[type], timestamp: d.timestamp }))
-        .filter((d) => d.value !== undefined) as { value: number; timestamp: string }[];
+    const calculateStats = (type: EnvironmentReadingType): MetricStats | null => {
+      const values = readings
+        .filter((reading) => reading.type === type)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
       if (values.length === 0) return null;
 
-      const min = Math.min(...values.map((v) => v.value));
-      const max = Math.max(...values.map((v) => v.value));
+      // Rolled up readings are period averages; their extremes come with them
+      const lowest = (reading: SensorReading) => reading.min ?? reading.value;
+      const highest = (reading: SensorReading) => reading.max ?? reading.value;
+      const minReading = values.reduce((a, b) => (lowest(b) < lowest(a) ? b : a));
+      const maxReading = values.reduce((a, b) => (highest(b) > highest(a) ? b : a));
+      const min = lowest(minReading);
+      const max = highest(maxReading);
       const average = values.reduce((sum, v) => sum + v.value, 0) / values.length;
 
-      const minReading = values.find((v) => v.value === min)!;
-      const maxReading = values.find((v) => v.value === max)!;
-
       const current = values[values.length - 1]?.value;
       const previous = values.length > 1 ? values[0]?.value : undefined;
 
+      // Compared with the earlier period when one is shown, else first to last point
+      const previousStats: PeriodStats | undefined = view.compare
+        ? summarizeValues(previousPoints.get(type) ?? [])
+        : undefined;
+
       let trend: 'up' | 'down' | 'stable' = 'stable';
-      if (current !== undefined && previous !== undefined) {
-        const change = ((current - previous) / previous) * 100;
-        if (change > 2) trend = 'up';
-        else if (change < -2) trend = 'down';
+      const [from, to] = previousStats
+        ? [previousStats.average, average]
+        : [previous, current];
+      if (from !== undefined && to !== undefined) {
+        // Relative to the size of the starting value, so values below zero
+        // keep the direction; from zero any change counts
+        const change = from === 0 ? to : ((to - from) / Math.abs(from)) * 100;
+        const threshold = from === 0 ? 0 : 2;
+        if (change > threshold) trend = 'up';
+        else if (change < -threshold) trend = 'down';
       }
 
       return {
@@ -204,6 +434,11 @@ export default function History({ deviceId }: HistoryProps) {
         current,
         previous,
         trend,
+        deltas: previousStats && {
+          min: min - previousStats.min,
+          max: max - previousStats.max,
+          average: average - previousStats.average,
+        },
       };
     };
 
@@ -220,7 +455,7 @@ export default function History({ deviceId }: HistoryProps) {
     if (voc) stats.voc = voc;
 
     return stats;
-  }, [chartData]);
+  }, [readings, previousPoints, view.compare]);
 
   // Extract device info from latest readings
   const deviceInfo = useMemo((): DeviceInfo | null => {
@@ -268,7 +503,10 @@ export default function History({ deviceId }: HistoryProps) {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `sensor-data-${deviceId}-${timeRange}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    link.download =
+      isAbsolute && range
+        ? `sensor-data-${deviceId}-${format(range.start, 'yyyy-MM-dd-HHmm')}-${format(range.end, 'yyyy-MM-dd-HHmm')}.csv`
+        : `sensor-data-${deviceId}-${timeRange}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
     link.click();
     URL.revokeObjectURL(url);
   };
@@ -279,7 +517,7 @@ export default function History({ deviceId }: HistoryProps) {
 
     return (
       <div className="bg-popover border border-border rounded-lg shadow-lg p-3">
-        <p className="text-sm font-medium mb-2">{label}</p>
+        <p className="text-sm font-medium mb-2">{formatDateTime(new Date(label), 'datetime')}</p>
         {payload.map((entry: any, index: number) => (
           <p key={index} className="text-sm" style={{ color: entry.color }}>
             {entry.name}: {entry.value.toFixed(1)}
@@ -290,12 +528,100 @@ export default function History({ deviceId }: HistoryProps) {
     );
   };
 
+  // Shared time axis: proportional to time, so gaps in the data stay visible
+  const timeAxis = (
+    <XAxis
+      dataKey="time"
+      type="number"
+      scale="time"
+      domain={range ? [range.start, range.end] : ['dataMin', 'dataMax']}
+      allowDataOverflow
+      tickFormatter={(time: number) =>
+        formatDateTime(
+          new Date(time),
+          range && range.end - range.start <= TIME_TICKS_MAX_MS ? 'time' : 'short'
+        )
+      }
+      className="text-xs"
+      stroke="currentColor"
+      tick={{ fill: 'currentColor' }}
+    />
+  );
+
+  // Offline bands; charts with a named y axis must pass its ID
+  const renderOfflineBands = (yAxisId?: string) =>
+    offlineSpans.map((span) => (
+      <ReferenceArea
+        key={span.start.toISOString()}
+        yAxisId={yAxisId}
+        x1={Math.max(span.start.getTime(), range?.start ?? 0)}
+        x2={span.end.getTime()}
+        fill="#ef4444"
+        fillOpacity={0.12}
+        ifOverflow="hidden"
+      />
+    ));
+
+  // Zoom all charts to the range dragged across one of them
+  const zoomHandlers = {
+    syncId: 'history',
+    onMouseDown: (state: { activeLabel?: string | number } | null) => {
+      if (state?.activeLabel === undefined) return;
+      const time = Number(state.activeLabel);
+      setDragSelection({ start: time, end: time });
+    },
+    onMouseMove: (state: { activeLabel?: string | number } | null) => {
+      if (!dragSelection || state?.activeLabel === undefined) return;
+      setDragSelection({ ...dragSelection, end: Number(state.activeLabel) });
+    },
+    onMouseUp: () => {
+      if (dragSelection && Math.abs(dragSelection.end - dragSelection.start) >= MIN_ZOOM_MS) {
+        changeRange({
+          range: timeRange,
+          from: Math.min(dragSelection.start, dragSelection.end),
+          to: Math.max(dragSelection.start, dragSelection.end),
+        });
+      }
+      setDragSelection(null);
+    },
+    onMouseLeave: () => setDragSelection(null),
+  };
+
+  const renderDragSelection = (yAxisId?: string) =>
+    dragSelection && (
+      <ReferenceArea
+        yAxisId={yAxisId}
+        x1={dragSelection.start}
+        x2={dragSelection.end}
+        fill="#6366f1"
+        fillOpacity={0.15}
+        strokeOpacity={0.3}
+      />
+    );
+
+  // Move the range by half its length, not past now
+  const pan = (direction: -1 | 1) => {
+    if (!range) return;
+    const length = range.end - range.start;
+    const end = Math.min(range.end + (direction * length) / 2, Date.now());
+    changeRange({ range: timeRange, from: end - length, to: end });
+  };
+
+  const fromInputTime = new Date(fromInput).getTime();
+  const toInputTime = new Date(toInput).getTime();
+  const isInputRangeValid =
+    Number.isFinite(fromInputTime) && Number.isFinite(toInputTime) && fromInputTime < toInputTime;
+
+  // Air purifiers also record their fan speed, drawn over the PM2.5 bars
+  const hasFanSpeed = chartData.some((d) => d.fanSpeed !== undefined);
+
   // Get PM2.5 bar color based on air quality
   const getPM25BarColor = (value: number) => {
     return getAirQualityColor(value);
   };
 
-  if (loading) {
+  // Later loads (zooming, panning) keep the charts until the new data is in
+  if (loading && !range) {
     return (
       <div className="space-y-6">
         <Card>
@@ -326,7 +652,7 @@ export default function History({ deviceId }: HistoryProps) {
     );
   }
 
-  if (readings.length === 0) {
+  if (readings.length === 0 && !isAbsolute) {
     return (
       <div className="space-y-6">
         <Card>
@@ -351,37 +677,59 @@ export default function History({ deviceId }: HistoryProps) {
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
           <h2 className="text-2xl font-bold tracking-tight">Historical Data</h2>
-          <p className="text-sm text-muted-foreground">
-            {deviceInfo?.deviceName}
-            {deviceInfo?.roomName && ` • ${deviceInfo.roomName}`}
-          </p>
+          <div className="flex flex-wrap items-center gap-x-1 text-sm text-muted-foreground">
+            <DeviceNameEditor
+              deviceId={deviceId}
+              hubId={hubId}
+              name={device?.customName || deviceInfo?.deviceName || deviceId}
+              canRename={device?.capabilities.canReceive.includes('customName') ?? false}
+            />
+            {deviceInfo?.roomName && <span>• {deviceInfo.roomName}</span>}
+          </div>
         </div>
 
         <div className="flex flex-wrap items-center gap-2">
           <div className="flex border border-border rounded-lg p-1">
             <Button
-              variant={timeRange === '24h' ? 'default' : 'ghost'}
+              variant={!isAbsolute && timeRange === '24h' ? 'default' : 'ghost'}
               size="sm"
-              onClick={() => setTimeRange('24h')}
+              onClick={() => changeRange({ range: '24h' })}
             >
               Last 24h
             </Button>
             <Button
-              variant={timeRange === '7d' ? 'default' : 'ghost'}
+              variant={!isAbsolute && timeRange === '7d' ? 'default' : 'ghost'}
               size="sm"
-              onClick={() => setTimeRange('7d')}
+              onClick={() => changeRange({ range: '7d' })}
             >
               Last 7 days
             </Button>
             <Button
-              variant={timeRange === '30d' ? 'default' : 'ghost'}
+              variant={!isAbsolute && timeRange === '30d' ? 'default' : 'ghost'}
               size="sm"
-              onClick={() => setTimeRange('30d')}
+              onClick={() => changeRange({ range: '30d' })}
             >
               Last 30 days
             </Button>
           </div>
 
+          <Button variant="outline" size="sm" asChild>
+            <Link
+              to="/compare"
+              search={{ devices: [getDeviceKey({ hubId: hubId ?? device?.hubId, deviceId })] }}
+            >
+              <GitCompare className="w-4 h-4 mr-2" />
+              Compare
+            </Link>
+          </Button>
+
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/heatmap/$deviceId" params={{ deviceId }} search={{ hubId }}>
+              <Grid3x3 className="w-4 h-4 mr-2" />
+              Heatmap
+            </Link>
+          </Button>
+
           <Button variant="outline" size="sm" onClick={exportToCSV}>
             <svg
               className="w-4 h-4 mr-2"
@@ -401,6 +749,127 @@ export default function History({ deviceId }: HistoryProps) {
         </div>
       </div>
 
+      {/* Absolute range, pan and reset */}
+      <div className="flex flex-wrap items-end gap-2">
+        <form
+          className="flex flex-wrap items-end gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (isInputRangeValid) {
+              changeRange({ range: timeRange, from: fromInputTime, to: toInputTime });
+            }
+          }}
+        >
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>From</span>
+            <Input
+              type="datetime-local"
+              value={fromInput}
+              max={toInput}
+              onChange={(event) => setFromInput(event.target.value)}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>To</span>
+            <Input
+              type="datetime-local"
+              value={toInput}
+              min={fromInput}
+              onChange={(event) => setToInput(event.target.value)}
+            />
+          </label>
+          <Button type="submit" variant="outline" size="sm" disabled={!isInputRangeValid}>
+            Apply
+          </Button>
+        </form>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => pan(-1)} aria-label="Earlier">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => pan(1)}
+            disabled={!range || range.end >= Date.now() - MIN_ZOOM_MS}
+            aria-label="Later"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          {isAbsolute && (
+            <Button variant="outline" size="sm" onClick={() => changeRange({ range: timeRange })}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Compare with previous</span>
+          <div className="flex border border-border rounded-lg p-1">
+            <Button
+              variant={!view.compare ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => onViewChange({ ...view, compare: undefined })}
+            >
+              Off
+            </Button>
+            {COMPARISON_PERIODS.map((period) => (
+              <Button
+                key={period}
+                variant={view.compare === period ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => onViewChange({ ...view, compare: period })}
+              >
+                {period.charAt(0).toUpperCase() + period.slice(1)}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground sm:ml-auto">
+          {loading ? 'Loading…' : 'Drag across a chart to zoom in'}
+        </p>
+      </div>
+
+      {view.compare && range && (
+        <p className="text-sm text-muted-foreground">
+          Dashed lines and changes in the stats: the {COMPARISON_PERIOD_LABELS[view.compare]} (
+          {formatDateTime(new Date(range.start - COMPARISON_PERIOD_MS[view.compare]), 'datetime')} –{' '}
+          {formatDateTime(new Date(range.end - COMPARISON_PERIOD_MS[view.compare]), 'datetime')})
+        </p>
+      )}
+
+      {readings.length === 0 && (
+        <Card>
+          <CardContent className="p-12">
+            <p className="text-center text-sm text-muted-foreground">
+              No readings stored from {rangeLabel}.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Reachability over the range */}
+      {uptime !== undefined && (
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground">
+          <span>
+            Uptime <span className="font-medium text-foreground">{formatUptime(uptime)}</span>{' '}
+            {isAbsolute ? 'from' : 'over the'} {rangeLabel}
+          </span>
+          {offlineSpans.length > 0 && (
+            <>
+              <span>•</span>
+              <span className="inline-block h-3 w-3 rounded-sm border border-red-500/40 bg-red-500/20" />
+              <span>
+                Shaded areas: device offline ({offlineSpans.length}{' '}
+                {offlineSpans.length === 1 ? 'outage' : 'outages'})
+              </span>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Device Info Card */}
       {deviceInfo && (
         <Card className="bg-gradient-to-br from-indigo-500/10 via-teal-500/10 to-emerald-500/10 border-indigo-500/20">
@@ -484,24 +953,30 @@ export default function History({ deviceId }: HistoryProps) {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Min:</span>
-                <span className="font-medium">
-                  {formatTemperature(statistics.temperature.min)}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Max:</span>
-                <span className="font-medium">
-                  {formatTemperature(statistics.temperature.max)}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Avg:</span>
-                <span className="font-medium">
-                  {formatTemperature(statistics.temperature.average)}
-                </span>
-              </div>
+              <StatRow
+                label="Min"
+                value={formatTemperature(statistics.temperature.min)}
+                delta={
+                  statistics.temperature.deltas &&
+                  formatDelta(statistics.temperature.deltas.min, 1, '°C')
+                }
+              />
+              <StatRow
+                label="Max"
+                value={formatTemperature(statistics.temperature.max)}
+                delta={
+                  statistics.temperature.deltas &&
+                  formatDelta(statistics.temperature.deltas.max, 1, '°C')
+                }
+              />
+              <StatRow
+                label="Avg"
+                value={formatTemperature(statistics.temperature.average)}
+                delta={
+                  statistics.temperature.deltas &&
+                  formatDelta(statistics.temperature.deltas.average, 1, '°C')
+                }
+              />
             </CardContent>
           </Card>
         )}
@@ -528,24 +1003,30 @@ export default function History({ deviceId }: HistoryProps) {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Min:</span>
-                <span className="font-medium">
-                  {formatHumidity(statistics.humidity.min)}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Max:</span>
-                <span className="font-medium">
-                  {formatHumidity(statistics.humidity.max)}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Avg:</span>
-                <span className="font-medium">
-                  {formatHumidity(statistics.humidity.average)}
-                </span>
-              </div>
+              <StatRow
+                label="Min"
+                value={formatHumidity(statistics.humidity.min)}
+                delta={
+                  statistics.humidity.deltas &&
+                  formatDelta(statistics.humidity.deltas.min, 1, '%')
+                }
+              />
+              <StatRow
+                label="Max"
+                value={formatHumidity(statistics.humidity.max)}
+                delta={
+                  statistics.humidity.deltas &&
+                  formatDelta(statistics.humidity.deltas.max, 1, '%')
+                }
+              />
+              <StatRow
+                label="Avg"
+                value={formatHumidity(statistics.humidity.average)}
+                delta={
+                  statistics.humidity.deltas &&
+                  formatDelta(statistics.humidity.deltas.average, 1, '%')
+                }
+              />
             </CardContent>
           </Card>
         )}
@@ -572,20 +1053,30 @@ export default function History({ deviceId }: HistoryProps) {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Min:</span>
-                <span className="font-medium">{formatPM25(statistics.pm25.min)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Max:</span>
-                <span className="font-medium">{formatPM25(statistics.pm25.max)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Avg:</span>
-                <span className="font-medium">
-                  {formatPM25(statistics.pm25.average)}
-                </span>
-              </div>
+              <StatRow
+                label="Min"
+                value={formatPM25(statistics.pm25.min)}
+                delta={
+                  statistics.pm25.deltas &&
+                  formatDelta(statistics.pm25.deltas.min, 0, ' μg/m³')
+                }
+              />
+              <StatRow
+                label="Max"
+                value={formatPM25(statistics.pm25.max)}
+                delta={
+                  statistics.pm25.deltas &&
+                  formatDelta(statistics.pm25.deltas.max, 0, ' μg/m³')
+                }
+              />
+              <StatRow
+                label="Avg"
+                value={formatPM25(statistics.pm25.average)}
+                delta={
+                  statistics.pm25.deltas &&
+                  formatDelta(statistics.pm25.deltas.average, 0, ' μg/m³')
+                }
+              />
             </CardContent>
           </Card>
         )}
@@ -612,18 +1103,30 @@ export default function History({ deviceId }: HistoryProps) {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Min:</span>
-                <span className="font-medium">{formatVOCIndex(statistics.voc.min)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Max:</span>
-                <span className="font-medium">{formatVOCIndex(statistics.voc.max)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Avg:</span>
-                <span className="font-medium">{formatVOCIndex(statistics.voc.average)}</span>
-              </div>
+              <StatRow
+                label="Min"
+                value={formatVOCIndex(statistics.voc.min)}
+                delta={
+                  statistics.voc.deltas &&
+                  formatDelta(statistics.voc.deltas.min, 0)
+                }
+              />
+              <StatRow
+                label="Max"
+                value={formatVOCIndex(statistics.voc.max)}
+                delta={
+                  statistics.voc.deltas &&
+                  formatDelta(statistics.voc.deltas.max, 0)
+                }
+              />
+              <StatRow
+                label="Avg"
+                value={formatVOCIndex(statistics.voc.average)}
+                delta={
+                  statistics.voc.deltas &&
+                  formatDelta(statistics.voc.deltas.average, 0)
+                }
+              />
             </CardContent>
           </Card>
         )}
@@ -637,8 +1140,8 @@ export default function History({ deviceId }: HistoryProps) {
             <CardDescription>Temperature readings over time</CardDescription>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <AreaChart data={chartData}>
+            <ResponsiveContainer width="100%" height={300} className="select-none">
+              <AreaChart data={chartData} {...zoomHandlers}>
                 <defs>
                   <linearGradient id="temperatureGradient" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#6366f1" stopOpacity={0.3} />
@@ -646,12 +1149,7 @@ export default function History({ deviceId }: HistoryProps) {
                   </linearGradient>
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                <XAxis
-                  dataKey="time"
-                  className="text-xs"
-                  stroke="currentColor"
-                  tick={{ fill: 'currentColor' }}
-                />
+                {timeAxis}
                 <YAxis
                   className="text-xs"
                   stroke="currentColor"
@@ -663,6 +1161,8 @@ export default function History({ deviceId }: HistoryProps) {
                     style: { fill: 'currentColor' },
                   }}
                 />
+                {renderOfflineBands()}
+                {renderDragSelection()}
                 <Tooltip content={<CustomTooltip />} />
                 <Legend />
                 <Area
@@ -675,6 +1175,20 @@ export default function History({ deviceId }: HistoryProps) {
                   unit="°C"
                   animationDuration={1000}
                 />
+                {view.compare && (
+                  <Area
+                    type="monotone"
+                    dataKey="previousTemperature"
+                    stroke="#6366f1"
+                    strokeOpacity={0.5}
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    fill="none"
+                    name={`Temperature (${COMPARISON_PERIOD_LABELS[view.compare]})`}
+                    unit="°C"
+                    isAnimationActive={false}
+                  />
+                )}
               </AreaChart>
             </ResponsiveContainer>
           </CardContent>
@@ -689,15 +1203,10 @@ export default function History({ deviceId }: HistoryProps) {
             <CardDescription>Relative humidity readings over time</CardDescription>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
+            <ResponsiveContainer width="100%" height={300} className="select-none">
+              <LineChart data={chartData} {...zoomHandlers}>
                 <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                <XAxis
-                  dataKey="time"
-                  className="text-xs"
-                  stroke="currentColor"
-                  tick={{ fill: 'currentColor' }}
-                />
+                {timeAxis}
                 <YAxis
                   className="text-xs"
                   stroke="currentColor"
@@ -710,6 +1219,8 @@ export default function History({ deviceId }: HistoryProps) {
                     style: { fill: 'currentColor' },
                   }}
                 />
+                {renderOfflineBands()}
+                {renderDragSelection()}
                 <Tooltip content={<CustomTooltip />} />
                 <Legend />
                 <Line
@@ -722,6 +1233,20 @@ export default function History({ deviceId }: HistoryProps) {
                   unit="%"
                   animationDuration={1000}
                 />
+                {view.compare && (
+                  <Line
+                    type="monotone"
+                    dataKey="previousHumidity"
+                    stroke="#14b8a6"
+                    strokeOpacity={0.5}
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    name={`Humidity (${COMPARISON_PERIOD_LABELS[view.compare]})`}
+                    unit="%"
+                    isAnimationActive={false}
+                  />
+                )}
               </LineChart>
             </ResponsiveContainer>
           </CardContent>
@@ -735,19 +1260,16 @@ export default function History({ deviceId }: HistoryProps) {
             <CardTitle>PM2.5 Air Quality</CardTitle>
             <CardDescription>
               Particulate matter (PM2.5) concentration with EPA Air Quality Index
+              {hasFanSpeed && ', and the purifier fan speed'}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={chartData}>
+            <ResponsiveContainer width="100%" height={300} className="select-none">
+              <ComposedChart data={chartData} {...zoomHandlers}>
                 <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                <XAxis
-                  dataKey="time"
-                  className="text-xs"
-                  stroke="currentColor"
-                  tick={{ fill: 'currentColor' }}
-                />
+                {timeAxis}
                 <YAxis
+                  yAxisId="pm25"
                   className="text-xs"
                   stroke="currentColor"
                   tick={{ fill: 'currentColor' }}
@@ -758,9 +1280,28 @@ export default function History({ deviceId }: HistoryProps) {
                     style: { fill: 'currentColor' },
                   }}
                 />
+                {hasFanSpeed && (
+                  <YAxis
+                    yAxisId="fanSpeed"
+                    orientation="right"
+                    className="text-xs"
+                    stroke="currentColor"
+                    tick={{ fill: 'currentColor' }}
+                    domain={[0, 100]}
+                    label={{
+                      value: 'Fan %',
+                      angle: 90,
+                      position: 'insideRight',
+                      style: { fill: 'currentColor' },
+                    }}
+                  />
+                )}
+                {renderOfflineBands('pm25')}
+                {renderDragSelection('pm25')}
                 <Tooltip content={<CustomTooltip />} />
                 <Legend />
                 <Bar
+                  yAxisId="pm25"
                   dataKey="pm25"
                   name="PM2.5"
                   unit=" μg/m³"
@@ -774,7 +1315,36 @@ export default function History({ deviceId }: HistoryProps) {
                     />
                   ))}
                 </Bar>
-              </BarChart>
+                {view.compare && (
+                  <Line
+                    yAxisId="pm25"
+                    type="monotone"
+                    dataKey="previousPm25"
+                    stroke="#6b7280"
+                    strokeOpacity={0.5}
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    name={`PM2.5 (${COMPARISON_PERIOD_LABELS[view.compare]})`}
+                    unit=" μg/m³"
+                    isAnimationActive={false}
+                  />
+                )}
+                {hasFanSpeed && (
+                  <Line
+                    yAxisId="fanSpeed"
+                    type="stepAfter"
+                    dataKey="fanSpeed"
+                    stroke="#0ea5e9"
+                    strokeWidth={2}
+                    dot={false}
+                    name="Fan speed"
+                    unit="%"
+                    connectNulls
+                    animationDuration={1000}
+                  />
+                )}
+              </ComposedChart>
             </ResponsiveContainer>
 
             {/* Air Quality Legend */}
@@ -818,15 +1388,10 @@ export default function History({ deviceId }: HistoryProps) {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
+            <ResponsiveContainer width="100%" height={300} className="select-none">
+              <LineChart data={chartData} {...zoomHandlers}>
                 <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                <XAxis
-                  dataKey="time"
-                  className="text-xs"
-                  stroke="currentColor"
-                  tick={{ fill: 'currentColor' }}
-                />
+                {timeAxis}
                 <YAxis
                   className="text-xs"
                   stroke="currentColor"
@@ -838,6 +1403,8 @@ export default function History({ deviceId }: HistoryProps) {
                     style: { fill: 'currentColor' },
                   }}
                 />
+                {renderOfflineBands()}
+                {renderDragSelection()}
                 <Tooltip content={<CustomTooltip />} />
                 <Legend />
                 <Line
@@ -850,6 +1417,20 @@ export default function History({ deviceId }: HistoryProps) {
                   unit=""
                   animationDuration={1000}
                 />
+                {view.compare && (
+                  <Line
+                    type="monotone"
+                    dataKey="previousVoc"
+                    stroke="#10b981"
+                    strokeOpacity={0.5}
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    name={`VOC Index (${COMPARISON_PERIOD_LABELS[view.compare]})`}
+                    unit=""
+                    isAnimationActive={false}
+                  />
+                )}
               </LineChart>
             </ResponsiveContainer>
           </CardContent>
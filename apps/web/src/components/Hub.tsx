@@ -0,0 +1,349 @@
+/**
+ * Hub Component
+ *
+ * Identity and health of each hub, the firmware, reachability and uptime of
+ * every device, and a log of devices going offline and coming back.
+ */
+
+import { useMemo } from 'react';
+import { subDays } from 'date-fns';
+import { Router } from 'lucide-react';
+import type { DeviceStateEvent, DirigeeraDevice } from '@zigbee-visualizer/shared-types';
+import { useHubHealth, useHubInfo, useSensorData } from '@/lib/api/hooks/useSensorData';
+import { useReachabilityEvents } from '@/lib/api/hooks/useReachability';
+import { getHubIds } from '@/lib/api/dirigera-client';
+import { getHubProfiles } from '@/lib/storage/config';
+import { getDeviceKey } from '@/lib/utils/devices';
+import { calculateUptimes, EVENT_STATE_LABELS, type UptimePeriod } from '@/lib/utils/events';
+import { getAvailableFirmwareUpdate, getNewestFirmwareByModel } from '@/lib/utils/firmware';
+import {
+  formatDateTime,
+  formatDuration,
+  formatRelativeTime,
+  formatUptime,
+} from '@/lib/utils/formatters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+
+/** How far back reachability changes are shown */
+const FLAP_HISTORY_DAYS = 30;
+
+/** Most recent reachability changes listed in the log */
+const FLAP_LOG_LIMIT = 50;
+
+const UPTIME_PERIODS: UptimePeriod[] = ['24h', '7d', '30d'];
+
+/**
+ * Text colour of an uptime share: green from 99%, amber from 95%, red below
+ */
+function getUptimeClass(uptime: number): string {
+  if (uptime >= 0.99) return 'text-green-600 dark:text-green-400';
+  if (uptime >= 0.95) return 'text-amber-600 dark:text-amber-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+/**
+ * Reachability change with the outage it ended, if any
+ */
+interface FlapLogEntry {
+  event: DeviceStateEvent;
+  /** Time offline in milliseconds, on "Back online" entries */
+  offlineMs?: number;
+}
+
+/**
+ * Build the log entries from reachability events, newest first
+ * @param events - Reachability events of all devices, oldest first
+ * @param since - Leave out changes before this time
+ */
+function buildFlapLog(events: DeviceStateEvent[], since: Date): FlapLogEntry[] {
+  const offlineSince = new Map<string, number>();
+  const entries = events.map((event): FlapLogEntry => {
+    const key = getDeviceKey(event);
+    const time = new Date(event.timestamp).getTime();
+    if (event.active) {
+      offlineSince.set(key, time);
+      return { event };
+    }
+    const wentOffline = offlineSince.get(key);
+    offlineSince.delete(key);
+    return { event, offlineMs: wentOffline !== undefined ? time - wentOffline : undefined };
+  });
+  return entries
+    .filter(({ event }) => new Date(event.timestamp) >= since)
+    .reverse()
+    .slice(0, FLAP_LOG_LIMIT);
+}
+
+function HubField({ label, value }: { label: string; value?: string }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="font-medium truncate">{value ?? '—'}</p>
+    </div>
+  );
+}
+
+function HubCard({ hubId, name }: { hubId: string; name?: string }) {
+  const { data: info, isLoading: infoLoading } = useHubInfo({ hubId });
+  const { data: health, isLoading: healthLoading } = useHubHealth({ hubId });
+
+  if (infoLoading || healthLoading) {
+    return <Skeleton className="h-40" />;
+  }
+
+  const online = !!health?.healthy && info?.isOnline !== false;
+
+  return (
+    <Card className={cn(!online && 'border-red-500')}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <CardTitle className="truncate">{name ?? info?.model ?? 'Hub'}</CardTitle>
+            <CardDescription>
+              {health ? `Checked ${formatRelativeTime(health.timestamp)}` : 'Not checked yet'}
+            </CardDescription>
+          </div>
+          <Badge
+            variant={online ? 'outline' : 'destructive'}
+            className={cn(online && 'border-green-500 text-green-700 dark:text-green-400')}
+          >
+            {online ? 'Online' : 'Offline'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
+        <HubField label="Model" value={info?.model} />
+        <HubField label="Firmware" value={info?.firmwareVersion} />
+        <HubField label="Hardware" value={info?.hardwareVersion} />
+        <HubField label="Serial number" value={info?.serialNumber} />
+        <HubField
+          label="Uptime"
+          value={health?.uptime !== undefined ? formatDuration(health.uptime * 1000) : undefined}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function DeviceRow({
+  device,
+  update,
+  events,
+  since,
+  hubName,
+}: {
+  device: DirigeeraDevice;
+  update?: string;
+  /** Reachability events of the device, oldest first */
+  events: DeviceStateEvent[];
+  /** Start of the period outages are counted in */
+  since: Date;
+  hubName?: string;
+}) {
+  const flaps = events.filter((event) => event.active && new Date(event.timestamp) >= since).length;
+  const uptimes = calculateUptimes(events);
+
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-2 pr-4">
+        <p className="font-medium">{device.customName || device.id}</p>
+        <p className="text-xs text-muted-foreground">
+          {[hubName, device.room?.name].filter(Boolean).join(' • ')}
+        </p>
+      </td>
+      <td className="py-2 pr-4">{device.attributes.model}</td>
+      <td className="py-2 pr-4">
+        <span className="font-mono text-xs">{device.attributes.firmwareVersion || '—'}</span>
+        {update && (
+          <Badge
+            variant="outline"
+            className="ml-2 border-amber-400 text-amber-700 dark:text-amber-400"
+            title={`Another ${device.attributes.model} runs ${update}`}
+          >
+            Outdated
+          </Badge>
+        )}
+      </td>
+      <td className="py-2 pr-4 font-mono text-xs">{device.attributes.hardwareVersion || '—'}</td>
+      <td className="py-2 pr-4">
+        <span
+          className={cn(
+            'font-medium',
+            device.isReachable ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+          )}
+        >
+          {device.isReachable ? 'Reachable' : 'Unreachable'}
+        </span>
+      </td>
+      {UPTIME_PERIODS.map((period) => (
+        <td key={period} className={cn('py-2 pr-4 text-right font-medium', getUptimeClass(uptimes[period]))}>
+          {formatUptime(uptimes[period])}
+        </td>
+      ))}
+      <td className={cn('py-2 text-right', flaps === 0 && 'text-muted-foreground')}>{flaps}</td>
+    </tr>
+  );
+}
+
+export function Hub() {
+  const { data: devices, isLoading } = useSensorData();
+  const { data: events, isLoading: eventsLoading, error } = useReachabilityEvents();
+
+  const hubIds = useMemo(() => getHubIds(), []);
+  const hubNames = useMemo(
+    () => new Map(getHubProfiles().map((profile) => [profile.id, profile.name])),
+    []
+  );
+
+  const since = subDays(new Date(), FLAP_HISTORY_DAYS);
+
+  const newestByModel = useMemo(() => getNewestFirmwareByModel(devices ?? []), [devices]);
+
+  const eventsByDevice = useMemo(() => {
+    const byDevice = new Map<string, DeviceStateEvent[]>();
+    for (const event of events ?? []) {
+      const key = getDeviceKey(event);
+      byDevice.set(key, [...(byDevice.get(key) ?? []), event]);
+    }
+    return byDevice;
+  }, [events]);
+
+  const log = useMemo(
+    () => buildFlapLog(events ?? [], subDays(new Date(), FLAP_HISTORY_DAYS)),
+    [events]
+  );
+
+  const sortedDevices = useMemo(
+    () =>
+      [...(devices ?? [])].sort((a, b) =>
+        (a.customName || a.id).localeCompare(b.customName || b.id)
+      ),
+    [devices]
+  );
+
+  const showHubName = hubIds.length > 1;
+  const unreachable = sortedDevices.filter((device) => !device.isReachable).length;
+  const outdated = sortedDevices.filter((device) => getAvailableFirmwareUpdate(device, newestByModel)).length;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>Failed to load stored reachability changes.</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {hubIds.map((hubId) => (
+          <HubCard key={hubId} hubId={hubId} name={hubNames.get(hubId)} />
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Devices</CardTitle>
+          <CardDescription>
+            {sortedDevices.length} {sortedDevices.length === 1 ? 'device' : 'devices'} • {unreachable} unreachable
+            • {outdated} on outdated firmware. Firmware counts as outdated when another device of the
+            same model runs a newer version; uptime counts the time a device was seen offline.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48" />
+          ) : sortedDevices.length === 0 ? (
+            <Alert>
+              <Router className="h-4 w-4" />
+              <AlertTitle>No devices</AlertTitle>
+              <AlertDescription>No devices are paired with your hub yet.</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Device</th>
+                    <th className="py-2 pr-4 font-medium">Model</th>
+                    <th className="py-2 pr-4 font-medium">Firmware</th>
+                    <th className="py-2 pr-4 font-medium">Hardware</th>
+                    <th className="py-2 pr-4 font-medium">Reachability</th>
+                    {UPTIME_PERIODS.map((period) => (
+                      <th key={period} className="py-2 pr-4 font-medium text-right">
+                        Uptime {period}
+                      </th>
+                    ))}
+                    <th className="py-2 font-medium text-right">Offline ({FLAP_HISTORY_DAYS} d)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedDevices.map((device) => (
+                    <DeviceRow
+                      key={`${device.hubId}:${device.id}`}
+                      device={device}
+                      update={getAvailableFirmwareUpdate(device, newestByModel)}
+                      events={eventsByDevice.get(getDeviceKey({ hubId: device.hubId, deviceId: device.id })) ?? []}
+                      since={since}
+                      hubName={showHubName ? hubNames.get(device.hubId ?? '') : undefined}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reachability log</CardTitle>
+          <CardDescription>
+            Devices going offline and coming back in the last {FLAP_HISTORY_DAYS} days, newest first.
+            Changes are recorded while the app is open.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {eventsLoading ? (
+            <Skeleton className="h-24" />
+          ) : log.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No devices went offline in this period.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {log.map(({ event, offlineMs }) => (
+                <li
+                  key={`${getDeviceKey(event)}:${event.timestamp}`}
+                  className="flex flex-wrap items-center justify-between gap-x-4 gap-y-1 py-2"
+                >
+                  <div className="min-w-0">
+                    <span className="font-medium">{event.deviceName}</span>
+                    {event.roomName && <span className="text-muted-foreground"> • {event.roomName}</span>}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span
+                      className={cn(
+                        'font-medium',
+                        event.active ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                      )}
+                    >
+                      {event.active
+                        ? EVENT_STATE_LABELS.reachability.active
+                        : EVENT_STATE_LABELS.reachability.inactive}
+                    </span>
+                    {offlineMs !== undefined && (
+                      <span className="text-muted-foreground">after {formatDuration(offlineMs)}</span>
+                    )}
+                    <span className="text-muted-foreground">{formatDateTime(event.timestamp, 'datetime')}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * LeakAlarmBanner Component
+ *
+ * Full-width alarm under the header while any water leak incident needs
+ * attention: a leak that is still wet (acknowledged or not) or one that
+ * ended before anyone acknowledged it. Carries the acknowledge and clear
+ * buttons and offers to turn on browser notifications.
+ */
+
+import { useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import { BellRing, Droplet } from 'lucide-react';
+import { useLeakAlarms } from '@/lib/api/hooks/useLeakAlarms';
+import {
+  acknowledgeLeakIncident,
+  clearLeakIncident,
+  getLeakIncidentStatus,
+  type LeakIncident,
+} from '@/lib/storage/leaks';
+import {
+  getNotificationPermission,
+  requestNotificationPermission,
+} from '@/lib/utils/notifications';
+import { formatDateTime, formatRelativeTime } from '@/lib/utils/formatters';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+/**
+ * One incident with its workflow button
+ */
+function IncidentRow({ incident }: { incident: LeakIncident }) {
+  const status = getLeakIncidentStatus(incident);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (action: (id: string) => void) => {
+    try {
+      action(incident.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the incident');
+    }
+  };
+
+  const detail =
+    status === 'ended'
+      ? `Dry again ${formatRelativeTime(incident.endedAt!)} • leak started ${formatDateTime(incident.startedAt, 'datetime')}`
+      : `Water reported ${formatRelativeTime(incident.startedAt)}${
+          incident.acknowledgedAt ? ` • acknowledged ${formatDateTime(incident.acknowledgedAt, 'time')}` : ''
+        }`;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 py-2">
+      <div className="flex items-center gap-3 min-w-0">
+        <Droplet className={cn('h-5 w-5 shrink-0', status === 'alarm' && 'animate-pulse')} />
+        <div className="min-w-0">
+          <p className="font-semibold truncate">
+            {[incident.deviceName, incident.roomName].filter(Boolean).join(' • ')}
+          </p>
+          <p className="text-sm opacity-90">{detail}</p>
+          {error && <p className="text-sm font-medium">{error}</p>}
+        </div>
+      </div>
+      {status === 'alarm' && (
+        <Button size="sm" variant="secondary" onClick={() => run(acknowledgeLeakIncident)}>
+          Acknowledge
+        </Button>
+      )}
+      {status === 'ended' && (
+        <Button size="sm" variant="secondary" onClick={() => run(clearLeakIncident)}>
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function LeakAlarmBanner({ enabled = true }: { enabled?: boolean }) {
+  const alarms = useLeakAlarms({ enabled });
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  if (!enabled || alarms.length === 0) {
+    return null;
+  }
+
+  const isWet = alarms.some((incident) => !incident.endedAt);
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        'border-b text-white',
+        isWet ? 'bg-red-600 dark:bg-red-700' : 'bg-amber-600 dark:bg-amber-700'
+      )}
+    >
+      <div className="container mx-auto px-4 py-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-lg font-bold">
+            {isWet ? 'Water leak detected' : 'Water leak ended'}
+          </p>
+          <div className="flex items-center gap-3 text-sm">
+            {permission === 'default' && (
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 underline underline-offset-2"
+                onClick={async () => setPermission(await requestNotificationPermission())}
+              >
+                <BellRing className="h-4 w-4" />
+                Enable notifications
+              </button>
+            )}
+            <Link to="/leaks" className="underline underline-offset-2">
+              Incident log
+            </Link>
+          </div>
+        </div>
+        <div className="divide-y divide-white/20">
+          {alarms.map((incident) => (
+            <IncidentRow key={incident.id} incident={incident} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * LeakIncidents Component
+ *
+ * Water leak sensors and the persisted incident log: when each leak
+ * started, was acknowledged and ended, plus the browser notification
+ * setting for new leaks.
+ */
+
+import { useState } from 'react';
+import { BellRing, Droplet, ShieldCheck } from 'lucide-react';
+import { isWaterSensor } from '@zigbee-visualizer/shared-types';
+import { useSensorData } from '@/lib/api/hooks/useSensorData';
+import { useLeakIncidents } from '@/lib/api/hooks/useLeakAlarms';
+import {
+  acknowledgeLeakIncident,
+  clearClosedLeakIncidents,
+  clearLeakIncident,
+  getLeakIncidentStatus,
+  type LeakIncident,
+  type LeakIncidentStatus,
+} from '@/lib/storage/leaks';
+import {
+  getNotificationPermission,
+  requestNotificationPermission,
+} from '@/lib/utils/notifications';
+import { formatDateTime, formatDeviceStatus, formatDuration } from '@/lib/utils/formatters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+
+const STATUS_LABELS: Record<LeakIncidentStatus, string> = {
+  alarm: 'Alarm',
+  acknowledged: 'Acknowledged',
+  ended: 'Ended, not acknowledged',
+  closed: 'Closed',
+};
+
+const STATUS_CLASSES: Record<LeakIncidentStatus, string> = {
+  alarm: 'border-red-500 bg-red-50 text-red-700 dark:bg-red-950/30 dark:text-red-400',
+  acknowledged: 'border-red-500/60 text-red-700 dark:text-red-400',
+  ended: 'border-amber-500/60 text-amber-700 dark:text-amber-400',
+  closed: 'text-muted-foreground',
+};
+
+/**
+ * Time between two timestamps, or until now
+ */
+function elapsed(from: string, to?: string): string {
+  return formatDuration((to ? new Date(to).getTime() : Date.now()) - new Date(from).getTime());
+}
+
+/**
+ * Browser notification setting
+ */
+function NotificationCard() {
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  const description: Record<typeof permission, string> = {
+    granted: 'A notification is shown as soon as a sensor reports water, while the app is open.',
+    default: 'Get a browser notification as soon as a sensor reports water, while the app is open.',
+    denied: 'Notifications are blocked for this site. Allow them in the browser settings to be notified of leaks.',
+    unsupported: 'This browser does not support notifications here. They need a secure context (HTTPS or localhost).',
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>{description[permission]}</CardDescription>
+      </CardHeader>
+      {permission === 'default' && (
+        <CardContent>
+          <Button onClick={async () => setPermission(await requestNotificationPermission())}>
+            Enable notifications
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * One row of the incident log
+ */
+function IncidentRow({ incident }: { incident: LeakIncident }) {
+  const status = getLeakIncidentStatus(incident);
+
+  return (
+    <li className="flex flex-wrap items-start justify-between gap-4 py-4">
+      <div className="min-w-0 space-y-1">
+        <p className="font-medium">
+          {[incident.deviceName, incident.roomName].filter(Boolean).join(' • ')}
+        </p>
+        <div className="text-sm text-muted-foreground space-y-0.5">
+          <p>Started {formatDateTime(incident.startedAt, 'datetime')}</p>
+          {incident.acknowledgedAt && (
+            <p>
+              Acknowledged {formatDateTime(incident.acknowledgedAt, 'datetime')} (after{' '}
+              {elapsed(incident.startedAt, incident.acknowledgedAt)})
+            </p>
+          )}
+          <p>
+            {incident.endedAt
+              ? `Ended ${formatDateTime(incident.endedAt, 'datetime')} (lasted ${elapsed(incident.startedAt, incident.endedAt)})`
+              : `Ongoing for ${elapsed(incident.startedAt)}`}
+          </p>
+          {incident.clearedAt && <p>Cleared {formatDateTime(incident.clearedAt, 'datetime')}</p>}
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className={STATUS_CLASSES[status]}>
+          {STATUS_LABELS[status]}
+        </Badge>
+        {status === 'alarm' && (
+          <Button size="sm" onClick={() => acknowledgeLeakIncident(incident.id)}>
+            Acknowledge
+          </Button>
+        )}
+        {status === 'ended' && (
+          <Button size="sm" variant="outline" onClick={() => clearLeakIncident(incident.id)}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export function LeakIncidents() {
+  const { data: devices, isLoading } = useSensorData();
+  const incidents = useLeakIncidents();
+  const sensors = (devices ?? []).filter(isWaterSensor);
+  const newestFirst = [...incidents].reverse();
+  const hasClosed = incidents.some((incident) => getLeakIncidentStatus(incident) === 'closed');
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-48" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Leak sensors</CardTitle>
+            <CardDescription>
+              {sensors.length} water leak {sensors.length === 1 ? 'sensor' : 'sensors'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sensors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No water leak sensors yet. IKEA BADRING sensors show up here once they are paired with the hub.
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {sensors.map((sensor) => {
+                  const wet = sensor.attributes.waterLeakDetected;
+                  return (
+                    <li key={`${sensor.hubId}:${sensor.id}`} className="flex items-center justify-between gap-3 py-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        {wet ? (
+                          <Droplet className="h-4 w-4 shrink-0 text-red-600 dark:text-red-400" />
+                        ) : (
+                          <ShieldCheck className="h-4 w-4 shrink-0 text-green-600 dark:text-green-400" />
+                        )}
+                        <span className="truncate">
+                          {[sensor.customName || sensor.id, sensor.room?.name].filter(Boolean).join(' • ')}
+                        </span>
+                      </div>
+                      <span className={cn('text-sm', wet ? 'font-semibold text-red-600 dark:text-red-400' : 'text-muted-foreground')}>
+                        {wet ? 'Leak detected' : sensor.isReachable ? 'Dry' : formatDeviceStatus(false)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <NotificationCard />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Incident log</CardTitle>
+            <CardDescription>Newest first, kept on this device</CardDescription>
+          </div>
+          {hasClosed && (
+            <Button variant="outline" size="sm" onClick={clearClosedLeakIncidents}>
+              Remove closed incidents
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {newestFirst.length === 0 ? (
+            <Alert>
+              <ShieldCheck className="h-4 w-4" />
+              <AlertTitle>No leaks recorded</AlertTitle>
+              <AlertDescription>
+                Leaks are recorded while the app is open. Each incident keeps when the leak started, when it was
+                acknowledged and when the sensor reported dry again.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <ul className="divide-y">
+              {newestFirst.map((incident) => (
+                <IncidentRow key={incident.id} incident={incident} />
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
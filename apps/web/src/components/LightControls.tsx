@@ -0,0 +1,152 @@
+/**
+ * LightControls Component
+ *
+ * Toggle and sliders for a light: on/off, brightness, color temperature and
+ * color. Only the controls for attributes listed in the light's
+ * capabilities.canReceive are shown.
+ */
+
+import type { ReactNode } from 'react';
+import type { LightDevice } from '@zigbee-visualizer/shared-types';
+import { useLightControl } from '@/lib/api/hooks/useLightControl';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+
+/** Fallback color temperature range when the light does not report one */
+const DEFAULT_KELVIN_RANGE = { min: 2200, max: 4000 };
+
+const KELVIN_TRACK = 'linear-gradient(to right, #ffb46b, #fff4e5, #cfe0ff)';
+const HUE_TRACK =
+  'linear-gradient(to right, #f00, #ff0 17%, #0f0 33%, #0ff 50%, #00f 67%, #f0f 83%, #f00)';
+
+/**
+ * Labelled slider row with the current value on the right
+ */
+function ControlRow({
+  id,
+  label,
+  value,
+  children,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <Label htmlFor={id}>{label}</Label>
+        <span className="text-muted-foreground tabular-nums">{value}</span>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export function LightControls({ device }: { device: LightDevice }) {
+  const { id, hubId, isReachable, capabilities, attributes } = device;
+  const { update, error } = useLightControl(id, hubId);
+  const canReceive = (attribute: string) => capabilities.canReceive.includes(attribute);
+
+  // The hub names the range by mired order, so "min" is the cooler (higher) Kelvin value
+  const kelvinBounds = [attributes.colorTemperatureMin, attributes.colorTemperatureMax].filter(
+    (value): value is number => typeof value === 'number'
+  );
+  const kelvinRange = kelvinBounds.length === 2
+    ? { min: Math.min(...kelvinBounds), max: Math.max(...kelvinBounds) }
+    : DEFAULT_KELVIN_RANGE;
+
+  const controlId = (name: string) => `${hubId ?? 'hub'}-${id}-${name}`;
+  const showSliders = attributes.isOn || !canReceive('isOn');
+
+  return (
+    <div className="space-y-4">
+      {canReceive('isOn') && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor={controlId('power')}>Power</Label>
+          <Switch
+            id={controlId('power')}
+            checked={attributes.isOn}
+            disabled={!isReachable}
+            onCheckedChange={(isOn) => update({ isOn })}
+          />
+        </div>
+      )}
+
+      {showSliders && canReceive('lightLevel') && (
+        <ControlRow id={controlId('level')} label="Brightness" value={`${attributes.lightLevel}%`}>
+          <Slider
+            id={controlId('level')}
+            min={1}
+            max={100}
+            value={attributes.lightLevel}
+            disabled={!isReachable}
+            onValueChange={(lightLevel) => update({ lightLevel })}
+          />
+        </ControlRow>
+      )}
+
+      {showSliders && canReceive('colorTemperature') && attributes.colorTemperature !== undefined && (
+        <ControlRow
+          id={controlId('temperature')}
+          label="Color temperature"
+          value={`${attributes.colorTemperature} K`}
+        >
+          <Slider
+            id={controlId('temperature')}
+            min={kelvinRange.min}
+            max={kelvinRange.max}
+            step={10}
+            value={attributes.colorTemperature}
+            disabled={!isReachable}
+            trackBackground={KELVIN_TRACK}
+            onValueChange={(colorTemperature) => update({ colorTemperature })}
+          />
+        </ControlRow>
+      )}
+
+      {showSliders && canReceive('colorHue') && canReceive('colorSaturation') && (
+        <>
+          <ControlRow id={controlId('hue')} label="Color" value={`${Math.round(attributes.colorHue ?? 0)}°`}>
+            <Slider
+              id={controlId('hue')}
+              min={0}
+              max={360}
+              value={attributes.colorHue ?? 0}
+              disabled={!isReachable}
+              trackBackground={HUE_TRACK}
+              onValueChange={(colorHue) =>
+                update({ colorHue, colorSaturation: attributes.colorSaturation ?? 1 })
+              }
+            />
+          </ControlRow>
+          <ControlRow
+            id={controlId('saturation')}
+            label="Saturation"
+            value={`${Math.round((attributes.colorSaturation ?? 0) * 100)}%`}
+          >
+            <Slider
+              id={controlId('saturation')}
+              min={0}
+              max={100}
+              value={Math.round((attributes.colorSaturation ?? 0) * 100)}
+              disabled={!isReachable}
+              trackBackground={`linear-gradient(to right, #fff, hsl(${attributes.colorHue ?? 0} 100% 50%))`}
+              onValueChange={(saturation) =>
+                update({ colorHue: attributes.colorHue ?? 0, colorSaturation: saturation / 100 })
+              }
+            />
+          </ControlRow>
+        </>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+          Could not update the light: {error.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * OverlayChart Component
+ *
+ * One environment metric of several sensors on a shared time axis, one
+ * coloured line per sensor. Lines can be hidden from the legend.
+ */
+
+import { useMemo } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  getBucketMs,
+  mergeSeriesByTime,
+  METRIC_INFO,
+  type EnvironmentMetric,
+  type SeriesPoint,
+} from '@/lib/utils/metrics';
+import { formatDateTime } from '@/lib/utils/formatters';
+
+/**
+ * One line of the chart
+ */
+export interface OverlaySeries {
+  /** Unique key, used as the line's data key */
+  key: string;
+  name: string;
+  color: string;
+  points: SeriesPoint[];
+}
+
+interface OverlayChartProps {
+  metric: EnvironmentMetric;
+  series: OverlaySeries[];
+  /** Charted range in epoch milliseconds */
+  range: { start: number; end: number };
+  height?: number;
+  /** Keys of the series to hide */
+  hiddenKeys?: ReadonlySet<string>;
+  /** Called with a series key when its legend entry is clicked */
+  onToggleSeries?: (key: string) => void;
+}
+
+/**
+ * Ranges up to this length get time of day ticks instead of dates
+ */
+const TIME_TICKS_MAX_MS = 36 * 60 * 60 * 1000;
+
+function OverlayTooltip({ active, payload, label, metric }: any) {
+  if (!active || !payload || payload.length === 0) return null;
+
+  return (
+    <div className="bg-popover border border-border rounded-lg shadow-lg p-3">
+      <p className="text-sm font-medium mb-2">{formatDateTime(new Date(label), 'datetime')}</p>
+      {payload.map((entry: any) => (
+        <p key={entry.dataKey} className="text-sm" style={{ color: entry.color }}>
+          {entry.name}: {METRIC_INFO[metric as EnvironmentMetric].format(entry.value)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function OverlayChart({
+  metric,
+  series,
+  range,
+  height = 300,
+  hiddenKeys,
+  onToggleSeries,
+}: OverlayChartProps) {
+  const info = METRIC_INFO[metric];
+  const rangeMs = range.end - range.start;
+
+  const data = useMemo(() => mergeSeriesByTime(series, getBucketMs(rangeMs)), [series, rangeMs]);
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={[range.start, range.end]}
+          tickFormatter={(time: number) =>
+            formatDateTime(new Date(time), rangeMs <= TIME_TICKS_MAX_MS ? 'time' : 'short')
+          }
+          className="text-xs"
+          stroke="currentColor"
+          tick={{ fill: 'currentColor' }}
+        />
+        <YAxis
+          className="text-xs"
+          stroke="currentColor"
+          tick={{ fill: 'currentColor' }}
+          label={{
+            value: info.unit,
+            angle: -90,
+            position: 'insideLeft',
+            style: { fill: 'currentColor' },
+          }}
+        />
+        <Tooltip content={<OverlayTooltip metric={metric} />} />
+        <Legend
+          onClick={(entry) => onToggleSeries?.(String(entry.dataKey))}
+          wrapperStyle={onToggleSeries ? { cursor: 'pointer' } : undefined}
+        />
+        {series.map((entry) => (
+          <Line
+            key={entry.key}
+            type="monotone"
+            dataKey={entry.key}
+            name={entry.name}
+            stroke={entry.color}
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+            hide={hiddenKeys?.has(entry.key)}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * PairingWizard Component
+ *
+ * Guided hub pairing: requests an authorization code from the hub, asks the
+ * user to press the hub's action button and polls until the token exchange
+ * succeeds. The token is handed to the parent, which saves it with the hub.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, KeyRound, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { createDirigeraClient } from '@/lib/api/dirigera-client';
+import { pairWithHub, PairingError, type PairingStatus } from '@/lib/api/pairing';
+
+const PAIRING_TIMEOUT_MS = 90000;
+
+interface PairingWizardProps {
+  /** Hub address (IP:port), or null while the form is incomplete */
+  hubAddress: string | null;
+  /** Hub proxy URL when connecting through a proxy */
+  proxyUrl?: string;
+  /** Called with the new token after successful pairing */
+  onPaired: (token: string) => void;
+}
+
+type WizardState =
+  | { step: 'idle' }
+  | { step: 'running'; status: PairingStatus; startedAt: number }
+  | { step: 'success' }
+  | { step: 'error'; error: PairingError };
+
+export function PairingWizard({ hubAddress, proxyUrl, onPaired }: PairingWizardProps) {
+  const [state, setState] = useState<WizardState>({ step: 'idle' });
+  const [now, setNow] = useState(Date.now());
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel a running pairing when the wizard unmounts
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Tick the countdown while waiting for the button press
+  useEffect(() => {
+    if (state.step !== 'running') {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state.step]);
+
+  const handleStart = async () => {
+    if (!hubAddress) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setState({ step: 'running', status: 'authorizing', startedAt });
+
+    try {
+      const client = createDirigeraClient(hubAddress, null, { proxyUrl });
+      const token = await pairWithHub(client, {
+        timeout: PAIRING_TIMEOUT_MS,
+        signal: controller.signal,
+        onStatusChange: (status) => setState({ step: 'running', status, startedAt }),
+      });
+
+      setState({ step: 'success' });
+      onPaired(token);
+    } catch (error) {
+      const pairingError = error instanceof PairingError
+        ? error
+        : new PairingError('Pairing failed unexpectedly.', 'UNKNOWN', error);
+
+      if (pairingError.code === 'CANCELLED') {
+        setState({ step: 'idle' });
+      } else {
+        setState({ step: 'error', error: pairingError });
+      }
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  if (state.step === 'running') {
+    const secondsLeft = Math.max(
+      0,
+      Math.ceil((state.startedAt + PAIRING_TIMEOUT_MS - now) / 1000)
+    );
+
+    return (
+      <Alert>
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <AlertTitle>
+          {state.status === 'authorizing' ? 'Contacting hub...' : 'Press the action button on your hub'}
+        </AlertTitle>
+        <AlertDescription className="space-y-3">
+          {state.status === 'waitingForButton' && (
+            <p>
+              Press and release the action button on the bottom of the Dirigera hub.
+              Waiting for the press ({secondsLeft}s left)...
+            </p>
+          )}
+          <Button variant="outline" size="sm" onClick={handleCancel}>
+            Cancel
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (state.step === 'success') {
+    return (
+      <Alert variant="success">
+        <CheckCircle className="h-4 w-4" />
+        <AlertTitle>Hub paired</AlertTitle>
+        <AlertDescription>
+          A new authentication token was created and filled in below.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {state.step === 'error' && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>
+            {state.error.code === 'TIMEOUT'
+              ? 'Button not pressed in time'
+              : state.error.code === 'ALREADY_PAIRED'
+              ? 'Hub already paired'
+              : state.error.code === 'INVALID_PRESS'
+              ? 'Button press not accepted'
+              : 'Pairing failed'}
+          </AlertTitle>
+          <AlertDescription>{state.error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        type="button"
+        variant="secondary"
+        onClick={handleStart}
+        disabled={!hubAddress}
+        className="w-full gap-2"
+      >
+        <KeyRound className="h-4 w-4" />
+        {state.step === 'error' ? 'Try Pairing Again' : 'Pair with Hub'}
+      </Button>
+      {!hubAddress && (
+        <p className="text-xs text-muted-foreground">
+          Enter the hub IP address and port above to start pairing.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * PurifierControls Component
+ *
+ * Fan mode buttons and child lock and status light toggles for an air
+ * purifier. Only the controls for attributes listed in the purifier's
+ * capabilities.canReceive are shown.
+ */
+
+import type { EnvironmentSensorDevice, PurifierStateUpdate } from '@zigbee-visualizer/shared-types';
+import { useUpdateDevice } from '@/lib/api/hooks/useUpdateDevice';
+import { FAN_MODES, FAN_MODE_LABELS } from '@/lib/utils/purifier';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+export function PurifierControls({ device }: { device: EnvironmentSensorDevice }) {
+  const { id, hubId, isReachable, capabilities, attributes } = device;
+  const { mutate, error } = useUpdateDevice();
+  const canReceive = (attribute: string) => capabilities.canReceive.includes(attribute);
+
+  const update = (attributes: PurifierStateUpdate) =>
+    mutate({ deviceId: id, hubId, update: { attributes } });
+
+  const controlId = (name: string) => `${hubId ?? 'hub'}-${id}-${name}`;
+
+  return (
+    <div className="space-y-4">
+      {canReceive('fanMode') && (
+        <div className="space-y-2">
+          <Label>Fan mode</Label>
+          <div className="flex flex-wrap gap-1 border border-border rounded-lg p-1">
+            {FAN_MODES.map((fanMode) => (
+              <Button
+                key={fanMode}
+                variant={attributes.fanMode === fanMode ? 'default' : 'ghost'}
+                size="sm"
+                className="flex-1"
+                disabled={!isReachable}
+                onClick={() => update({ fanMode })}
+              >
+                {FAN_MODE_LABELS[fanMode]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {canReceive('childLock') && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor={controlId('child-lock')}>Child lock</Label>
+          <Switch
+            id={controlId('child-lock')}
+            checked={attributes.childLock ?? false}
+            disabled={!isReachable}
+            onCheckedChange={(childLock) => update({ childLock })}
+          />
+        </div>
+      )}
+
+      {canReceive('statusLight') && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor={controlId('status-light')}>Status light</Label>
+          <Switch
+            id={controlId('status-light')}
+            checked={attributes.statusLight ?? false}
+            disabled={!isReachable}
+            onCheckedChange={(statusLight) => update({ statusLight })}
+          />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+          Could not update the purifier: {error.message}
+        </p>
+      )}
+    </div>
+  );
+}
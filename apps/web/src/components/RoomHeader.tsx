@@ -0,0 +1,142 @@
+/**
+ * RoomHeader Component
+ *
+ * Name, icon and colour of a room as set up in the IKEA Home smart app,
+ * with the room's average temperature, worst PM2.5 and highest VOC index.
+ */
+
+import { Link } from '@tanstack/react-router';
+import {
+  Armchair,
+  Baby,
+  Bath,
+  BedDouble,
+  Car,
+  DoorOpen,
+  History,
+  House,
+  LampDesk,
+  Sofa,
+  ToyBrick,
+  TreePine,
+  UtensilsCrossed,
+  WashingMachine,
+  type LucideIcon,
+} from 'lucide-react';
+import type { EnvironmentSensorDevice, RoomResponse } from '@zigbee-visualizer/shared-types';
+import { getRoomColor, summarizeRoom } from '@/lib/utils/rooms';
+import {
+  formatPM25,
+  formatTemperature,
+  formatVOCIndex,
+  getAirQualityColor,
+} from '@/lib/utils/formatters';
+import { cn } from '@/lib/utils';
+
+/**
+ * Icons of the room icon names used by the IKEA Home smart app
+ */
+const ROOM_ICONS: Record<string, LucideIcon> = {
+  rooms_sofa: Sofa,
+  rooms_armchair: Armchair,
+  rooms_bed: BedDouble,
+  rooms_cutlery: UtensilsCrossed,
+  rooms_toy: ToyBrick,
+  rooms_baby: Baby,
+  rooms_desk: LampDesk,
+  rooms_door: DoorOpen,
+  rooms_bathtub: Bath,
+  rooms_washing_machine: WashingMachine,
+  rooms_car: Car,
+  rooms_tree: TreePine,
+};
+
+/**
+ * Icon of a room in its room colour
+ */
+export function RoomIcon({ room, className }: { room?: RoomResponse; className?: string }) {
+  const Icon = (room?.icon && ROOM_ICONS[room.icon]) || House;
+  const color = getRoomColor(room?.color);
+
+  return (
+    <div
+      className={cn('flex items-center justify-center rounded-lg p-2', className)}
+      style={{ backgroundColor: `${color}20`, color }}
+    >
+      <Icon className="h-5 w-5" />
+    </div>
+  );
+}
+
+function Aggregate({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <div className="text-right">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="font-semibold" style={color ? { color } : undefined}>
+        {value}
+      </p>
+    </div>
+  );
+}
+
+interface RoomHeaderProps {
+  /** Room; undefined for the sensors without a room */
+  room?: RoomResponse;
+  sensors: EnvironmentSensorDevice[];
+  /** Shown next to the room name when devices come from several hubs */
+  hubName?: string;
+  /** Whether to link to the room's history page */
+  showHistoryLink?: boolean;
+}
+
+export function RoomHeader({ room, sensors, hubName, showHistoryLink = false }: RoomHeaderProps) {
+  const { averageTemperature, worstPM25, highestVOC } = summarizeRoom(sensors);
+
+  return (
+    <div
+      className="flex flex-wrap items-center justify-between gap-4 border-l-4 pl-4"
+      style={{ borderColor: getRoomColor(room?.color) }}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <RoomIcon room={room} />
+        <div className="min-w-0">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 truncate">
+            {room?.name ?? 'No room'}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {[hubName, `${sensors.length} ${sensors.length === 1 ? 'sensor' : 'sensors'}`]
+              .filter(Boolean)
+              .join(' • ')}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6">
+        <Aggregate
+          label="Avg temperature"
+          value={averageTemperature !== undefined ? formatTemperature(averageTemperature) : 'N/A'}
+        />
+        <Aggregate
+          label="Worst PM2.5"
+          value={worstPM25 !== undefined ? formatPM25(worstPM25) : 'N/A'}
+          color={worstPM25 !== undefined ? getAirQualityColor(worstPM25) : undefined}
+        />
+        <Aggregate
+          label="Highest VOC"
+          value={highestVOC !== undefined ? formatVOCIndex(highestVOC) : 'N/A'}
+        />
+        {showHistoryLink && room && (
+          <Link
+            to="/rooms/$roomId"
+            params={{ roomId: room.id }}
+            search={{ hubId: room.hubId }}
+            className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:underline dark:text-indigo-400"
+          >
+            <History className="h-4 w-4" />
+            Room history
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * RoomHistory Component
+ *
+ * History of every environment sensor in a room, one chart per metric with
+ * a line per sensor, so the sensors of a room can be compared directly.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import { subDays, subHours } from 'date-fns';
+import { House } from 'lucide-react';
+import { isEnvironmentSensor, type SensorReading } from '@zigbee-visualizer/shared-types';
+import { useAllRooms, useSensorData } from '@/lib/api/hooks/useSensorData';
+import { querySensorReadings } from '@/lib/storage/history';
+import { getDeviceKey, parseDeviceKey } from '@/lib/utils/devices';
+import { ENVIRONMENT_METRICS, getSeriesColor, METRIC_INFO } from '@/lib/utils/metrics';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { OverlayChart, type OverlaySeries } from '@/components/OverlayChart';
+import { RoomHeader } from '@/components/RoomHeader';
+
+type TimeRangeOption = '24h' | '7d' | '30d';
+
+const RANGE_OPTIONS: { value: TimeRangeOption; label: string }[] = [
+  { value: '24h', label: 'Last 24h' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+];
+
+interface RoomHistoryProps {
+  roomId: string;
+  /** Hub the room belongs to (room IDs are only unique per hub) */
+  hubId?: string;
+}
+
+export function RoomHistory({ roomId, hubId }: RoomHistoryProps) {
+  const { data: devices, isLoading } = useSensorData();
+  const { data: rooms } = useAllRooms();
+  const [timeRange, setTimeRange] = useState<TimeRangeOption>('24h');
+  const [readings, setReadings] = useState<SensorReading[] | null>(null);
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sensors = useMemo(
+    () =>
+      (devices ?? [])
+        .filter(isEnvironmentSensor)
+        .filter((sensor) => sensor.room?.id === roomId && (!hubId || sensor.hubId === hubId)),
+    [devices, roomId, hubId]
+  );
+  const room =
+    rooms?.find((r) => r.id === roomId && (!hubId || r.hubId === hubId)) ??
+    (sensors[0]?.room && { ...sensors[0].room, hubId: sensors[0].hubId });
+
+  // Reload when the room's sensors change, not on every device update
+  const sensorKeys = sensors
+    .map((sensor) => getDeviceKey({ hubId: sensor.hubId, deviceId: sensor.id }))
+    .join(',');
+
+  useEffect(() => {
+    if (!sensorKeys) {
+      setReadings([]);
+      return;
+    }
+
+    async function fetchReadings() {
+      try {
+        setReadings(null);
+        setError(null);
+        const now = new Date();
+        const start =
+          timeRange === '24h' ? subHours(now, 24) : subDays(now, timeRange === '7d' ? 7 : 30);
+
+        const perSensor = await Promise.all(
+          sensorKeys.split(',').map((key) =>
+            querySensorReadings({
+              ...parseDeviceKey(key),
+              types: ENVIRONMENT_METRICS,
+              timeRange: { start: start.toISOString(), end: now.toISOString() },
+            })
+          )
+        );
+        setReadings(perSensor.flat());
+        setRange({ start: start.getTime(), end: now.getTime() });
+      } catch (err) {
+        console.error('Failed to load room history:', err);
+        setError('Failed to load the history of this room.');
+        setReadings([]);
+      }
+    }
+
+    fetchReadings();
+  }, [sensorKeys, timeRange]);
+
+  // One series per sensor and metric
+  const seriesByMetric = useMemo(() => {
+    return ENVIRONMENT_METRICS.map((metric) => {
+      const series: OverlaySeries[] = sensors
+        .map((sensor, index) => {
+          const key = getDeviceKey({ hubId: sensor.hubId, deviceId: sensor.id });
+          return {
+            key,
+            name: sensor.customName || sensor.id,
+            // Same colour as in the legend above, whichever metrics a sensor has
+            color: getSeriesColor(index),
+            points: (readings ?? [])
+              .filter((reading) => reading.type === metric && getDeviceKey(reading) === key)
+              .map((reading) => ({ time: new Date(reading.timestamp).getTime(), value: reading.value })),
+          };
+        })
+        .filter((entry) => entry.points.length > 0);
+      return { metric, series };
+    }).filter(({ series }) => series.length > 0);
+  }, [sensors, readings]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-16" />
+        <Skeleton className="h-80" />
+      </div>
+    );
+  }
+
+  if (sensors.length === 0) {
+    return (
+      <Alert>
+        <House className="h-4 w-4" />
+        <AlertTitle>No sensors in this room</AlertTitle>
+        <AlertDescription>
+          None of your environment sensors is assigned to this room. Rooms are set up in the IKEA
+          Home smart app.{' '}
+          <Link to="/dashboard" className="underline">
+            Back to the Dashboard
+          </Link>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <RoomHeader room={room} sensors={sensors} />
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+          {sensors.map((sensor, index) => (
+            <Link
+              key={`${sensor.hubId}:${sensor.id}`}
+              to="/history/$deviceId"
+              params={{ deviceId: sensor.id }}
+              search={{ hubId: sensor.hubId }}
+              className="flex items-center gap-1.5 hover:underline"
+            >
+              <span className="h-3 w-3 rounded-full" style={{ backgroundColor: getSeriesColor(index) }} />
+              {sensor.customName || sensor.id}
+            </Link>
+          ))}
+        </div>
+        <div className="flex border border-border rounded-lg p-1">
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              variant={timeRange === option.value ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setTimeRange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {readings === null ? (
+        <Skeleton className="h-80" />
+      ) : !range || seriesByMetric.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No readings stored for this room in the selected range yet.
+        </p>
+      ) : (
+        seriesByMetric.map(({ metric, series }) => (
+          <Card key={metric}>
+            <CardHeader>
+              <CardTitle>{METRIC_INFO[metric].label}</CardTitle>
+              <CardDescription>
+                {series.length} {series.length === 1 ? 'sensor' : 'sensors'} in{' '}
+                {room?.name ?? 'this room'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OverlayChart metric={metric} series={series} range={range} />
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
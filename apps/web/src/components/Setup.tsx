@@ -1,9 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from '@tanstack/react-router';
-import { AlertCircle, CheckCircle, Info, Loader2, ExternalLink } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, CheckCircle, FlaskConical, Info, Loader2, Plus, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
 import {
   Card,
   CardContent,
@@ -13,19 +16,39 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { getConfig, setConfig } from '@/lib/storage/config';
-import { createDirigeraClient } from '@/lib/api/dirigera-client';
+import {
+  disableDemoMode,
+  enableDemoMode,
+  generateHubId,
+  getActiveHubId,
+  getHubProfiles,
+  isDemoMode,
+  removeHubProfile,
+  saveHubProfile,
+  setActiveHubId,
+  type HubProfile,
+} from '@/lib/storage/config';
+import { createDirigeraClient, resetDirigeraClient } from '@/lib/api/dirigera-client';
+import { resetDirigeraEventStream } from '@/lib/api/dirigera-events';
+import { sensorQueryKeys } from '@/lib/api/hooks/useSensorData';
+import { clearDemoHistory, seedDemoHistory } from '@/lib/demo/seed';
+import { PairingWizard } from '@/components/PairingWizard';
 
 interface FormData {
+  name: string;
   hubAddress: string;
   port: string;
   token: string;
+  useProxy: boolean;
+  proxyUrl: string;
 }
 
 interface FormErrors {
+  name?: string;
   hubAddress?: string;
   port?: string;
   token?: string;
+  proxyUrl?: string;
 }
 
 interface TestResult {
@@ -33,30 +56,114 @@ interface TestResult {
   message: string;
 }
 
+// Default listen address of the hub-proxy package
+const DEFAULT_PROXY_URL = 'http://localhost:8080';
+
+const EMPTY_FORM: FormData = {
+  name: '',
+  hubAddress: '',
+  port: '8443',
+  token: '',
+  useProxy: false,
+  proxyUrl: DEFAULT_PROXY_URL,
+};
+
+/**
+ * Fill the form from a stored hub profile (or reset it for a new hub)
+ */
+function toFormData(profile: HubProfile | undefined, isFirstHub: boolean): FormData {
+  if (!profile) {
+    return { ...EMPTY_FORM, name: isFirstHub ? 'Home' : '' };
+  }
+  return {
+    name: profile.name,
+    hubAddress: profile.hubAddress,
+    port: profile.port.toString(),
+    token: profile.token || '',
+    useProxy: profile.connectionMode === 'proxy',
+    proxyUrl: profile.proxyUrl || DEFAULT_PROXY_URL,
+  };
+}
+
+/**
+ * Build the hub profile to store from the form
+ */
+function toProfile(formData: FormData, existing: HubProfile | undefined): HubProfile {
+  const token = formData.token.trim();
+  return {
+    id: existing?.id ?? generateHubId(),
+    name: formData.name.trim(),
+    hubAddress: formData.hubAddress.trim(),
+    port: parseInt(formData.port.trim(), 10),
+    token,
+    tokenCreatedAt:
+      existing?.token === token ? existing.tokenCreatedAt : new Date().toISOString(),
+    tokenExpiresAt: existing?.token === token ? existing.tokenExpiresAt : undefined,
+    connectionMode: formData.useProxy ? 'proxy' : 'direct',
+    proxyUrl: formData.useProxy ? formData.proxyUrl.trim() : undefined,
+  };
+}
+
 export function Setup() {
   const navigate = useNavigate();
-  const [formData, setFormData] = useState<FormData>({
-    hubAddress: '',
-    port: '8443',
-    token: '',
-  });
+  const queryClient = useQueryClient();
+  const [profiles, setProfiles] = useState<HubProfile[]>([]);
+  // Profile being edited; null while adding a new hub
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
   const [errors, setErrors] = useState<FormErrors>({});
   const [testResult, setTestResult] = useState<TestResult | null>(null);
   const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [demoActive, setDemoActive] = useState(isDemoMode());
+  const [isSwitchingDemo, setIsSwitchingDemo] = useState(false);
 
-  // Load existing config on mount
+  // Load existing hubs on mount and edit the active one
   useEffect(() => {
-    const config = getConfig();
-    if (config) {
-      setFormData({
-        hubAddress: config.hubAddress,
-        port: config.port.toString(),
-        token: config.token || '',
-      });
-    }
+    const storedProfiles = getHubProfiles();
+    const activeId = getActiveHubId();
+    setProfiles(storedProfiles);
+    setEditingId(activeId);
+    setFormData(
+      toFormData(
+        storedProfiles.find((profile) => profile.id === activeId),
+        storedProfiles.length === 0
+      )
+    );
   }, []);
 
+  // Switch the form to another hub, or to a new one (null)
+  const selectProfile = (hubId: string | null) => {
+    setEditingId(hubId);
+    setFormData(
+      toFormData(profiles.find((profile) => profile.id === hubId), profiles.length === 0)
+    );
+    setErrors({});
+    setTestResult(null);
+  };
+
+  // Remove a hub; its history stays until the regular cleanup removes it
+  const handleRemoveProfile = (hubId: string) => {
+    try {
+      removeHubProfile(hubId);
+      resetDirigeraClient(hubId);
+      resetDirigeraEventStream(hubId);
+      queryClient.removeQueries({ queryKey: sensorQueryKeys.all });
+
+      const remaining = getHubProfiles();
+      setProfiles(remaining);
+      if (editingId === hubId) {
+        const activeId = getActiveHubId();
+        setEditingId(activeId);
+        setFormData(
+          toFormData(remaining.find((profile) => profile.id === activeId), remaining.length === 0)
+        );
+      }
+    } catch (error) {
+      console.error('Failed to remove hub:', error);
+    }
+  };
+
   // Validate IP address format
   const validateIpAddress = (ip: string): boolean => {
     // Allow localhost or valid IP address
@@ -72,32 +179,62 @@ export function Setup() {
     return !isNaN(portNum) && portNum >= 1 && portNum <= 65535;
   };
 
-  // Validate form
-  const validateForm = (): boolean => {
+  // Validate proxy URL
+  const validateProxyUrl = (url: string): boolean => {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  };
+
+  // Validate form, or the given form values
+  const validateForm = (data: FormData = formData): boolean => {
     const newErrors: FormErrors = {};
 
-    if (!formData.hubAddress.trim()) {
+    if (!data.name.trim()) {
+      newErrors.name = 'Hub name is required';
+    } else if (
+      profiles.some(
+        (profile) =>
+          profile.id !== editingId &&
+          profile.name.toLowerCase() === data.name.trim().toLowerCase()
+      )
+    ) {
+      newErrors.name = 'Another hub already uses this name';
+    }
+
+    if (!data.hubAddress.trim()) {
       newErrors.hubAddress = 'Hub IP address is required';
-    } else if (!validateIpAddress(formData.hubAddress.trim())) {
+    } else if (!validateIpAddress(data.hubAddress.trim())) {
       newErrors.hubAddress = 'Invalid IP address format';
     }
 
-    if (!formData.port.trim()) {
+    if (!data.port.trim()) {
       newErrors.port = 'Port is required';
-    } else if (!validatePort(formData.port.trim())) {
+    } else if (!validatePort(data.port.trim())) {
       newErrors.port = 'Port must be between 1 and 65535';
     }
 
-    if (!formData.token.trim()) {
+    if (!data.token.trim()) {
       newErrors.token = 'Authentication token is required';
     }
 
+    if (data.useProxy) {
+      if (!data.proxyUrl.trim()) {
+        newErrors.proxyUrl = 'Proxy URL is required';
+      } else if (!validateProxyUrl(data.proxyUrl.trim())) {
+        newErrors.proxyUrl = 'Proxy URL must start with http:// or https://';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
   // Handle form field changes
-  const handleChange = (field: keyof FormData) => (
+  const handleChange = (field: Exclude<keyof FormData, 'useProxy'>) => (
     e: React.ChangeEvent<HTMLInputElement>
   ) => {
     setFormData((prev) => ({ ...prev, [field]: e.target.value }));
@@ -107,6 +244,49 @@ export function Setup() {
     setTestResult(null);
   };
 
+  // Toggle proxy mode
+  const handleProxyToggle = (checked: boolean) => {
+    setFormData((prev) => ({ ...prev, useProxy: checked }));
+    setErrors((prev) => ({ ...prev, proxyUrl: undefined }));
+    setTestResult(null);
+  };
+
+  // Store the token created by the pairing wizard right away, so it is not
+  // lost when the user leaves the page or the connection test fails
+  const handlePaired = (token: string) => {
+    const existing = profiles.find((profile) => profile.id === editingId);
+    const paired: FormData = {
+      ...formData,
+      name: formData.name.trim() || existing?.name || formData.hubAddress.trim(),
+      token,
+    };
+    setFormData(paired);
+    setTestResult(null);
+    // The token stays in the form until the errors are fixed and it is saved
+    if (!validateForm(paired)) {
+      return;
+    }
+
+    try {
+      const profile = toProfile(paired, existing);
+      saveHubProfile(profile);
+      setActiveHubId(profile.id);
+      queryClient.removeQueries({ queryKey: sensorQueryKeys.all });
+      resetDirigeraClient(profile.id);
+      resetDirigeraEventStream(profile.id);
+      setProfiles(getHubProfiles());
+      setEditingId(profile.id);
+      setErrors((prev) => ({ ...prev, name: undefined, token: undefined }));
+    } catch (error) {
+      // The token stays in the form; saving the configuration stores it
+      console.error('Failed to store pairing token:', error);
+      setErrors((prev) => ({
+        ...prev,
+        token: 'Failed to store the token. Save the configuration to keep it.',
+      }));
+    }
+  };
+
   // Test connection to hub
   const handleTestConnection = async () => {
     if (!validateForm()) {
@@ -118,7 +298,9 @@ export function Setup() {
 
     try {
       const hubAddress = `${formData.hubAddress}:${formData.port}`;
-      const client = createDirigeraClient(hubAddress, formData.token);
+      const client = createDirigeraClient(hubAddress, formData.token, {
+        proxyUrl: formData.useProxy ? formData.proxyUrl.trim() : undefined,
+      });
 
       // Try to get hub info as a connection test
       const hubInfo = await client.getHubInfo();
@@ -135,7 +317,9 @@ export function Setup() {
       if (error.status === 401 || error.status === 403) {
         errorMessage += 'Authentication failed. Please check your token.';
       } else if (error.status === 0 || error.code === 'NETWORK_ERROR') {
-        errorMessage += 'Unable to reach the hub. Please verify:\n" Hub IP address and port are correct\n" Hub is online and accessible on your network\n" CORS proxy is configured (browser limitation)';
+        errorMessage += formData.useProxy
+          ? 'Unable to reach the hub proxy. Please verify:\n" Proxy URL is correct and hub-proxy is running\n" hub-proxy is configured with the right hub address'
+          : 'Unable to reach the hub. Please verify:\n" Hub IP address and port are correct\n" Hub is online and accessible on your network\n" CORS is disabled, or enable "Connect through proxy" (browser limitation)';
       } else {
         errorMessage += error.message || 'Unknown error occurred.';
       }
@@ -159,11 +343,22 @@ export function Setup() {
 
     try {
       // Save to localStorage
-      setConfig({
-        hubAddress: formData.hubAddress.trim(),
-        port: parseInt(formData.port.trim(), 10),
-        token: formData.token.trim(),
-      });
+      const existing = profiles.find((profile) => profile.id === editingId);
+      const profile = toProfile(formData, existing);
+      saveHubProfile(profile);
+      setActiveHubId(profile.id);
+      // Saving a real hub leaves demo mode
+      disableDemoMode();
+
+      // Drop the cached client, event stream and data so they pick up the new base URL
+      resetDirigeraClient(profile.id);
+      resetDirigeraEventStream(profile.id);
+      queryClient.removeQueries({ queryKey: sensorQueryKeys.all });
+      if (demoActive) {
+        await clearDemoHistory().catch((error) => {
+          console.error('Failed to clear demo history:', error);
+        });
+      }
 
       // Wait a bit to show the saving state
       await new Promise((resolve) => setTimeout(resolve, 500));
@@ -181,6 +376,48 @@ export function Setup() {
     }
   };
 
+  // Switch to the built-in demo hub and seed its history
+  const handleTryDemo = async () => {
+    setIsSwitchingDemo(true);
+    setTestResult(null);
+
+    try {
+      enableDemoMode();
+      resetDirigeraClient();
+      resetDirigeraEventStream();
+      queryClient.removeQueries({ queryKey: sensorQueryKeys.all });
+      await seedDemoHistory();
+
+      navigate({ to: '/' });
+    } catch (error: any) {
+      console.error('Failed to start demo mode:', error);
+      setTestResult({
+        success: false,
+        message: 'Failed to prepare the demo history. The demo still works, but charts may be empty.',
+      });
+    } finally {
+      setIsSwitchingDemo(false);
+    }
+  };
+
+  // Leave demo mode and remove the synthetic history
+  const handleExitDemo = async () => {
+    setIsSwitchingDemo(true);
+
+    try {
+      disableDemoMode();
+      resetDirigeraClient();
+      resetDirigeraEventStream();
+      queryClient.removeQueries({ queryKey: sensorQueryKeys.all });
+      await clearDemoHistory();
+    } catch (error: any) {
+      console.error('Failed to clear demo history:', error);
+    } finally {
+      setDemoActive(false);
+      setIsSwitchingDemo(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-teal-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-4">
       <Card className="w-full max-w-2xl">
@@ -197,29 +434,140 @@ export function Setup() {
             <Info className="h-4 w-4" />
             <AlertTitle>Getting Started</AlertTitle>
             <AlertDescription>
-              <p className="mb-2">
-                To connect to your Dirigera hub, you'll need to generate an authentication token.
-              </p>
               <ol className="list-decimal list-inside space-y-1 text-sm">
                 <li>Find your hub's IP address in your router's DHCP client list</li>
-                <li>Press and hold the action button on the bottom of the hub</li>
-                <li>Use a tool like <code className="text-xs bg-muted px-1 py-0.5 rounded">curl</code> or Postman to send a POST request to <code className="text-xs bg-muted px-1 py-0.5 rounded">https://[HUB_IP]:8443/v1/oauth/token</code></li>
-                <li>The response will contain your authentication token</li>
+                <li>Enter it below, then click <strong>Pair with Hub</strong></li>
+                <li>Press the action button on the bottom of the hub when asked</li>
+                <li>The authentication token is filled in automatically</li>
               </ol>
-              <a
-                href="https://github.com/Leggin/dirigera#authentication"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center gap-1 mt-2 text-sm text-primary hover:underline"
-              >
-                View detailed instructions
-                <ExternalLink className="h-3 w-3" />
-              </a>
             </AlertDescription>
           </Alert>
 
+          {/* Demo Mode */}
+          {demoActive ? (
+            <Alert>
+              <FlaskConical className="h-4 w-4" />
+              <AlertTitle>Demo mode is active</AlertTitle>
+              <AlertDescription className="space-y-3">
+                <p>
+                  The dashboard shows synthetic sensors. Save a hub configuration below, or exit
+                  the demo to remove its sample history.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExitDemo}
+                  disabled={isSwitchingDemo}
+                >
+                  {isSwitchingDemo && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Exit Demo
+                </Button>
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-dashed p-4">
+              <div className="space-y-1">
+                <p className="text-sm font-medium">No hub at hand?</p>
+                <p className="text-xs text-muted-foreground">
+                  Explore the app with synthetic sensors in five rooms and 30 days of history
+                </p>
+              </div>
+              <Button
+                variant="secondary"
+                onClick={handleTryDemo}
+                disabled={isSwitchingDemo || isSaving}
+                className="gap-2 shrink-0"
+              >
+                {isSwitchingDemo ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <FlaskConical className="h-4 w-4" />
+                )}
+                {isSwitchingDemo ? 'Preparing...' : 'Try Demo'}
+              </Button>
+            </div>
+          )}
+
+          {/* Hubs */}
+          {profiles.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Hubs</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => selectProfile(null)}
+                  disabled={editingId === null}
+                  className="gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Hub
+                </Button>
+              </div>
+              <ul className="divide-y rounded-lg border">
+                {profiles.map((profile) => (
+                  <li
+                    key={profile.id}
+                    className="flex items-center justify-between gap-4 p-3"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium truncate">{profile.name}</span>
+                        {profile.id === editingId && <Badge variant="secondary">Editing</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {profile.hubAddress}:{profile.port}
+                        {profile.connectionMode === 'proxy' && ' via proxy'}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => selectProfile(profile.id)}
+                        disabled={profile.id === editingId}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveProfile(profile.id)}
+                        aria-label={`Remove ${profile.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Form Fields */}
           <div className="space-y-4">
+            {/* Hub Name */}
+            <div className="space-y-2">
+              <Label htmlFor="name">Hub Name</Label>
+              <Input
+                id="name"
+                type="text"
+                placeholder="Home"
+                value={formData.name}
+                onChange={handleChange('name')}
+                className={errors.name ? 'border-destructive' : ''}
+              />
+              {errors.name && (
+                <p className="text-sm text-destructive">{errors.name}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Shown on sensor cards when more than one hub is configured
+              </p>
+            </div>
+
             {/* Hub IP Address */}
             <div className="space-y-2">
               <Label htmlFor="hubAddress">Hub IP Address</Label>
@@ -258,6 +606,62 @@ export function Setup() {
               </p>
             </div>
 
+            {/* Proxy Mode */}
+            <div className="space-y-3 rounded-lg border p-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="useProxy">Connect through proxy</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Route requests through a local hub-proxy instance, which handles the hub's
+                    self-signed certificate and missing CORS headers
+                  </p>
+                </div>
+                <Switch
+                  id="useProxy"
+                  checked={formData.useProxy}
+                  onCheckedChange={handleProxyToggle}
+                />
+              </div>
+
+              {formData.useProxy && (
+                <div className="space-y-2">
+                  <Label htmlFor="proxyUrl">Proxy URL</Label>
+                  <Input
+                    id="proxyUrl"
+                    type="url"
+                    placeholder="http://localhost:8080"
+                    value={formData.proxyUrl}
+                    onChange={handleChange('proxyUrl')}
+                    className={errors.proxyUrl ? 'border-destructive' : ''}
+                  />
+                  {errors.proxyUrl && (
+                    <p className="text-sm text-destructive">{errors.proxyUrl}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Start it with <code className="text-xs bg-muted px-1 py-0.5 rounded">HUB_ADDRESS=[HUB_IP] pnpm --filter @zigbee-visualizer/hub-proxy start</code>
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Pairing */}
+            <div className="space-y-2">
+              <Label>Pair with Hub</Label>
+              <PairingWizard
+                hubAddress={
+                  validateIpAddress(formData.hubAddress.trim()) && validatePort(formData.port.trim())
+                    ? `${formData.hubAddress.trim()}:${formData.port.trim()}`
+                    : null
+                }
+                proxyUrl={
+                  formData.useProxy && validateProxyUrl(formData.proxyUrl.trim())
+                    ? formData.proxyUrl.trim()
+                    : undefined
+                }
+                onPaired={handlePaired}
+              />
+            </div>
+
             {/* Auth Token */}
             <div className="space-y-2">
               <Label htmlFor="token">Authentication Token</Label>
@@ -273,7 +677,7 @@ export function Setup() {
                 <p className="text-sm text-destructive">{errors.token}</p>
               )}
               <p className="text-xs text-muted-foreground">
-                Long alphanumeric token obtained during hub authentication
+                Filled in by pairing, or paste a token you already have
               </p>
             </div>
           </div>
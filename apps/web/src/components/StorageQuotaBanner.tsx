@@ -0,0 +1,65 @@
+/**
+ * StorageQuotaBanner Component
+ *
+ * Warning under the header once the app's data fills most of the browser's
+ * storage quota, before the browser starts evicting it or writes fail.
+ * Offers to make storage persistent and links to the Data page.
+ */
+
+import { useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import { useQueryClient } from '@tanstack/react-query';
+import { HardDrive } from 'lucide-react';
+import { storageQueryKeys, useStorageQuota } from '@/lib/api/hooks/useStorage';
+import { isNearQuota, requestPersistentStorage } from '@/lib/utils/quota';
+import { formatBytes, formatPercentage } from '@/lib/utils/formatters';
+
+export function StorageQuotaBanner({ enabled = true }: { enabled?: boolean }) {
+  const { data: quota } = useStorageQuota({ enabled });
+  const queryClient = useQueryClient();
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!enabled || dismissed || !quota || !isNearQuota(quota)) {
+    return null;
+  }
+
+  const persist = async () => {
+    await requestPersistentStorage();
+    queryClient.invalidateQueries({ queryKey: storageQueryKeys.quota() });
+  };
+
+  return (
+    <div role="alert" className="border-b bg-amber-600 dark:bg-amber-700 text-white">
+      <div className="container mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <HardDrive className="h-5 w-5 shrink-0" />
+          <p className="text-sm">
+            <span className="font-semibold">Storage almost full:</span>{' '}
+            {formatBytes(quota.usage)} of {formatBytes(quota.quota)} (
+            {formatPercentage(quota.usage / quota.quota)}) used.{' '}
+            {quota.persisted
+              ? 'New readings will fail to save once it is full.'
+              : 'The browser may delete the sensor history to free up space.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          {!quota.persisted && (
+            <button type="button" className="underline underline-offset-2" onClick={persist}>
+              Keep data
+            </button>
+          )}
+          <Link to="/data" className="underline underline-offset-2">
+            Manage data
+          </Link>
+          <button
+            type="button"
+            className="underline underline-offset-2"
+            onClick={() => setDismissed(true)}
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,3 +6,4 @@ export { Alert, AlertTitle, AlertDescription } from "./alert"
 export { Input } from "./input"
 export { Label } from "./label"
 export { Switch } from "./switch"
+export { Slider } from "./slider"
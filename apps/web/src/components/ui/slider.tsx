@@ -0,0 +1,33 @@
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+export interface SliderProps
+  extends Omit<React.InputHTMLAttributes<HTMLInputElement>, "type" | "value" | "onChange"> {
+  value: number
+  onValueChange?: (value: number) => void
+  /** CSS background of the track, e.g. a color temperature gradient */
+  trackBackground?: string
+}
+
+const Slider = React.forwardRef<HTMLInputElement, SliderProps>(
+  ({ className, value, onValueChange, trackBackground, style, ...props }, ref) => {
+    return (
+      <input
+        type="range"
+        value={value}
+        onChange={(event) => onValueChange?.(Number(event.target.value))}
+        className={cn(
+          "h-2 w-full cursor-pointer appearance-none rounded-full bg-input accent-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background disabled:cursor-not-allowed disabled:opacity-50 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-primary [&::-webkit-slider-thumb]:bg-background [&::-webkit-slider-thumb]:shadow [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-primary [&::-moz-range-thumb]:bg-background",
+          className
+        )}
+        style={trackBackground ? { ...style, background: trackBackground } : style}
+        ref={ref}
+        {...props}
+      />
+    )
+  }
+)
+Slider.displayName = "Slider"
+
+export { Slider }
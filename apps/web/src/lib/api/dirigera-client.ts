@@ -10,28 +10,57 @@
  * CORS headers in its responses. This means direct browser requests will fail
  * due to browser security policies.
  *
- * Workarounds for development:
- * 1. Use a CORS proxy (e.g., cors-anywhere, local proxy server)
- * 2. Use a browser extension to disable CORS (NOT recommended for production)
- * 3. Use a backend API that proxies requests to the Dirigera hub
- * 4. Disable web security in Chrome: chrome.exe --disable-web-security --user-data-dir="C:/temp/chrome"
+ * The recommended setup is to run the `@zigbee-visualizer/hub-proxy` package
+ * on the LAN and enable "Connect through proxy" in Setup. The client then
+ * targets `<proxyUrl>/v1` instead of `https://<hub>/v1`, and the proxy handles
+ * the certificate and CORS headers.
  *
- * For production, option 3 (backend proxy) is the recommended approach.
+ * Direct mode still works when CORS is disabled in the browser, e.g.
+ * chrome.exe --disable-web-security --user-data-dir="C:/temp/chrome"
+ *
+ * Reads go through a HubTransport (see ./transport.ts), which retries with
+ * backoff, stops calling an unreachable hub for a while and reports the
+ * hub's connectivity. Pairing requests bypass it.
+ *
+ * Responses are validated against the runtime schemas in shared-types.
+ * Invalid devices and rooms are dropped from lists (and quarantined in the
+ * drift report, see ./schema-drift.ts); an invalid single resource fails the
+ * request with an INVALID_RESPONSE error.
  */
 
 import axios, {
+  type AxiosAdapter,
   type AxiosInstance,
   type AxiosError,
+  type AxiosRequestConfig,
   type InternalAxiosRequestConfig,
 } from 'axios';
-import type {
-  DirigeeraDevice,
-  ApiError,
-  HubInfoResponse,
-  RoomResponse,
-  HealthCheckResponse,
+import {
+  validateDevice,
+  validateHubInfo,
+  validateRoom,
+  type DirigeeraDevice,
+  type DeviceUpdateRequest,
+  type LightStateUpdate,
+  type ApiError,
+  type HubInfoResponse,
+  type RoomResponse,
+  type HealthCheckResponse,
+  type SchemaIssue,
+  type ValidationResult,
 } from '@zigbee-visualizer/shared-types';
-import { getAuthToken, getHubAddress } from '../storage/config';
+import {
+  getActiveHubId,
+  getAuthToken,
+  getConfiguredHubIds,
+  getHubAddress,
+  getProxyUrl,
+  isDemoMode,
+} from '../storage/config';
+import { demoAdapter } from '../demo/adapter';
+import { HubTransport, resetHubConnectivity, type TransportPolicy } from './transport';
+import { describeDevicePayload, recordValidation } from './schema-drift';
+import { DEMO_HUB_ADDRESS, DEMO_HUB_ID, DEMO_TOKEN } from '../demo/data';
 
 /**
  * Custom error class for Dirigera API errors
@@ -50,17 +79,91 @@ export class DirigeeraApiError extends Error implements ApiError {
   }
 }
 
+/**
+ * Options for creating a Dirigera client
+ */
+export interface DirigeeraClientOptions {
+  /**
+   * Base URL of a hub-proxy instance
+   * When set, requests go to `<proxyUrl>/v1` instead of the hub itself
+   */
+  proxyUrl?: string;
+  /**
+   * Axios adapter that performs the requests
+   * Demo mode uses this to answer requests in the browser
+   */
+  adapter?: AxiosAdapter;
+  /**
+   * Hub whose connectivity this client reports
+   * Set for the per-hub clients from getDirigeraClient
+   */
+  hubId?: string;
+  /** Overrides for the retry and circuit breaker policy */
+  transportPolicy?: Partial<TransportPolicy>;
+}
+
+/**
+ * Build the API base URL for a hub address or proxy
+ * @param hubAddress - Hub address (IP:port)
+ * @param proxyUrl - Optional hub-proxy base URL
+ * @returns API base URL ending in /v1
+ */
+export function buildApiBaseURL(hubAddress: string, proxyUrl?: string | null): string {
+  if (proxyUrl) {
+    return `${proxyUrl.replace(/\/+$/, '')}/v1`;
+  }
+  return `https://${hubAddress}/v1`;
+}
+
+/**
+ * Split a light state change into the updates the hub expects
+ * The hub applies one attribute group per update; hue and saturation travel
+ * together. Values are rounded and clamped to the ranges the hub accepts.
+ */
+function toLightUpdates(state: LightStateUpdate): DeviceUpdateRequest[] {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+  const updates: DeviceUpdateRequest[] = [];
+
+  if (state.isOn !== undefined) {
+    updates.push({ attributes: { isOn: state.isOn } });
+  }
+  if (state.lightLevel !== undefined) {
+    updates.push({ attributes: { lightLevel: clamp(Math.round(state.lightLevel), 1, 100) } });
+  }
+  if (state.colorTemperature !== undefined) {
+    updates.push({ attributes: { colorTemperature: Math.round(state.colorTemperature) } });
+  }
+  if (state.colorHue !== undefined || state.colorSaturation !== undefined) {
+    updates.push({
+      attributes: {
+        ...(state.colorHue !== undefined && { colorHue: clamp(state.colorHue, 0, 360) }),
+        ...(state.colorSaturation !== undefined && {
+          colorSaturation: clamp(state.colorSaturation, 0, 1),
+        }),
+      },
+    });
+  }
+
+  return updates;
+}
+
 /**
  * Dirigera API client class
  */
 export class DirigeeraClient {
   private client: AxiosInstance;
+  private transport: HubTransport;
+  private hubId?: string;
   private baseURL: string;
+  private proxied: boolean;
+  private token: string | null;
 
-  constructor(hubAddress?: string, token?: string) {
-    // Get from localStorage if not provided
+  constructor(hubAddress?: string, token?: string | null, options: DirigeeraClientOptions = {}) {
+    // Get from localStorage if not provided; null means "send no token"
     const address = hubAddress || getHubAddress();
-    const authToken = token || getAuthToken();
+    const authToken = token === undefined ? getAuthToken() : token;
+    // An explicit hub address without a proxy means "connect directly"
+    const proxyUrl = options.proxyUrl ?? (hubAddress ? null : getProxyUrl());
 
     if (!address) {
       throw new Error(
@@ -68,13 +171,28 @@ export class DirigeeraClient {
       );
     }
 
-    // Construct base URL with HTTPS
-    this.baseURL = `https://${address}/v1`;
+    // Construct base URL (HTTPS to the hub, or the proxy)
+    this.baseURL = buildApiBaseURL(address, proxyUrl);
+    this.proxied = Boolean(proxyUrl);
+    this.token = authToken;
+    this.hubId = options.hubId;
+    this.transport = new HubTransport({
+      hubId: options.hubId,
+      policy: options.transportPolicy,
+      createOfflineError: (retryAt) =>
+        new DirigeeraApiError(
+          `Hub is not responding. Retrying at ${retryAt.toLocaleTimeString()}.`,
+          0,
+          'HUB_OFFLINE',
+          { retryAt: retryAt.toISOString() }
+        ),
+    });
 
     // Create axios instance
     this.client = axios.create({
       baseURL: this.baseURL,
       timeout: 10000,
+      adapter: options.adapter,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -86,9 +204,8 @@ export class DirigeeraClient {
     // Add request interceptor for authentication
     this.client.interceptors.request.use(
       (config: InternalAxiosRequestConfig) => {
-        const token = authToken || getAuthToken();
-        if (token && config.headers) {
-          config.headers.Authorization = `Bearer ${token}`;
+        if (this.token && config.headers) {
+          config.headers.Authorization = `Bearer ${this.token}`;
         }
         return config;
       },
@@ -114,7 +231,7 @@ export class DirigeeraClient {
       // Server responded with error status
       const data = error.response.data as any;
       return new DirigeeraApiError(
-        data?.message || error.message || 'API request failed',
+        data?.message || data?.error || error.message || 'API request failed',
         error.response.status,
         data?.code,
         data
@@ -126,7 +243,7 @@ export class DirigeeraClient {
         'Unable to connect to Dirigera hub. Please check:\n' +
           '1. Hub IP address is correct\n' +
           '2. Hub is online and accessible\n' +
-          '3. CORS proxy is configured (browser limitation)\n' +
+          '3. Hub proxy is running, or CORS is disabled (browser limitation)\n' +
           '4. Network connection is stable',
         0,
         'NETWORK_ERROR',
@@ -142,18 +259,62 @@ export class DirigeeraClient {
     }
   }
 
+  /**
+   * GET a resource through the transport policy
+   * Identical requests in flight share one response
+   */
+  private async get<T>(url: string, config?: AxiosRequestConfig, retries?: number): Promise<T> {
+    const dedupeKey = `GET ${url}${config?.params ? ` ${JSON.stringify(config.params)}` : ''}`;
+    const response = await this.transport.request(() => this.client.get<T>(url, config), {
+      dedupeKey,
+      retries,
+    });
+    return response.data;
+  }
+
+  /**
+   * Build the error for a response that does not match its schema
+   */
+  private invalidResponseError(resource: string, issues: SchemaIssue[]): DirigeeraApiError {
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    return new DirigeeraApiError(
+      `Unexpected ${resource} response from the hub: ${errors
+        .map((issue) => `${issue.path} (${issue.kind})`)
+        .join(', ')}`,
+      0,
+      'INVALID_RESPONSE',
+      { issues }
+    );
+  }
+
+  /**
+   * Validate a device payload and record the outcome in the drift report
+   * @returns Validation result; its value is undefined if the device is quarantined
+   */
+  private checkDevice(payload: unknown): ValidationResult<DirigeeraDevice> {
+    const result = validateDevice(payload);
+    recordValidation(describeDevicePayload(payload, this.hubId), result.issues, payload);
+    return result;
+  }
+
   /**
    * Get all devices from the hub
+   * Devices that fail validation are left out and quarantined
    * @returns Array of Dirigera devices
    */
   async getDevices(): Promise<DirigeeraDevice[]> {
-    try {
-      const response = await this.client.get<DirigeeraDevice[]>('/devices');
-      return response.data;
-    } catch (error) {
-      console.error('Failed to fetch devices:', error);
-      throw error;
+    const payload = await this.get<unknown>('/devices');
+    if (!Array.isArray(payload)) {
+      const issues: SchemaIssue[] = [
+        { kind: 'wrongType', severity: 'error', path: '(root)', expected: 'array', received: typeof payload },
+      ];
+      recordValidation({ source: 'device', hubId: this.hubId }, issues, payload);
+      throw this.invalidResponseError('device list', issues);
     }
+    return payload.flatMap((device) => {
+      const checked = this.checkDevice(device).value;
+      return checked ? [checked] : [];
+    });
   }
 
   /**
@@ -162,13 +323,78 @@ export class DirigeeraClient {
    * @returns Device information
    */
   async getDevice(deviceId: string): Promise<DirigeeraDevice> {
-    try {
-      const response = await this.client.get<DirigeeraDevice>(`/devices/${deviceId}`);
-      return response.data;
-    } catch (error) {
-      console.error(`Failed to fetch device ${deviceId}:`, error);
-      throw error;
+    const payload = await this.get<unknown>(`/devices/${encodeURIComponent(deviceId)}`);
+    const result = this.checkDevice(payload);
+    if (!result.value) {
+      throw this.invalidResponseError('device', result.issues);
     }
+    return result.value;
+  }
+
+  /**
+   * Update a device, e.g. rename it
+   * PATCH /devices/{id} - the hub takes a list of updates and answers 202
+   * without a body; the change also arrives on the event stream
+   * @param deviceId - Unique device identifier
+   * @param update - Attributes to change
+   */
+  async updateDevice(deviceId: string, update: DeviceUpdateRequest): Promise<void> {
+    await this.patchDevice(deviceId, [update]);
+  }
+
+  /**
+   * Change the state of a light
+   * Sends only the attributes given; the hub rejects attributes missing from
+   * the light's capabilities.canReceive
+   * @param deviceId - Light device ID
+   * @param state - Attributes to change
+   */
+  async updateLight(deviceId: string, state: LightStateUpdate): Promise<void> {
+    const updates = toLightUpdates(state);
+    if (updates.length > 0) {
+      await this.patchDevice(deviceId, updates);
+    }
+  }
+
+  /**
+   * Switch a light on or off
+   */
+  async setLightOn(deviceId: string, isOn: boolean): Promise<void> {
+    await this.updateLight(deviceId, { isOn });
+  }
+
+  /**
+   * Set the brightness of a light
+   * @param lightLevel - Brightness percentage (1-100)
+   */
+  async setLightLevel(deviceId: string, lightLevel: number): Promise<void> {
+    await this.updateLight(deviceId, { lightLevel });
+  }
+
+  /**
+   * Set the color temperature of a white spectrum light
+   * @param colorTemperature - Color temperature in Kelvin
+   */
+  async setColorTemperature(deviceId: string, colorTemperature: number): Promise<void> {
+    await this.updateLight(deviceId, { colorTemperature });
+  }
+
+  /**
+   * Set the color of a color light
+   * @param colorHue - Hue in degrees (0-360)
+   * @param colorSaturation - Saturation (0-1)
+   */
+  async setLightColor(deviceId: string, colorHue: number, colorSaturation: number): Promise<void> {
+    await this.updateLight(deviceId, { colorHue, colorSaturation });
+  }
+
+  /**
+   * Send a list of updates to PATCH /devices/{id}
+   */
+  private async patchDevice(deviceId: string, updates: DeviceUpdateRequest[]): Promise<void> {
+    await this.transport.request(() =>
+      this.client.patch(`/devices/${encodeURIComponent(deviceId)}`, updates)
+    );
   }
 
   /**
@@ -176,13 +402,24 @@ export class DirigeeraClient {
    * @returns Hub information
    */
   async getHubInfo(): Promise<HubInfoResponse> {
-    try {
-      const response = await this.client.get<HubInfoResponse>('/hub');
-      return response.data;
-    } catch (error) {
-      console.error('Failed to fetch hub info:', error);
-      throw error;
+    const payload = await this.get<unknown>('/hub');
+    const result = validateHubInfo(payload);
+    const hub = payload as Partial<HubInfoResponse> | null;
+    recordValidation(
+      {
+        source: 'hub',
+        hubId: this.hubId,
+        id: hub?.id,
+        model: hub?.model,
+        firmwareVersion: hub?.firmwareVersion,
+      },
+      result.issues,
+      payload
+    );
+    if (!result.value) {
+      throw this.invalidResponseError('hub', result.issues);
     }
+    return result.value;
   }
 
   /**
@@ -190,23 +427,71 @@ export class DirigeeraClient {
    * @returns Array of rooms
    */
   async getRooms(): Promise<RoomResponse[]> {
-    try {
-      const response = await this.client.get<RoomResponse[]>('/rooms');
-      return response.data;
-    } catch (error) {
-      console.error('Failed to fetch rooms:', error);
-      throw error;
+    const payload = await this.get<unknown>('/rooms');
+    if (!Array.isArray(payload)) {
+      throw this.invalidResponseError('room list', [
+        { kind: 'wrongType', severity: 'error', path: '(root)', expected: 'array', received: typeof payload },
+      ]);
     }
+    return payload.flatMap((room) => {
+      const result = validateRoom(room);
+      recordValidation(
+        { source: 'room', hubId: this.hubId, id: (room as Partial<RoomResponse> | null)?.id },
+        result.issues,
+        room
+      );
+      return result.value ? [result.value] : [];
+    });
+  }
+
+  /**
+   * Start the OAuth pairing flow
+   * GET /oauth/authorize with a PKCE code challenge
+   * @param codeChallenge - Base64url-encoded SHA-256 hash of the code verifier
+   * @returns Authorization code to exchange once the hub button is pressed
+   */
+  async authorize(codeChallenge: string): Promise<string> {
+    const response = await this.client.get<{ code: string }>('/oauth/authorize', {
+      params: {
+        audience: 'homesmart.local',
+        response_type: 'code',
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      },
+    });
+    return response.data.code;
+  }
+
+  /**
+   * Exchange an authorization code for an access token
+   * POST /oauth/token - fails with 403 until the hub's action button is pressed
+   * @param code - Authorization code from authorize()
+   * @param codeVerifier - PKCE code verifier used to create the challenge
+   * @param clientName - Name the hub shows for this client
+   * @returns Access token
+   */
+  async exchangeToken(code: string, codeVerifier: string, clientName: string): Promise<string> {
+    const body = new URLSearchParams({
+      code,
+      name: clientName,
+      grant_type: 'authorization_code',
+      code_verifier: codeVerifier,
+    });
+
+    const response = await this.client.post<{ access_token: string }>('/oauth/token', body, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+    return response.data.access_token;
   }
 
   /**
    * Perform a health check on the hub
+   * Not retried, so it reflects the hub's state right now
    * @returns Health check response
    */
   async healthCheck(): Promise<HealthCheckResponse> {
     try {
-      const response = await this.client.get<HealthCheckResponse>('/health');
-      return response.data;
+      return await this.get<HealthCheckResponse>('/health', undefined, 0);
     } catch (error) {
       // Health check failures should not throw, just return unhealthy status
       return {
@@ -219,9 +504,11 @@ export class DirigeeraClient {
   /**
    * Update the hub address and recreate the client
    * @param hubAddress - New hub address (IP:port)
+   * @param proxyUrl - Optional hub-proxy base URL
    */
-  updateHubAddress(hubAddress: string): void {
-    this.baseURL = `https://${hubAddress}/v1`;
+  updateHubAddress(hubAddress: string, proxyUrl?: string): void {
+    this.baseURL = buildApiBaseURL(hubAddress, proxyUrl);
+    this.proxied = Boolean(proxyUrl);
     this.client.defaults.baseURL = this.baseURL;
   }
 
@@ -230,6 +517,7 @@ export class DirigeeraClient {
    * @param token - New authentication token
    */
   updateToken(token: string): void {
+    this.token = token;
     this.client.defaults.headers.common['Authorization'] = `Bearer ${token}`;
   }
 
@@ -239,40 +527,112 @@ export class DirigeeraClient {
   getBaseURL(): string {
     return this.baseURL;
   }
+
+  /**
+   * Get the WebSocket URL of the hub event stream
+   * Browsers cannot set headers on WebSocket connections, so the token is
+   * passed as a query parameter, which the hub proxy turns into a header.
+   * Connecting directly would put the token in the URL the hub sees (and
+   * may log), so direct connections have no event stream and poll instead.
+   * @returns URL, or null when connecting directly
+   */
+  getEventStreamURL(): string | null {
+    if (!this.proxied) {
+      return null;
+    }
+    const url = new URL(this.baseURL);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    if (this.token) {
+      url.searchParams.set('access_token', this.token);
+    }
+    return url.toString();
+  }
 }
 
 /**
- * Create a singleton instance of the Dirigera client
- * This can be used throughout the application
+ * Dirigera client instances keyed by hub ID
+ * One client per configured hub, created on first use
  */
-let clientInstance: DirigeeraClient | null = null;
+const clientInstances = new Map<string, DirigeeraClient>();
 
 /**
- * Get the singleton Dirigera client instance
- * Creates a new instance if one doesn't exist
+ * Get the IDs of the hubs the app reads from
+ * @returns The demo hub in demo mode, otherwise every fully configured hub
+ */
+export function getHubIds(): string[] {
+  return isDemoMode() ? [DEMO_HUB_ID] : getConfiguredHubIds();
+}
+
+/**
+ * Resolve an optional hub ID to the hub a client should talk to
+ */
+function resolveHubId(hubId?: string): string | null {
+  if (isDemoMode()) {
+    return DEMO_HUB_ID;
+  }
+  return hubId ?? getActiveHubId();
+}
+
+/**
+ * Get the Dirigera client of a hub
+ * Creates a new instance if one doesn't exist. In demo mode the instance
+ * answers requests in the browser with synthetic sensor data.
+ * @param hubId - Hub ID (default: active hub)
  * @returns DirigeeraClient instance
  */
-export function getDirigeraClient(): DirigeeraClient {
-  if (!clientInstance) {
-    clientInstance = new DirigeeraClient();
+export function getDirigeraClient(hubId?: string): DirigeeraClient {
+  const id = resolveHubId(hubId);
+  if (!id) {
+    throw new Error('Hub address not configured. Please set the hub address in settings.');
   }
-  return clientInstance;
+
+  let client = clientInstances.get(id);
+  if (!client) {
+    if (id === DEMO_HUB_ID) {
+      client = new DirigeeraClient(DEMO_HUB_ADDRESS, DEMO_TOKEN, {
+        adapter: demoAdapter,
+        hubId: id,
+      });
+    } else {
+      const hubAddress = getHubAddress(id);
+      if (!hubAddress) {
+        throw new Error(`Hub ${id} is not configured. Please check the hub in settings.`);
+      }
+      client = new DirigeeraClient(hubAddress, getAuthToken(id), {
+        proxyUrl: getProxyUrl(id) ?? undefined,
+        hubId: id,
+      });
+    }
+    clientInstances.set(id, client);
+  }
+  return client;
 }
 
 /**
- * Reset the singleton client instance
+ * Reset cached client instances and their connectivity
  * Useful when configuration changes
+ * @param hubId - Hub whose client to reset (default: all hubs)
  */
-export function resetDirigeraClient(): void {
-  clientInstance = null;
+export function resetDirigeraClient(hubId?: string): void {
+  if (hubId) {
+    clientInstances.delete(hubId);
+  } else {
+    clientInstances.clear();
+  }
+  resetHubConnectivity(hubId);
 }
 
 /**
  * Create a new Dirigera client instance
  * @param hubAddress - Hub address (IP:port)
- * @param token - Authentication token
+ * @param token - Authentication token (default: active hub's token; null: none)
+ * @param options - Client options (e.g. hub-proxy URL)
  * @returns New DirigeeraClient instance
  */
-export function createDirigeraClient(hubAddress?: string, token?: string): DirigeeraClient {
-  return new DirigeeraClient(hubAddress, token);
+export function createDirigeraClient(
+  hubAddress?: string,
+  token?: string | null,
+  options?: DirigeeraClientOptions
+): DirigeeraClient {
+  return new DirigeeraClient(hubAddress, token, options);
 }
@@ -0,0 +1,253 @@
+/**
+ * Dirigera Event Stream
+ *
+ * WebSocket subscription to the hub's real-time event stream. The hub pushes
+ * `deviceStateChanged`, `deviceAdded` and `deviceRemoved` messages on the same
+ * `/v1` endpoint as the REST API.
+ *
+ * Browsers cannot set an Authorization header on a WebSocket, so the token is
+ * sent as an `access_token` query parameter. The hub-proxy package converts it
+ * back into a header before forwarding the upgrade to the hub. Hubs connected
+ * directly have no stream, as the token would reach the hub in the URL; their
+ * status stays idle and data is polled.
+ *
+ * The connection is reference counted: it opens with the first subscriber,
+ * closes with the last one and reconnects with exponential backoff in between.
+ * Each configured hub has its own stream.
+ */
+
+import type {
+  DirigeeraWebSocketMessage,
+  WebSocketMessageType,
+} from '@zigbee-visualizer/shared-types';
+import { getActiveHubId } from '../storage/config';
+import { getDirigeraClient } from './dirigera-client';
+
+/**
+ * Connection status of the event stream
+ */
+export type EventStreamStatus = 'idle' | 'connecting' | 'open' | 'closed';
+
+/**
+ * Listener for incoming device messages
+ */
+export type EventStreamListener = (message: DirigeeraWebSocketMessage) => void;
+
+/**
+ * Listener for connection status changes
+ */
+export type EventStreamStatusListener = (status: EventStreamStatus) => void;
+
+const MESSAGE_TYPES: readonly WebSocketMessageType[] = [
+  'deviceStateChanged',
+  'deviceAdded',
+  'deviceRemoved',
+];
+
+const INITIAL_RECONNECT_DELAY = 1000; // 1 second
+const MAX_RECONNECT_DELAY = 30000; // 30 seconds
+
+/**
+ * Parse a raw WebSocket payload into a device message
+ * @returns The message, or null for unknown or malformed payloads
+ */
+export function parseEventMessage(payload: unknown): DirigeeraWebSocketMessage | null {
+  if (typeof payload !== 'string') {
+    return null;
+  }
+
+  try {
+    const message = JSON.parse(payload);
+    if (
+      !message ||
+      typeof message !== 'object' ||
+      !MESSAGE_TYPES.includes(message.type) ||
+      !message.data ||
+      typeof message.data !== 'object'
+    ) {
+      return null;
+    }
+    return message as DirigeeraWebSocketMessage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reconnecting WebSocket connection to the hub event stream
+ */
+export class DirigeeraEventStream {
+  private url: string | null;
+  private socket: WebSocket | null = null;
+  private status: EventStreamStatus = 'idle';
+  private listeners = new Set<EventStreamListener>();
+  private statusListeners = new Set<EventStreamStatusListener>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param url - WebSocket URL, or null for a stream that never connects
+   */
+  constructor(url: string | null) {
+    this.url = url;
+  }
+
+  /**
+   * Subscribe to device messages
+   * Opens the connection for the first subscriber
+   * @returns Unsubscribe function (closes the connection for the last subscriber)
+   */
+  subscribe(listener: EventStreamListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.connect();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  /**
+   * Subscribe to connection status changes
+   * @returns Unsubscribe function
+   */
+  onStatusChange(listener: EventStreamStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the current connection status
+   */
+  getStatus(): EventStreamStatus {
+    return this.status;
+  }
+
+  /**
+   * Close the connection and cancel any pending reconnect
+   */
+  disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onclose = null;
+      socket.close();
+    }
+
+    this.reconnectAttempts = 0;
+    this.setStatus('idle');
+  }
+
+  private connect(): void {
+    if (!this.url) {
+      return;
+    }
+    this.setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('Failed to open hub event stream:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      const message = parseEventMessage(event.data);
+      if (message) {
+        this.listeners.forEach((listener) => listener(message));
+      }
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+
+    // Errors are always followed by a close event, which handles reconnection
+    socket.onerror = () => {};
+  }
+
+  private scheduleReconnect(): void {
+    this.setStatus('closed');
+
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    // Exponential backoff with jitter so several tabs don't reconnect in lockstep
+    const baseDelay = Math.min(
+      INITIAL_RECONNECT_DELAY * 2 ** this.reconnectAttempts,
+      MAX_RECONNECT_DELAY
+    );
+    const delay = baseDelay / 2 + Math.random() * (baseDelay / 2);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private setStatus(status: EventStreamStatus): void {
+    if (this.status === status) {
+      return;
+    }
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
+
+/**
+ * Event stream instances keyed by hub ID
+ */
+const streamInstances = new Map<string, DirigeeraEventStream>();
+
+/**
+ * Get the event stream of a hub
+ * Creates a new instance if one doesn't exist
+ * @param hubId - Hub ID (default: active hub)
+ * @returns DirigeeraEventStream instance
+ */
+export function getDirigeraEventStream(hubId?: string): DirigeeraEventStream {
+  const id = hubId ?? getActiveHubId() ?? '';
+  let stream = streamInstances.get(id);
+  if (!stream) {
+    stream = new DirigeeraEventStream(getDirigeraClient(hubId).getEventStreamURL());
+    streamInstances.set(id, stream);
+  }
+  return stream;
+}
+
+/**
+ * Reset cached event streams
+ * Useful when configuration changes
+ * @param hubId - Hub whose stream to reset (default: all hubs)
+ */
+export function resetDirigeraEventStream(hubId?: string): void {
+  for (const [id, stream] of streamInstances) {
+    if (!hubId || id === hubId) {
+      stream.disconnect();
+      streamInstances.delete(id);
+    }
+  }
+}
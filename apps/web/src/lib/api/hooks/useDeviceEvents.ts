@@ -0,0 +1,280 @@
+/**
+ * Hook for real-time device updates from the hub event streams
+ *
+ * Subscribes to the Dirigera WebSocket event stream of every configured hub
+ * and patches the TanStack Query cache as messages arrive, so components
+ * reading `sensorQueryKeys.devices()` update without waiting for the next poll.
+ * State changes of motion and door/window sensors are also recorded in the
+ * event store, timestamped with the message. Devices are validated before they
+ * enter the cache, like device list responses; invalid ones are quarantined.
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  isDeviceAddedMessage,
+  isDeviceRemovedMessage,
+  isDeviceStateChangedMessage,
+  validateDevice,
+  type DirigeeraDevice,
+  type DirigeeraWebSocketMessage,
+} from '@zigbee-visualizer/shared-types';
+import { isDemoMode } from '../../storage/config';
+import { recordDeviceStates } from '../../storage/events';
+import { getHubIds } from '../dirigera-client';
+import { getDirigeraEventStream, type EventStreamStatus } from '../dirigera-events';
+import { describeDevicePayload, recordValidation } from '../schema-drift';
+import { sensorQueryKeys } from './useSensorData';
+
+/**
+ * Merge a (possibly partial) device update into an existing device
+ * The hub only sends the attributes that changed in deviceStateChanged messages
+ */
+export function mergeDeviceUpdate(
+  existing: DirigeeraDevice,
+  update: DirigeeraDevice
+): DirigeeraDevice {
+  // Spreading a union loses the pairing of type and attributes; the update
+  // comes from the same device, so the merged object keeps its family
+  return {
+    ...existing,
+    ...update,
+    attributes: {
+      ...existing.attributes,
+      ...update.attributes,
+    },
+  } as DirigeeraDevice;
+}
+
+/**
+ * Validate a device from the event stream and record the outcome in the drift report
+ * @param device - Added device, or a cached device merged with an update
+ * @param hubId - Hub the message came from
+ * @returns The device, or undefined if it is quarantined
+ */
+export function checkDeviceEvent(
+  device: DirigeeraDevice,
+  hubId?: string
+): DirigeeraDevice | undefined {
+  const result = validateDevice(device);
+  recordValidation(describeDevicePayload(device, hubId), result.issues, device);
+  return result.value;
+}
+
+/**
+ * Apply a device message to a cached device list
+ * Added and updated devices that fail validation are left out
+ * @param devices - Cached devices (undefined if nothing is cached yet)
+ * @param message - Message from the event stream
+ * @param hubId - Hub the message came from; only that hub's devices are touched
+ * @returns Updated device list
+ */
+export function applyDeviceEvent(
+  devices: DirigeeraDevice[] | undefined,
+  message: DirigeeraWebSocketMessage,
+  hubId?: string
+): DirigeeraDevice[] | undefined {
+  if (!devices) {
+    return devices;
+  }
+
+  const isSameDevice = (device: DirigeeraDevice, deviceId: string) =>
+    device.id === deviceId && device.hubId === hubId;
+
+  if (isDeviceStateChangedMessage(message)) {
+    return devices.flatMap((device) => {
+      if (!isSameDevice(device, message.data.id)) {
+        return [device];
+      }
+      const checked = checkDeviceEvent(mergeDeviceUpdate(device, { ...message.data, hubId }), hubId);
+      return checked ? [checked] : [];
+    });
+  }
+
+  if (isDeviceAddedMessage(message)) {
+    const withoutDuplicate = devices.filter((device) => !isSameDevice(device, message.data.id));
+    const checked = checkDeviceEvent({ ...message.data, hubId }, hubId);
+    return checked ? [...withoutDuplicate, checked] : withoutDuplicate;
+  }
+
+  if (isDeviceRemovedMessage(message)) {
+    return devices.filter((device) => !isSameDevice(device, message.data.deviceId));
+  }
+
+  return devices;
+}
+
+/**
+ * Combine the statuses of several hub streams into one
+ * Only 'open' when every hub delivers live updates
+ */
+export function combineStreamStatuses(statuses: EventStreamStatus[]): EventStreamStatus {
+  if (statuses.length === 0) {
+    return 'idle';
+  }
+  if (statuses.every((status) => status === 'open')) {
+    return 'open';
+  }
+  if (statuses.includes('connecting')) {
+    return 'connecting';
+  }
+  if (statuses.every((status) => status === 'idle')) {
+    return 'idle';
+  }
+  return 'closed';
+}
+
+/**
+ * Hook options for the device event subscription
+ */
+export interface UseDeviceEventsOptions {
+  /**
+   * Whether to connect to the event streams
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Hook to keep the device cache in sync with the hub event streams
+ *
+ * @param options - Subscription options
+ * @returns Combined connection status of the event streams
+ *
+ * @example
+ * ```tsx
+ * function LiveIndicator() {
+ *   const status = useDeviceEvents();
+ *   return <span>{status === 'open' ? 'Live' : 'Polling'}</span>;
+ * }
+ * ```
+ */
+export function useDeviceEvents(options: UseDeviceEventsOptions = {}): EventStreamStatus {
+  const { enabled = true } = options;
+  const queryClient = useQueryClient();
+  const [statuses, setStatuses] = useState<Record<string, EventStreamStatus>>({});
+  const hubIdsKey = getHubIds().join(',');
+
+  useEffect(() => {
+    // The demo hub has no event stream; useSensorData polls instead
+    if (!enabled || isDemoMode()) {
+      return;
+    }
+
+    const cleanups: Array<() => void> = [];
+    const hubIds = hubIdsKey ? hubIdsKey.split(',') : [];
+
+    for (const hubId of hubIds) {
+      const setStatus = (status: EventStreamStatus) =>
+        setStatuses((previous) => ({ ...previous, [hubId]: status }));
+
+      let stream;
+      try {
+        stream = getDirigeraEventStream(hubId);
+      } catch (error) {
+        // Hub not configured (anymore)
+        console.error(`Failed to create event stream for hub ${hubId}:`, error);
+        setStatus('closed');
+        continue;
+      }
+
+      cleanups.push(
+        stream.onStatusChange((nextStatus) => {
+          setStatus(nextStatus);
+          // Resync after (re)connecting, since events may have been missed while down
+          if (nextStatus === 'open') {
+            queryClient.invalidateQueries({ queryKey: sensorQueryKeys.devices() });
+          }
+        })
+      );
+
+      cleanups.push(
+        stream.subscribe((message) => {
+          queryClient.setQueryData<DirigeeraDevice[]>(sensorQueryKeys.devices(), (devices) =>
+            applyDeviceEvent(devices, message, hubId)
+          );
+
+          if (isDeviceStateChangedMessage(message)) {
+            const devices = queryClient.getQueryData<DirigeeraDevice[]>(sensorQueryKeys.devices());
+            const device = devices?.find(
+              (candidate) => candidate.id === message.data.id && candidate.hubId === hubId
+            );
+            if (device) {
+              recordDeviceStates([device], message.timestamp).catch(() => {
+                // Already logged; the next poll or message records the change
+              });
+            }
+
+            const deviceKey = sensorQueryKeys.device(message.data.id, hubId);
+            const cached = queryClient.getQueryData<DirigeeraDevice>(deviceKey);
+            if (cached) {
+              // The list already validated the update; a device missing from
+              // it was quarantined
+              const updated = devices
+                ? device
+                : checkDeviceEvent(mergeDeviceUpdate(cached, { ...message.data, hubId }), hubId);
+              if (updated) {
+                queryClient.setQueryData<DirigeeraDevice>(deviceKey, updated);
+              } else {
+                queryClient.removeQueries({ queryKey: deviceKey });
+              }
+            }
+          } else if (isDeviceRemovedMessage(message)) {
+            queryClient.removeQueries({
+              queryKey: sensorQueryKeys.device(message.data.deviceId, hubId),
+            });
+          }
+        })
+      );
+
+      setStatus(stream.getStatus());
+    }
+
+    return () => {
+      cleanups.forEach((cleanup) => cleanup());
+      setStatuses({});
+    };
+  }, [enabled, hubIdsKey, queryClient]);
+
+  return combineStreamStatuses(Object.values(statuses));
+}
+
+/**
+ * Subscribe to status changes of the event streams of every hub
+ * Module-level so useSyncExternalStore does not resubscribe on every render
+ */
+function subscribeToStreamStatuses(onChange: () => void): () => void {
+  const unsubscribes = getHubIds().map((hubId) => {
+    try {
+      return getDirigeraEventStream(hubId).onStatusChange(onChange);
+    } catch {
+      return () => {};
+    }
+  });
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
+
+/**
+ * Combined status of the event streams of every hub
+ */
+function getCombinedStreamStatus(): EventStreamStatus {
+  return combineStreamStatuses(
+    getHubIds().map((hubId) => {
+      try {
+        return getDirigeraEventStream(hubId).getStatus();
+      } catch {
+        return 'closed';
+      }
+    })
+  );
+}
+
+/**
+ * Hook to read the combined event stream status without subscribing to messages
+ * Useful for "live" indicators next to components that use useSensorData
+ *
+ * @returns Combined connection status of the event streams
+ */
+export function useEventStreamStatus(): EventStreamStatus {
+  return useSyncExternalStore(subscribeToStreamStatuses, getCombinedStreamStatus);
+}
@@ -0,0 +1,19 @@
+/**
+ * Hook for the schema drift report
+ *
+ * Reads the quarantined devices and schema issues collected while validating
+ * hub responses (see ../schema-drift.ts).
+ */
+
+import { useSyncExternalStore } from 'react';
+import { getDriftReport, subscribeToDriftReport, type DriftReport } from '../schema-drift';
+
+/**
+ * Hook to read the schema drift report
+ * Re-renders whenever validation records something new
+ *
+ * @returns Current drift report
+ */
+export function useDriftReport(): DriftReport {
+  return useSyncExternalStore(subscribeToDriftReport, getDriftReport);
+}
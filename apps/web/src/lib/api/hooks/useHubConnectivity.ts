@@ -0,0 +1,44 @@
+/**
+ * Hook for the connectivity of the configured hubs
+ *
+ * Reads the state tracked by the hub transport (see ../transport.ts). A hub
+ * only has a state once it has answered, or failed to answer, a request.
+ */
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { getHubIds } from '../dirigera-client';
+import {
+  combineConnectivity,
+  getConnectivitySnapshot,
+  subscribeToConnectivity,
+  type HubConnectivity,
+} from '../transport';
+
+/**
+ * Hook to read hub connectivity
+ *
+ * @param hubId - Hub to read (default: every configured hub, combined)
+ * @returns Connectivity, or null until the hub has made a request
+ *
+ * @example
+ * ```tsx
+ * function HubStatus() {
+ *   const connectivity = useHubConnectivity();
+ *   if (!connectivity) return null;
+ *   return <span>{connectivity.status} since {connectivity.since}</span>;
+ * }
+ * ```
+ */
+export function useHubConnectivity(hubId?: string): HubConnectivity | null {
+  const snapshot = useSyncExternalStore(subscribeToConnectivity, getConnectivitySnapshot);
+  const hubIdsKey = hubId ?? getHubIds().join(',');
+
+  return useMemo(() => {
+    const hubIds = hubIdsKey ? hubIdsKey.split(',') : [];
+    return combineConnectivity(
+      hubIds
+        .map((id) => snapshot[id])
+        .filter((state): state is HubConnectivity => state !== undefined)
+    );
+  }, [snapshot, hubIdsKey]);
+}
@@ -0,0 +1,77 @@
+/**
+ * Hooks for water leak alarms
+ *
+ * Keeps the leak incident log (see ../../storage/leaks.ts) in step with the
+ * water leak sensors and raises a browser notification when a leak starts.
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getLeakIncidents,
+  getLeakIncidentStatus,
+  subscribeToLeakIncidents,
+  syncLeakIncidents,
+  type LeakIncident,
+} from '../../storage/leaks';
+import { showNotification } from '../../utils/notifications';
+import { useSensorData } from './useSensorData';
+
+/**
+ * Hook to read the leak incident log
+ * Re-renders whenever an incident is opened, acknowledged, ended or cleared
+ *
+ * @returns All incidents, oldest first
+ */
+export function useLeakIncidents(): LeakIncident[] {
+  return useSyncExternalStore(subscribeToLeakIncidents, getLeakIncidents);
+}
+
+/**
+ * Hook options for the leak alarms
+ */
+export interface UseLeakAlarmsOptions {
+  /**
+   * Whether to watch the sensors
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Hook to watch the water leak sensors of every hub
+ * Opens and ends incidents as the device list updates and notifies about
+ * new leaks. Mount it once, high in the tree, so alarms are raised on
+ * every page.
+ *
+ * @param options - Hook options
+ * @returns Incidents that still need attention (not closed), oldest first
+ *
+ * @example
+ * ```tsx
+ * function LeakCount() {
+ *   const alarms = useLeakAlarms();
+ *   return <span>{alarms.length} leak alarms</span>;
+ * }
+ * ```
+ */
+export function useLeakAlarms(options: UseLeakAlarmsOptions = {}): LeakIncident[] {
+  const { enabled = true } = options;
+  const { data: devices } = useSensorData({ enabled });
+  const incidents = useLeakIncidents();
+
+  useEffect(() => {
+    if (!enabled || !devices) {
+      return;
+    }
+
+    for (const incident of syncLeakIncidents(devices)) {
+      showNotification('Water leak detected', {
+        body: [incident.deviceName, incident.roomName].filter(Boolean).join(' • '),
+        tag: incident.id,
+        requireInteraction: true,
+      });
+    }
+  }, [enabled, devices]);
+
+  return incidents.filter((incident) => getLeakIncidentStatus(incident) !== 'closed');
+}
@@ -0,0 +1,142 @@
+/**
+ * Hook for driving a light from the app
+ *
+ * Changes show up in the device cache immediately, so sliders and toggles
+ * follow the pointer, while the hub only receives the combined change once
+ * the user has paused for a moment. If the hub rejects it, the cache is
+ * rolled back to the state before the burst of edits.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { LightStateUpdate } from '@zigbee-visualizer/shared-types';
+import { getDirigeraClient, DirigeeraApiError } from '../dirigera-client';
+import {
+  applyOptimisticDeviceUpdate,
+  invalidateDeviceQueries,
+  rollbackDeviceUpdate,
+  type UpdateDeviceContext,
+} from './useUpdateDevice';
+
+/**
+ * Quiet time after the last edit before the change is sent to the hub
+ */
+export const LIGHT_UPDATE_DEBOUNCE_MS = 300;
+
+/**
+ * Variables of the light mutation
+ */
+interface LightMutationVariables {
+  state: LightStateUpdate;
+  /** Cache state before the first edit of the burst */
+  context?: UpdateDeviceContext;
+}
+
+/**
+ * Result of useLightControl
+ */
+export interface LightControl {
+  /** Change the light; repeated calls within the debounce window are combined */
+  update: (state: LightStateUpdate) => void;
+  /** Whether a change is waiting to be sent or on its way to the hub */
+  isPending: boolean;
+  /** Error of the last rejected change */
+  error: DirigeeraApiError | null;
+}
+
+/**
+ * Hook to change a light's state with debounced, optimistic updates
+ *
+ * @param deviceId - Light device ID
+ * @param hubId - Hub the light belongs to (default: active hub)
+ *
+ * @example
+ * ```tsx
+ * function Dimmer({ light }: { light: LightDevice }) {
+ *   const { update } = useLightControl(light.id, light.hubId);
+ *   return (
+ *     <Slider
+ *       value={light.attributes.lightLevel}
+ *       min={1}
+ *       max={100}
+ *       onValueChange={(lightLevel) => update({ lightLevel })}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function useLightControl(deviceId: string, hubId?: string): LightControl {
+  const queryClient = useQueryClient();
+  const pendingState = useRef<LightStateUpdate | null>(null);
+  const burstContext = useRef<UpdateDeviceContext | undefined>(undefined);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [isWaiting, setIsWaiting] = useState(false);
+
+  const mutation = useMutation<void, DirigeeraApiError, LightMutationVariables>({
+    mutationFn: ({ state }) => getDirigeraClient(hubId).updateLight(deviceId, state),
+
+    onError: (_error, { context }) => {
+      // A newer burst already replaced the optimistic state; the refetch settles it
+      if (!pendingState.current) {
+        rollbackDeviceUpdate(queryClient, deviceId, hubId, context);
+      }
+    },
+
+    onSettled: () => {
+      if (!pendingState.current) {
+        invalidateDeviceQueries(queryClient, deviceId, hubId);
+      }
+    },
+  });
+  const { mutate, reset } = mutation;
+
+  const flush = useCallback(() => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+    const state = pendingState.current;
+    const context = burstContext.current;
+    pendingState.current = null;
+    burstContext.current = undefined;
+    setIsWaiting(false);
+
+    if (state) {
+      mutate({ state, context });
+    }
+  }, [mutate]);
+
+  const update = useCallback(
+    (state: LightStateUpdate) => {
+      const isNewBurst = pendingState.current === null;
+      pendingState.current = { ...pendingState.current, ...state };
+      reset();
+      setIsWaiting(true);
+
+      void applyOptimisticDeviceUpdate(queryClient, {
+        deviceId,
+        hubId,
+        update: { attributes: state },
+      }).then((context) => {
+        if (isNewBurst) {
+          burstContext.current = context;
+        }
+      });
+
+      if (timer.current) {
+        clearTimeout(timer.current);
+      }
+      timer.current = setTimeout(flush, LIGHT_UPDATE_DEBOUNCE_MS);
+    },
+    [queryClient, deviceId, hubId, reset, flush]
+  );
+
+  // Send the last change right away when the control goes away
+  useEffect(() => flush, [flush]);
+
+  return {
+    update,
+    isPending: isWaiting || mutation.isPending,
+    error: mutation.error,
+  };
+}
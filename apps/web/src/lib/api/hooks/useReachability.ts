@@ -0,0 +1,61 @@
+/**
+ * Hook for device reachability history
+ *
+ * Reads the reachability changes stored with the sensor history (see
+ * ../../storage/history.ts): when devices dropped off the network and when
+ * they came back.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { DeviceStateEvent } from '@zigbee-visualizer/shared-types';
+import { queryReachabilityChanges } from '../../storage/history';
+
+/**
+ * Query key factory for reachability queries
+ */
+export const reachabilityQueryKeys = {
+  all: ['reachability'] as const,
+  events: (hubId?: string, deviceId?: string) =>
+    [...reachabilityQueryKeys.all, hubId ?? null, deviceId ?? null] as const,
+};
+
+/**
+ * Hook options for the reachability history
+ */
+export interface UseReachabilityEventsOptions {
+  /** Only read the changes of this hub */
+  hubId?: string;
+  /** Only read the changes of this device */
+  deviceId?: string;
+  /**
+   * Reload interval in milliseconds; changes are recorded while the app runs
+   * @default 30000 (30 seconds)
+   */
+  refetchInterval?: number;
+}
+
+/**
+ * Hook to read stored reachability changes
+ * Reads everything that is stored (as long as the device's history), so an
+ * outage that began before a shorter range still counts within it.
+ *
+ * @param options - Hook options
+ * @returns Query result with the changes, oldest first
+ *
+ * @example
+ * ```tsx
+ * function OutageCount({ deviceId }: { deviceId: string }) {
+ *   const { data: events = [] } = useReachabilityEvents({ deviceId });
+ *   return <span>{events.filter((event) => event.active).length} outages</span>;
+ * }
+ * ```
+ */
+export function useReachabilityEvents(options: UseReachabilityEventsOptions = {}) {
+  const { hubId, deviceId, refetchInterval = 30000 } = options;
+
+  return useQuery<DeviceStateEvent[], Error>({
+    queryKey: reachabilityQueryKeys.events(hubId, deviceId),
+    queryFn: () => queryReachabilityChanges({ hubId, deviceId }),
+    refetchInterval,
+  });
+}
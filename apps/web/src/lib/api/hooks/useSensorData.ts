@@ -1,13 +1,19 @@
 /**
  * TanStack Query hook for fetching sensor data from Dirigera hub
  *
- * Provides auto-refreshing sensor data with caching, error handling,
- * and loading states using TanStack Query (React Query).
+ * Provides real-time sensor data with caching, error handling, and loading
+ * states using TanStack Query (React Query). Device updates arrive over the
+ * hub event stream; polling only runs while the stream is down.
+ *
+ * useSensorData and useAllRooms combine the devices or rooms of every
+ * configured hub, tagging each with its `hubId`. The other hooks read a
+ * single hub (the active hub unless `hubId` is given).
  */
 
 import { useQuery, type UseQueryResult } from '@tanstack/react-query';
-import type { DirigeeraDevice } from '@zigbee-visualizer/shared-types';
-import { getDirigeraClient, DirigeeraApiError } from '../dirigera-client';
+import type { DirigeeraDevice, RoomResponse } from '@zigbee-visualizer/shared-types';
+import { getDirigeraClient, getHubIds, DirigeeraApiError } from '../dirigera-client';
+import { useDeviceEvents } from './useDeviceEvents';
 
 /**
  * Query key factory for sensor data queries
@@ -15,10 +21,12 @@ import { getDirigeraClient, DirigeeraApiError } from '../dirigera-client';
 export const sensorQueryKeys = {
   all: ['sensor-data'] as const,
   devices: () => [...sensorQueryKeys.all, 'devices'] as const,
-  device: (id: string) => [...sensorQueryKeys.all, 'device', id] as const,
-  rooms: () => [...sensorQueryKeys.all, 'rooms'] as const,
-  hubInfo: () => [...sensorQueryKeys.all, 'hub-info'] as const,
-  health: () => [...sensorQueryKeys.all, 'health'] as const,
+  device: (id: string, hubId?: string) =>
+    [...sensorQueryKeys.all, 'device', hubId ?? null, id] as const,
+  rooms: (hubId?: string) => [...sensorQueryKeys.all, 'rooms', hubId ?? null] as const,
+  allRooms: () => [...sensorQueryKeys.all, 'rooms', 'all-hubs'] as const,
+  hubInfo: (hubId?: string) => [...sensorQueryKeys.all, 'hub-info', hubId ?? null] as const,
+  health: (hubId?: string) => [...sensorQueryKeys.all, 'health', hubId ?? null] as const,
 };
 
 /**
@@ -27,6 +35,7 @@ export const sensorQueryKeys = {
 export interface UseSensorDataOptions {
   /**
    * Auto-refresh interval in milliseconds
+   * For useSensorData this only applies while the event stream is down
    * @default 30000 (30 seconds)
    */
   refetchInterval?: number;
@@ -44,8 +53,9 @@ export interface UseSensorDataOptions {
   refetchOnWindowFocus?: boolean;
 
   /**
-   * Whether to retry failed requests
-   * @default 3
+   * Whether TanStack Query retries failed requests
+   * The client already retries with backoff, so this is off by default
+   * @default false
    */
   retry?: number | boolean;
 
@@ -54,11 +64,50 @@ export interface UseSensorDataOptions {
    * @default 0 (always consider stale, but cache is used)
    */
   staleTime?: number;
+
+  /**
+   * Hub to query
+   * Ignored by useSensorData, which reads every hub
+   * @default active hub
+   */
+  hubId?: string;
+}
+
+/**
+ * Fetch the devices of every configured hub and tag them with their hub ID
+ * A hub that fails to answer is left out; the query only fails when no hub answers
+ * @returns Devices of all reachable hubs
+ */
+export async function fetchDevicesFromAllHubs(): Promise<DirigeeraDevice[]> {
+  const hubIds = getHubIds();
+  const results = await Promise.allSettled(
+    hubIds.map(async (hubId) => {
+      const devices = await getDirigeraClient(hubId).getDevices();
+      return devices.map((device) => ({ ...device, hubId }));
+    })
+  );
+
+  const devices: DirigeeraDevice[] = [];
+  const failures: unknown[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      devices.push(...result.value);
+    } else {
+      console.error(`Failed to fetch devices from hub ${hubIds[index]}:`, result.reason);
+      failures.push(result.reason);
+    }
+  });
+
+  if (failures.length > 0 && failures.length === results.length) {
+    throw failures[0];
+  }
+  return devices;
 }
 
 /**
- * Hook to fetch all devices from the Dirigera hub
- * Auto-refreshes every 30 seconds by default
+ * Hook to fetch all devices from every configured Dirigera hub
+ * Stays up to date through the hub event streams; falls back to
+ * polling every 30 seconds (by default) while a stream is down
  *
  * @param options - Query options
  * @returns Query result with devices data
@@ -88,17 +137,17 @@ export function useSensorData(
     refetchInterval = 30000, // 30 seconds
     enabled = true,
     refetchOnWindowFocus = true,
-    retry = 3,
+    retry = false,
     staleTime = 0,
   } = options;
 
+  const eventStreamStatus = useDeviceEvents({ enabled });
+
   return useQuery<DirigeeraDevice[], DirigeeraApiError>({
     queryKey: sensorQueryKeys.devices(),
-    queryFn: async () => {
-      const client = getDirigeraClient();
-      return await client.getDevices();
-    },
-    refetchInterval: enabled ? refetchInterval : false,
+    queryFn: fetchDevicesFromAllHubs,
+    // Only poll while the event stream is not delivering updates
+    refetchInterval: enabled && eventStreamStatus !== 'open' ? refetchInterval : false,
     refetchOnWindowFocus,
     retry,
     staleTime,
@@ -106,6 +155,31 @@ export function useSensorData(
   });
 }
 
+/**
+ * Fetch the rooms of every configured hub and tag them with their hub ID
+ * A hub that fails to answer is left out, as with devices
+ * @returns Rooms of all reachable hubs
+ */
+export async function fetchRoomsFromAllHubs(): Promise<RoomResponse[]> {
+  const hubIds = getHubIds();
+  const results = await Promise.allSettled(
+    hubIds.map(async (hubId) => {
+      const rooms = await getDirigeraClient(hubId).getRooms();
+      return rooms.map((room) => ({ ...room, hubId }));
+    })
+  );
+
+  const rooms: RoomResponse[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      rooms.push(...result.value);
+    } else {
+      console.error(`Failed to fetch rooms from hub ${hubIds[index]}:`, result.reason);
+    }
+  });
+  return rooms;
+}
+
 /**
  * Hook to fetch a specific device by ID
  *
@@ -133,15 +207,17 @@ export function useDevice(
     refetchInterval = 30000,
     enabled = true,
     refetchOnWindowFocus = true,
-    retry = 3,
+    retry = false,
     staleTime = 0,
+    hubId,
   } = options;
 
   return useQuery<DirigeeraDevice, DirigeeraApiError>({
-    queryKey: sensorQueryKeys.device(deviceId),
+    queryKey: sensorQueryKeys.device(deviceId, hubId),
     queryFn: async () => {
-      const client = getDirigeraClient();
-      return await client.getDevice(deviceId);
+      const client = getDirigeraClient(hubId);
+      const device = await client.getDevice(deviceId);
+      return hubId ? { ...device, hubId } : device;
     },
     refetchInterval: enabled ? refetchInterval : false,
     refetchOnWindowFocus,
@@ -179,14 +255,15 @@ export function useRooms(options: UseSensorDataOptions = {}) {
     refetchInterval = 60000, // 1 minute (rooms change less frequently)
     enabled = true,
     refetchOnWindowFocus = false,
-    retry = 3,
+    retry = false,
     staleTime = 30000, // Consider stale after 30 seconds
+    hubId,
   } = options;
 
   return useQuery({
-    queryKey: sensorQueryKeys.rooms(),
+    queryKey: sensorQueryKeys.rooms(hubId),
     queryFn: async () => {
-      const client = getDirigeraClient();
+      const client = getDirigeraClient(hubId);
       return await client.getRooms();
     },
     refetchInterval: enabled ? refetchInterval : false,
@@ -197,6 +274,33 @@ export function useRooms(options: UseSensorDataOptions = {}) {
   });
 }
 
+/**
+ * Hook to fetch the rooms of every configured hub
+ * Each room is tagged with its `hubId`, like the devices of useSensorData
+ *
+ * @param options - Query options (`hubId` is ignored)
+ * @returns Query result with the rooms of all hubs
+ */
+export function useAllRooms(options: UseSensorDataOptions = {}) {
+  const {
+    refetchInterval = 60000, // 1 minute (rooms change less frequently)
+    enabled = true,
+    refetchOnWindowFocus = false,
+    retry = false,
+    staleTime = 30000, // Consider stale after 30 seconds
+  } = options;
+
+  return useQuery({
+    queryKey: sensorQueryKeys.allRooms(),
+    queryFn: fetchRoomsFromAllHubs,
+    refetchInterval: enabled ? refetchInterval : false,
+    refetchOnWindowFocus,
+    retry,
+    staleTime,
+    enabled,
+  });
+}
+
 /**
  * Hook to fetch hub information
  *
@@ -222,14 +326,15 @@ export function useHubInfo(options: UseSensorDataOptions = {}) {
     refetchInterval = false, // Hub info changes rarely
     enabled = true,
     refetchOnWindowFocus = false,
-    retry = 3,
+    retry = false,
     staleTime = 300000, // Consider stale after 5 minutes
+    hubId,
   } = options;
 
   return useQuery({
-    queryKey: sensorQueryKeys.hubInfo(),
+    queryKey: sensorQueryKeys.hubInfo(hubId),
     queryFn: async () => {
-      const client = getDirigeraClient();
+      const client = getDirigeraClient(hubId);
       return await client.getHubInfo();
     },
     refetchInterval,
@@ -266,14 +371,15 @@ export function useHubHealth(options: UseSensorDataOptions = {}) {
     refetchInterval = 60000, // 1 minute
     enabled = true,
     refetchOnWindowFocus = true,
-    retry = 1, // Only retry once for health checks
+    retry = false,
     staleTime = 0,
+    hubId,
   } = options;
 
   return useQuery({
-    queryKey: sensorQueryKeys.health(),
+    queryKey: sensorQueryKeys.health(hubId),
     queryFn: async () => {
-      const client = getDirigeraClient();
+      const client = getDirigeraClient(hubId);
       return await client.healthCheck();
     },
     refetchInterval: enabled ? refetchInterval : false,
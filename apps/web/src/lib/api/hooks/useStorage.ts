@@ -0,0 +1,96 @@
+/**
+ * Hooks for local data storage
+ *
+ * Storage use and quota of the browser (see ../../utils/quota.ts), the size
+ * of the stored sensor history (see ../../storage/history.ts) and the
+ * scheduled cleanup (see ../../storage/maintenance.ts).
+ */
+
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getStorageStats } from '../../storage/history';
+import { startCleanupSchedule } from '../../storage/maintenance';
+import { getStorageQuota, type StorageQuota } from '../../utils/quota';
+
+/**
+ * Query key factory for storage queries
+ */
+export const storageQueryKeys = {
+  all: ['storage'] as const,
+  quota: () => [...storageQueryKeys.all, 'quota'] as const,
+  stats: () => [...storageQueryKeys.all, 'stats'] as const,
+};
+
+/**
+ * Hook options for the storage queries
+ */
+export interface UseStorageOptions {
+  /**
+   * Whether to run the query
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Reload interval in milliseconds
+   * @default 300000 (5 minutes)
+   */
+  refetchInterval?: number;
+}
+
+/**
+ * Hook to read the browser's storage estimate for the app
+ *
+ * @param options - Hook options
+ * @returns Query result with usage, quota and persistence, or null where
+ * the Storage API is missing
+ *
+ * @example
+ * ```tsx
+ * function Usage() {
+ *   const { data: quota } = useStorageQuota();
+ *   return quota ? <span>{formatBytes(quota.usage)} used</span> : null;
+ * }
+ * ```
+ */
+export function useStorageQuota(options: UseStorageOptions = {}) {
+  const { enabled = true, refetchInterval = 300000 } = options;
+
+  return useQuery<StorageQuota | null, Error>({
+    queryKey: storageQueryKeys.quota(),
+    queryFn: getStorageQuota,
+    enabled,
+    refetchInterval,
+  });
+}
+
+/**
+ * Hook to read the size and date range of the stored sensor history
+ *
+ * @param options - Hook options
+ * @returns Query result with reading and rollup counts
+ */
+export function useStorageStats(options: UseStorageOptions = {}) {
+  const { enabled = true, refetchInterval = 300000 } = options;
+
+  return useQuery({
+    queryKey: storageQueryKeys.stats(),
+    queryFn: getStorageStats,
+    enabled,
+    refetchInterval,
+  });
+}
+
+/**
+ * Hook to clean up the stored history on the configured schedule
+ * Mount it once, high in the tree, so cleanup runs whichever page is open.
+ *
+ * @param enabled - Whether to run the schedule
+ */
+export function useHistoryCleanup(enabled: boolean = true): void {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    return startCleanupSchedule();
+  }, [enabled]);
+}
@@ -0,0 +1,179 @@
+/**
+ * TanStack Query mutation for updating devices on the hub
+ *
+ * Applies the update to the cached device list and device queries right
+ * away, rolls back if the hub rejects it and refetches afterwards. Renamed
+ * devices are stored under their new name by the next history snapshot,
+ * since snapshots read the name from the device cache.
+ */
+
+import {
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+  type UseMutationResult,
+} from '@tanstack/react-query';
+import type { DeviceUpdateRequest, DirigeeraDevice } from '@zigbee-visualizer/shared-types';
+import { getDirigeraClient, DirigeeraApiError } from '../dirigera-client';
+import { sensorQueryKeys } from './useSensorData';
+
+/**
+ * Variables of the update mutation
+ */
+export interface UpdateDeviceVariables {
+  /** Device to update */
+  deviceId: string;
+  /** Hub the device belongs to (default: active hub) */
+  hubId?: string;
+  /** Attributes to change */
+  update: DeviceUpdateRequest;
+}
+
+/**
+ * Cache state before the optimistic update, used to roll back
+ */
+export interface UpdateDeviceContext {
+  previousDevices?: DirigeeraDevice[];
+  previousDevice?: DirigeeraDevice;
+}
+
+/**
+ * Apply an update request to a device, as the hub will once it accepts it
+ * @returns Updated copy of the device
+ */
+export function applyDeviceUpdate(
+  device: DirigeeraDevice,
+  update: DeviceUpdateRequest
+): DirigeeraDevice {
+  if (!update.attributes) {
+    return device;
+  }
+
+  const { customName, colorHue, colorSaturation, colorTemperature } = update.attributes;
+  // Lights switch color mode along with the value that was set, as the hub does
+  const colorMode = device.type !== 'light'
+    ? undefined
+    : colorHue !== undefined || colorSaturation !== undefined
+      ? 'color'
+      : colorTemperature !== undefined ? 'temperature' : undefined;
+
+  return {
+    ...device,
+    ...(customName !== undefined && { customName }),
+    attributes: {
+      ...device.attributes,
+      ...update.attributes,
+      ...(colorMode && { colorMode }),
+    },
+  } as DirigeeraDevice;
+}
+
+/**
+ * Apply an update to the cached device list and device query
+ * @returns Cache state before the update, for rollbackDeviceUpdate
+ */
+export async function applyOptimisticDeviceUpdate(
+  queryClient: QueryClient,
+  { deviceId, hubId, update }: UpdateDeviceVariables
+): Promise<UpdateDeviceContext> {
+  const deviceKey = sensorQueryKeys.device(deviceId, hubId);
+
+  // Keep in-flight fetches from overwriting the optimistic update
+  await queryClient.cancelQueries({ queryKey: sensorQueryKeys.devices() });
+  await queryClient.cancelQueries({ queryKey: deviceKey });
+
+  const previousDevices = queryClient.getQueryData<DirigeeraDevice[]>(sensorQueryKeys.devices());
+  const previousDevice = queryClient.getQueryData<DirigeeraDevice>(deviceKey);
+
+  // Links from before multi-hub support carry no hub ID; match by device ID only
+  const isTarget = (device: DirigeeraDevice) =>
+    device.id === deviceId && (hubId === undefined || device.hubId === hubId);
+
+  queryClient.setQueryData<DirigeeraDevice[]>(sensorQueryKeys.devices(), (devices) =>
+    devices?.map((device) => (isTarget(device) ? applyDeviceUpdate(device, update) : device))
+  );
+  queryClient.setQueryData<DirigeeraDevice>(deviceKey, (device) =>
+    device ? applyDeviceUpdate(device, update) : device
+  );
+
+  return { previousDevices, previousDevice };
+}
+
+/**
+ * Restore the cache state saved by applyOptimisticDeviceUpdate
+ */
+export function rollbackDeviceUpdate(
+  queryClient: QueryClient,
+  deviceId: string,
+  hubId: string | undefined,
+  context: UpdateDeviceContext | undefined
+): void {
+  if (context?.previousDevices) {
+    queryClient.setQueryData(sensorQueryKeys.devices(), context.previousDevices);
+  }
+  if (context?.previousDevice) {
+    queryClient.setQueryData(sensorQueryKeys.device(deviceId, hubId), context.previousDevice);
+  }
+}
+
+/**
+ * Refetch the device list and device query after an update
+ */
+export function invalidateDeviceQueries(
+  queryClient: QueryClient,
+  deviceId: string,
+  hubId?: string
+): void {
+  queryClient.invalidateQueries({ queryKey: sensorQueryKeys.devices() });
+  queryClient.invalidateQueries({ queryKey: sensorQueryKeys.device(deviceId, hubId) });
+}
+
+/**
+ * Hook to update a device on the hub with an optimistic cache update
+ *
+ * @returns Mutation result; call `mutate({ deviceId, hubId, update })`
+ *
+ * @example
+ * ```tsx
+ * function RenameButton({ device }: { device: DirigeeraDevice }) {
+ *   const { mutate, isPending } = useUpdateDevice();
+ *   return (
+ *     <button
+ *       disabled={isPending}
+ *       onClick={() =>
+ *         mutate({
+ *           deviceId: device.id,
+ *           hubId: device.hubId,
+ *           update: { attributes: { customName: 'Bedroom' } },
+ *         })
+ *       }
+ *     >
+ *       Rename
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useUpdateDevice(): UseMutationResult<
+  void,
+  DirigeeraApiError,
+  UpdateDeviceVariables,
+  UpdateDeviceContext
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, DirigeeraApiError, UpdateDeviceVariables, UpdateDeviceContext>({
+    mutationFn: ({ deviceId, hubId, update }) =>
+      getDirigeraClient(hubId).updateDevice(deviceId, update),
+
+    onMutate: (variables) => applyOptimisticDeviceUpdate(queryClient, variables),
+
+    onError: (_error, { deviceId, hubId }, context) => {
+      rollbackDeviceUpdate(queryClient, deviceId, hubId, context);
+    },
+
+    onSettled: (_data, _error, { deviceId, hubId }) => {
+      invalidateDeviceQueries(queryClient, deviceId, hubId);
+    },
+  });
+}
@@ -0,0 +1,231 @@
+/**
+ * Dirigera hub pairing (OAuth 2.0 authorization code flow with PKCE)
+ *
+ * 1. Generate a random code verifier and its SHA-256 code challenge
+ * 2. GET /v1/oauth/authorize with the challenge to receive an authorization code
+ * 3. The user presses the action button on the bottom of the hub
+ * 4. POST /v1/oauth/token with the code and verifier; the hub answers 403
+ *    until the button has been pressed, so the exchange is polled
+ */
+
+import { DirigeeraApiError, type DirigeeraClient } from './dirigera-client';
+
+/**
+ * Pairing failure reasons
+ */
+export type PairingErrorCode =
+  | 'TIMEOUT'
+  | 'INVALID_PRESS'
+  | 'ALREADY_PAIRED'
+  | 'UNSUPPORTED_BROWSER'
+  | 'NETWORK_ERROR'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+/**
+ * Progress of an ongoing pairing attempt
+ */
+export type PairingStatus = 'authorizing' | 'waitingForButton';
+
+/**
+ * Error raised when pairing fails, with a message suitable for display
+ */
+export class PairingError extends Error {
+  code: PairingErrorCode;
+  cause?: unknown;
+
+  constructor(message: string, code: PairingErrorCode, cause?: unknown) {
+    super(message);
+    this.name = 'PairingError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Options for pairWithHub
+ */
+export interface PairingOptions {
+  /** Name the hub lists for this client */
+  clientName?: string;
+  /**
+   * How long to wait for the button press in milliseconds
+   * @default 90000 (90 seconds)
+   */
+  timeout?: number;
+  /**
+   * Delay between token exchange attempts in milliseconds
+   * @default 2000 (2 seconds)
+   */
+  pollInterval?: number;
+  /** Signal to cancel pairing */
+  signal?: AbortSignal;
+  /** Called when the pairing step changes */
+  onStatusChange?: (status: PairingStatus) => void;
+}
+
+const CODE_VERIFIER_LENGTH = 128;
+const CODE_VERIFIER_CHARSET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~';
+
+/**
+ * Generate a random PKCE code verifier (RFC 7636, 43-128 unreserved characters)
+ */
+export function generateCodeVerifier(length: number = CODE_VERIFIER_LENGTH): string {
+  const random = new Uint8Array(length);
+  crypto.getRandomValues(random);
+  return Array.from(random, (byte) => CODE_VERIFIER_CHARSET[byte % CODE_VERIFIER_CHARSET.length])
+    .join('');
+}
+
+/**
+ * Derive the S256 code challenge for a code verifier
+ * @returns Base64url-encoded SHA-256 digest without padding
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  if (!crypto.subtle) {
+    throw new PairingError(
+      'Pairing needs a secure context. Open the app over HTTPS or on localhost, or paste an existing token instead.',
+      'UNSUPPORTED_BROWSER'
+    );
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Check whether a token exchange error means "button not pressed yet"
+ */
+function isButtonNotPressedError(error: unknown): boolean {
+  return (
+    error instanceof DirigeeraApiError &&
+    error.status === 403 &&
+    /button not pressed|presence time ?stamp/i.test(error.message)
+  );
+}
+
+/**
+ * Translate hub errors into pairing errors with actionable messages
+ */
+export function toPairingError(error: unknown): PairingError {
+  if (error instanceof PairingError) {
+    return error;
+  }
+
+  if (error instanceof DirigeeraApiError) {
+    if (error.status === 0 || error.code === 'NETWORK_ERROR') {
+      return new PairingError(
+        'Could not reach the hub. Check the hub address and, if you use one, that the hub proxy is running.',
+        'NETWORK_ERROR',
+        error
+      );
+    }
+
+    if (error.status === 409 || /already (paired|exists|registered)/i.test(error.message)) {
+      return new PairingError(
+        'This hub is already paired with ZigBee Visualizer. Remove the existing pairing in the IKEA Home smart app, or paste the existing token instead.',
+        'ALREADY_PAIRED',
+        error
+      );
+    }
+
+    if (error.status === 400 || error.status === 401 || error.status === 403) {
+      return new PairingError(
+        'The hub did not accept the button press. Press the action button on the bottom of the hub (not the reset button) only after starting pairing, then try again.',
+        'INVALID_PRESS',
+        error
+      );
+    }
+  }
+
+  return new PairingError(
+    error instanceof Error ? `Pairing failed: ${error.message}` : 'Pairing failed unexpectedly.',
+    'UNKNOWN',
+    error
+  );
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal is aborted
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PairingError('Pairing was cancelled.', 'CANCELLED'));
+    };
+    // Poll after poll waits on the same signal, so drop the listener once done
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Pair with a Dirigera hub and obtain an access token
+ *
+ * @param client - Client pointing at the hub (or hub proxy); no token needed
+ * @param options - Pairing options
+ * @returns Access token for the hub
+ * @throws PairingError describing why pairing failed
+ *
+ * @example
+ * ```ts
+ * const client = createDirigeraClient('192.168.1.100:8443', null);
+ * const token = await pairWithHub(client, { onStatusChange: setStep });
+ * setAuthToken(token);
+ * ```
+ */
+export async function pairWithHub(
+  client: DirigeeraClient,
+  options: PairingOptions = {}
+): Promise<string> {
+  const {
+    clientName = 'ZigBee Visualizer',
+    timeout = 90000,
+    pollInterval = 2000,
+    signal,
+    onStatusChange,
+  } = options;
+
+  const deadline = Date.now() + timeout;
+  const throwIfCancelled = () => {
+    if (signal?.aborted) {
+      throw new PairingError('Pairing was cancelled.', 'CANCELLED');
+    }
+  };
+
+  try {
+    onStatusChange?.('authorizing');
+    const codeVerifier = generateCodeVerifier();
+    const codeChallenge = await createCodeChallenge(codeVerifier);
+    const code = await client.authorize(codeChallenge);
+    throwIfCancelled();
+
+    onStatusChange?.('waitingForButton');
+    while (Date.now() < deadline) {
+      throwIfCancelled();
+      try {
+        return await client.exchangeToken(code, codeVerifier, clientName);
+      } catch (error) {
+        if (!isButtonNotPressedError(error)) {
+          throw error;
+        }
+      }
+      await wait(pollInterval, signal);
+    }
+
+    throw new PairingError(
+      `The hub button was not pressed within ${Math.round(timeout / 1000)} seconds. Start pairing again and press the action button on the bottom of the hub.`,
+      'TIMEOUT'
+    );
+  } catch (error) {
+    throw toPairingError(error);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Schema Drift Report
+ *
+ * Collects what response validation finds (see validateDevice and friends in
+ * shared-types): devices quarantined because they do not match the schema,
+ * and issues grouped by model and firmware version so a firmware update that
+ * moves or retypes a field shows up as one entry.
+ *
+ * The report lives in memory for the current session.
+ */
+
+import type { SchemaIssue, SchemaIssueKind } from '@zigbee-visualizer/shared-types';
+
+/**
+ * Device left out of the device list because its payload failed validation
+ */
+export interface QuarantinedDevice {
+  /** Hub that sent the device */
+  hubId?: string;
+  /** Device ID, if the payload had one */
+  deviceId?: string;
+  /** Custom name, if the payload had one */
+  customName?: string;
+  /** Model from the attributes, if present */
+  model?: string;
+  /** Firmware version from the attributes, if present */
+  firmwareVersion?: string;
+  /** Issues found (errors and warnings) */
+  issues: SchemaIssue[];
+  /** Raw payload as received */
+  payload: unknown;
+  /** When the payload was last received (ISO 8601) */
+  receivedAt: string;
+}
+
+/**
+ * One schema issue seen for a model and firmware version
+ */
+export interface DriftEntry {
+  /** Resource the issue was found in */
+  source: 'device' | 'hub' | 'room';
+  /** Device model (or "Hub"/"Room" for other resources) */
+  model: string;
+  /** Firmware version reporting the issue */
+  firmwareVersion: string;
+  /** Kind of issue */
+  kind: SchemaIssueKind;
+  /** Errors quarantine the payload; warnings are reported only */
+  severity: SchemaIssue['severity'];
+  /** Path of the field */
+  path: string;
+  /** Expected type or values */
+  expected?: string;
+  /** Last received type or value */
+  received?: string;
+  /** Devices (or resources) reporting the issue */
+  deviceIds: string[];
+  /** First and last time the issue was seen (ISO 8601) */
+  firstSeen: string;
+  lastSeen: string;
+  /** Number of responses with the issue */
+  occurrences: number;
+}
+
+/**
+ * Snapshot of the report
+ */
+export interface DriftReport {
+  /** Devices currently quarantined, keyed by hub and device */
+  quarantined: QuarantinedDevice[];
+  /** Issues grouped by source, model, firmware version, path and kind */
+  entries: DriftEntry[];
+}
+
+/**
+ * Details of a validated payload, read from the raw value
+ */
+export interface ValidatedPayload {
+  source: DriftEntry['source'];
+  hubId?: string;
+  /** Resource ID (device, hub or room) */
+  id?: string;
+  model?: string;
+  firmwareVersion?: string;
+}
+
+const UNKNOWN_VERSION = 'unknown';
+
+// Model shown for payloads that do not carry one
+const FALLBACK_MODELS: Record<DriftEntry['source'], string> = {
+  device: 'Unknown model',
+  hub: 'Hub',
+  room: 'Room',
+};
+
+const quarantined = new Map<string, QuarantinedDevice>();
+const entries = new Map<string, DriftEntry>();
+const listeners = new Set<() => void>();
+let snapshot: DriftReport = { quarantined: [], entries: [] };
+
+function notify(): void {
+  snapshot = {
+    quarantined: Array.from(quarantined.values()),
+    entries: Array.from(entries.values()),
+  };
+  listeners.forEach((listener) => listener());
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function readString(value: unknown, key: string): string | undefined {
+  const field = asRecord(value)?.[key];
+  return typeof field === 'string' ? field : undefined;
+}
+
+/**
+ * Read the identifying details of a raw device payload
+ * Tolerates malformed payloads; missing details stay undefined
+ */
+export function describeDevicePayload(payload: unknown, hubId?: string): ValidatedPayload {
+  const attributes = asRecord(payload)?.attributes;
+  return {
+    source: 'device',
+    hubId,
+    id: readString(payload, 'id'),
+    model: readString(attributes, 'model'),
+    firmwareVersion: readString(attributes, 'firmwareVersion'),
+  };
+}
+
+function recordIssues(details: ValidatedPayload, issues: SchemaIssue[], now: string): void {
+  const model = details.model ?? FALLBACK_MODELS[details.source];
+  const firmwareVersion = details.firmwareVersion ?? UNKNOWN_VERSION;
+  const resourceId = details.id
+    ? details.hubId ? `${details.hubId}:${details.id}` : details.id
+    : undefined;
+
+  for (const issue of issues) {
+    const key = [details.source, model, firmwareVersion, issue.path, issue.kind].join('|');
+    const entry = entries.get(key);
+    if (entry) {
+      entry.lastSeen = now;
+      entry.occurrences++;
+      entry.received = issue.received;
+      if (resourceId && !entry.deviceIds.includes(resourceId)) {
+        entry.deviceIds.push(resourceId);
+      }
+    } else {
+      entries.set(key, {
+        source: details.source,
+        model,
+        firmwareVersion,
+        kind: issue.kind,
+        severity: issue.severity,
+        path: issue.path,
+        expected: issue.expected,
+        received: issue.received,
+        deviceIds: resourceId ? [resourceId] : [],
+        firstSeen: now,
+        lastSeen: now,
+        occurrences: 1,
+      });
+    }
+  }
+}
+
+/**
+ * Record the outcome of validating a payload
+ * Invalid devices are quarantined; a valid device leaves quarantine
+ * @param details - Identifying details of the payload
+ * @param issues - Issues found by validation
+ * @param payload - Raw payload, kept for quarantined devices
+ */
+export function recordValidation(
+  details: ValidatedPayload,
+  issues: SchemaIssue[],
+  payload: unknown
+): void {
+  const now = new Date().toISOString();
+  const quarantineKey = `${details.hubId ?? ''}:${details.id ?? JSON.stringify(payload)}`;
+  const isValid = !issues.some((issue) => issue.severity === 'error');
+  let changed = issues.length > 0;
+
+  recordIssues(details, issues, now);
+
+  if (details.source === 'device') {
+    if (!isValid) {
+      quarantined.set(quarantineKey, {
+        hubId: details.hubId,
+        deviceId: details.id,
+        customName: readString(payload, 'customName'),
+        model: details.model,
+        firmwareVersion: details.firmwareVersion,
+        issues,
+        payload,
+        receivedAt: now,
+      });
+      changed = true;
+    } else if (quarantined.delete(quarantineKey)) {
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    notify();
+  }
+}
+
+/**
+ * Get the current report (same object until something changes)
+ */
+export function getDriftReport(): DriftReport {
+  return snapshot;
+}
+
+/**
+ * Subscribe to report changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToDriftReport(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Clear the report and release quarantined devices
+ */
+export function clearDriftReport(): void {
+  quarantined.clear();
+  entries.clear();
+  notify();
+}
@@ -0,0 +1,412 @@
+/**
+ * Hub Transport Policy
+ *
+ * Wraps requests to a hub with retries, a circuit breaker and request
+ * deduplication, and tracks the connectivity of each hub.
+ *
+ * - Retries: network errors, timeouts, 429 and 5xx answers are retried with
+ *   exponential backoff and full jitter. Other 4xx answers fail immediately.
+ * - Circuit breaker: after `failureThreshold` consecutive network errors (or
+ *   hub-proxy answers that it could not reach the hub) the
+ *   circuit opens and requests fail fast for `cooldown` milliseconds. The
+ *   first request after that is a probe: success closes the circuit, another
+ *   network error opens it again. Requests made while the probe is in flight
+ *   wait for its outcome instead of reaching the recovering hub at once.
+ * - Deduplication: identical GET requests in flight share one promise.
+ *
+ * Connectivity per hub:
+ * - online: the last request succeeded, or the hub answered with a client error
+ * - degraded: requests only succeed after retries, or fail while the circuit is closed
+ * - offline: the circuit is open
+ */
+
+import type { ApiError } from '@zigbee-visualizer/shared-types';
+
+/**
+ * Connectivity status of a hub
+ */
+export type ConnectivityStatus = 'online' | 'degraded' | 'offline';
+
+/**
+ * Connectivity of a hub as seen by the transport
+ */
+export interface HubConnectivity {
+  /** Current status */
+  status: ConnectivityStatus;
+  /** When the hub entered this status (ISO 8601) */
+  since: string;
+  /** Message of the last failed request, if the hub is not online */
+  lastError?: string;
+  /** When the next probe request is allowed while offline (ISO 8601) */
+  retryAt?: string;
+}
+
+/**
+ * Retry and circuit breaker settings
+ */
+export interface TransportPolicy {
+  /**
+   * Retries after the first attempt
+   * @default 3
+   */
+  retries: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled for each retry
+   * @default 500
+   */
+  baseDelay: number;
+  /**
+   * Upper bound for a single retry delay in milliseconds
+   * @default 8000 (8 seconds)
+   */
+  maxDelay: number;
+  /**
+   * Consecutive network errors that open the circuit
+   * @default 5
+   */
+  failureThreshold: number;
+  /**
+   * How long the circuit stays open before a probe request in milliseconds
+   * @default 30000 (30 seconds)
+   */
+  cooldown: number;
+}
+
+export const DEFAULT_TRANSPORT_POLICY: TransportPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  failureThreshold: 5,
+  cooldown: 30000,
+};
+
+/**
+ * Options for a HubTransport
+ */
+export interface HubTransportOptions {
+  /** Hub whose connectivity the transport reports; unset for one-off clients */
+  hubId?: string;
+  /** Overrides for the default policy */
+  policy?: Partial<TransportPolicy>;
+  /**
+   * Create the error thrown while the circuit is open
+   * @param retryAt - When the next probe request is allowed
+   */
+  createOfflineError: (retryAt: Date) => Error;
+}
+
+/**
+ * Options for a single request
+ */
+export interface TransportRequestOptions {
+  /** Share the result with identical requests in flight under this key */
+  dedupeKey?: string;
+  /** Override the number of retries for this request */
+  retries?: number;
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Codes of the 502 answers hub-proxy sends when it cannot reach the hub
+ */
+const PROXY_UNREACHABLE_CODES = ['HUB_UNREACHABLE', 'CERTIFICATE_MISMATCH'];
+
+/**
+ * Check whether an error means the hub could not be reached at all
+ * Behind hub-proxy an unreachable hub is a gateway error rather than a
+ * network error, so those count as well.
+ */
+export function isNetworkError(error: unknown): boolean {
+  const apiError = error as Partial<ApiError> | null;
+  if (apiError?.status === 0) {
+    return apiError.code === 'NETWORK_ERROR';
+  }
+  return (
+    apiError?.status === 504 ||
+    (apiError?.status === 502 && PROXY_UNREACHABLE_CODES.includes(apiError.code ?? ''))
+  );
+}
+
+/**
+ * Check whether a failed request is worth retrying
+ * Network errors, rate limiting and server errors are; other client errors are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isNetworkError(error)) {
+    return true;
+  }
+  const status = (error as Partial<ApiError> | null)?.status;
+  return status === 408 || status === 429 || (status !== undefined && status >= 500);
+}
+
+/**
+ * Delay before a retry: exponential backoff with full jitter
+ * @param attempt - Retry number, starting at 1
+ * @param policy - Transport policy
+ * @returns Delay in milliseconds between 0 and the capped exponential delay
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: Pick<TransportPolicy, 'baseDelay' | 'maxDelay'> = DEFAULT_TRANSPORT_POLICY
+): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return Math.round(Math.random() * exponential);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Connectivity of every hub that has made a request, keyed by hub ID
+ * Replaced (not mutated) on every change so it can serve as a React snapshot
+ */
+let connectivitySnapshot: Readonly<Record<string, HubConnectivity>> = {};
+const connectivityListeners = new Set<() => void>();
+
+function setConnectivity(
+  hubId: string,
+  status: ConnectivityStatus,
+  details: Pick<HubConnectivity, 'lastError' | 'retryAt'> = {}
+): void {
+  const current = connectivitySnapshot[hubId];
+  if (
+    current?.status === status &&
+    current.lastError === details.lastError &&
+    current.retryAt === details.retryAt
+  ) {
+    return;
+  }
+
+  connectivitySnapshot = {
+    ...connectivitySnapshot,
+    [hubId]: {
+      status,
+      // Keep the original time while the status itself stays the same
+      since: current?.status === status ? current.since : new Date().toISOString(),
+      ...details,
+    },
+  };
+  connectivityListeners.forEach((listener) => listener());
+}
+
+/**
+ * Get the connectivity of every hub that has made a request
+ * @returns Connectivity keyed by hub ID (same object until something changes)
+ */
+export function getConnectivitySnapshot(): Readonly<Record<string, HubConnectivity>> {
+  return connectivitySnapshot;
+}
+
+/**
+ * Get the connectivity of a hub
+ * @returns Connectivity, or undefined if the hub has not made a request yet
+ */
+export function getHubConnectivity(hubId: string): HubConnectivity | undefined {
+  return connectivitySnapshot[hubId];
+}
+
+/**
+ * Subscribe to connectivity changes of any hub
+ * @returns Unsubscribe function
+ */
+export function subscribeToConnectivity(listener: () => void): () => void {
+  connectivityListeners.add(listener);
+  return () => {
+    connectivityListeners.delete(listener);
+  };
+}
+
+/**
+ * Forget the connectivity of a hub, e.g. after its configuration changed
+ * @param hubId - Hub to forget (default: all hubs)
+ */
+export function resetHubConnectivity(hubId?: string): void {
+  if (hubId) {
+    if (!(hubId in connectivitySnapshot)) {
+      return;
+    }
+    const { [hubId]: _removed, ...rest } = connectivitySnapshot;
+    connectivitySnapshot = rest;
+  } else {
+    connectivitySnapshot = {};
+  }
+  connectivityListeners.forEach((listener) => listener());
+}
+
+/**
+ * Combine the connectivity of several hubs into one
+ * Offline only when every hub is offline, online only when every hub is online
+ * @returns Combined connectivity, or null if no hub has made a request yet
+ */
+export function combineConnectivity(states: HubConnectivity[]): HubConnectivity | null {
+  if (states.length === 0) {
+    return null;
+  }
+
+  const status: ConnectivityStatus = states.every((state) => state.status === 'offline')
+    ? 'offline'
+    : states.every((state) => state.status === 'online')
+    ? 'online'
+    : 'degraded';
+  const latest = states.reduce((a, b) => (a.since >= b.since ? a : b));
+  const failing = states.find((state) => state.status !== 'online');
+
+  return {
+    status,
+    since: latest.since,
+    lastError: failing?.lastError,
+    retryAt: status === 'offline' ? failing?.retryAt : undefined,
+  };
+}
+
+/**
+ * Request policy for one hub: retries, circuit breaker and deduplication
+ */
+export class HubTransport {
+  private hubId?: string;
+  private policy: TransportPolicy;
+  private createOfflineError: (retryAt: Date) => Error;
+  private circuit: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  /** Settles once the half-open probe request has its outcome */
+  private probe: Promise<void> | null = null;
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(options: HubTransportOptions) {
+    this.hubId = options.hubId;
+    this.policy = { ...DEFAULT_TRANSPORT_POLICY, ...options.policy };
+    this.createOfflineError = options.createOfflineError;
+  }
+
+  /**
+   * Run a request under the transport policy
+   * @param send - Performs one attempt; rejects with an ApiError-shaped error
+   * @param options - Deduplication key and retry override
+   * @returns Result of the first successful attempt
+   * @throws The last error, or the offline error while the circuit is open
+   */
+  request<T>(send: () => Promise<T>, options: TransportRequestOptions = {}): Promise<T> {
+    const { dedupeKey } = options;
+    if (!dedupeKey) {
+      return this.execute(send, options.retries);
+    }
+
+    const existing = this.inFlight.get(dedupeKey);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const promise = this.execute(send, options.retries).finally(() => {
+      this.inFlight.delete(dedupeKey);
+    });
+    this.inFlight.set(dedupeKey, promise);
+    return promise;
+  }
+
+  /**
+   * Get the current circuit state
+   */
+  getCircuitState(): CircuitState {
+    return this.circuit;
+  }
+
+  private async execute<T>(send: () => Promise<T>, retries = this.policy.retries): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const releaseProbe = await this.acquireCircuit();
+
+      try {
+        const result = await send();
+        this.recordSuccess(attempt > 0);
+        return result;
+      } catch (error) {
+        this.recordFailure(error);
+
+        // Stop once the circuit opened, the error is final or retries are used up
+        if (this.circuit === 'open' || !isRetryableError(error) || attempt >= retries) {
+          this.reportFailure(error);
+          throw error;
+        }
+      } finally {
+        releaseProbe?.();
+      }
+
+      await wait(computeBackoffDelay(attempt + 1, this.policy));
+    }
+  }
+
+  /**
+   * Fail fast while the circuit is open; let one probe through after the cooldown
+   * Other requests wait until the probe settles and then follow its outcome.
+   * @returns Releases the circuit when this request is the probe, else null
+   * @throws The offline error while the circuit is open
+   */
+  private async acquireCircuit(): Promise<(() => void) | null> {
+    while (this.probe) {
+      await this.probe;
+    }
+    if (this.circuit !== 'open') {
+      return null;
+    }
+
+    const retryAt = this.openedAt + this.policy.cooldown;
+    if (Date.now() < retryAt) {
+      throw this.createOfflineError(new Date(retryAt));
+    }
+    this.circuit = 'half-open';
+
+    let release!: () => void;
+    this.probe = new Promise((resolve) => {
+      release = () => {
+        this.probe = null;
+        resolve();
+      };
+    });
+    return release;
+  }
+
+  private recordSuccess(afterRetries: boolean): void {
+    this.circuit = 'closed';
+    this.consecutiveFailures = 0;
+    if (this.hubId) {
+      setConnectivity(this.hubId, afterRetries ? 'degraded' : 'online');
+    }
+  }
+
+  private recordFailure(error: unknown): void {
+    if (!isNetworkError(error)) {
+      // The hub answered, so it is reachable
+      this.consecutiveFailures = 0;
+      if (this.circuit === 'half-open') {
+        this.circuit = 'closed';
+      }
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.circuit === 'half-open' || this.consecutiveFailures >= this.policy.failureThreshold) {
+      this.circuit = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  private reportFailure(error: unknown): void {
+    if (!this.hubId) {
+      return;
+    }
+
+    const lastError = error instanceof Error ? error.message : String(error);
+    if (this.circuit === 'open') {
+      setConnectivity(this.hubId, 'offline', {
+        lastError,
+        retryAt: new Date(this.openedAt + this.policy.cooldown).toISOString(),
+      });
+    } else if (isRetryableError(error)) {
+      setConnectivity(this.hubId, 'degraded', { lastError });
+    } else {
+      setConnectivity(this.hubId, 'online');
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Axios adapter that answers hub API requests in the browser
+ *
+ * Used by the Dirigera client in demo mode instead of the XHR adapter, so
+ * every request goes through the same client code (interceptors, error
+ * handling) as with a real hub, without any network access.
+ */
+
+import { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import type { DeviceUpdateRequest } from '@zigbee-visualizer/shared-types';
+import {
+  createDemoDevices,
+  DEMO_HUB_INFO,
+  DEMO_ROOMS,
+  getDemoUptime,
+  isDemoDevice,
+  renameDemoDevice,
+  updateDemoDeviceState,
+} from './data';
+
+/** Simulated round trip time so loading states are visible */
+const DEMO_LATENCY_MS = 150;
+
+const STATUS_TEXTS: Record<number, string> = {
+  200: 'OK',
+  202: 'Accepted',
+  400: 'Bad Request',
+  404: 'Not Found',
+};
+
+/**
+ * Build an axios response for a demo request
+ */
+function respond<T>(config: InternalAxiosRequestConfig, status: number, data: T): AxiosResponse<T> {
+  return {
+    data,
+    status,
+    statusText: STATUS_TEXTS[status] ?? 'Error',
+    headers: { 'content-type': 'application/json' },
+    config,
+    request: null,
+  };
+}
+
+/**
+ * Resolve a demo request to a status and payload
+ * @param body - Request body as sent by axios (JSON string)
+ */
+function route(method: string, path: string, body: unknown): { status: number; data: unknown } {
+  if (method === 'patch') {
+    const patchMatch = /^\/devices\/([^/]+)$/.exec(path);
+    if (patchMatch) {
+      const deviceId = decodeURIComponent(patchMatch[1]!);
+      if (!isDemoDevice(deviceId)) {
+        return { status: 404, data: { message: 'Device not found', code: 'NOT_FOUND' } };
+      }
+
+      const updates = JSON.parse(typeof body === 'string' ? body : '[]') as DeviceUpdateRequest[];
+      const { customName, ...state } = Object.assign(
+        {},
+        ...updates.map((update) => update?.attributes ?? {})
+      ) as NonNullable<DeviceUpdateRequest['attributes']>;
+      const hasState = Object.keys(state).length > 0;
+
+      if (customName === undefined && !hasState) {
+        return { status: 400, data: { message: 'Expected attributes to update', code: 'BAD_REQUEST' } };
+      }
+      if (customName !== undefined) {
+        if (!customName.trim()) {
+          return { status: 400, data: { message: 'Expected a non-empty customName', code: 'BAD_REQUEST' } };
+        }
+        renameDemoDevice(deviceId, customName.trim());
+      }
+      if (hasState && !updateDemoDeviceState(deviceId, state)) {
+        return { status: 400, data: { message: 'Device does not accept these attributes', code: 'BAD_REQUEST' } };
+      }
+      return { status: 202, data: '' };
+    }
+  }
+
+  if (method === 'get') {
+    if (path === '/devices') {
+      return { status: 200, data: createDemoDevices() };
+    }
+
+    const deviceMatch = /^\/devices\/([^/]+)$/.exec(path);
+    if (deviceMatch) {
+      const device = createDemoDevices().find((d) => d.id === decodeURIComponent(deviceMatch[1]!));
+      return device
+        ? { status: 200, data: device }
+        : { status: 404, data: { message: 'Device not found', code: 'NOT_FOUND' } };
+    }
+
+    if (path === '/hub') {
+      return { status: 200, data: { ...DEMO_HUB_INFO } };
+    }
+
+    if (path === '/rooms') {
+      return { status: 200, data: DEMO_ROOMS.map((room) => ({ ...room })) };
+    }
+
+    if (path === '/health') {
+      return {
+        status: 200,
+        data: { healthy: true, timestamp: new Date().toISOString(), uptime: getDemoUptime() },
+      };
+    }
+  }
+
+  return {
+    status: 404,
+    data: { message: `Not available in demo mode: ${method.toUpperCase()} ${path}`, code: 'NOT_FOUND' },
+  };
+}
+
+/**
+ * Axios adapter serving the demo hub
+ */
+export const demoAdapter: AxiosAdapter = async (config) => {
+  await new Promise((resolve) => setTimeout(resolve, DEMO_LATENCY_MS));
+
+  const method = (config.method ?? 'get').toLowerCase();
+  const path = (config.url ?? '').split('?')[0]!.replace(/\/+$/, '');
+  const { status, data } = route(method, path, config.data);
+  const response = respond(config, status, data);
+
+  if (status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response
+    );
+  }
+
+  return response;
+};
@@ -0,0 +1,788 @@
+/**
+ * Synthetic hub data for demo mode
+ *
+ * Sensor values are pure functions of time, so the live values returned by
+ * the demo client line up with the seeded history: daily temperature and
+ * humidity cycles, evening cooking spikes in the kitchen, stuffy bedroom air
+ * overnight and some slow, smooth noise on top.
+ */
+
+import type {
+  BaseDevice,
+  DeviceEventType,
+  DirigeeraDevice,
+  EnvironmentSensorDevice,
+  HubInfoResponse,
+  FanMode,
+  LightStateUpdate,
+  PurifierStateUpdate,
+  RoomResponse,
+  SensorModel,
+} from '@zigbee-visualizer/shared-types';
+
+/**
+ * Hub ID, address and token used for the demo client
+ * Never contacted: all requests are answered in the browser
+ */
+export const DEMO_HUB_ID = 'demo';
+export const DEMO_HUB_ADDRESS = 'demo.local:8443';
+export const DEMO_TOKEN = 'demo-token';
+
+/**
+ * Simulated hub identity
+ */
+export const DEMO_HUB_INFO: HubInfoResponse = {
+  id: 'demo-hub',
+  firmwareVersion: '2.615.8',
+  hardwareVersion: 'P2.5',
+  model: 'DIRIGERA Hub for smart products',
+  serialNumber: 'DEMO00000001',
+  isOnline: true,
+};
+
+/**
+ * When the demo hub last restarted: 12 days and a few hours before the app loaded
+ */
+const DEMO_BOOT_TIME = Date.now() - (12 * 24 + 5) * 60 * 60 * 1000;
+
+/**
+ * Uptime of the demo hub in seconds, as reported by GET /health
+ */
+export function getDemoUptime(): number {
+  return Math.round((Date.now() - DEMO_BOOT_TIME) / 1000);
+}
+
+/**
+ * Rooms configured on the demo hub
+ */
+export const DEMO_ROOMS: RoomResponse[] = [
+  { id: 'demo-room-living', name: 'Living Room', icon: 'rooms_sofa', color: 'ikea_green_no_65' },
+  { id: 'demo-room-bedroom', name: 'Bedroom', icon: 'rooms_bed', color: 'ikea_blue_no_1' },
+  { id: 'demo-room-kitchen', name: 'Kitchen', icon: 'rooms_cutlery', color: 'ikea_yellow_no_24' },
+  { id: 'demo-room-kids', name: 'Kids Room', icon: 'rooms_toy', color: 'ikea_pink_no_8' },
+  { id: 'demo-room-office', name: 'Office', icon: 'rooms_desk', color: 'ikea_beige_1' },
+  { id: 'demo-room-hallway', name: 'Hallway', icon: 'rooms_door', color: 'ikea_grey_no_2' },
+];
+
+/**
+ * Numeric sensor attributes that demo mode generates
+ */
+export type DemoAttribute = 'currentTemperature' | 'currentRH' | 'currentPM25' | 'vocIndex';
+
+/**
+ * A short daily event, e.g. cooking dinner
+ */
+interface DemoSpike {
+  /** Hour of day the spike peaks (local time, fractional) */
+  hour: number;
+  /** Peak height above the baseline */
+  height: number;
+  /** Width of the spike in hours */
+  width: number;
+}
+
+/**
+ * How one attribute of a demo sensor behaves over time
+ */
+interface DemoSignal {
+  /** Average value */
+  baseline: number;
+  /** Amplitude of the daily cycle */
+  dailyAmplitude: number;
+  /** Hour of day the daily cycle peaks */
+  peakHour: number;
+  /** Amplitude of the slow noise */
+  noise: number;
+  /** Daily recurring spikes */
+  spikes?: DemoSpike[];
+}
+
+/**
+ * Definition of a demo sensor
+ */
+export interface DemoSensorProfile {
+  id: string;
+  name: string;
+  roomId: string;
+  model: SensorModel;
+  /** Firmware version the sensor reports (default: 1.0.11) */
+  firmwareVersion?: string;
+  signals: Partial<Record<DemoAttribute, DemoSignal>>;
+}
+
+export const DEMO_SENSORS: DemoSensorProfile[] = [
+  {
+    id: 'demo-sensor-living-room',
+    name: 'Living Room Air',
+    roomId: 'demo-room-living',
+    model: 'VINDSTYRKA',
+    signals: {
+      currentTemperature: { baseline: 21.5, dailyAmplitude: 1.2, peakHour: 17, noise: 0.4 },
+      currentRH: { baseline: 41, dailyAmplitude: 3, peakHour: 7, noise: 2 },
+      currentPM25: {
+        baseline: 6,
+        dailyAmplitude: 2,
+        peakHour: 20,
+        noise: 2,
+        spikes: [{ hour: 20.5, height: 9, width: 1.5 }],
+      },
+      vocIndex: { baseline: 105, dailyAmplitude: 25, peakHour: 20, noise: 10 },
+    },
+  },
+  {
+    id: 'demo-sensor-bedroom',
+    name: 'Bedroom Air',
+    roomId: 'demo-room-bedroom',
+    model: 'VINDSTYRKA',
+    // Missed an update, so the Hub page has an outdated device to flag
+    firmwareVersion: '1.0.9',
+    signals: {
+      currentTemperature: { baseline: 19.6, dailyAmplitude: 0.9, peakHour: 16, noise: 0.3 },
+      currentRH: { baseline: 47, dailyAmplitude: 5, peakHour: 6, noise: 2 },
+      currentPM25: { baseline: 4, dailyAmplitude: 1, peakHour: 8, noise: 1.5 },
+      // Closed door overnight: VOC builds up until the morning
+      vocIndex: { baseline: 110, dailyAmplitude: 55, peakHour: 6, noise: 8 },
+    },
+  },
+  {
+    id: 'demo-sensor-kitchen',
+    name: 'Kitchen Air',
+    roomId: 'demo-room-kitchen',
+    model: 'VINDSTYRKA',
+    signals: {
+      currentTemperature: {
+        baseline: 22.3,
+        dailyAmplitude: 1,
+        peakHour: 18,
+        noise: 0.4,
+        spikes: [{ hour: 18.3, height: 1.8, width: 1 }],
+      },
+      currentRH: {
+        baseline: 49,
+        dailyAmplitude: 3,
+        peakHour: 8,
+        noise: 2,
+        spikes: [{ hour: 18.3, height: 9, width: 1 }],
+      },
+      currentPM25: {
+        baseline: 5,
+        dailyAmplitude: 0,
+        peakHour: 0,
+        noise: 2,
+        spikes: [
+          { hour: 7.5, height: 22, width: 0.6 },
+          { hour: 18.3, height: 75, width: 0.9 },
+        ],
+      },
+      vocIndex: {
+        baseline: 95,
+        dailyAmplitude: 0,
+        peakHour: 0,
+        noise: 8,
+        spikes: [
+          { hour: 7.5, height: 60, width: 0.7 },
+          { hour: 18.3, height: 190, width: 1.2 },
+        ],
+      },
+    },
+  },
+  {
+    id: 'demo-sensor-kids-room',
+    name: 'Kids Room Air',
+    roomId: 'demo-room-kids',
+    model: 'VINDSTYRKA',
+    signals: {
+      currentTemperature: { baseline: 20.4, dailyAmplitude: 1, peakHour: 15, noise: 0.3 },
+      currentRH: { baseline: 45, dailyAmplitude: 4, peakHour: 5, noise: 2 },
+      currentPM25: { baseline: 5, dailyAmplitude: 2, peakHour: 16, noise: 2 },
+      vocIndex: { baseline: 100, dailyAmplitude: 35, peakHour: 5, noise: 10 },
+    },
+  },
+  {
+    id: 'demo-sensor-office',
+    name: 'Office Purifier',
+    roomId: 'demo-room-office',
+    model: 'STARKVIND',
+    signals: {
+      currentPM25: { baseline: 3, dailyAmplitude: 1, peakHour: 13, noise: 1 },
+    },
+  },
+];
+
+/**
+ * Demo devices other than environment sensors
+ * Only their identity is listed here; state is computed in createOtherDemoDevices
+ */
+export const DEMO_OTHER_DEVICES = [
+  { id: 'demo-light-living', name: 'Living Room Ceiling', roomId: 'demo-room-living', model: 'TRADFRI bulb E27 CWS 806lm' },
+  { id: 'demo-light-bedroom', name: 'Bedside Lamp', roomId: 'demo-room-bedroom', model: 'TRADFRI bulb E14 WS 470lm' },
+  { id: 'demo-outlet-kitchen', name: 'Coffee Maker', roomId: 'demo-room-kitchen', model: 'TRETAKT Smart plug' },
+  { id: 'demo-outlet-office', name: 'Desk Setup', roomId: 'demo-room-office', model: 'INSPELNING Smart plug' },
+  { id: 'demo-outlet-living', name: 'TV & Media', roomId: 'demo-room-living', model: 'INSPELNING Smart plug' },
+  { id: 'demo-blinds-bedroom', name: 'Bedroom Blinds', roomId: 'demo-room-bedroom', model: 'FYRTUR block-out roller blind' },
+  { id: 'demo-remote-living', name: 'Living Room Remote', roomId: 'demo-room-living', model: 'STYRBAR Remote Control N2' },
+  { id: 'demo-motion-hallway', name: 'Hallway Motion', roomId: 'demo-room-hallway', model: 'VALLHORN Wireless Motion Sensor' },
+  { id: 'demo-door-front', name: 'Front Door', roomId: 'demo-room-hallway', model: 'PARASOLL Door/Window Sensor' },
+  { id: 'demo-leak-kitchen', name: 'Under Sink', roomId: 'demo-room-kitchen', model: 'BADRING Water Leakage Sensor' },
+] as const;
+
+type DemoOtherDeviceId = (typeof DEMO_OTHER_DEVICES)[number]['id'];
+
+/**
+ * Daily power profile of a demo energy monitoring outlet
+ */
+export interface DemoMeteredOutletProfile {
+  id: DemoOtherDeviceId;
+  /** Hours of the day (local time) the connected devices are in use */
+  activeHours: [start: number, end: number];
+  /** Average draw while in use, in watts */
+  activeWatts: number;
+  /** Standby draw, in watts */
+  standbyWatts: number;
+}
+
+export const DEMO_METERED_OUTLETS: DemoMeteredOutletProfile[] = [
+  { id: 'demo-outlet-office', activeHours: [8, 17], activeWatts: 95, standbyWatts: 4 },
+  { id: 'demo-outlet-living', activeHours: [18.5, 23], activeWatts: 140, standbyWatts: 1.5 },
+];
+
+/** Energy meter reading of the demo outlets at DEMO_METER_EPOCH, in kWh */
+const DEMO_METER_START_KWH = 120;
+const DEMO_METER_EPOCH = new Date(2024, 0, 1);
+
+/**
+ * Reporting precision of each attribute and its valid range
+ */
+const ATTRIBUTE_FORMAT: Record<DemoAttribute, { decimals: number; min: number; max: number }> = {
+  currentTemperature: { decimals: 1, min: -10, max: 50 },
+  currentRH: { decimals: 0, min: 0, max: 100 },
+  currentPM25: { decimals: 0, min: 0, max: 500 },
+  vocIndex: { decimals: 0, min: 1, max: 500 },
+};
+
+const HOUR_MS = 3600000;
+
+/**
+ * Stable pseudo-random phase in [0, 2π) for a device attribute
+ */
+function phaseFor(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return ((hash >>> 0) % 1000) / 1000 * 2 * Math.PI;
+}
+
+/**
+ * Smooth noise in [-1, 1] built from incommensurate sine waves
+ */
+function smoothNoise(time: number, phase: number): number {
+  const hours = time / HOUR_MS;
+  return (
+    0.5 * Math.sin((hours / 1.7) * 2 * Math.PI + phase) +
+    0.3 * Math.sin((hours / 5.3) * 2 * Math.PI + phase * 2) +
+    0.2 * Math.sin((hours / 71) * 2 * Math.PI + phase * 3)
+  );
+}
+
+/**
+ * Compute the value a demo sensor reports at a point in time
+ * @param sensor - Demo sensor definition
+ * @param attribute - Attribute to compute
+ * @param date - Point in time
+ * @returns Reported value, or undefined if the sensor lacks the attribute
+ */
+export function getDemoValue(
+  sensor: DemoSensorProfile,
+  attribute: DemoAttribute,
+  date: Date
+): number | undefined {
+  const signal = sensor.signals[attribute];
+  if (!signal) {
+    return undefined;
+  }
+
+  const time = date.getTime();
+  const hourOfDay = date.getHours() + date.getMinutes() / 60;
+  const phase = phaseFor(`${sensor.id}:${attribute}`);
+
+  let value =
+    signal.baseline +
+    signal.dailyAmplitude * Math.cos(((hourOfDay - signal.peakHour) / 24) * 2 * Math.PI) +
+    signal.noise * smoothNoise(time, phase);
+
+  for (const spike of signal.spikes ?? []) {
+    // Skip some days so the spikes do not look too regular
+    const day = Math.floor(time / (24 * HOUR_MS));
+    if (Math.sin(day * 12.9898 + phase) > -0.6) {
+      const distance = Math.abs(hourOfDay - spike.hour);
+      value += spike.height * Math.exp(-((distance / spike.width) ** 2) * 2);
+    }
+  }
+
+  const { decimals, min, max } = ATTRIBUTE_FORMAT[attribute];
+  const factor = 10 ** decimals;
+  return Math.min(max, Math.max(min, Math.round(value * factor) / factor));
+}
+
+/** Rated filter lifetime of the demo purifier: 180 days, in minutes */
+const DEMO_FILTER_LIFETIME = 180 * 24 * 60;
+/** Age of the demo purifier's filter at the start of each day, chosen to show the filter warning */
+const DEMO_FILTER_AGE_DAYS = 165;
+
+/**
+ * Fan speed of a demo purifier (0-50, as the STARKVIND reports it)
+ * In auto mode the fan follows the PM2.5 level
+ */
+export function getDemoMotorState(fanMode: FanMode, pm25: number | undefined): number {
+  switch (fanMode) {
+    case 'auto':
+      return Math.min(50, Math.max(5, Math.round(5 + (pm25 ?? 0) * 4)));
+    case 'low':
+      return 10;
+    case 'medium':
+      return 25;
+    case 'high':
+      return 50;
+    case 'off':
+      return 0;
+  }
+}
+
+/** localStorage key of device names changed in demo mode */
+const DEMO_NAMES_KEY = 'dirigera_demo_device_names';
+
+/**
+ * Get the device names changed in demo mode, keyed by device ID
+ */
+export function getDemoDeviceNames(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(DEMO_NAMES_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Power a demo energy monitoring outlet draws at a point in time
+ * @returns Active power in watts (one decimal)
+ */
+export function getDemoPower(outlet: DemoMeteredOutletProfile, date: Date): number {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  const [start, end] = outlet.activeHours;
+  const watts = hour >= start && hour < end
+    ? outlet.activeWatts * (1 + 0.1 * smoothNoise(date.getTime(), phaseFor(outlet.id)))
+    : outlet.standbyWatts;
+  return Math.round(watts * 10) / 10;
+}
+
+/**
+ * Energy meter reading of a demo outlet at a point in time
+ * Follows the daily profile without noise, so the meter only ever goes up
+ * @returns Total energy in kWh (three decimals)
+ */
+export function getDemoEnergy(outlet: DemoMeteredOutletProfile, date: Date): number {
+  const [start, end] = outlet.activeHours;
+  const { activeWatts, standbyWatts } = outlet;
+  const activeLength = end - start;
+  const dailyWh = activeWatts * activeLength + standbyWatts * (24 - activeLength);
+
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const days = Math.round((dayStart.getTime() - DEMO_METER_EPOCH.getTime()) / (24 * HOUR_MS));
+  const hour = date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600;
+  const todayWh =
+    standbyWatts * hour + (activeWatts - standbyWatts) * Math.min(activeLength, Math.max(0, hour - start));
+
+  const kwh = DEMO_METER_START_KWH + (days * dailyWh + todayWh) / 1000;
+  return Math.round(kwh * 1000) / 1000;
+}
+
+/**
+ * Battery of a battery-powered demo device
+ */
+interface DemoBatteryProfile {
+  /** Days a battery lasts */
+  lifeDays: number;
+  /** Age of the current battery at the start of today, in days */
+  ageDays: number;
+}
+
+/**
+ * Battery-powered demo devices, picked to show every battery status
+ */
+export const DEMO_BATTERIES: Partial<Record<DemoOtherDeviceId, DemoBatteryProfile>> = {
+  'demo-remote-living': { lifeDays: 365, ageDays: 120 },
+  'demo-motion-hallway': { lifeDays: 240, ageDays: 200 },
+  'demo-door-front': { lifeDays: 300, ageDays: 285 },
+  'demo-leak-kitchen': { lifeDays: 700, ageDays: 90 },
+};
+
+/**
+ * Battery level of a demo device at a point in time
+ * Drains linearly; earlier batteries were replaced when they ran empty
+ * @returns Level in percent, or undefined for devices without a battery
+ */
+export function getDemoBatteryLevel(deviceId: string, date: Date): number | undefined {
+  const battery = DEMO_BATTERIES[deviceId as DemoOtherDeviceId];
+  if (!battery) {
+    return undefined;
+  }
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const age = battery.ageDays + (date.getTime() - today.getTime()) / (24 * HOUR_MS);
+  const ageInLife = ((age % battery.lifeDays) + battery.lifeDays) % battery.lifeDays;
+  return Math.round(100 * (1 - ageInLife / battery.lifeDays));
+}
+
+/**
+ * IDs of all demo devices
+ */
+export function getDemoDeviceIds(): string[] {
+  return [...DEMO_SENSORS.map((sensor) => sensor.id), ...DEMO_OTHER_DEVICES.map((device) => device.id)];
+}
+
+/**
+ * Whether a demo device has this ID
+ */
+export function isDemoDevice(deviceId: string): boolean {
+  return (
+    DEMO_SENSORS.some((sensor) => sensor.id === deviceId) ||
+    DEMO_OTHER_DEVICES.some((device) => device.id === deviceId)
+  );
+}
+
+/**
+ * Rename a demo device
+ * @returns Whether a demo device has this ID
+ */
+export function renameDemoDevice(deviceId: string, customName: string): boolean {
+  if (!isDemoDevice(deviceId)) {
+    return false;
+  }
+  localStorage.setItem(
+    DEMO_NAMES_KEY,
+    JSON.stringify({ ...getDemoDeviceNames(), [deviceId]: customName })
+  );
+  return true;
+}
+
+/**
+ * Attributes a demo device accepts in a PATCH, besides customName
+ */
+function getWritableAttributes(deviceId: string): string[] {
+  if (deviceId.startsWith('demo-light-')) {
+    return ['isOn', 'lightLevel', 'colorTemperature', 'colorHue', 'colorSaturation'];
+  }
+  if (deviceId.startsWith('demo-outlet-')) {
+    return ['isOn'];
+  }
+  if (DEMO_SENSORS.some((sensor) => sensor.id === deviceId && sensor.model === 'STARKVIND')) {
+    return ['fanMode', 'childLock', 'statusLight'];
+  }
+  return [];
+}
+
+/**
+ * Demo device state that can be changed with a PATCH
+ */
+type DemoDeviceState = LightStateUpdate & PurifierStateUpdate;
+
+/**
+ * Light, outlet and purifier changes made in demo mode, keyed by device ID
+ * Kept in memory only: after a reload the devices follow their schedule again
+ */
+const demoDeviceStates = new Map<string, DemoDeviceState>();
+
+/**
+ * Change a demo light, switch a demo outlet or set a demo purifier
+ * @returns Whether the device exists and accepts all of these attributes
+ */
+export function updateDemoDeviceState(deviceId: string, state: DemoDeviceState): boolean {
+  const writable = getWritableAttributes(deviceId);
+  if (!isDemoDevice(deviceId) || Object.keys(state).some((attribute) => !writable.includes(attribute))) {
+    return false;
+  }
+  demoDeviceStates.set(deviceId, { ...demoDeviceStates.get(deviceId), ...state });
+  return true;
+}
+
+/**
+ * Forget the device names changed in demo mode
+ */
+export function clearDemoDeviceNames(): void {
+  localStorage.removeItem(DEMO_NAMES_KEY);
+}
+
+/**
+ * Whether a recurring event is active, e.g. someone walking past a sensor
+ * @param date - Point in time
+ * @param periodMinutes - Minutes between the starts of two events
+ * @param durationMinutes - Length of each event
+ * @param key - Offsets the events of different devices
+ */
+function isRecurringEventActive(
+  date: Date,
+  periodMinutes: number,
+  durationMinutes: number,
+  key: string
+): boolean {
+  const offset = (phaseFor(key) / (2 * Math.PI)) * periodMinutes;
+  const minutes = date.getTime() / 60000 + offset;
+  return minutes % periodMinutes < durationMinutes;
+}
+
+/**
+ * How often an event-based demo device triggers
+ */
+interface DemoEventProfile {
+  id: DemoOtherDeviceId;
+  type: DeviceEventType;
+  /** Minutes between the starts of two events */
+  periodMinutes: number;
+  /** Length of each event in minutes */
+  durationMinutes: number;
+}
+
+/**
+ * Event-based demo devices: the hallway sees someone every few minutes,
+ * the front door opens about once an hour
+ */
+export const DEMO_EVENT_DEVICES: DemoEventProfile[] = [
+  { id: 'demo-motion-hallway', type: 'motion', periodMinutes: 7, durationMinutes: 2 },
+  { id: 'demo-door-front', type: 'contact', periodMinutes: 45, durationMinutes: 1 },
+];
+
+/**
+ * Whether an event-based demo device is active (motion detected, door
+ * open) at a point in time; nothing happens overnight
+ */
+export function isDemoEventActive(deviceId: string, date: Date): boolean {
+  const profile = DEMO_EVENT_DEVICES.find((device) => device.id === deviceId);
+  if (!profile) {
+    return false;
+  }
+  const hour = date.getHours() + date.getMinutes() / 60;
+  const isNight = hour >= 22 || hour < 7;
+  return !isNight && isRecurringEventActive(date, profile.periodMinutes, profile.durationMinutes, profile.id);
+}
+
+/**
+ * Past outages of demo devices, seeded as reachability events; every demo
+ * device is reachable now
+ */
+export const DEMO_OUTAGES: { id: string; daysAgo: number; minutes: number }[] = [
+  { id: 'demo-door-front', daysAgo: 12.4, minutes: 35 },
+  { id: 'demo-sensor-kids-room', daysAgo: 6.2, minutes: 95 },
+  { id: 'demo-door-front', daysAgo: 3.6, minutes: 8 },
+];
+
+/**
+ * Build the demo devices other than environment sensors
+ * Lights follow the evening, the blinds close overnight and the motion and
+ * door sensors trigger every few minutes; the leak sensor stays dry.
+ */
+function createOtherDemoDevices(date: Date, names: Record<string, string>): DirigeeraDevice[] {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  const isEvening = hour >= 18 && hour < 23.5;
+  const isNight = hour >= 22 || hour < 7;
+
+  const base = (id: DemoOtherDeviceId, canReceive: string[] = []) => {
+    const profile = DEMO_OTHER_DEVICES.find((device) => device.id === id)!;
+    const room = DEMO_ROOMS.find((r) => r.id === profile.roomId);
+    const customName = names[id] ?? profile.name;
+    const device: Omit<BaseDevice, 'type' | 'deviceType' | 'attributes'> = {
+      id,
+      customName,
+      isReachable: true,
+      capabilities: { canSend: [], canReceive: ['customName', ...canReceive] },
+      room: room ? { id: room.id, name: room.name } : undefined,
+    };
+    const attributes = {
+      customName,
+      model: profile.model,
+      manufacturer: 'IKEA of Sweden' as const,
+      firmwareVersion: '2.3.087',
+      hardwareVersion: '1',
+      batteryPercentage: getDemoBatteryLevel(id, date),
+    };
+    return { device, attributes };
+  };
+
+  const livingLight = base('demo-light-living', ['isOn', 'lightLevel', 'colorTemperature', 'colorHue', 'colorSaturation']);
+  const bedsideLamp = base('demo-light-bedroom', ['isOn', 'lightLevel', 'colorTemperature']);
+  const coffeeMaker = base('demo-outlet-kitchen', ['isOn']);
+  const meteredOutlets = DEMO_METERED_OUTLETS.map((outlet): DirigeeraDevice => {
+    const { device, attributes } = base(outlet.id, ['isOn']);
+    const power = getDemoPower(outlet, date);
+    return {
+      ...device,
+      type: 'outlet',
+      deviceType: 'outlet',
+      attributes: {
+        ...attributes,
+        isOn: true,
+        currentActivePower: power,
+        currentVoltage: 230,
+        currentAmps: Math.round((power / 230) * 1000) / 1000,
+        totalEnergyConsumed: getDemoEnergy(outlet, date),
+      },
+    };
+  });
+  const blinds = base('demo-blinds-bedroom', ['blindsTargetLevel']);
+  const remote = base('demo-remote-living');
+  const motion = base('demo-motion-hallway');
+  const door = base('demo-door-front');
+  const leak = base('demo-leak-kitchen');
+
+  const devices: DirigeeraDevice[] = [
+    {
+      ...livingLight.device,
+      type: 'light',
+      deviceType: 'light',
+      attributes: {
+        ...livingLight.attributes,
+        isOn: isEvening,
+        lightLevel: 80,
+        colorTemperature: 2700,
+        colorTemperatureMin: 4000,
+        colorTemperatureMax: 2202,
+        colorHue: 30,
+        colorSaturation: 0.2,
+        colorMode: 'temperature',
+      },
+    },
+    {
+      ...bedsideLamp.device,
+      type: 'light',
+      deviceType: 'light',
+      attributes: {
+        ...bedsideLamp.attributes,
+        isOn: hour >= 21.5 && hour < 23.5,
+        lightLevel: 35,
+        colorTemperature: 2202,
+        colorTemperatureMin: 4000,
+        colorTemperatureMax: 2202,
+        colorMode: 'temperature',
+      },
+    },
+    {
+      ...coffeeMaker.device,
+      type: 'outlet',
+      deviceType: 'outlet',
+      attributes: { ...coffeeMaker.attributes, isOn: hour >= 6.5 && hour < 9 },
+    },
+    ...meteredOutlets,
+    {
+      ...blinds.device,
+      type: 'blinds',
+      deviceType: 'blinds',
+      attributes: {
+        ...blinds.attributes,
+        blindsCurrentLevel: isNight ? 100 : 0,
+        blindsTargetLevel: isNight ? 100 : 0,
+        blindsState: 'stopped',
+      },
+    },
+    {
+      ...remote.device,
+      type: 'controller',
+      deviceType: 'controller',
+      attributes: { ...remote.attributes, isOn: isEvening },
+    },
+    {
+      ...motion.device,
+      type: 'motion_sensor',
+      deviceType: 'motionSensor',
+      attributes: {
+        ...motion.attributes,
+        isDetected: isDemoEventActive('demo-motion-hallway', date),
+      },
+    },
+    {
+      ...door.device,
+      type: 'open_close_sensor',
+      deviceType: 'openCloseSensor',
+      attributes: {
+        ...door.attributes,
+        isOpen: isDemoEventActive('demo-door-front', date),
+      },
+    },
+    {
+      ...leak.device,
+      type: 'water_sensor',
+      deviceType: 'waterSensor',
+      attributes: { ...leak.attributes, waterLeakDetected: false },
+    },
+  ];
+
+  return devices.map((device) => {
+    const state = demoDeviceStates.get(device.id);
+    if (state && device.type === 'light') {
+      const colorMode = state.colorHue !== undefined ? 'color' : device.attributes.colorMode;
+      return { ...device, attributes: { ...device.attributes, ...state, colorMode } };
+    }
+    if (state?.isOn !== undefined && device.type === 'outlet') {
+      const attributes = { ...device.attributes, isOn: state.isOn };
+      // A switched off outlet draws nothing
+      if (!state.isOn && attributes.currentActivePower !== undefined) {
+        attributes.currentActivePower = 0;
+        attributes.currentAmps = 0;
+      }
+      return { ...device, attributes };
+    }
+    return device;
+  });
+}
+
+/**
+ * Build the demo devices as the hub would report them at a point in time
+ * @param date - Point in time (default: now)
+ */
+export function createDemoDevices(date: Date = new Date()): DirigeeraDevice[] {
+  const names = getDemoDeviceNames();
+
+  const sensors = DEMO_SENSORS.map((sensor): EnvironmentSensorDevice => {
+    const room = DEMO_ROOMS.find((r) => r.id === sensor.roomId);
+    const customName = names[sensor.id] ?? sensor.name;
+    const currentPM25 = getDemoValue(sensor, 'currentPM25', date);
+    const isPurifier = sensor.model === 'STARKVIND';
+    const state = demoDeviceStates.get(sensor.id);
+    const fanMode = state?.fanMode ?? 'auto';
+
+    return {
+      id: sensor.id,
+      type: 'environment_sensor',
+      deviceType: 'environmentSensor',
+      customName,
+      isReachable: true,
+      capabilities: {
+        canSend: [],
+        canReceive: ['customName', ...getWritableAttributes(sensor.id)],
+      },
+      room: room ? { id: room.id, name: room.name } : undefined,
+      attributes: {
+        customName,
+        model: sensor.model,
+        manufacturer: 'IKEA of Sweden',
+        firmwareVersion: sensor.firmwareVersion ?? '1.0.11',
+        hardwareVersion: '1',
+        currentTemperature: getDemoValue(sensor, 'currentTemperature', date),
+        currentRH: getDemoValue(sensor, 'currentRH', date),
+        currentPM25,
+        vocIndex: getDemoValue(sensor, 'vocIndex', date),
+        ...(isPurifier && {
+          fanMode,
+          motorState: getDemoMotorState(fanMode, currentPM25),
+          childLock: state?.childLock ?? false,
+          statusLight: state?.statusLight ?? true,
+          filterLifetime: DEMO_FILTER_LIFETIME,
+          filterElapsedTime:
+            DEMO_FILTER_AGE_DAYS * 24 * 60 + date.getHours() * 60 + date.getMinutes(),
+          filterAlarmStatus: false,
+        }),
+      },
+    };
+  });
+
+  return [...sensors, ...createOtherDemoDevices(date, names)];
+}
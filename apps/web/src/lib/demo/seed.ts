@@ -0,0 +1,266 @@
+/**
+ * Demo history seeding
+ *
+ * Fills IndexedDB with 30 days of readings for the demo sensors, and of
+ * state changes for the demo motion and door sensors and a few past outages,
+ * so the History, Energy, Batteries and Hub pages and the event timelines
+ * have something to show
+ * right away. Seeding runs once per seed version; the flag is cleared again
+ * when leaving demo mode.
+ */
+
+import type { DeviceStateEvent, SensorReading } from '@zigbee-visualizer/shared-types';
+import { deleteDeviceEvents, storeDeviceEvents } from '../storage/events';
+import {
+  deleteDeviceReadings,
+  rollUpDeviceReadings,
+  storeReachabilityChanges,
+  storeSensorReadings,
+} from '../storage/history';
+import { getFanSpeedPercent } from '../utils/purifier';
+import {
+  clearDemoDeviceNames,
+  DEMO_BATTERIES,
+  DEMO_EVENT_DEVICES,
+  DEMO_HUB_ID,
+  DEMO_METERED_OUTLETS,
+  DEMO_OTHER_DEVICES,
+  DEMO_OUTAGES,
+  DEMO_ROOMS,
+  DEMO_SENSORS,
+  getDemoBatteryLevel,
+  getDemoDeviceIds,
+  getDemoEnergy,
+  getDemoMotorState,
+  getDemoPower,
+  getDemoValue,
+  isDemoEventActive,
+} from './data';
+
+const DEMO_SEEDED_KEY = 'dirigera_demo_history_seeded';
+
+/**
+ * Bump when the seeded readings change, so existing demo history is replaced
+ */
+const DEMO_SEED_VERSION = '7';
+
+const SEED_DAYS = 30;
+const SEED_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const EVENT_SAMPLE_MS = 60 * 1000; // 1 minute
+
+/**
+ * Build the readings for every demo sensor at one point in time
+ */
+function readingsAt(date: Date): SensorReading[] {
+  const timestamp = date.toISOString();
+  const readings: SensorReading[] = [];
+
+  for (const sensor of DEMO_SENSORS) {
+    const base = {
+      hubId: DEMO_HUB_ID,
+      deviceId: sensor.id,
+      deviceName: sensor.name,
+      roomName: DEMO_ROOMS.find((room) => room.id === sensor.roomId)?.name,
+      timestamp,
+    };
+
+    const temperature = getDemoValue(sensor, 'currentTemperature', date);
+    if (temperature !== undefined) {
+      readings.push({ ...base, type: 'temperature', value: temperature, unit: '°C' });
+    }
+    const humidity = getDemoValue(sensor, 'currentRH', date);
+    if (humidity !== undefined) {
+      readings.push({ ...base, type: 'humidity', value: humidity, unit: '%' });
+    }
+    const pm25 = getDemoValue(sensor, 'currentPM25', date);
+    if (pm25 !== undefined) {
+      readings.push({ ...base, type: 'pm25', value: pm25, unit: 'μg/m³' });
+    }
+    const voc = getDemoValue(sensor, 'vocIndex', date);
+    if (voc !== undefined) {
+      readings.push({ ...base, type: 'voc', value: voc, unit: 'index' });
+    }
+    if (sensor.model === 'STARKVIND') {
+      // Purifiers run in auto mode until changed, so the fan follows PM2.5
+      const fanSpeed = getFanSpeedPercent({ motorState: getDemoMotorState('auto', pm25) })!;
+      readings.push({ ...base, type: 'fanSpeed', value: fanSpeed, unit: '%' });
+    }
+  }
+
+  for (const outlet of DEMO_METERED_OUTLETS) {
+    const profile = DEMO_OTHER_DEVICES.find((device) => device.id === outlet.id)!;
+    const base = {
+      hubId: DEMO_HUB_ID,
+      deviceId: outlet.id,
+      deviceName: profile.name,
+      roomName: DEMO_ROOMS.find((room) => room.id === profile.roomId)?.name,
+      timestamp,
+    };
+    readings.push({ ...base, type: 'power', value: getDemoPower(outlet, date), unit: 'W' });
+    readings.push({ ...base, type: 'energy', value: getDemoEnergy(outlet, date), unit: 'kWh' });
+  }
+
+  return readings;
+}
+
+/**
+ * Build the daily battery readings of the battery-powered demo devices
+ */
+function batteryReadingsAt(date: Date): SensorReading[] {
+  return Object.keys(DEMO_BATTERIES).map((deviceId): SensorReading => {
+    const profile = DEMO_OTHER_DEVICES.find((device) => device.id === deviceId)!;
+    return {
+      hubId: DEMO_HUB_ID,
+      deviceId,
+      deviceName: profile.name,
+      roomName: DEMO_ROOMS.find((room) => room.id === profile.roomId)?.name,
+      timestamp: date.toISOString(),
+      type: 'battery',
+      value: getDemoBatteryLevel(deviceId, date)!,
+      unit: '%',
+    };
+  });
+}
+
+/**
+ * Build the state changes of the event-based demo devices in a time range
+ * The devices are sampled every minute; the first sample of each device is
+ * always recorded, as its starting state
+ * @param previous - State of each device at the end of the previous range
+ */
+function eventsBetween(start: number, end: number, previous: Map<string, boolean>): DeviceStateEvent[] {
+  const events: DeviceStateEvent[] = [];
+
+  for (const { id, type } of DEMO_EVENT_DEVICES) {
+    const profile = DEMO_OTHER_DEVICES.find((device) => device.id === id)!;
+    for (let time = start; time < end; time += EVENT_SAMPLE_MS) {
+      const date = new Date(time);
+      const active = isDemoEventActive(id, date);
+      if (previous.get(id) === active) {
+        continue;
+      }
+      previous.set(id, active);
+      events.push({
+        hubId: DEMO_HUB_ID,
+        deviceId: id,
+        deviceName: profile.name,
+        roomName: DEMO_ROOMS.find((room) => room.id === profile.roomId)?.name,
+        timestamp: date.toISOString(),
+        type,
+        active,
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Start and end of each past demo outage, in epoch milliseconds
+ * @param end - End of the seeded range; outages are placed relative to it
+ */
+function outageWindows(end: number): { id: string; start: number; end: number }[] {
+  return DEMO_OUTAGES.map(({ id, daysAgo, minutes }) => {
+    const start = end - daysAgo * 24 * 60 * 60 * 1000;
+    return { id, start, end: start + minutes * 60 * 1000 };
+  });
+}
+
+/**
+ * Build the reachability events of the past demo outages
+ * @param end - End of the seeded range
+ */
+function outageEvents(end: number): DeviceStateEvent[] {
+  return outageWindows(end).flatMap((outage): DeviceStateEvent[] => {
+    const { id } = outage;
+    const profile = [...DEMO_SENSORS, ...DEMO_OTHER_DEVICES].find((device) => device.id === id)!;
+    const base = {
+      hubId: DEMO_HUB_ID,
+      deviceId: id,
+      deviceName: profile.name,
+      roomName: DEMO_ROOMS.find((room) => room.id === profile.roomId)?.name,
+      type: 'reachability' as const,
+    };
+    return [
+      { ...base, timestamp: new Date(outage.start).toISOString(), active: true },
+      { ...base, timestamp: new Date(outage.end).toISOString(), active: false },
+    ];
+  });
+}
+
+/**
+ * Check whether the demo history has already been seeded
+ */
+export function isDemoHistorySeeded(): boolean {
+  try {
+    return localStorage.getItem(DEMO_SEEDED_KEY) === DEMO_SEED_VERSION;
+  } catch (error) {
+    console.error('Failed to read demo seed flag:', error);
+    return false;
+  }
+}
+
+/**
+ * Seed IndexedDB with 30 days of demo history (no-op if already seeded)
+ * Readings are stored one day per transaction to keep memory use flat
+ */
+export async function seedDemoHistory(): Promise<void> {
+  if (isDemoHistorySeeded()) {
+    return;
+  }
+
+  try {
+    // Replace history seeded by an older version
+    if (localStorage.getItem(DEMO_SEEDED_KEY) !== null) {
+      await deleteDeviceReadings(DEMO_HUB_ID, getDemoDeviceIds());
+      await deleteDeviceEvents(DEMO_HUB_ID, getDemoDeviceIds());
+    }
+
+    const end = Math.floor(Date.now() / SEED_INTERVAL_MS) * SEED_INTERVAL_MS;
+    const start = end - SEED_DAYS * 24 * 60 * 60 * 1000;
+    const perDay = (24 * 60 * 60 * 1000) / SEED_INTERVAL_MS;
+    const eventStates = new Map<string, boolean>();
+    // No readings while a sensor was offline, as with a real hub
+    const outages = outageWindows(end);
+    const isOffline = (reading: SensorReading) => {
+      const time = new Date(reading.timestamp).getTime();
+      return outages.some((outage) => outage.id === reading.deviceId && time >= outage.start && time < outage.end);
+    };
+
+    for (let dayStart = start; dayStart < end; dayStart += perDay * SEED_INTERVAL_MS) {
+      const readings: SensorReading[] = [];
+      for (let i = 0; i < perDay && dayStart + i * SEED_INTERVAL_MS < end; i++) {
+        readings.push(...readingsAt(new Date(dayStart + i * SEED_INTERVAL_MS)));
+      }
+      readings.push(...batteryReadingsAt(new Date(dayStart)));
+      await storeSensorReadings(readings.filter((reading) => !isOffline(reading)));
+      await storeDeviceEvents(
+        eventsBetween(dayStart, Math.min(dayStart + perDay * SEED_INTERVAL_MS, end), eventStates)
+      );
+    }
+    await storeReachabilityChanges(outageEvents(end));
+    // Sum up the seeded days that are older than existing rollups
+    await rollUpDeviceReadings(DEMO_HUB_ID, getDemoDeviceIds(), new Date(start).toISOString());
+
+    localStorage.setItem(DEMO_SEEDED_KEY, DEMO_SEED_VERSION);
+  } catch (error) {
+    console.error('Failed to seed demo history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove all demo readings and events from IndexedDB, clear the seed flag and forget
+ * device names changed in demo mode
+ */
+export async function clearDemoHistory(): Promise<void> {
+  try {
+    await deleteDeviceReadings(DEMO_HUB_ID, getDemoDeviceIds());
+    await deleteDeviceEvents(DEMO_HUB_ID, getDemoDeviceIds());
+    localStorage.removeItem(DEMO_SEEDED_KEY);
+    clearDemoDeviceNames();
+  } catch (error) {
+    console.error('Failed to clear demo history:', error);
+    throw error;
+  }
+}
@@ -2,21 +2,52 @@
  * LocalStorage utilities for storing Dirigera hub configuration
  *
  * This module provides type-safe utilities for storing and retrieving
- * the Dirigera hub IP address and authentication token from browser localStorage.
+ * Dirigera hub connection settings from browser localStorage. Several hubs
+ * can be configured as named profiles; functions that take an optional hub
+ * ID operate on the active hub (the one last selected in Setup) by default.
  */
 
-import type { AuthConfig } from '@zigbee-visualizer/shared-types';
+import type {
+  AuthConfig,
+  ReadingResolution,
+  SensorReadingType,
+} from '@zigbee-visualizer/shared-types';
 
 const STORAGE_KEYS = {
+  HUB_PROFILES: 'dirigera_hub_profiles',
+  ACTIVE_HUB_ID: 'dirigera_active_hub_id',
+  DEMO_MODE: 'dirigera_demo_mode',
+  ENERGY_TARIFF: 'dirigera_energy_tariff',
+  DASHBOARD_LAYOUT: 'dirigera_dashboard_layout',
+  RETENTION_SETTINGS: 'dirigera_retention_settings',
+  LAST_CLEANUP: 'dirigera_last_cleanup',
+} as const;
+
+/**
+ * Keys used before hub profiles existed (single hub)
+ * Migrated into a profile on first read
+ */
+const LEGACY_STORAGE_KEYS = {
   HUB_ADDRESS: 'dirigera_hub_address',
   HUB_PORT: 'dirigera_hub_port',
   AUTH_TOKEN: 'dirigera_auth_token',
   TOKEN_CREATED_AT: 'dirigera_token_created_at',
   TOKEN_EXPIRES_AT: 'dirigera_token_expires_at',
+  CONNECTION_MODE: 'dirigera_connection_mode',
+  PROXY_URL: 'dirigera_proxy_url',
 } as const;
 
+const DEFAULT_HUB_NAME = 'Home';
+
+/**
+ * How the app reaches the hub
+ * - direct: browser talks to https://<hub>:<port>/v1 (needs CORS workarounds)
+ * - proxy: browser talks to a hub-proxy instance that forwards to the hub
+ */
+export type ConnectionMode = 'direct' | 'proxy';
+
 /**
- * Configuration stored in localStorage
+ * Connection settings of a single hub
  */
 export interface StoredConfig {
   hubAddress: string;
@@ -24,31 +55,208 @@ export interface StoredConfig {
   token?: string;
   tokenCreatedAt?: string;
   tokenExpiresAt?: string;
+  connectionMode: ConnectionMode;
+  proxyUrl?: string;
 }
 
 /**
- * Get the stored hub configuration from localStorage
- * @returns Stored configuration or null if not set
+ * A named hub with its connection settings
+ */
+export interface HubProfile extends StoredConfig {
+  /** Locally generated identifier, used to tag devices and readings */
+  id: string;
+  /** Display name, e.g. "Home" or "Summer cottage" */
+  name: string;
+}
+
+/**
+ * Generate an identifier for a new hub profile
+ * Not crypto.randomUUID(), which is unavailable on plain-HTTP LAN origins
+ */
+export function generateHubId(): string {
+  return `hub-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Move a legacy single-hub configuration into a hub profile
+ * @returns The migrated profile, or null if there was nothing to migrate
+ */
+function migrateLegacyConfig(): HubProfile | null {
+  const hubAddress = localStorage.getItem(LEGACY_STORAGE_KEYS.HUB_ADDRESS);
+  if (!hubAddress) {
+    return null;
+  }
+
+  const port = localStorage.getItem(LEGACY_STORAGE_KEYS.HUB_PORT);
+  const profile: HubProfile = {
+    id: generateHubId(),
+    name: DEFAULT_HUB_NAME,
+    hubAddress,
+    port: port ? parseInt(port, 10) : 8443,
+    token: localStorage.getItem(LEGACY_STORAGE_KEYS.AUTH_TOKEN) || undefined,
+    tokenCreatedAt: localStorage.getItem(LEGACY_STORAGE_KEYS.TOKEN_CREATED_AT) || undefined,
+    tokenExpiresAt: localStorage.getItem(LEGACY_STORAGE_KEYS.TOKEN_EXPIRES_AT) || undefined,
+    connectionMode:
+      localStorage.getItem(LEGACY_STORAGE_KEYS.CONNECTION_MODE) === 'proxy' ? 'proxy' : 'direct',
+    proxyUrl: localStorage.getItem(LEGACY_STORAGE_KEYS.PROXY_URL) || undefined,
+  };
+
+  localStorage.setItem(STORAGE_KEYS.HUB_PROFILES, JSON.stringify([profile]));
+  localStorage.setItem(STORAGE_KEYS.ACTIVE_HUB_ID, profile.id);
+  Object.values(LEGACY_STORAGE_KEYS).forEach((key) => {
+    localStorage.removeItem(key);
+  });
+
+  return profile;
+}
+
+/**
+ * Write the full list of hub profiles
+ */
+function writeHubProfiles(profiles: HubProfile[]): void {
+  localStorage.setItem(STORAGE_KEYS.HUB_PROFILES, JSON.stringify(profiles));
+}
+
+/**
+ * Get all configured hub profiles
+ * Migrates a legacy single-hub configuration on first call
+ * @returns Hub profiles in the order they were added
  */
-export function getConfig(): StoredConfig | null {
+export function getHubProfiles(): HubProfile[] {
   try {
-    const hubAddress = localStorage.getItem(STORAGE_KEYS.HUB_ADDRESS);
-    const port = localStorage.getItem(STORAGE_KEYS.HUB_PORT);
-    const token = localStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
-    const tokenCreatedAt = localStorage.getItem(STORAGE_KEYS.TOKEN_CREATED_AT);
-    const tokenExpiresAt = localStorage.getItem(STORAGE_KEYS.TOKEN_EXPIRES_AT);
+    const stored = localStorage.getItem(STORAGE_KEYS.HUB_PROFILES);
+    if (stored === null) {
+      const migrated = migrateLegacyConfig();
+      return migrated ? [migrated] : [];
+    }
 
-    if (!hubAddress) {
-      return null;
+    const profiles = JSON.parse(stored);
+    return Array.isArray(profiles) ? (profiles as HubProfile[]) : [];
+  } catch (error) {
+    console.error('Failed to get hub profiles from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a single hub profile
+ * @param hubId - Hub ID (default: active hub)
+ * @returns Hub profile or null if not found
+ */
+export function getHubProfile(hubId?: string): HubProfile | null {
+  const id = hubId ?? getActiveHubId();
+  if (!id) {
+    return null;
+  }
+  return getHubProfiles().find((profile) => profile.id === id) ?? null;
+}
+
+/**
+ * Add a hub profile or replace the profile with the same ID
+ * @param profile - Hub profile to store
+ */
+export function saveHubProfile(profile: HubProfile): void {
+  try {
+    const profiles = getHubProfiles();
+    const index = profiles.findIndex((p) => p.id === profile.id);
+    if (index === -1) {
+      profiles.push(profile);
+    } else {
+      profiles[index] = profile;
     }
+    writeHubProfiles(profiles);
+  } catch (error) {
+    console.error('Failed to save hub profile:', error);
+    throw new Error('Failed to save hub profile to localStorage');
+  }
+}
 
-    return {
-      hubAddress,
-      port: port ? parseInt(port, 10) : 8443,
-      token: token || undefined,
-      tokenCreatedAt: tokenCreatedAt || undefined,
-      tokenExpiresAt: tokenExpiresAt || undefined,
-    };
+/**
+ * Remove a hub profile
+ * If it was the active hub, the first remaining hub becomes active
+ * @param hubId - Hub ID
+ */
+export function removeHubProfile(hubId: string): void {
+  try {
+    const profiles = getHubProfiles().filter((profile) => profile.id !== hubId);
+    writeHubProfiles(profiles);
+
+    if (localStorage.getItem(STORAGE_KEYS.ACTIVE_HUB_ID) === hubId) {
+      if (profiles[0]) {
+        localStorage.setItem(STORAGE_KEYS.ACTIVE_HUB_ID, profiles[0].id);
+      } else {
+        localStorage.removeItem(STORAGE_KEYS.ACTIVE_HUB_ID);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to remove hub profile:', error);
+    throw new Error('Failed to remove hub profile from localStorage');
+  }
+}
+
+/**
+ * Get the ID of the active hub
+ * @returns Active hub ID, the first hub if none is selected, or null without hubs
+ */
+export function getActiveHubId(): string | null {
+  try {
+    const profiles = getHubProfiles();
+    const activeId = localStorage.getItem(STORAGE_KEYS.ACTIVE_HUB_ID);
+    const active = profiles.find((profile) => profile.id === activeId) ?? profiles[0];
+    return active ? active.id : null;
+  } catch (error) {
+    console.error('Failed to get active hub:', error);
+    return null;
+  }
+}
+
+/**
+ * Select the active hub
+ * @param hubId - Hub ID
+ */
+export function setActiveHubId(hubId: string): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.ACTIVE_HUB_ID, hubId);
+  } catch (error) {
+    console.error('Failed to set active hub:', error);
+    throw new Error('Failed to save active hub to localStorage');
+  }
+}
+
+/**
+ * Apply changes to the active hub profile, creating it if no hub exists yet
+ */
+function updateActiveProfile(changes: Partial<StoredConfig>): void {
+  const existing = getHubProfile();
+  const profile: HubProfile = existing
+    ? { ...existing, ...changes }
+    : {
+        id: generateHubId(),
+        name: DEFAULT_HUB_NAME,
+        hubAddress: '',
+        port: 8443,
+        connectionMode: 'direct',
+        ...changes,
+      };
+
+  saveHubProfile(profile);
+  if (!existing) {
+    setActiveHubId(profile.id);
+  }
+}
+
+/**
+ * Get the stored configuration of a hub
+ * @param hubId - Hub ID (default: active hub)
+ * @returns Stored configuration or null if not set
+ */
+export function getConfig(hubId?: string): StoredConfig | null {
+  try {
+    const profile = getHubProfile(hubId);
+    if (!profile || !profile.hubAddress) {
+      return null;
+    }
+    return profile;
   } catch (error) {
     console.error('Failed to get config from localStorage:', error);
     return null;
@@ -56,12 +264,13 @@ export function getConfig(): StoredConfig | null {
 }
 
 /**
- * Get the hub address (IP:port) from localStorage
+ * Get the hub address (IP:port)
+ * @param hubId - Hub ID (default: active hub)
  * @returns Hub address string or null if not set
  */
-export function getHubAddress(): string | null {
+export function getHubAddress(hubId?: string): string | null {
   try {
-    const config = getConfig();
+    const config = getConfig(hubId);
     if (!config) {
       return null;
     }
@@ -73,12 +282,31 @@ export function getHubAddress(): string | null {
 }
 
 /**
- * Get the authentication token from localStorage
+ * Get the hub proxy URL if the hub is reached through a proxy
+ * @param hubId - Hub ID (default: active hub)
+ * @returns Proxy URL (without trailing slash) or null when connecting directly
+ */
+export function getProxyUrl(hubId?: string): string | null {
+  try {
+    const config = getConfig(hubId);
+    if (!config || config.connectionMode !== 'proxy' || !config.proxyUrl) {
+      return null;
+    }
+    return config.proxyUrl.replace(/\/+$/, '');
+  } catch (error) {
+    console.error('Failed to get proxy URL:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the authentication token
+ * @param hubId - Hub ID (default: active hub)
  * @returns Auth token string or null if not set
  */
-export function getAuthToken(): string | null {
+export function getAuthToken(hubId?: string): string | null {
   try {
-    return localStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
+    return getHubProfile(hubId)?.token ?? null;
   } catch (error) {
     console.error('Failed to get auth token:', error);
     return null;
@@ -87,11 +315,12 @@ export function getAuthToken(): string | null {
 
 /**
  * Get the full auth configuration
+ * @param hubId - Hub ID (default: active hub)
  * @returns AuthConfig or null if not set
  */
-export function getAuthConfig(): AuthConfig | null {
+export function getAuthConfig(hubId?: string): AuthConfig | null {
   try {
-    const config = getConfig();
+    const config = getConfig(hubId);
     if (!config) {
       return null;
     }
@@ -114,14 +343,13 @@ export function getAuthConfig(): AuthConfig | null {
 }
 
 /**
- * Set the hub address in localStorage
+ * Set the address of the active hub
  * @param hubAddress - IP address or hostname of the Dirigera hub
  * @param port - Port number (default: 8443)
  */
 export function setHubAddress(hubAddress: string, port: number = 8443): void {
   try {
-    localStorage.setItem(STORAGE_KEYS.HUB_ADDRESS, hubAddress);
-    localStorage.setItem(STORAGE_KEYS.HUB_PORT, port.toString());
+    updateActiveProfile({ hubAddress, port });
   } catch (error) {
     console.error('Failed to set hub address:', error);
     throw new Error('Failed to save hub address to localStorage');
@@ -129,20 +357,17 @@ export function setHubAddress(hubAddress: string, port: number = 8443): void {
 }
 
 /**
- * Set the authentication token in localStorage
+ * Set the authentication token of the active hub
  * @param token - Bearer token for API authentication
  * @param expiresAt - Optional expiration timestamp
  */
 export function setAuthToken(token: string, expiresAt?: string): void {
   try {
-    const now = new Date().toISOString();
-    localStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, token);
-    localStorage.setItem(STORAGE_KEYS.TOKEN_CREATED_AT, now);
-    if (expiresAt) {
-      localStorage.setItem(STORAGE_KEYS.TOKEN_EXPIRES_AT, expiresAt);
-    } else {
-      localStorage.removeItem(STORAGE_KEYS.TOKEN_EXPIRES_AT);
-    }
+    updateActiveProfile({
+      token,
+      tokenCreatedAt: new Date().toISOString(),
+      tokenExpiresAt: expiresAt,
+    });
   } catch (error) {
     console.error('Failed to set auth token:', error);
     throw new Error('Failed to save auth token to localStorage');
@@ -150,15 +375,35 @@ export function setAuthToken(token: string, expiresAt?: string): void {
 }
 
 /**
- * Set the complete configuration in localStorage
+ * Set how the app connects to the active hub
+ * @param mode - Connection mode
+ * @param proxyUrl - Base URL of the hub proxy (required for proxy mode)
+ */
+export function setConnectionMode(mode: ConnectionMode, proxyUrl?: string): void {
+  try {
+    updateActiveProfile({ connectionMode: mode, proxyUrl: proxyUrl || undefined });
+  } catch (error) {
+    console.error('Failed to set connection mode:', error);
+    throw new Error('Failed to save connection mode to localStorage');
+  }
+}
+
+/**
+ * Set the complete configuration of the active hub
  * @param config - Configuration to store
  */
 export function setConfig(config: StoredConfig): void {
   try {
-    setHubAddress(config.hubAddress, config.port);
-    if (config.token) {
-      setAuthToken(config.token, config.tokenExpiresAt);
-    }
+    // Saving a real hub leaves demo mode
+    disableDemoMode();
+    const existing = getHubProfile();
+    const tokenChanged = Boolean(config.token) && config.token !== existing?.token;
+    updateActiveProfile({
+      ...config,
+      tokenCreatedAt:
+        config.tokenCreatedAt ??
+        (tokenChanged ? new Date().toISOString() : existing?.tokenCreatedAt),
+    });
   } catch (error) {
     console.error('Failed to set config:', error);
     throw new Error('Failed to save configuration to localStorage');
@@ -166,11 +411,17 @@ export function setConfig(config: StoredConfig): void {
 }
 
 /**
- * Clear all stored configuration from localStorage
+ * Clear the hub configuration (every hub) and demo mode from localStorage
+ * Tariff, layout and retention settings are kept.
  */
 export function clearConfig(): void {
   try {
-    Object.values(STORAGE_KEYS).forEach((key) => {
+    [
+      STORAGE_KEYS.HUB_PROFILES,
+      STORAGE_KEYS.ACTIVE_HUB_ID,
+      STORAGE_KEYS.DEMO_MODE,
+      ...Object.values(LEGACY_STORAGE_KEYS),
+    ].forEach((key) => {
       localStorage.removeItem(key);
     });
   } catch (error) {
@@ -181,11 +432,12 @@ export function clearConfig(): void {
 
 /**
  * Check if the stored token is expired
+ * @param hubId - Hub ID (default: active hub)
  * @returns true if token is expired or expiration check is not applicable
  */
-export function isTokenExpired(): boolean {
+export function isTokenExpired(hubId?: string): boolean {
   try {
-    const expiresAt = localStorage.getItem(STORAGE_KEYS.TOKEN_EXPIRES_AT);
+    const expiresAt = getHubProfile(hubId)?.tokenExpiresAt;
     if (!expiresAt) {
       // No expiration set, consider token valid
       return false;
@@ -202,18 +454,310 @@ export function isTokenExpired(): boolean {
 }
 
 /**
- * Check if configuration is complete and valid
- * @returns true if hub address and token are set and token is not expired
+ * Check whether the app runs against the built-in demo hub
+ * @returns true if demo mode is enabled
  */
-export function isConfigured(): boolean {
+export function isDemoMode(): boolean {
   try {
-    const config = getConfig();
+    return localStorage.getItem(STORAGE_KEYS.DEMO_MODE) === 'true';
+  } catch (error) {
+    console.error('Failed to check demo mode:', error);
+    return false;
+  }
+}
+
+/**
+ * Enable demo mode
+ * The client then answers all requests with synthetic sensor data
+ */
+export function enableDemoMode(): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.DEMO_MODE, 'true');
+  } catch (error) {
+    console.error('Failed to enable demo mode:', error);
+    throw new Error('Failed to save demo mode to localStorage');
+  }
+}
+
+/**
+ * Disable demo mode
+ * Any stored hub configuration is used again
+ */
+export function disableDemoMode(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.DEMO_MODE);
+  } catch (error) {
+    console.error('Failed to disable demo mode:', error);
+    throw new Error('Failed to save demo mode to localStorage');
+  }
+}
+
+/**
+ * Check if a hub profile is complete and its token valid
+ * @param hubId - Hub ID (default: active hub)
+ * @returns true if address and token are set and the token is not expired
+ */
+export function isHubConfigured(hubId?: string): boolean {
+  try {
+    const config = getConfig(hubId);
     if (!config || !config.hubAddress || !config.token) {
       return false;
     }
-    return !isTokenExpired();
+    if (config.connectionMode === 'proxy' && !config.proxyUrl) {
+      return false;
+    }
+    return !isTokenExpired(hubId);
+  } catch (error) {
+    console.error('Failed to check hub configuration:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the IDs of all hubs that are ready to use
+ * @returns IDs of complete hub profiles
+ */
+export function getConfiguredHubIds(): string[] {
+  return getHubProfiles()
+    .filter((profile) => isHubConfigured(profile.id))
+    .map((profile) => profile.id);
+}
+
+/**
+ * Check if configuration is complete and valid
+ * @returns true in demo mode, or if at least one hub is fully configured
+ */
+export function isConfigured(): boolean {
+  try {
+    if (isDemoMode()) {
+      return true;
+    }
+    return getConfiguredHubIds().length > 0;
   } catch (error) {
     console.error('Failed to check configuration:', error);
     return false;
   }
 }
+
+/**
+ * Electricity price used for cost estimates
+ */
+export interface EnergyTariff {
+  /** Price per kWh in the given currency */
+  pricePerKwh: number;
+  /** ISO 4217 currency code (e.g. "EUR") */
+  currency: string;
+}
+
+export const DEFAULT_ENERGY_TARIFF: EnergyTariff = {
+  pricePerKwh: 0.25,
+  currency: 'EUR',
+};
+
+/**
+ * Get the electricity price used for cost estimates
+ * @returns Stored tariff, or the default tariff if none is stored
+ */
+export function getEnergyTariff(): EnergyTariff {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.ENERGY_TARIFF);
+    if (!stored) {
+      return DEFAULT_ENERGY_TARIFF;
+    }
+    const tariff = JSON.parse(stored) as Partial<EnergyTariff>;
+    return {
+      pricePerKwh:
+        typeof tariff.pricePerKwh === 'number' ? tariff.pricePerKwh : DEFAULT_ENERGY_TARIFF.pricePerKwh,
+      currency: typeof tariff.currency === 'string' ? tariff.currency : DEFAULT_ENERGY_TARIFF.currency,
+    };
+  } catch (error) {
+    console.error('Failed to get energy tariff:', error);
+    return DEFAULT_ENERGY_TARIFF;
+  }
+}
+
+/**
+ * Save the electricity price used for cost estimates
+ * @param tariff - Tariff to store
+ */
+export function saveEnergyTariff(tariff: EnergyTariff): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.ENERGY_TARIFF, JSON.stringify(tariff));
+  } catch (error) {
+    console.error('Failed to save energy tariff:', error);
+    throw new Error('Failed to save energy tariff to localStorage');
+  }
+}
+
+/**
+ * How the Dashboard arranges the environment sensors
+ * - grid: one grid of all sensors
+ * - rooms: sensors grouped by the room they are assigned to on the hub
+ */
+export type DashboardLayout = 'grid' | 'rooms';
+
+/**
+ * Get the Dashboard layout
+ * @returns Stored layout, or 'grid' if none is stored
+ */
+export function getDashboardLayout(): DashboardLayout {
+  try {
+    return localStorage.getItem(STORAGE_KEYS.DASHBOARD_LAYOUT) === 'rooms' ? 'rooms' : 'grid';
+  } catch (error) {
+    console.error('Failed to get dashboard layout:', error);
+    return 'grid';
+  }
+}
+
+/**
+ * Save the Dashboard layout
+ * @param layout - Layout to store
+ */
+export function saveDashboardLayout(layout: DashboardLayout): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.DASHBOARD_LAYOUT, layout);
+  } catch (error) {
+    console.error('Failed to save dashboard layout:', error);
+  }
+}
+
+/**
+ * Days each resolution of the sensor history is kept
+ */
+export type RetentionPolicy = Record<ReadingResolution, number>;
+
+/**
+ * How long history is kept and how often it is cleaned up
+ * Device overrides take precedence over metric overrides, which take
+ * precedence over the defaults; each resolution is overridden separately.
+ */
+export interface RetentionSettings {
+  /** Retention of readings without an override */
+  defaults: RetentionPolicy;
+  /** Overrides per metric */
+  metrics: Partial<Record<SensorReadingType, Partial<RetentionPolicy>>>;
+  /** Overrides per device, keyed by hub and device ID (see getDeviceKey) */
+  devices: Record<string, Partial<RetentionPolicy>>;
+  /** Days device state events (motion, contact) are kept */
+  eventDays: number;
+  /** Hours between cleanups */
+  cleanupIntervalHours: number;
+}
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  defaults: { raw: 7, '5m': 30, '1h': 365, '1d': 3650 },
+  // The Energy page computes the consumption of its daily bars from raw
+  // power readings
+  metrics: { power: { raw: 30 }, energy: { raw: 30 } },
+  devices: {},
+  eventDays: 30,
+  cleanupIntervalHours: 1,
+};
+
+/**
+ * Keep the valid entries of a stored partial policy
+ */
+function parsePolicyOverride(value: unknown): Partial<RetentionPolicy> {
+  const override: Partial<RetentionPolicy> = {};
+  if (value && typeof value === 'object') {
+    for (const [resolution, days] of Object.entries(value)) {
+      if (resolution in DEFAULT_RETENTION_SETTINGS.defaults && typeof days === 'number' && days > 0) {
+        override[resolution as ReadingResolution] = days;
+      }
+    }
+  }
+  return override;
+}
+
+/**
+ * Get the retention settings of the sensor history
+ * @returns Stored settings, or the defaults if none are stored
+ */
+export function getRetentionSettings(): RetentionSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.RETENTION_SETTINGS);
+    if (!stored) {
+      return DEFAULT_RETENTION_SETTINGS;
+    }
+    const settings = JSON.parse(stored) as Partial<RetentionSettings>;
+    const parseOverrides = (overrides: unknown) =>
+      Object.fromEntries(
+        Object.entries(overrides && typeof overrides === 'object' ? overrides : {}).map(
+          ([key, value]) => [key, parsePolicyOverride(value)]
+        )
+      );
+    return {
+      defaults: { ...DEFAULT_RETENTION_SETTINGS.defaults, ...parsePolicyOverride(settings.defaults) },
+      metrics: settings.metrics ? parseOverrides(settings.metrics) : DEFAULT_RETENTION_SETTINGS.metrics,
+      devices: parseOverrides(settings.devices),
+      eventDays:
+        typeof settings.eventDays === 'number' && settings.eventDays > 0
+          ? settings.eventDays
+          : DEFAULT_RETENTION_SETTINGS.eventDays,
+      cleanupIntervalHours:
+        typeof settings.cleanupIntervalHours === 'number' && settings.cleanupIntervalHours > 0
+          ? settings.cleanupIntervalHours
+          : DEFAULT_RETENTION_SETTINGS.cleanupIntervalHours,
+    };
+  } catch (error) {
+    console.error('Failed to get retention settings:', error);
+    return DEFAULT_RETENTION_SETTINGS;
+  }
+}
+
+/**
+ * Save the retention settings of the sensor history
+ * @param settings - Settings to store
+ */
+export function saveRetentionSettings(settings: RetentionSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.RETENTION_SETTINGS, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save retention settings:', error);
+    throw new Error('Failed to save retention settings to localStorage');
+  }
+}
+
+/**
+ * Retention of the readings of one metric of one device
+ * @param settings - Retention settings
+ * @param type - Sensor reading type
+ * @param deviceKey - Device (see getDeviceKey); metric and default retention when undefined
+ * @returns Days each resolution is kept
+ */
+export function resolveRetentionPolicy(
+  settings: RetentionSettings,
+  type: SensorReadingType,
+  deviceKey?: string
+): RetentionPolicy {
+  return {
+    ...settings.defaults,
+    ...settings.metrics[type],
+    ...(deviceKey ? settings.devices[deviceKey] : undefined),
+  };
+}
+
+/**
+ * Get when the history was last cleaned up
+ * @returns ISO timestamp, or null if it never was
+ */
+export function getLastCleanup(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEYS.LAST_CLEANUP);
+  } catch (error) {
+    console.error('Failed to get last cleanup time:', error);
+    return null;
+  }
+}
+
+/**
+ * Save when the history was last cleaned up
+ * @param timestamp - ISO timestamp of the cleanup
+ */
+export function saveLastCleanup(timestamp: string): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.LAST_CLEANUP, timestamp);
+  } catch (error) {
+    console.error('Failed to save last cleanup time:', error);
+  }
+}
@@ -0,0 +1,442 @@
+/**
+ * IndexedDB wrapper for storing device state change events
+ *
+ * Motion and door/window sensors are event-based: what matters is when
+ * their state changed, not their value every few minutes. Their changes
+ * are kept in a database of their own, next to the sensor history, and
+ * are cleaned up after the configured number of days (30 by default).
+ * Every device's reachability changes are found the same way, but stored
+ * with the sensor history (see ./history.ts) so they follow its retention.
+ *
+ * Events are recorded by diffing device states: every time a device list
+ * arrives (from a poll or a WebSocket deviceStateChanged message), each
+ * device's state is compared with the last one seen, and a change is
+ * stored as an event.
+ */
+
+import type {
+  DeviceEventQuery,
+  DeviceEventType,
+  DeviceStateEvent,
+  DirigeeraDevice,
+} from '@zigbee-visualizer/shared-types';
+import { toDeviceStateEvents } from '../utils/events';
+import { getRetentionSettings } from './config';
+import { getLastReachabilityChange, storeReachabilityChanges } from './history';
+
+const DB_NAME = 'dirigera_device_events';
+const DB_VERSION = 2;
+const STORE_NAME = 'device_events';
+
+/**
+ * IndexedDB database instance
+ */
+let db: IDBDatabase | null = null;
+
+/**
+ * Last state seen per device and event type (keyed by hub, device ID and type)
+ */
+const lastStates = new Map<string, boolean>();
+
+/**
+ * Recording runs one batch at a time, so two callers seeing the same
+ * change don't both store it
+ */
+let recording: Promise<unknown> = Promise.resolve();
+
+/**
+ * Initialize the IndexedDB database
+ * Creates the database and object store if they don't exist
+ */
+export async function initEventDatabase(): Promise<IDBDatabase> {
+  if (db) {
+    return db;
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      reject(new Error('Failed to open IndexedDB event database'));
+    };
+
+    let movesReachability = false;
+
+    request.onsuccess = () => {
+      db = request.result;
+      if (!movesReachability) {
+        resolve(db);
+        return;
+      }
+      moveReachabilityEvents(db)
+        .catch((error) => {
+          console.error('Failed to move reachability events:', error);
+        })
+        .then(() => resolve(request.result));
+    };
+
+    request.onupgradeneeded = (event) => {
+      const database = (event.target as IDBOpenDBRequest).result;
+      // Version 2: reachability changes move to the sensor history
+      movesReachability = event.oldVersion === 1;
+
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        const store = database.createObjectStore(STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+
+        // Create indexes for efficient querying
+        store.createIndex('deviceId', 'deviceId', { unique: false });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+        store.createIndex('hubId_deviceId_timestamp', ['hubId', 'deviceId', 'timestamp'], {
+          unique: false,
+        });
+      }
+    };
+  });
+}
+
+/**
+ * Move reachability events stored before version 2 to the sensor history
+ */
+async function moveReachabilityEvents(database: IDBDatabase): Promise<void> {
+  const stored = await new Promise<(DeviceStateEvent & { id: number })[]>((resolve, reject) => {
+    const request = database.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      reject(new Error('Failed to read reachability events'));
+    };
+  });
+  const reachability = stored.filter((event) => event.type === 'reachability');
+  if (reachability.length === 0) {
+    return;
+  }
+
+  await storeReachabilityChanges(reachability.map(({ id: _id, ...event }) => event));
+
+  const transaction = database.transaction([STORE_NAME], 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  reachability.forEach((event) => store.delete(event.id));
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('Failed to delete moved reachability events'));
+    };
+  });
+}
+
+/**
+ * Store multiple device events in a batch
+ * @param events - Events to store
+ */
+export async function storeDeviceEvents(events: DeviceStateEvent[]): Promise<void> {
+  try {
+    const database = await initEventDatabase();
+    const transaction = database.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      if (events.length === 0) {
+        resolve();
+        return;
+      }
+
+      events.forEach((event) => store.add(event));
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to store device events'));
+      };
+    });
+  } catch (error) {
+    console.error('Failed to store device events:', error);
+    throw error;
+  }
+}
+
+/**
+ * Query device events from IndexedDB
+ * @param query - Query parameters
+ * @returns Events matching the query, oldest first
+ */
+export async function queryDeviceEvents(
+  query: DeviceEventQuery = {}
+): Promise<DeviceStateEvent[]> {
+  try {
+    const database = await initEventDatabase();
+    const transaction = database.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      let request: IDBRequest;
+
+      // Use appropriate index based on query
+      if (query.hubId && query.deviceId) {
+        const index = store.index('hubId_deviceId_timestamp');
+        const range = IDBKeyRange.bound(
+          [query.hubId, query.deviceId, query.timeRange?.start ?? ''],
+          [query.hubId, query.deviceId, query.timeRange?.end ?? '\uffff']
+        );
+        request = index.getAll(range);
+      } else if (query.deviceId) {
+        const index = store.index('deviceId');
+        request = index.getAll(query.deviceId);
+      } else if (query.timeRange) {
+        const index = store.index('timestamp');
+        const range = IDBKeyRange.bound(query.timeRange.start, query.timeRange.end);
+        request = index.getAll(range);
+      } else {
+        request = store.getAll();
+      }
+
+      request.onsuccess = () => {
+        let results = request.result as DeviceStateEvent[];
+
+        // Apply additional filters
+        if (query.hubId && !query.deviceId) {
+          results = results.filter((event) => event.hubId === query.hubId);
+        }
+
+        if (query.deviceId && !query.hubId && query.timeRange) {
+          const { start, end } = query.timeRange;
+          results = results.filter((event) => event.timestamp >= start && event.timestamp <= end);
+        }
+
+        if (query.types && query.types.length > 0) {
+          results = results.filter((event) => query.types!.includes(event.type));
+        }
+
+        // Sort by timestamp (oldest first, the order timelines are built in)
+        results.sort((a, b) => {
+          return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+        });
+
+        // Keep the most recent events
+        if (query.limit !== undefined) {
+          results = results.slice(-query.limit);
+        }
+
+        resolve(results);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to query device events'));
+      };
+    });
+  } catch (error) {
+    console.error('Failed to query device events:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the most recent stored event of a device
+ * @param deviceId - Device ID
+ * @param hubId - Hub the device belongs to (optional)
+ * @param type - Only consider events of this type (optional)
+ * @returns Latest event or null if the device has none
+ */
+export async function getLastDeviceEvent(
+  deviceId: string,
+  hubId?: string,
+  type?: DeviceEventType
+): Promise<DeviceStateEvent | null> {
+  try {
+    const events = await queryDeviceEvents({ hubId, deviceId, types: type && [type], limit: 1 });
+    return events[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get last device event:', error);
+    return null;
+  }
+}
+
+/**
+ * Record the state changes of devices: motion, door/window and reachability
+ * Reachability changes go to the sensor history, the others to this store.
+ * A device seen for the first time is compared with its last stored event,
+ * so a change that happened while the app was closed is still recorded
+ * (at the time it was noticed). A device without any stored event is only
+ * recorded when it is active, so a new device does not log "back online".
+ * @param devices - Devices as just received
+ * @param timestamp - When the states were observed (ISO 8601 format)
+ * @returns Recorded events
+ */
+export async function recordDeviceStates(
+  devices: DirigeeraDevice[],
+  timestamp: string = new Date().toISOString()
+): Promise<DeviceStateEvent[]> {
+  const record = async () => {
+    const events: DeviceStateEvent[] = [];
+
+    for (const device of devices) {
+      for (const event of toDeviceStateEvents(device, timestamp)) {
+        const key = `${device.hubId}:${device.id}:${event.type}`;
+        let previous = lastStates.get(key);
+        if (previous === undefined) {
+          const last =
+            event.type === 'reachability'
+              ? await getLastReachabilityChange(device.id, device.hubId)
+              : await getLastDeviceEvent(device.id, device.hubId, event.type);
+          previous = last?.active;
+        }
+        lastStates.set(key, event.active);
+
+        if (previous === undefined ? event.active : previous !== event.active) {
+          events.push(event);
+        }
+      }
+    }
+
+    await storeDeviceEvents(events.filter((event) => event.type !== 'reachability'));
+    await storeReachabilityChanges(events.filter((event) => event.type === 'reachability'));
+    return events;
+  };
+
+  try {
+    const result = recording.then(record);
+    recording = result.catch(() => undefined);
+    return await result;
+  } catch (error) {
+    console.error('Failed to record device states:', error);
+    throw error;
+  }
+}
+
+/**
+ * Clean up device events older than the event retention in the settings
+ * Should be called periodically to prevent excessive storage usage
+ */
+export async function cleanupOldEvents(): Promise<number> {
+  try {
+    const database = await initEventDatabase();
+    const transaction = database.transaction([STORE_NAME], 'readwrite');
+    const index = transaction.objectStore(STORE_NAME).index('timestamp');
+
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - getRetentionSettings().eventDays);
+
+    return new Promise((resolve, reject) => {
+      let deletedCount = 0;
+      const request = index.openCursor(IDBKeyRange.upperBound(cutoffDate.toISOString()));
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+
+        if (cursor) {
+          cursor.delete();
+          deletedCount++;
+          cursor.continue();
+        } else {
+          resolve(deletedCount);
+        }
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to cleanup old device events'));
+      };
+    });
+  } catch (error) {
+    console.error('Failed to cleanup old device events:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete all events of the given devices
+ * Device IDs are only unique per hub, so other hubs' devices are left alone.
+ * @param hubId - Hub the devices belong to
+ * @param deviceIds - IDs of the devices whose events should be removed
+ * @returns Number of deleted events
+ */
+export async function deleteDeviceEvents(hubId: string, deviceIds: string[]): Promise<number> {
+  try {
+    const database = await initEventDatabase();
+    const transaction = database.transaction([STORE_NAME], 'readwrite');
+    const index = transaction.objectStore(STORE_NAME).index('hubId_deviceId_timestamp');
+
+    return new Promise((resolve, reject) => {
+      let deletedCount = 0;
+
+      deviceIds.forEach((deviceId) => {
+        const request = index.openCursor(
+          IDBKeyRange.bound([hubId, deviceId, ''], [hubId, deviceId, '\uffff'])
+        );
+
+        request.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+          if (cursor) {
+            cursor.delete();
+            deletedCount++;
+            cursor.continue();
+          }
+        };
+      });
+
+      transaction.oncomplete = () => {
+        // Deleted devices start over when they are seen next
+        for (const key of [...lastStates.keys()]) {
+          if (deviceIds.some((deviceId) => key.startsWith(`${hubId}:${deviceId}:`))) {
+            lastStates.delete(key);
+          }
+        }
+        resolve(deletedCount);
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to delete device events'));
+      };
+    });
+  } catch (error) {
+    console.error('Failed to delete device events:', error);
+    throw error;
+  }
+}
+
+/**
+ * Clear all device events from the database
+ * USE WITH CAUTION - This deletes all recorded events
+ */
+export async function clearAllEvents(): Promise<void> {
+  try {
+    const database = await initEventDatabase();
+    const transaction = database.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.clear();
+
+      request.onsuccess = () => {
+        lastStates.clear();
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to clear all device events'));
+      };
+    });
+  } catch (error) {
+    console.error('Failed to clear all device events:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close the database connection
+ * Should be called when the application is closing
+ */
+export function closeEventDatabase(): void {
+  if (db) {
+    db.close();
+    db = null;
+  }
+}
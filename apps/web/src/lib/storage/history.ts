@@ -2,21 +2,117 @@
  * IndexedDB wrapper for storing historical sensor data
  *
  * This module provides utilities for storing and querying sensor readings
- * using IndexedDB for local persistence. Automatically cleans up data older
- * than 30 days to prevent excessive storage usage.
+ * using IndexedDB for local persistence. History is kept in retention tiers:
+ * raw readings for a few days, then 5 minute, hourly and daily rollups
+ * (min/max/avg/count) for months or years. Rollups are computed from the
+ * tier below as periods complete, and queries pick the resolution that
+ * suits the requested time range. How long each tier is kept is set per
+ * metric and per device in the retention settings.
+ *
+ * Reachability changes (devices dropping off the network and coming back)
+ * are stored alongside the readings. They are sparse and never rolled up;
+ * each device's changes are kept as long as its longest kept history, so
+ * offline bands and uptime cover every range the charts can show.
  */
 
+import { addDays, addHours, startOfDay, startOfHour } from 'date-fns';
 import type {
+  BatteryReading,
+  DeviceEventQuery,
+  DeviceStateEvent,
+  ReadingResolution,
   SensorReading,
+  SensorRollup,
   DeviceSensorSnapshot,
   SensorDataQuery,
   SensorReadingType,
+  TimeRange,
 } from '@zigbee-visualizer/shared-types';
+import {
+  getActiveHubId,
+  getRetentionSettings,
+  resolveRetentionPolicy,
+  type RetentionPolicy,
+} from './config';
+import { getDeviceKey } from '../utils/devices';
 
 const DB_NAME = 'dirigera_sensor_history';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 const STORE_NAME = 'sensor_readings';
-const MAX_AGE_DAYS = 30;
+const ROLLUP_STORE_NAME = 'sensor_rollups';
+const REACHABILITY_STORE_NAME = 'reachability_changes';
+
+const FIVE_MINUTES_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RollupResolution = SensorRollup['resolution'];
+
+const READING_TYPES: SensorReadingType[] = [
+  'temperature',
+  'humidity',
+  'pm25',
+  'voc',
+  'power',
+  'energy',
+  'fanSpeed',
+  'battery',
+];
+
+/**
+ * Resolutions from finest to coarsest
+ */
+export const READING_RESOLUTIONS: ReadingResolution[] = ['raw', '5m', '1h', '1d'];
+
+const ROLLUP_RESOLUTIONS: RollupResolution[] = ['5m', '1h', '1d'];
+
+/**
+ * Spacing of the points at each resolution; raw readings have no fixed spacing
+ */
+export const RESOLUTION_STEP_MS: Record<ReadingResolution, number> = {
+  raw: 0,
+  '5m': FIVE_MINUTES_MS,
+  '1h': 60 * 60 * 1000,
+  '1d': DAY_MS,
+};
+
+/**
+ * Each rollup is computed from the next finer resolution
+ */
+const ROLLUP_SOURCES: Record<RollupResolution, ReadingResolution> = {
+  '5m': 'raw',
+  '1h': '5m',
+  '1d': '1h',
+};
+
+/**
+ * Running totals: a rollup stands for its latest reading rather than the average
+ */
+const RUNNING_TOTAL_TYPES: SensorReadingType[] = ['energy'];
+
+/**
+ * Unit of each reading type
+ */
+const READING_UNITS: { [Type in SensorReadingType]: Extract<SensorReading, { type: Type }>['unit'] } = {
+  temperature: '°C',
+  humidity: '%',
+  pm25: 'μg/m³',
+  voc: 'index',
+  power: 'W',
+  energy: 'kWh',
+  fanSpeed: '%',
+  battery: '%',
+};
+
+/**
+ * Longest time range each resolution is picked for, so a chart gets at most
+ * a few thousand points per series
+ */
+const MAX_RANGE_MS: Record<ReadingResolution, number> = {
+  raw: 2 * DAY_MS,
+  '5m': 14 * DAY_MS,
+  '1h': 90 * DAY_MS,
+  '1d': Infinity,
+};
 
 /**
  * IndexedDB database instance
@@ -46,6 +142,7 @@ export async function initDatabase(): Promise<IDBDatabase> {
 
     request.onupgradeneeded = (event) => {
       const database = (event.target as IDBOpenDBRequest).result;
+      const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!;
 
       // Create object store for sensor readings
       if (!database.objectStoreNames.contains(STORE_NAME)) {
@@ -65,10 +162,251 @@ export async function initDatabase(): Promise<IDBDatabase> {
           unique: false,
         });
       }
+
+      // Version 2: readings are tagged with the hub they came from
+      if (event.oldVersion < 2) {
+        const store = upgradeTransaction.objectStore(STORE_NAME);
+        store.createIndex('hubId_deviceId_timestamp', ['hubId', 'deviceId', 'timestamp'], {
+          unique: false,
+        });
+
+        // Readings stored before multi-hub support belong to the first hub
+        const hubId = getActiveHubId();
+        if (event.oldVersion > 0 && hubId) {
+          store.openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue>).result;
+            if (cursor) {
+              if (!cursor.value.hubId) {
+                cursor.update({ ...cursor.value, hubId });
+              }
+              cursor.continue();
+            }
+          };
+        }
+      }
+
+      // Version 3: rollups of older readings
+      if (event.oldVersion < 3) {
+        const rollups = database.createObjectStore(ROLLUP_STORE_NAME, { keyPath: 'id' });
+        rollups.createIndex('deviceId', 'deviceId', { unique: false });
+        rollups.createIndex('resolution_timestamp', ['resolution', 'timestamp'], {
+          unique: false,
+        });
+        rollups.createIndex('resolution_type_timestamp', ['resolution', 'type', 'timestamp'], {
+          unique: false,
+        });
+        rollups.createIndex(
+          'resolution_hubId_deviceId_timestamp',
+          ['resolution', 'hubId', 'deviceId', 'timestamp'],
+          { unique: false }
+        );
+      }
+
+      // Version 4: reachability changes
+      if (event.oldVersion < 4) {
+        const changes = database.createObjectStore(REACHABILITY_STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        changes.createIndex('deviceId', 'deviceId', { unique: false });
+        changes.createIndex('timestamp', 'timestamp', { unique: false });
+        changes.createIndex('hubId_deviceId_timestamp', ['hubId', 'deviceId', 'timestamp'], {
+          unique: false,
+        });
+      }
     };
   });
 }
 
+/**
+ * Retention of each resolution for readings of a type, from the settings
+ * @param type - Sensor reading type
+ * @param deviceKey - Device (see getDeviceKey); metric retention when undefined
+ * @returns Days each resolution is kept
+ */
+export function getRetentionPolicy(type: SensorReadingType, deviceKey?: string): RetentionPolicy {
+  return resolveRetentionPolicy(getRetentionSettings(), type, deviceKey);
+}
+
+/**
+ * Pick the resolution for a time range
+ * The finest resolution whose points still fit the range length and that is
+ * kept long enough to cover the start of the range
+ * @param timeRange - Requested time range
+ * @param types - Types queried; all types when empty
+ * @param deviceKey - Device queried (see getDeviceKey); any device when undefined
+ * @returns Resolution to query
+ */
+export function selectResolution(
+  timeRange: TimeRange,
+  types: SensorReadingType[] = [],
+  deviceKey?: string
+): ReadingResolution {
+  const start = new Date(timeRange.start).getTime();
+  const length = new Date(timeRange.end).getTime() - start;
+  const age = Date.now() - start;
+  const settings = getRetentionSettings();
+  const policies = (types.length > 0 ? types : READING_TYPES).map((type) =>
+    resolveRetentionPolicy(settings, type, deviceKey)
+  );
+
+  return (
+    READING_RESOLUTIONS.find(
+      (resolution) =>
+        length <= MAX_RANGE_MS[resolution] &&
+        policies.every((policy) => age <= policy[resolution] * DAY_MS)
+    ) ?? '1d'
+  );
+}
+
+/**
+ * Coarsest of the given resolutions
+ */
+export function coarsestResolution(...resolutions: ReadingResolution[]): ReadingResolution {
+  return resolutions.reduce(
+    (coarsest, resolution) =>
+      READING_RESOLUTIONS.indexOf(resolution) > READING_RESOLUTIONS.indexOf(coarsest)
+        ? resolution
+        : coarsest,
+    'raw'
+  );
+}
+
+/**
+ * Start of the rollup period containing a time, in local time for hours and days
+ */
+function getBucketStart(time: number, resolution: RollupResolution): number {
+  if (resolution === '5m') {
+    return Math.floor(time / FIVE_MINUTES_MS) * FIVE_MINUTES_MS;
+  }
+  return (resolution === '1h' ? startOfHour(time) : startOfDay(time)).getTime();
+}
+
+/**
+ * End of the rollup period starting at a time
+ */
+function getBucketEnd(start: number, resolution: RollupResolution): number {
+  if (resolution === '5m') {
+    return start + FIVE_MINUTES_MS;
+  }
+  return (resolution === '1h' ? addHours(start, 1) : addDays(start, 1)).getTime();
+}
+
+/**
+ * Readings or finer rollups being summed up into a rollup
+ */
+interface RollupAccumulator {
+  rollup: SensorRollup;
+  sum: number;
+}
+
+/**
+ * Sum up readings or rollups into rollups of a coarser resolution
+ * @param sources - Raw readings, or rollups of a finer resolution
+ * @param resolution - Resolution of the rollups
+ * @returns One rollup per device, type and period
+ */
+function rollUp(
+  sources: (SensorReading | SensorRollup)[],
+  resolution: RollupResolution
+): SensorRollup[] {
+  const accumulators = new Map<string, RollupAccumulator>();
+
+  for (const source of sources) {
+    const summary =
+      'avg' in source
+        ? source
+        : {
+            min: source.value,
+            max: source.value,
+            avg: source.value,
+            count: 1,
+            last: source.value,
+            lastTimestamp: source.timestamp,
+          };
+    const timestamp = new Date(
+      getBucketStart(new Date(source.timestamp).getTime(), resolution)
+    ).toISOString();
+    const id = [resolution, source.hubId ?? '', source.deviceId, source.type, timestamp].join('|');
+    const sum = summary.avg * summary.count;
+
+    const accumulator = accumulators.get(id);
+    if (!accumulator) {
+      accumulators.set(id, {
+        sum,
+        rollup: {
+          id,
+          resolution,
+          hubId: source.hubId,
+          deviceId: source.deviceId,
+          deviceName: source.deviceName,
+          roomName: source.roomName,
+          timestamp,
+          type: source.type,
+          unit: source.unit,
+          min: summary.min,
+          max: summary.max,
+          avg: summary.avg,
+          count: summary.count,
+          last: summary.last,
+          lastTimestamp: summary.lastTimestamp,
+        },
+      });
+      continue;
+    }
+
+    const { rollup } = accumulator;
+    accumulator.sum += sum;
+    rollup.count += summary.count;
+    rollup.avg = accumulator.sum / rollup.count;
+    rollup.min = Math.min(rollup.min, summary.min);
+    rollup.max = Math.max(rollup.max, summary.max);
+    if (summary.lastTimestamp >= rollup.lastTimestamp) {
+      rollup.last = summary.last;
+      rollup.lastTimestamp = summary.lastTimestamp;
+      rollup.deviceName = source.deviceName;
+      rollup.roomName = source.roomName;
+    }
+  }
+
+  return [...accumulators.values()].map((accumulator) => accumulator.rollup);
+}
+
+/**
+ * Whether a reading's unit is the one of its type
+ */
+function isSensorReading(
+  reading: Omit<SensorReading, 'unit'> & { unit: SensorReading['unit'] }
+): reading is SensorReading {
+  return READING_UNITS[reading.type] === reading.unit;
+}
+
+/**
+ * A rollup as a reading: the average at the start of the period, or the
+ * latest reading for running totals, with the lowest and highest reading
+ * of the period
+ */
+function rollupToReading(rollup: SensorRollup): SensorReading {
+  const runningTotal = RUNNING_TOTAL_TYPES.includes(rollup.type);
+  const reading = {
+    hubId: rollup.hubId,
+    deviceId: rollup.deviceId,
+    deviceName: rollup.deviceName,
+    roomName: rollup.roomName,
+    timestamp: runningTotal ? rollup.lastTimestamp : rollup.timestamp,
+    type: rollup.type,
+    value: runningTotal ? rollup.last : rollup.avg,
+    unit: rollup.unit,
+    resolution: rollup.resolution,
+    min: rollup.min,
+    max: rollup.max,
+  };
+  if (!isSensorReading(reading)) {
+    throw new Error(`Rollup ${rollup.id} has unit ${rollup.unit} for ${rollup.type} readings`);
+  }
+  return reading;
+}
+
 /**
  * Store a sensor reading in IndexedDB
  * @param reading - Sensor reading to store
@@ -147,6 +485,7 @@ export async function storeDeviceSnapshot(snapshot: DeviceSensorSnapshot): Promi
   // Convert snapshot to individual readings
   if (snapshot.temperature !== undefined) {
     readings.push({
+      hubId: snapshot.hubId,
       deviceId: snapshot.deviceId,
       deviceName: snapshot.deviceName,
       roomName: snapshot.roomName,
@@ -159,6 +498,7 @@ export async function storeDeviceSnapshot(snapshot: DeviceSensorSnapshot): Promi
 
   if (snapshot.humidity !== undefined) {
     readings.push({
+      hubId: snapshot.hubId,
       deviceId: snapshot.deviceId,
       deviceName: snapshot.deviceName,
       roomName: snapshot.roomName,
@@ -171,6 +511,7 @@ export async function storeDeviceSnapshot(snapshot: DeviceSensorSnapshot): Promi
 
   if (snapshot.pm25 !== undefined) {
     readings.push({
+      hubId: snapshot.hubId,
       deviceId: snapshot.deviceId,
       deviceName: snapshot.deviceName,
       roomName: snapshot.roomName,
@@ -183,6 +524,7 @@ export async function storeDeviceSnapshot(snapshot: DeviceSensorSnapshot): Promi
 
   if (snapshot.vocIndex !== undefined) {
     readings.push({
+      hubId: snapshot.hubId,
       deviceId: snapshot.deviceId,
       deviceName: snapshot.deviceName,
       roomName: snapshot.roomName,
@@ -193,13 +535,317 @@ export async function storeDeviceSnapshot(snapshot: DeviceSensorSnapshot): Promi
     });
   }
 
+  if (snapshot.power !== undefined) {
+    readings.push({
+      hubId: snapshot.hubId,
+      deviceId: snapshot.deviceId,
+      deviceName: snapshot.deviceName,
+      roomName: snapshot.roomName,
+      timestamp: snapshot.timestamp,
+      type: 'power',
+      value: snapshot.power,
+      unit: 'W',
+    });
+  }
+
+  if (snapshot.energy !== undefined) {
+    readings.push({
+      hubId: snapshot.hubId,
+      deviceId: snapshot.deviceId,
+      deviceName: snapshot.deviceName,
+      roomName: snapshot.roomName,
+      timestamp: snapshot.timestamp,
+      type: 'energy',
+      value: snapshot.energy,
+      unit: 'kWh',
+    });
+  }
+
+  if (snapshot.fanSpeed !== undefined) {
+    readings.push({
+      hubId: snapshot.hubId,
+      deviceId: snapshot.deviceId,
+      deviceName: snapshot.deviceName,
+      roomName: snapshot.roomName,
+      timestamp: snapshot.timestamp,
+      type: 'fanSpeed',
+      value: snapshot.fanSpeed,
+      unit: '%',
+    });
+  }
+
   if (readings.length > 0) {
     await storeSensorReadings(readings);
   }
 }
 
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestResult<T>(request: IDBRequest<T>, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+
+    request.onerror = () => {
+      reject(new Error(message));
+    };
+  });
+}
+
+/**
+ * Fetch raw readings for a query, unsorted
+ */
+function fetchRawReadings(
+  database: IDBDatabase,
+  query: SensorDataQuery
+): Promise<SensorReading[]> {
+  const store = database.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME);
+  let request: IDBRequest;
+
+  // Use appropriate index based on query
+  if (query.hubId && query.deviceId) {
+    const index = store.index('hubId_deviceId_timestamp');
+    const range = IDBKeyRange.bound(
+      [query.hubId, query.deviceId, query.timeRange?.start ?? ''],
+      [query.hubId, query.deviceId, query.timeRange?.end ?? '\uffff']
+    );
+    request = index.getAll(range);
+  } else if (query.deviceId && query.timeRange) {
+    const index = store.index('deviceId_timestamp');
+    const range = IDBKeyRange.bound(
+      [query.deviceId, query.timeRange.start],
+      [query.deviceId, query.timeRange.end]
+    );
+    request = index.getAll(range);
+  } else if (query.deviceId) {
+    const index = store.index('deviceId');
+    request = index.getAll(query.deviceId);
+  } else if (query.timeRange) {
+    const index = store.index('timestamp');
+    const range = IDBKeyRange.bound(query.timeRange.start, query.timeRange.end);
+    request = index.getAll(range);
+  } else {
+    request = store.getAll();
+  }
+
+  return requestResult(request as IDBRequest<SensorReading[]>, 'Failed to query sensor readings');
+}
+
+/**
+ * Fetch rollups of a resolution for a query, unsorted
+ * Includes the period containing the start of the time range.
+ */
+async function fetchRollups(
+  database: IDBDatabase,
+  resolution: RollupResolution,
+  query: SensorDataQuery
+): Promise<SensorRollup[]> {
+  const store = database
+    .transaction([ROLLUP_STORE_NAME], 'readonly')
+    .objectStore(ROLLUP_STORE_NAME);
+  const start = query.timeRange
+    ? new Date(getBucketStart(new Date(query.timeRange.start).getTime(), resolution)).toISOString()
+    : '';
+  const end = query.timeRange?.end ?? '\uffff';
+
+  if (query.hubId && query.deviceId) {
+    const index = store.index('resolution_hubId_deviceId_timestamp');
+    const range = IDBKeyRange.bound(
+      [resolution, query.hubId, query.deviceId, start],
+      [resolution, query.hubId, query.deviceId, end]
+    );
+    return requestResult(index.getAll(range), 'Failed to query sensor rollups');
+  }
+
+  const index = store.index('resolution_timestamp');
+  const rollups: SensorRollup[] = await requestResult(
+    index.getAll(IDBKeyRange.bound([resolution, start], [resolution, end])),
+    'Failed to query sensor rollups'
+  );
+  return query.deviceId
+    ? rollups.filter((rollup) => rollup.deviceId === query.deviceId)
+    : rollups;
+}
+
+/**
+ * Timestamp of the oldest or newest record of a resolution
+ * @returns ISO timestamp, or null when there are none
+ */
+async function getEdgeTimestamp(
+  database: IDBDatabase,
+  resolution: ReadingResolution,
+  direction: 'next' | 'prev'
+): Promise<string | null> {
+  const request =
+    resolution === 'raw'
+      ? database
+          .transaction([STORE_NAME], 'readonly')
+          .objectStore(STORE_NAME)
+          .index('timestamp')
+          .openCursor(null, direction)
+      : database
+          .transaction([ROLLUP_STORE_NAME], 'readonly')
+          .objectStore(ROLLUP_STORE_NAME)
+          .index('resolution_timestamp')
+          .openCursor(IDBKeyRange.bound([resolution, ''], [resolution, '\uffff']), direction);
+  const cursor = await requestResult(request, 'Failed to read sensor history');
+  return cursor ? (cursor.value as { timestamp: string }).timestamp : null;
+}
+
+/**
+ * Hub and device of stored history
+ */
+interface StoredDevice {
+  hubId: string;
+  deviceId: string;
+}
+
+/**
+ * Index of a resolution by hub, device and timestamp, and the key prefix
+ * selecting the resolution in it
+ */
+function getDeviceIndex(
+  database: IDBDatabase,
+  resolution: ReadingResolution
+): { index: IDBIndex; prefix: string[] } {
+  return resolution === 'raw'
+    ? {
+        index: database
+          .transaction([STORE_NAME], 'readonly')
+          .objectStore(STORE_NAME)
+          .index('hubId_deviceId_timestamp'),
+        prefix: [],
+      }
+    : {
+        index: database
+          .transaction([ROLLUP_STORE_NAME], 'readonly')
+          .objectStore(ROLLUP_STORE_NAME)
+          .index('resolution_hubId_deviceId_timestamp'),
+        prefix: [resolution],
+      };
+}
+
+/**
+ * Devices with records of a resolution
+ * Jumps from one device to the next instead of reading every record.
+ */
+function listStoredDevices(
+  database: IDBDatabase,
+  resolution: ReadingResolution
+): Promise<StoredDevice[]> {
+  const { index, prefix } = getDeviceIndex(database, resolution);
+
+  return new Promise((resolve, reject) => {
+    const devices: StoredDevice[] = [];
+    const request = index.openKeyCursor(
+      IDBKeyRange.bound([...prefix, ''], [...prefix, '\uffff'])
+    );
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(devices);
+        return;
+      }
+      const [hubId, deviceId] = (cursor.key as string[]).slice(prefix.length) as [string, string];
+      devices.push({ hubId, deviceId });
+      cursor.continue([...prefix, hubId, deviceId, '\uffff']);
+    };
+
+    request.onerror = () => {
+      reject(new Error('Failed to read sensor history'));
+    };
+  });
+}
+
+/**
+ * Timestamp of the oldest or newest record of a device and resolution
+ * @param from - Only consider records at or after this time (ISO 8601 format)
+ * @returns ISO timestamp, or null when there are none
+ */
+async function getDeviceEdgeTimestamp(
+  database: IDBDatabase,
+  resolution: ReadingResolution,
+  device: StoredDevice,
+  direction: 'next' | 'prev',
+  from = ''
+): Promise<string | null> {
+  const { index, prefix } = getDeviceIndex(database, resolution);
+  const cursor = await requestResult(
+    index.openKeyCursor(
+      IDBKeyRange.bound(
+        [...prefix, device.hubId, device.deviceId, from],
+        [...prefix, device.hubId, device.deviceId, '\uffff']
+      ),
+      direction
+    ),
+    'Failed to read sensor history'
+  );
+  return cursor ? (cursor.key as string[])[prefix.length + 2]! : null;
+}
+
+/**
+ * End of the newest rollup period of a device; its readings after it have
+ * not been rolled up yet
+ * Devices are rolled up separately, so a device whose readings arrive late
+ * (e.g. after its hub was offline) does not fall behind the others.
+ * @returns Epoch milliseconds, or null when the device has no rollups
+ */
+async function getDeviceRollupWatermark(
+  database: IDBDatabase,
+  resolution: RollupResolution,
+  device: StoredDevice
+): Promise<number | null> {
+  const newest = await getDeviceEdgeTimestamp(database, resolution, device, 'prev');
+  return newest ? getBucketEnd(new Date(newest).getTime(), resolution) : null;
+}
+
+/**
+ * Fetch readings of a rollup resolution for a query, unsorted
+ * Readings newer than the newest rollup of their device are summed up on
+ * the fly, so the result reaches up to the present.
+ */
+async function fetchRolledUpReadings(
+  database: IDBDatabase,
+  resolution: RollupResolution,
+  query: SensorDataQuery
+): Promise<SensorReading[]> {
+  const [rollups, devices] = await Promise.all([
+    fetchRollups(database, resolution, query),
+    query.hubId && query.deviceId
+      ? [{ hubId: query.hubId, deviceId: query.deviceId }]
+      : listStoredDevices(database, 'raw').then((stored) =>
+          stored.filter(
+            (device) =>
+              (!query.hubId || device.hubId === query.hubId) &&
+              (!query.deviceId || device.deviceId === query.deviceId)
+          )
+        ),
+  ]);
+
+  const start = query.timeRange ? new Date(query.timeRange.start).getTime() : 0;
+  const end = query.timeRange?.end ?? '\uffff';
+  const pending = await Promise.all(
+    devices.map(async (device) => {
+      const watermark = await getDeviceRollupWatermark(database, resolution, device);
+      const pendingStart = new Date(Math.max(watermark ?? 0, start)).toISOString();
+      return pendingStart < end
+        ? fetchRawReadings(database, { ...device, timeRange: { start: pendingStart, end } })
+        : [];
+    })
+  );
+
+  return [...rollups, ...rollUp(pending.flat(), resolution)].map(rollupToReading);
+}
+
 /**
  * Query sensor readings from IndexedDB
+ * Long or old time ranges return rollups as readings: the average of each
+ * period at its start, or the latest reading of running totals such as
+ * energy, with the period's min and max. Set query.resolution to override
+ * the choice.
  * @param query - Query parameters
  * @returns Array of sensor readings matching the query
  */
@@ -208,62 +854,48 @@ export async function querySensorReadings(
 ): Promise<SensorReading[]> {
   try {
     const database = await initDatabase();
-    const transaction = database.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
+    const resolution =
+      query.resolution && query.resolution !== 'auto'
+        ? query.resolution
+        : query.timeRange
+          ? selectResolution(
+              query.timeRange,
+              query.types,
+              query.deviceId ? getDeviceKey({ hubId: query.hubId, deviceId: query.deviceId }) : undefined
+            )
+          : 'raw';
 
-    return new Promise((resolve, reject) => {
-      let request: IDBRequest;
-
-      // Use appropriate index based on query
-      if (query.deviceId && query.timeRange) {
-        const index = store.index('deviceId_timestamp');
-        const range = IDBKeyRange.bound(
-          [query.deviceId, query.timeRange.start],
-          [query.deviceId, query.timeRange.end]
-        );
-        request = index.getAll(range);
-      } else if (query.deviceId) {
-        const index = store.index('deviceId');
-        request = index.getAll(query.deviceId);
-      } else if (query.timeRange) {
-        const index = store.index('timestamp');
-        const range = IDBKeyRange.bound(query.timeRange.start, query.timeRange.end);
-        request = index.getAll(range);
-      } else {
-        request = store.getAll();
-      }
+    let results =
+      resolution === 'raw'
+        ? await fetchRawReadings(database, query)
+        : await fetchRolledUpReadings(database, resolution, query);
 
-      request.onsuccess = () => {
-        let results = request.result as SensorReading[];
+    // Apply additional filters
+    if (query.hubId && !query.deviceId) {
+      results = results.filter((reading) => reading.hubId === query.hubId);
+    }
 
-        // Apply additional filters
-        if (query.types && query.types.length > 0) {
-          results = results.filter((reading) => query.types!.includes(reading.type));
-        }
+    if (query.types && query.types.length > 0) {
+      results = results.filter((reading) => query.types!.includes(reading.type));
+    }
 
-        if (query.roomName) {
-          results = results.filter((reading) => reading.roomName === query.roomName);
-        }
-
-        // Sort by timestamp (newest first)
-        results.sort((a, b) => {
-          return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
-        });
+    if (query.roomName) {
+      results = results.filter((reading) => reading.roomName === query.roomName);
+    }
 
-        // Apply pagination
-        if (query.offset !== undefined || query.limit !== undefined) {
-          const offset = query.offset || 0;
-          const limit = query.limit || results.length;
-          results = results.slice(offset, offset + limit);
-        }
+    // Sort by timestamp (newest first)
+    results.sort((a, b) => {
+      return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+    });
 
-        resolve(results);
-      };
+    // Apply pagination
+    if (query.offset !== undefined || query.limit !== undefined) {
+      const offset = query.offset || 0;
+      const limit = query.limit || results.length;
+      results = results.slice(offset, offset + limit);
+    }
 
-      request.onerror = () => {
-        reject(new Error('Failed to query sensor readings'));
-      };
-    });
+    return results;
   } catch (error) {
     console.error('Failed to query sensor readings:', error);
     throw error;
@@ -274,14 +906,17 @@ export async function querySensorReadings(
  * Get the latest reading for a specific device and sensor type
  * @param deviceId - Device ID
  * @param type - Sensor reading type
+ * @param hubId - Hub the device belongs to (optional)
  * @returns Latest sensor reading or null if not found
  */
 export async function getLatestReading(
   deviceId: string,
-  type: SensorReadingType
+  type: SensorReadingType,
+  hubId?: string
 ): Promise<SensorReading | null> {
   try {
     const readings = await querySensorReadings({
+      hubId,
       deviceId,
       types: [type],
       limit: 1,
@@ -295,45 +930,431 @@ export async function getLatestReading(
 }
 
 /**
- * Clean up old sensor readings (older than MAX_AGE_DAYS)
- * Should be called periodically to prevent excessive storage usage
+ * Store a battery reading unless the device already has one from the same day
+ * Battery levels change slowly, so one reading per device and day is enough
+ * @param reading - Battery reading to store
+ * @returns Whether the reading was stored
  */
-export async function cleanupOldReadings(): Promise<number> {
+export async function storeDailyBatteryReading(reading: BatteryReading): Promise<boolean> {
   try {
-    const database = await initDatabase();
-    const transaction = database.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const index = store.index('timestamp');
+    const dayStart = new Date(reading.timestamp);
+    dayStart.setHours(0, 0, 0, 0);
+    const today = await querySensorReadings({
+      hubId: reading.hubId,
+      deviceId: reading.deviceId,
+      types: ['battery'],
+      timeRange: { start: dayStart.toISOString(), end: reading.timestamp },
+      limit: 1,
+    });
+    if (today.length > 0) {
+      return false;
+    }
+
+    await storeSensorReading(reading);
+    return true;
+  } catch (error) {
+    console.error('Failed to store battery reading:', error);
+    throw error;
+  }
+}
 
-    // Calculate cutoff date (30 days ago)
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - MAX_AGE_DAYS);
-    const cutoffTimestamp = cutoffDate.toISOString();
+/**
+ * Store reachability changes of devices
+ * @param changes - Reachability events to store
+ */
+export async function storeReachabilityChanges(changes: DeviceStateEvent[]): Promise<void> {
+  try {
+    const database = await initDatabase();
+    const transaction = database.transaction([REACHABILITY_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(REACHABILITY_STORE_NAME);
 
     return new Promise((resolve, reject) => {
-      let deletedCount = 0;
+      if (changes.length === 0) {
+        resolve();
+        return;
+      }
+
+      changes.forEach((change) => store.add(change));
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to store reachability changes'));
+      };
+    });
+  } catch (error) {
+    console.error('Failed to store reachability changes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Query stored reachability changes
+ * @param query - Query parameters; event types are ignored
+ * @returns Changes matching the query, oldest first
+ */
+export async function queryReachabilityChanges(
+  query: DeviceEventQuery = {}
+): Promise<DeviceStateEvent[]> {
+  try {
+    const database = await initDatabase();
+    const store = database
+      .transaction([REACHABILITY_STORE_NAME], 'readonly')
+      .objectStore(REACHABILITY_STORE_NAME);
+    let request: IDBRequest;
+
+    // Use appropriate index based on query
+    if (query.hubId && query.deviceId) {
+      const index = store.index('hubId_deviceId_timestamp');
+      const range = IDBKeyRange.bound(
+        [query.hubId, query.deviceId, query.timeRange?.start ?? ''],
+        [query.hubId, query.deviceId, query.timeRange?.end ?? '\uffff']
+      );
+      request = index.getAll(range);
+    } else if (query.deviceId) {
+      request = store.index('deviceId').getAll(query.deviceId);
+    } else if (query.timeRange) {
+      const range = IDBKeyRange.bound(query.timeRange.start, query.timeRange.end);
+      request = store.index('timestamp').getAll(range);
+    } else {
+      request = store.getAll();
+    }
+
+    let results = await requestResult(
+      request as IDBRequest<DeviceStateEvent[]>,
+      'Failed to query reachability changes'
+    );
+
+    // Apply additional filters
+    if (query.hubId && !query.deviceId) {
+      results = results.filter((change) => change.hubId === query.hubId);
+    }
+
+    if (query.deviceId && !query.hubId && query.timeRange) {
+      const { start, end } = query.timeRange;
+      results = results.filter((change) => change.timestamp >= start && change.timestamp <= end);
+    }
+
+    // Sort by timestamp (oldest first, the order spans are built in)
+    results.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    // Keep the most recent changes
+    if (query.limit !== undefined) {
+      results = results.slice(-query.limit);
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Failed to query reachability changes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the most recent stored reachability change of a device
+ * @param deviceId - Device ID
+ * @param hubId - Hub the device belongs to (optional)
+ * @returns Latest change or null if the device has none
+ */
+export async function getLastReachabilityChange(
+  deviceId: string,
+  hubId?: string
+): Promise<DeviceStateEvent | null> {
+  try {
+    const changes = await queryReachabilityChanges({ hubId, deviceId, limit: 1 });
+    return changes[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get last reachability change:', error);
+    return null;
+  }
+}
+
+/**
+ * Store rollups, replacing earlier versions of the same periods
+ */
+function putRollups(database: IDBDatabase, rollups: SensorRollup[]): Promise<void> {
+  const transaction = database.transaction([ROLLUP_STORE_NAME], 'readwrite');
+  const store = transaction.objectStore(ROLLUP_STORE_NAME);
+  rollups.forEach((rollup) => store.put(rollup));
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('Failed to store sensor rollups'));
+    };
+  });
+}
+
+/**
+ * Roll up the completed periods of a resolution from the one below it
+ * Works through one day at a time to keep memory use flat.
+ * @param start - Start of the first period, in epoch milliseconds
+ * @param devices - Only roll up these devices, or this one device (all when undefined)
+ * @returns Number of rollups written
+ */
+async function rollUpResolution(
+  database: IDBDatabase,
+  resolution: RollupResolution,
+  start: number,
+  devices?: StoredDevice[] | StoredDevice
+): Promise<number> {
+  const source = ROLLUP_SOURCES[resolution];
+  // The current period is still filling up
+  const end = getBucketStart(Date.now(), resolution);
+  let written = 0;
+
+  for (let chunkStart = getBucketStart(start, resolution); chunkStart < end; ) {
+    const chunkEnd = Math.min(
+      end,
+      resolution === '1d' ? addDays(chunkStart, 1).getTime() : chunkStart + DAY_MS
+    );
+    const from = new Date(chunkStart).toISOString();
+    const to = new Date(chunkEnd).toISOString();
+
+    let sources: (SensorReading | SensorRollup)[];
+    if (devices && !Array.isArray(devices)) {
+      const { index, prefix } = getDeviceIndex(database, source);
+      sources = await requestResult(
+        index.getAll(
+          IDBKeyRange.bound(
+            [...prefix, devices.hubId, devices.deviceId, from],
+            [...prefix, devices.hubId, devices.deviceId, to],
+            false,
+            true
+          )
+        ),
+        'Failed to read sensor history'
+      );
+    } else {
+      sources =
+        source === 'raw'
+          ? await requestResult(
+              database
+                .transaction([STORE_NAME], 'readonly')
+                .objectStore(STORE_NAME)
+                .index('timestamp')
+                .getAll(IDBKeyRange.bound(from, to, false, true)),
+              'Failed to read sensor readings'
+            )
+          : await requestResult(
+              database
+                .transaction([ROLLUP_STORE_NAME], 'readonly')
+                .objectStore(ROLLUP_STORE_NAME)
+                .index('resolution_timestamp')
+                .getAll(IDBKeyRange.bound([source, from], [source, to], false, true)),
+              'Failed to read sensor rollups'
+            );
+    }
+    if (Array.isArray(devices)) {
+      const keys = new Set(devices.map(getDeviceKey));
+      sources = sources.filter((entry) => keys.has(getDeviceKey(entry)));
+    }
+
+    const rollups = rollUp(sources, resolution);
+    if (rollups.length > 0) {
+      await putRollups(database, rollups);
+      written += rollups.length;
+    }
+    chunkStart = chunkEnd;
+  }
+
+  return written;
+}
+
+/**
+ * Roll up readings of completed periods into 5 minute, hourly and daily rollups
+ * Continues each device from its own newest rollup of each resolution, so
+ * readings stored after other devices were rolled up are not skipped, and
+ * it can be called as often as needed.
+ * @returns Number of rollups written
+ */
+export async function compactReadings(): Promise<number> {
+  try {
+    const database = await initDatabase();
+    let written = 0;
+
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      const source = ROLLUP_SOURCES[resolution];
+      for (const device of await listStoredDevices(database, source)) {
+        const watermark = await getDeviceRollupWatermark(database, resolution, device);
+        // First record the device's rollups do not cover yet
+        const pending = await getDeviceEdgeTimestamp(
+          database,
+          source,
+          device,
+          'next',
+          watermark === null ? '' : new Date(watermark).toISOString()
+        );
+        if (pending) {
+          written += await rollUpResolution(database, resolution, new Date(pending).getTime(), device);
+        }
+      }
+    }
+
+    return written;
+  } catch (error) {
+    console.error('Failed to compact sensor readings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Roll up readings of some devices again from a point in time
+ * Needed after storing readings older than the newest rollups, such as
+ * seeded history; compactReadings only rolls up newer periods.
+ * @param hubId - Hub the devices belong to
+ * @param deviceIds - Devices whose readings were stored
+ * @param since - Timestamp of the oldest stored reading (ISO 8601 format)
+ * @returns Number of rollups written
+ */
+export async function rollUpDeviceReadings(
+  hubId: string,
+  deviceIds: string[],
+  since: string
+): Promise<number> {
+  try {
+    const database = await initDatabase();
+    let written = 0;
+
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      written += await rollUpResolution(
+        database,
+        resolution,
+        new Date(since).getTime(),
+        deviceIds.map((deviceId) => ({ hubId, deviceId }))
+      );
+    }
+
+    return written;
+  } catch (error) {
+    console.error('Failed to roll up device readings:', error);
+    throw error;
+  }
+}
 
-      // Get all readings older than cutoff
-      const range = IDBKeyRange.upperBound(cutoffTimestamp);
-      const request = index.openCursor(range);
+/**
+ * Delete the expired entries of an index range
+ * @returns Number of deleted entries
+ */
+function deleteExpired<T>(
+  index: IDBIndex,
+  range: IDBKeyRange,
+  isExpired: (entry: T) => boolean
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let deletedCount = 0;
+    const request = index.openCursor(range);
 
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+    request.onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
 
-        if (cursor) {
+      if (cursor) {
+        if (isExpired(cursor.value as T)) {
           cursor.delete();
           deletedCount++;
-          cursor.continue();
-        } else {
-          // No more entries
-          resolve(deletedCount);
         }
-      };
+        cursor.continue();
+      } else {
+        // No more entries
+        resolve(deletedCount);
+      }
+    };
 
-      request.onerror = () => {
-        reject(new Error('Failed to cleanup old readings'));
-      };
-    });
+    request.onerror = () => {
+      reject(new Error('Failed to cleanup old readings'));
+    };
+  });
+}
+
+/**
+ * Clean up readings, rollups and reachability changes older than their retention
+ * Rolls up pending readings first, so raw readings are only deleted once
+ * they are summed up in rollups. Retention comes from the settings, per
+ * metric and per device. Should be called periodically to prevent
+ * excessive storage usage.
+ * @returns Number of deleted readings, rollups and reachability changes
+ */
+export async function cleanupOldReadings(): Promise<number> {
+  try {
+    await compactReadings();
+
+    const database = await initDatabase();
+    const transaction = database.transaction(
+      [STORE_NAME, ROLLUP_STORE_NAME, REACHABILITY_STORE_NAME],
+      'readwrite'
+    );
+    const readings = transaction.objectStore(STORE_NAME).index('type_timestamp');
+    const rollups = transaction.objectStore(ROLLUP_STORE_NAME).index('resolution_type_timestamp');
+    const reachability = transaction.objectStore(REACHABILITY_STORE_NAME).index('timestamp');
+    const settings = getRetentionSettings();
+    const now = Date.now();
+    const cutoff = (days: number) => new Date(now - days * DAY_MS).toISOString();
+    // Reachability changes are kept as long as the longest kept history of their device
+    const longestRetention = (deviceKey?: string) =>
+      Math.max(
+        ...READING_TYPES.flatMap((type) =>
+          Object.values(resolveRetentionPolicy(settings, type, deviceKey))
+        )
+      );
+
+    const deleted = await Promise.all([
+      deleteExpired<DeviceStateEvent>(
+        reachability,
+        IDBKeyRange.upperBound(
+          cutoff(
+            Math.min(longestRetention(), ...Object.keys(settings.devices).map(longestRetention))
+          )
+        ),
+        (change) => change.timestamp < cutoff(longestRetention(getDeviceKey(change)))
+      ),
+      ...READING_TYPES.flatMap((type) => {
+        const policies = new Map<string, RetentionPolicy>();
+        const isExpired = (
+          entry: SensorReading | SensorRollup,
+          resolution: ReadingResolution
+        ) => {
+          const key = getDeviceKey(entry);
+          let policy = policies.get(key);
+          if (!policy) {
+            policy = resolveRetentionPolicy(settings, type, key);
+            policies.set(key, policy);
+          }
+          return entry.timestamp < cutoff(policy[resolution]);
+        };
+        // Nothing newer than the shortest retention of any device can expire
+        const candidates = [
+          resolveRetentionPolicy(settings, type),
+          ...Object.keys(settings.devices).map((key) => resolveRetentionPolicy(settings, type, key)),
+        ];
+        const latestCutoff = (resolution: ReadingResolution) =>
+          cutoff(Math.min(...candidates.map((policy) => policy[resolution])));
+
+        return [
+          deleteExpired<SensorReading>(
+            readings,
+            IDBKeyRange.bound([type, ''], [type, latestCutoff('raw')]),
+            (reading) => isExpired(reading, 'raw')
+          ),
+          ...ROLLUP_RESOLUTIONS.map((resolution) =>
+            deleteExpired<SensorRollup>(
+              rollups,
+              IDBKeyRange.bound(
+                [resolution, type, ''],
+                [resolution, type, latestCutoff(resolution)]
+              ),
+              (rollup) => isExpired(rollup, resolution)
+            )
+          ),
+        ];
+      }),
+    ]);
+
+    return deleted.reduce((sum, count) => sum + count, 0);
   } catch (error) {
     console.error('Failed to cleanup old readings:', error);
     throw error;
@@ -341,23 +1362,26 @@ export async function cleanupOldReadings(): Promise<number> {
 }
 
 /**
- * Clear all sensor readings from the database
+ * Clear all sensor readings, rollups and reachability changes from the database
  * USE WITH CAUTION - This deletes all historical data
  */
 export async function clearAllReadings(): Promise<void> {
   try {
     const database = await initDatabase();
-    const transaction = database.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
+    const transaction = database.transaction(
+      [STORE_NAME, ROLLUP_STORE_NAME, REACHABILITY_STORE_NAME],
+      'readwrite'
+    );
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(ROLLUP_STORE_NAME).clear();
+    transaction.objectStore(REACHABILITY_STORE_NAME).clear();
 
     return new Promise((resolve, reject) => {
-      const request = store.clear();
-
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         resolve();
       };
 
-      request.onerror = () => {
+      transaction.onerror = () => {
         reject(new Error('Failed to clear all readings'));
       };
     });
@@ -368,72 +1392,147 @@ export async function clearAllReadings(): Promise<void> {
 }
 
 /**
- * Get storage statistics
- * @returns Storage statistics including total count and date range
+ * Delete all readings, rollups and reachability changes of the given devices
+ * Device IDs are only unique per hub, so other hubs' devices are left alone.
+ * @param hubId - Hub the devices belong to
+ * @param deviceIds - IDs of the devices whose history should be removed
+ * @returns Number of deleted readings, rollups and reachability changes
  */
-export async function getStorageStats(): Promise<{
-  totalCount: number;
-  oldestTimestamp: string | null;
-  newestTimestamp: string | null;
-  deviceCount: number;
-}> {
+export async function deleteDeviceReadings(hubId: string, deviceIds: string[]): Promise<number> {
   try {
     const database = await initDatabase();
-    const transaction = database.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
+    const transaction = database.transaction(
+      [STORE_NAME, ROLLUP_STORE_NAME, REACHABILITY_STORE_NAME],
+      'readwrite'
+    );
+    const readings = transaction.objectStore(STORE_NAME).index('hubId_deviceId_timestamp');
+    const rollups = transaction
+      .objectStore(ROLLUP_STORE_NAME)
+      .index('resolution_hubId_deviceId_timestamp');
+    const reachability = transaction
+      .objectStore(REACHABILITY_STORE_NAME)
+      .index('hubId_deviceId_timestamp');
+    const deviceRange = (prefix: string[], deviceId: string) =>
+      IDBKeyRange.bound([...prefix, hubId, deviceId, ''], [...prefix, hubId, deviceId, '\uffff']);
 
     return new Promise((resolve, reject) => {
-      const countRequest = store.count();
-      const getAllRequest = store.getAll();
+      let deletedCount = 0;
 
-      let totalCount = 0;
-      let allReadings: SensorReading[] = [];
+      deviceIds.forEach((deviceId) => {
+        const targets: [IDBIndex, IDBKeyRange][] = [
+          [readings, deviceRange([], deviceId)],
+          ...ROLLUP_RESOLUTIONS.map((resolution): [IDBIndex, IDBKeyRange] => [
+            rollups,
+            deviceRange([resolution], deviceId),
+          ]),
+          [reachability, deviceRange([], deviceId)],
+        ];
 
-      countRequest.onsuccess = () => {
-        totalCount = countRequest.result;
+        targets.forEach(([index, range]) => {
+          const request = index.openCursor(range);
+
+          request.onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+            if (cursor) {
+              cursor.delete();
+              deletedCount++;
+              cursor.continue();
+            }
+          };
+        });
+      });
+
+      transaction.oncomplete = () => {
+        resolve(deletedCount);
       };
 
-      getAllRequest.onsuccess = () => {
-        allReadings = getAllRequest.result as SensorReading[];
-
-        if (allReadings.length === 0) {
-          resolve({
-            totalCount: 0,
-            oldestTimestamp: null,
-            newestTimestamp: null,
-            deviceCount: 0,
-          });
-          return;
-        }
+      transaction.onerror = () => {
+        reject(new Error('Failed to delete device readings'));
+      };
+    });
+  } catch (error) {
+    console.error('Failed to delete device readings:', error);
+    throw error;
+  }
+}
 
-        // Sort by timestamp
-        allReadings.sort((a, b) => {
-          return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
-        });
+/**
+ * IDs of the devices with entries in a store
+ */
+function getStoredDeviceIds(index: IDBIndex): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const deviceIds: string[] = [];
+    const request = index.openKeyCursor(null, 'nextunique');
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        deviceIds.push(cursor.key as string);
+        cursor.continue();
+      } else {
+        resolve(deviceIds);
+      }
+    };
 
-        const oldestTimestamp = allReadings[0]?.timestamp || new Date().toISOString();
-        const newestTimestamp = allReadings[allReadings.length - 1]?.timestamp || new Date().toISOString();
+    request.onerror = () => {
+      reject(new Error('Failed to get storage stats'));
+    };
+  });
+}
 
-        // Count unique devices
-        const deviceIds = new Set(allReadings.map((r) => r.deviceId));
-        const deviceCount = deviceIds.size;
+/**
+ * Get storage statistics
+ * @returns Storage statistics including raw reading and rollup counts and date range
+ */
+export async function getStorageStats(): Promise<{
+  totalCount: number;
+  rollupCounts: Record<RollupResolution, number>;
+  oldestTimestamp: string | null;
+  newestTimestamp: string | null;
+  deviceCount: number;
+}> {
+  try {
+    const database = await initDatabase();
+    const transaction = database.transaction([STORE_NAME, ROLLUP_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const rollups = transaction.objectStore(ROLLUP_STORE_NAME);
 
-        resolve({
-          totalCount,
-          oldestTimestamp,
-          newestTimestamp,
-          deviceCount,
-        });
-      };
+    const [totalCount, rollupCounts, readingDevices, rollupDevices] = await Promise.all([
+      requestResult(store.count(), 'Failed to get storage stats'),
+      Promise.all(
+        ROLLUP_RESOLUTIONS.map((resolution) =>
+          requestResult(
+            rollups
+              .index('resolution_timestamp')
+              .count(IDBKeyRange.bound([resolution, ''], [resolution, '\uffff'])),
+            'Failed to get storage stats'
+          )
+        )
+      ),
+      getStoredDeviceIds(store.index('deviceId')),
+      getStoredDeviceIds(rollups.index('deviceId')),
+    ]);
 
-      countRequest.onerror = () => {
-        reject(new Error('Failed to get storage stats'));
-      };
+    // The coarsest rollups reach back furthest; raw readings are the newest
+    const [oldest, newestTimestamp] = await Promise.all([
+      Promise.all(
+        READING_RESOLUTIONS.map((resolution) => getEdgeTimestamp(database, resolution, 'next'))
+      ),
+      getEdgeTimestamp(database, 'raw', 'prev'),
+    ]);
+    const oldestTimestamps = oldest.filter((timestamp): timestamp is string => timestamp !== null);
 
-      getAllRequest.onerror = () => {
-        reject(new Error('Failed to get storage stats'));
-      };
-    });
+    return {
+      totalCount,
+      rollupCounts: {
+        '5m': rollupCounts[0] ?? 0,
+        '1h': rollupCounts[1] ?? 0,
+        '1d': rollupCounts[2] ?? 0,
+      },
+      oldestTimestamp: oldestTimestamps.length > 0 ? oldestTimestamps.sort()[0]! : null,
+      newestTimestamp,
+      deviceCount: new Set([...readingDevices, ...rollupDevices]).size,
+    };
   } catch (error) {
     console.error('Failed to get storage stats:', error);
     throw error;
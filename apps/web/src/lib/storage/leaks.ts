@@ -0,0 +1,224 @@
+/**
+ * Water leak incident log
+ *
+ * Every time a water leak sensor reports water an incident is opened. The
+ * incident records when the leak started, when someone acknowledged the
+ * alarm and when the sensor reported dry again; it stays on the alarm
+ * banner until it is acknowledged and has ended, or is cleared by hand
+ * after it ended. The log is kept in localStorage so the record survives
+ * reloads, and changes are pushed to subscribers (see useLeakAlarms).
+ */
+
+import type { DirigeeraDevice } from '@zigbee-visualizer/shared-types';
+
+const LEAK_INCIDENTS_KEY = 'dirigera_leak_incidents';
+
+/**
+ * Most incidents kept in the log; the oldest closed incidents are dropped first
+ */
+const MAX_INCIDENTS = 200;
+
+/**
+ * One leak, from the first report of water until it is dealt with
+ */
+export interface LeakIncident {
+  /** Unique incident ID */
+  id: string;
+  /** Hub the sensor belongs to */
+  hubId?: string;
+  /** Sensor that reported the leak */
+  deviceId: string;
+  /** Sensor name when the leak started */
+  deviceName: string;
+  /** Room of the sensor when the leak started */
+  roomName?: string;
+  /** When water was first reported (ISO 8601) */
+  startedAt: string;
+  /** When the alarm was acknowledged (ISO 8601) */
+  acknowledgedAt?: string;
+  /** When the sensor reported dry again (ISO 8601) */
+  endedAt?: string;
+  /** When the incident was cleared from the alarm banner (ISO 8601) */
+  clearedAt?: string;
+}
+
+/**
+ * Stage of an incident in the acknowledge/clear workflow
+ * - alarm: water reported, nobody has acknowledged it
+ * - acknowledged: water still reported, someone is on it
+ * - ended: dry again, waiting to be cleared
+ * - closed: dealt with; only kept in the log
+ */
+export type LeakIncidentStatus = 'alarm' | 'acknowledged' | 'ended' | 'closed';
+
+const listeners = new Set<() => void>();
+let snapshot: LeakIncident[] | null = null;
+
+/**
+ * Read the incident log from localStorage
+ */
+function readIncidents(): LeakIncident[] {
+  try {
+    const stored = localStorage.getItem(LEAK_INCIDENTS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? (parsed as LeakIncident[]) : [];
+  } catch (error) {
+    console.error('Failed to read leak incidents:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the incident log and notify subscribers
+ */
+function writeIncidents(incidents: LeakIncident[]): void {
+  const open = incidents.filter((incident) => getLeakIncidentStatus(incident) !== 'closed');
+  const closed = incidents.filter((incident) => getLeakIncidentStatus(incident) === 'closed');
+  const kept = [...open, ...closed.slice(-Math.max(0, MAX_INCIDENTS - open.length))].sort((a, b) =>
+    a.startedAt.localeCompare(b.startedAt)
+  );
+
+  snapshot = kept;
+  try {
+    localStorage.setItem(LEAK_INCIDENTS_KEY, JSON.stringify(kept));
+  } catch (error) {
+    console.error('Failed to save leak incidents:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Update one incident by ID
+ */
+function updateIncident(id: string, update: (incident: LeakIncident) => LeakIncident): void {
+  const incidents = getLeakIncidents();
+  if (!incidents.some((incident) => incident.id === id)) {
+    throw new Error(`Leak incident ${id} not found`);
+  }
+  writeIncidents(incidents.map((incident) => (incident.id === id ? update(incident) : incident)));
+}
+
+/**
+ * Get the stage of an incident
+ */
+export function getLeakIncidentStatus(incident: LeakIncident): LeakIncidentStatus {
+  if (!incident.endedAt) {
+    return incident.acknowledgedAt ? 'acknowledged' : 'alarm';
+  }
+  return incident.clearedAt || incident.acknowledgedAt ? 'closed' : 'ended';
+}
+
+/**
+ * Get all incidents, oldest first
+ * The same array is returned until the log changes
+ */
+export function getLeakIncidents(): LeakIncident[] {
+  if (!snapshot) {
+    snapshot = readIncidents();
+  }
+  return snapshot;
+}
+
+/**
+ * Subscribe to changes of the incident log
+ * @returns Unsubscribe function
+ */
+export function subscribeToLeakIncidents(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Open and end incidents from the current state of the water leak sensors
+ * A sensor reporting water without an open incident opens one; an open
+ * incident ends when its sensor reports dry. Unreachable sensors are left
+ * alone, since their last reported state may be stale.
+ * @param devices - Devices as just received; other device families are ignored
+ * @param timestamp - When the states were observed (ISO 8601 format)
+ * @returns Incidents opened by this update
+ */
+export function syncLeakIncidents(
+  devices: DirigeeraDevice[],
+  timestamp: string = new Date().toISOString()
+): LeakIncident[] {
+  const incidents = getLeakIncidents();
+  const opened: LeakIncident[] = [];
+  let changed = false;
+
+  const next = incidents.map((incident) => {
+    if (incident.endedAt) {
+      return incident;
+    }
+    const device = devices.find(
+      (candidate) => candidate.id === incident.deviceId && candidate.hubId === incident.hubId
+    );
+    if (device?.type === 'water_sensor' && device.isReachable && !device.attributes.waterLeakDetected) {
+      changed = true;
+      return { ...incident, endedAt: timestamp };
+    }
+    return incident;
+  });
+
+  for (const device of devices) {
+    if (device.type !== 'water_sensor' || !device.attributes.waterLeakDetected) {
+      continue;
+    }
+    const hasOpenIncident = next.some(
+      (incident) => incident.deviceId === device.id && incident.hubId === device.hubId && !incident.endedAt
+    );
+    if (!hasOpenIncident) {
+      const incident: LeakIncident = {
+        id: `${device.hubId ?? 'hub'}:${device.id}:${timestamp}`,
+        hubId: device.hubId,
+        deviceId: device.id,
+        deviceName: device.customName || device.id,
+        roomName: device.room?.name,
+        startedAt: timestamp,
+      };
+      next.push(incident);
+      opened.push(incident);
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    writeIncidents(next);
+  }
+  return opened;
+}
+
+/**
+ * Acknowledge the alarm of an incident
+ * An acknowledged incident leaves the alarm banner once the leak has ended
+ * @param id - Incident ID
+ */
+export function acknowledgeLeakIncident(id: string): void {
+  updateIncident(id, (incident) => ({
+    ...incident,
+    acknowledgedAt: incident.acknowledgedAt ?? new Date().toISOString(),
+  }));
+}
+
+/**
+ * Clear an incident that has ended from the alarm banner
+ * @param id - Incident ID
+ * @throws Error if the sensor still reports water
+ */
+export function clearLeakIncident(id: string): void {
+  updateIncident(id, (incident) => {
+    if (!incident.endedAt) {
+      throw new Error('A leak can only be cleared once the sensor reports dry');
+    }
+    return { ...incident, clearedAt: new Date().toISOString() };
+  });
+}
+
+/**
+ * Remove closed incidents from the log
+ * Incidents still on the alarm banner are kept
+ */
+export function clearClosedLeakIncidents(): void {
+  writeIncidents(getLeakIncidents().filter((incident) => getLeakIncidentStatus(incident) !== 'closed'));
+}
@@ -0,0 +1,94 @@
+/**
+ * Scheduled cleanup of the stored history
+ *
+ * Rolls up and deletes sensor readings and device events according to the
+ * retention settings (see ./config.ts), every cleanupIntervalHours while
+ * the app is open on any page. The time of the last cleanup is kept in
+ * localStorage, so reloading the app does not clean up again right away.
+ */
+
+import { getLastCleanup, getRetentionSettings, saveLastCleanup } from './config';
+import { cleanupOldEvents } from './events';
+import { cleanupOldReadings } from './history';
+
+/**
+ * How often the schedule checks whether a cleanup is due
+ */
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Outcome of a cleanup
+ */
+export interface CleanupResult {
+  /** Deleted sensor readings and rollups */
+  readings: number;
+  /** Deleted device events */
+  events: number;
+  /** When the cleanup finished (ISO 8601 format) */
+  timestamp: string;
+}
+
+/**
+ * Cleanup in progress; a second caller waits for it instead of starting another
+ */
+let running: Promise<CleanupResult> | null = null;
+
+/**
+ * Clean up readings and events older than their retention now
+ * @returns Number of deleted readings and events
+ */
+export function runCleanup(): Promise<CleanupResult> {
+  if (!running) {
+    running = (async () => {
+      try {
+        const readings = await cleanupOldReadings();
+        const events = await cleanupOldEvents();
+        const timestamp = new Date().toISOString();
+        saveLastCleanup(timestamp);
+        return { readings, events, timestamp };
+      } catch (error) {
+        console.error('Failed to clean up history:', error);
+        throw error;
+      } finally {
+        running = null;
+      }
+    })();
+  }
+  return running;
+}
+
+/**
+ * Whether the cleanup interval has passed since the last cleanup
+ */
+export function isCleanupDue(): boolean {
+  const lastCleanup = getLastCleanup();
+  if (!lastCleanup) {
+    return true;
+  }
+  const intervalMs = getRetentionSettings().cleanupIntervalHours * 60 * 60 * 1000;
+  return Date.now() - new Date(lastCleanup).getTime() >= intervalMs;
+}
+
+/**
+ * Clean up whenever the cleanup interval has passed, until stopped
+ * @returns Function that stops the schedule
+ */
+export function startCleanupSchedule(): () => void {
+  const check = () => {
+    if (isCleanupDue()) {
+      runCleanup()
+        .then((result) => {
+          console.log(
+            `Cleaned up ${result.readings} old sensor readings and ${result.events} old device events`
+          );
+        })
+        .catch(() => {
+          // Logged by runCleanup; tried again at the next check
+        });
+    }
+  };
+
+  check();
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
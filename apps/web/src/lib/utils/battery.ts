@@ -0,0 +1,104 @@
+/**
+ * Battery utilities
+ *
+ * Battery status thresholds and a replacement date projected from the
+ * daily battery readings: a straight line is fitted through the readings
+ * since the battery was last replaced and extended to empty.
+ */
+
+import type { DirigeeraDevice, SensorReading } from '@zigbee-visualizer/shared-types';
+
+/**
+ * Battery level below which a device is shown as low, in percent
+ */
+export const LOW_BATTERY_PERCENT = 20;
+
+/**
+ * Battery level below which a device is shown as critical, in percent
+ */
+export const CRITICAL_BATTERY_PERCENT = 10;
+
+/**
+ * Rise between two readings that means the battery was replaced, in percent
+ */
+const REPLACEMENT_JUMP_PERCENT = 10;
+
+/**
+ * Shortest span of readings a projection is based on
+ */
+const MIN_PROJECTION_SPAN_MS = 2 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Battery status shown on cards and the Batteries page
+ */
+export type BatteryStatus = 'ok' | 'low' | 'critical';
+
+/**
+ * Get the status of a battery level
+ */
+export function getBatteryStatus(level: number): BatteryStatus {
+  if (level < CRITICAL_BATTERY_PERCENT) {
+    return 'critical';
+  }
+  if (level < LOW_BATTERY_PERCENT) {
+    return 'low';
+  }
+  return 'ok';
+}
+
+/**
+ * Get the battery level of a device
+ * @returns Level in percent, or undefined for devices without a battery
+ */
+export function getBatteryLevel(device: DirigeeraDevice): number | undefined {
+  const { batteryPercentage } = device.attributes;
+  return typeof batteryPercentage === 'number' ? batteryPercentage : undefined;
+}
+
+/**
+ * Project when a battery runs empty from its readings
+ * Only readings since the last replacement are used. Needs readings that
+ * span at least two days and a falling level.
+ * @param readings - Battery readings of one device, in any order
+ * @returns Projected date, or null if there is no discharge trend yet
+ */
+export function projectBatteryEmptyDate(readings: SensorReading[]): Date | null {
+  const sorted = readings
+    .filter((reading) => reading.type === 'battery')
+    .map((reading) => ({ time: new Date(reading.timestamp).getTime(), level: reading.value }))
+    .sort((a, b) => a.time - b.time);
+
+  // Start after the last replacement
+  let start = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i]!.level - sorted[i - 1]!.level >= REPLACEMENT_JUMP_PERCENT) {
+      start = i;
+    }
+  }
+  const points = sorted.slice(start);
+  if (points.length < 2 || points[points.length - 1]!.time - points[0]!.time < MIN_PROJECTION_SPAN_MS) {
+    return null;
+  }
+
+  // Least squares fit of level over days since the first point
+  const origin = points[0]!.time;
+  const xs = points.map((point) => (point.time - origin) / DAY_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = points.reduce((sum, point) => sum + point.level, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (points[i]!.level - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+  if (slope >= 0) {
+    return null;
+  }
+
+  const intercept = meanY - slope * meanX;
+  const emptyInDays = -intercept / slope;
+  return new Date(origin + emptyInDays * DAY_MS);
+}
@@ -0,0 +1,21 @@
+/**
+ * Device key utilities
+ *
+ * Device IDs are only unique per hub, so history, charts and settings that
+ * span hubs identify a device by its hub and device ID together.
+ */
+
+/**
+ * Key identifying a device across hubs
+ */
+export function getDeviceKey(reading: { hubId?: string; deviceId: string }): string {
+  return `${reading.hubId ?? ''}:${reading.deviceId}`;
+}
+
+/**
+ * Split a key from getDeviceKey into hub and device ID
+ */
+export function parseDeviceKey(key: string): { hubId?: string; deviceId: string } {
+  const separator = key.indexOf(':');
+  return { hubId: key.slice(0, separator) || undefined, deviceId: key.slice(separator + 1) };
+}
@@ -0,0 +1,219 @@
+/**
+ * Energy consumption utilities
+ *
+ * Turns the power and energy readings of energy monitoring outlets into
+ * consumption per day or month. Energy readings are the outlet's running
+ * meter total, so consumption is the difference between two readings; for
+ * outlets that only report power, the power readings are integrated over
+ * time instead. Rolled up power readings count their average over the
+ * whole rollup period.
+ */
+
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  startOfDay,
+  startOfMonth,
+} from 'date-fns';
+import type { OutletDevice, SensorReading } from '@zigbee-visualizer/shared-types';
+import type { EnergyTariff } from '../storage/config';
+import { getDeviceKey } from './devices';
+
+/**
+ * Days of daily consumption the Energy page shows; it needs the raw power
+ * and energy readings of all of them
+ */
+export const DAILY_CONSUMPTION_DAYS = 30;
+
+/**
+ * Length of a bucket of consumption
+ */
+export type ConsumptionPeriod = 'day' | 'month';
+
+/**
+ * Consumption within one day or month
+ */
+export interface ConsumptionBucket {
+  /** Start of the day or month (ISO 8601 format) */
+  start: string;
+  /** Total consumption of all outlets in kWh */
+  kwh: number;
+  /** Consumption per outlet in kWh, keyed by `${hubId}:${deviceId}` */
+  byDevice: Record<string, number>;
+}
+
+/**
+ * Longest gap between two power readings that is still integrated
+ * Readings are only stored while the app is open; power across longer gaps
+ * is unknown
+ */
+const MAX_POWER_GAP_MS = 10 * 60 * 1000;
+
+const HOUR_MS = 3600000;
+
+/**
+ * Whether an outlet reports power or energy
+ */
+export function isEnergyMonitoringOutlet(device: OutletDevice): boolean {
+  return (
+    typeof device.attributes.currentActivePower === 'number' ||
+    typeof device.attributes.totalEnergyConsumed === 'number'
+  );
+}
+
+/**
+ * A slice of consumption at a point in time
+ */
+interface ConsumptionSlice {
+  deviceKey: string;
+  time: Date;
+  kwh: number;
+}
+
+/**
+ * Consumption between consecutive energy meter readings of one device
+ * A lower value than the previous one means the meter was reset; the new
+ * value is then what was consumed since the reset
+ */
+function sliceEnergyReadings(deviceKey: string, readings: SensorReading[]): ConsumptionSlice[] {
+  const slices: ConsumptionSlice[] = [];
+  for (let i = 1; i < readings.length; i++) {
+    const previous = readings[i - 1]!;
+    const current = readings[i]!;
+    const kwh = current.value >= previous.value ? current.value - previous.value : current.value;
+    if (kwh > 0) {
+      slices.push({ deviceKey, time: new Date(current.timestamp), kwh });
+    }
+  }
+  return slices;
+}
+
+/**
+ * Length of the rollup period a reading stands for, in milliseconds
+ */
+function getRollupPeriodMs(
+  timestamp: string,
+  resolution: NonNullable<SensorReading['resolution']>
+): number {
+  const start = new Date(timestamp);
+  const end =
+    resolution === '5m'
+      ? addMinutes(start, 5)
+      : resolution === '1h'
+        ? addHours(start, 1)
+        : addDays(start, 1);
+  return end.getTime() - start.getTime();
+}
+
+/**
+ * Consumption between consecutive power readings of one device
+ * Uses the average of both readings over the time between them; a rolled
+ * up reading is its average over its period
+ */
+function slicePowerReadings(deviceKey: string, readings: SensorReading[]): ConsumptionSlice[] {
+  const slices: ConsumptionSlice[] = [];
+  for (let i = 0; i < readings.length; i++) {
+    const current = readings[i]!;
+    const time = new Date(current.timestamp);
+    if (current.resolution) {
+      const periodMs = getRollupPeriodMs(current.timestamp, current.resolution);
+      const kwh = (current.value / 1000) * (periodMs / HOUR_MS);
+      if (kwh > 0) {
+        slices.push({ deviceKey, time, kwh });
+      }
+      continue;
+    }
+
+    const previous = readings[i - 1];
+    if (!previous || previous.resolution) {
+      continue;
+    }
+    const elapsed = time.getTime() - new Date(previous.timestamp).getTime();
+    if (elapsed <= 0 || elapsed > MAX_POWER_GAP_MS) {
+      continue;
+    }
+    const kwh = ((previous.value + current.value) / 2 / 1000) * (elapsed / HOUR_MS);
+    if (kwh > 0) {
+      slices.push({ deviceKey, time, kwh });
+    }
+  }
+  return slices;
+}
+
+/**
+ * Compute consumption per day or month
+ * Devices with energy readings use them; power readings are only used for
+ * devices without any. Consumption between two readings is counted in the
+ * bucket of the later reading.
+ * @param readings - Power and energy readings (other types are ignored)
+ * @param period - Bucket length
+ * @param range - Buckets to return; every day or month in the range is included, empty or not
+ * @returns Buckets in chronological order
+ */
+export function computeConsumption(
+  readings: SensorReading[],
+  period: ConsumptionPeriod,
+  range: { start: Date; end: Date }
+): ConsumptionBucket[] {
+  const startOfPeriod = period === 'day' ? startOfDay : startOfMonth;
+  const periodStarts = period === 'day'
+    ? eachDayOfInterval(range)
+    : eachMonthOfInterval(range);
+
+  const buckets = new Map<number, ConsumptionBucket>(
+    periodStarts.map((start) => [
+      startOfPeriod(start).getTime(),
+      { start: startOfPeriod(start).toISOString(), kwh: 0, byDevice: {} },
+    ])
+  );
+
+  // Group by device and type, oldest first
+  const energyByDevice = new Map<string, SensorReading[]>();
+  const powerByDevice = new Map<string, SensorReading[]>();
+  for (const reading of readings) {
+    const target = reading.type === 'energy'
+      ? energyByDevice
+      : reading.type === 'power' ? powerByDevice : undefined;
+    if (!target) {
+      continue;
+    }
+    const key = getDeviceKey(reading);
+    const list = target.get(key) ?? [];
+    list.push(reading);
+    target.set(key, list);
+  }
+
+  const byTime = (a: SensorReading, b: SensorReading) => a.timestamp.localeCompare(b.timestamp);
+  const slices: ConsumptionSlice[] = [];
+  for (const [deviceKey, list] of energyByDevice) {
+    slices.push(...sliceEnergyReadings(deviceKey, list.sort(byTime)));
+  }
+  for (const [deviceKey, list] of powerByDevice) {
+    if (!energyByDevice.has(deviceKey)) {
+      slices.push(...slicePowerReadings(deviceKey, list.sort(byTime)));
+    }
+  }
+
+  for (const slice of slices) {
+    const bucket = buckets.get(startOfPeriod(slice.time).getTime());
+    if (bucket) {
+      bucket.kwh += slice.kwh;
+      bucket.byDevice[slice.deviceKey] = (bucket.byDevice[slice.deviceKey] ?? 0) + slice.kwh;
+    }
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * Estimate the cost of an amount of energy
+ * @param kwh - Energy in kWh
+ * @param tariff - Price per kWh
+ * @returns Cost in the tariff's currency
+ */
+export function estimateCost(kwh: number, tariff: EnergyTariff): number {
+  return kwh * tariff.pricePerKwh;
+}
@@ -0,0 +1,223 @@
+/**
+ * Device event utilities
+ *
+ * Turns the state changes of motion and door/window sensors into spans of
+ * activity (occupancy, door open) and per-day counts and durations for the
+ * event timeline. Reachability changes, recorded for every device, become
+ * spans of time offline the same way, and from those uptime percentages.
+ */
+
+import { eachDayOfInterval, endOfDay, startOfDay } from 'date-fns';
+import type {
+  DeviceEventType,
+  DeviceStateEvent,
+  DirigeeraDevice,
+} from '@zigbee-visualizer/shared-types';
+
+/**
+ * Labels of each event type, for the active and inactive state
+ */
+export const EVENT_STATE_LABELS: Record<DeviceEventType, { active: string; inactive: string }> = {
+  motion: { active: 'Motion detected', inactive: 'Motion cleared' },
+  contact: { active: 'Opened', inactive: 'Closed' },
+  reachability: { active: 'Went offline', inactive: 'Back online' },
+};
+
+/**
+ * Label of an event type's active spans, e.g. in "3 occupancy spans"
+ */
+export const EVENT_SPAN_LABELS: Record<DeviceEventType, string> = {
+  motion: 'Occupancy',
+  contact: 'Open',
+  reachability: 'Offline',
+};
+
+/**
+ * Period during which a device was active: motion detected, door open or
+ * device offline
+ */
+export interface ActivitySpan {
+  start: Date;
+  end: Date;
+  /** Still active at the end of the range */
+  ongoing: boolean;
+}
+
+/**
+ * Activity of one day
+ */
+export interface DailyActivity {
+  /** Start of the day */
+  date: Date;
+  /** Activity spans that started on this day */
+  count: number;
+  /** Time active on this day in milliseconds, spans clipped to the day */
+  activeMs: number;
+}
+
+/**
+ * Periods uptime is reported over, ending now
+ */
+export type UptimePeriod = '24h' | '7d' | '30d';
+
+/**
+ * Length of each uptime period in milliseconds
+ */
+export const UPTIME_PERIOD_MS: Record<UptimePeriod, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Event type of an event-based device's own state
+ * @returns Event type, or undefined for devices that are sampled instead
+ */
+export function getDeviceEventType(device: DirigeeraDevice): DeviceEventType | undefined {
+  switch (device.type) {
+    case 'motion_sensor':
+      return 'motion';
+    case 'open_close_sensor':
+      return 'contact';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the events describing the current state of a device
+ * Every device gets a reachability event; motion and door/window sensors
+ * also get an event for their own state.
+ * @param device - Device
+ * @param timestamp - When the state was observed (ISO 8601 format)
+ * @returns Events, reachability last
+ */
+export function toDeviceStateEvents(device: DirigeeraDevice, timestamp: string): DeviceStateEvent[] {
+  const base = {
+    hubId: device.hubId,
+    deviceId: device.id,
+    deviceName: device.customName || device.id,
+    roomName: device.room?.name,
+    timestamp,
+  };
+  const events: DeviceStateEvent[] = [];
+
+  const type = getDeviceEventType(device);
+  let active: boolean | undefined;
+  if (device.type === 'motion_sensor') {
+    active = device.attributes.isDetected;
+  } else if (device.type === 'open_close_sensor') {
+    active = device.attributes.isOpen;
+  }
+  if (type && typeof active === 'boolean') {
+    events.push({ ...base, type, active });
+  }
+
+  if (typeof device.isReachable === 'boolean') {
+    events.push({ ...base, type: 'reachability', active: !device.isReachable });
+  }
+  return events;
+}
+
+/**
+ * Build the event for the own state of a motion or door/window sensor
+ * @param device - Device
+ * @param timestamp - When the state was observed (ISO 8601 format)
+ * @returns Event, or undefined for devices that are not event-based
+ */
+export function toDeviceStateEvent(
+  device: DirigeeraDevice,
+  timestamp: string
+): DeviceStateEvent | undefined {
+  return toDeviceStateEvents(device, timestamp).find((event) => event.type !== 'reachability');
+}
+
+/**
+ * Build the activity spans from a device's events
+ * Repeated events with the same state are ignored. A span still open after
+ * the last event runs until `until`.
+ * @param events - Events of one device, oldest first
+ * @param until - End of the range (default: now)
+ * @returns Spans in chronological order
+ */
+export function buildActivitySpans(
+  events: DeviceStateEvent[],
+  until: Date = new Date()
+): ActivitySpan[] {
+  const spans: ActivitySpan[] = [];
+  let openedAt: Date | null = null;
+
+  for (const event of events) {
+    const time = new Date(event.timestamp);
+    if (event.active && !openedAt) {
+      openedAt = time;
+    } else if (!event.active && openedAt) {
+      spans.push({ start: openedAt, end: time, ongoing: false });
+      openedAt = null;
+    }
+  }
+
+  if (openedAt) {
+    spans.push({ start: openedAt, end: until, ongoing: true });
+  }
+  return spans;
+}
+
+/**
+ * Sum the time active within a range, spans clipped to the range
+ * @param spans - Activity spans
+ * @param range - Range to measure
+ * @returns Time active in milliseconds
+ */
+export function getActiveMs(spans: ActivitySpan[], range: { start: Date; end: Date }): number {
+  const rangeStart = range.start.getTime();
+  const rangeEnd = range.end.getTime();
+  return spans.reduce(
+    (total, span) =>
+      total + Math.max(0, Math.min(span.end.getTime(), rangeEnd) - Math.max(span.start.getTime(), rangeStart)),
+    0
+  );
+}
+
+/**
+ * Calculate a device's uptime over each uptime period
+ * A device counts as reachable unless an offline span covers the time, so
+ * time before the first recorded change counts as up.
+ * @param events - Reachability events of one device, oldest first
+ * @param until - End of the periods (default: now)
+ * @returns Share of each period the device was reachable, between 0 and 1
+ */
+export function calculateUptimes(
+  events: DeviceStateEvent[],
+  until: Date = new Date()
+): Record<UptimePeriod, number> {
+  const spans = buildActivitySpans(events, until);
+  const uptime = (period: UptimePeriod) => {
+    const start = new Date(until.getTime() - UPTIME_PERIOD_MS[period]);
+    return 1 - getActiveMs(spans, { start, end: until }) / UPTIME_PERIOD_MS[period];
+  };
+  return { '24h': uptime('24h'), '7d': uptime('7d'), '30d': uptime('30d') };
+}
+
+/**
+ * Count activity spans and sum their durations per day
+ * @param spans - Activity spans
+ * @param range - Days to return; every day in the range is included, active or not
+ * @returns Days in chronological order
+ */
+export function summarizeActivityByDay(
+  spans: ActivitySpan[],
+  range: { start: Date; end: Date }
+): DailyActivity[] {
+  return eachDayOfInterval(range).map((day) => {
+    const dayStart = startOfDay(day).getTime();
+    const dayEnd = endOfDay(day).getTime() + 1;
+    const count = spans.filter((span) => {
+      const start = span.start.getTime();
+      return start >= dayStart && start < dayEnd;
+    }).length;
+    const activeMs = getActiveMs(spans, { start: new Date(dayStart), end: new Date(dayEnd) });
+
+    return { date: new Date(dayStart), count, activeMs };
+  });
+}
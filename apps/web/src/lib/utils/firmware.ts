@@ -0,0 +1,71 @@
+/**
+ * Firmware utilities
+ *
+ * The hub does not say which firmware is current, so a device counts as
+ * outdated when another device of the same model already runs a newer
+ * version.
+ */
+
+import type { DirigeeraDevice } from '@zigbee-visualizer/shared-types';
+
+/**
+ * Compare two dotted version strings segment by segment
+ * Missing and non-numeric segments count as 0.
+ * @returns Negative if a is older, positive if a is newer, 0 if equal
+ *
+ * @example
+ * ```ts
+ * compareVersions('1.0.9', '1.0.11') // < 0
+ * compareVersions('2.3', '2.3.0') // 0
+ * ```
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const right = b.split('.').map((part) => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Find the newest firmware version seen for each device model
+ * @param devices - Devices, from one or several hubs
+ * @returns Newest version per model
+ */
+export function getNewestFirmwareByModel(devices: DirigeeraDevice[]): Map<string, string> {
+  const newest = new Map<string, string>();
+  for (const device of devices) {
+    const { model, firmwareVersion } = device.attributes;
+    if (!model || !firmwareVersion) {
+      continue;
+    }
+    const current = newest.get(model);
+    if (!current || compareVersions(firmwareVersion, current) > 0) {
+      newest.set(model, firmwareVersion);
+    }
+  }
+  return newest;
+}
+
+/**
+ * Newer firmware version available for a device
+ * @param device - Device
+ * @param newestByModel - Result of getNewestFirmwareByModel
+ * @returns Newer version, or undefined if the device is up to date
+ */
+export function getAvailableFirmwareUpdate(
+  device: DirigeeraDevice,
+  newestByModel: Map<string, string>
+): string | undefined {
+  const { model, firmwareVersion } = device.attributes;
+  const newest = newestByModel.get(model);
+  if (!newest || !firmwareVersion) {
+    return undefined;
+  }
+  return compareVersions(firmwareVersion, newest) < 0 ? newest : undefined;
+}
@@ -107,6 +107,73 @@ export function formatVOCIndex(vocIndex: number): string {
   return Math.round(vocIndex).toString();
 }
 
+/**
+ * Format active power
+ * @param watts - Power in watts
+ * @param decimals - Number of decimal places (default: 0)
+ * @returns Formatted power string, in kW from 1000 W
+ *
+ * @example
+ * ```ts
+ * formatPower(42.4) // "42 W"
+ * formatPower(1830) // "1.83 kW"
+ * ```
+ */
+export function formatPower(watts: number, decimals: number = 0): string {
+  if (!isFinite(watts) || watts < 0) {
+    return 'N/A';
+  }
+
+  if (watts >= 1000) {
+    return `${(watts / 1000).toFixed(2)} kW`;
+  }
+
+  return `${watts.toFixed(decimals)} W`;
+}
+
+/**
+ * Format energy
+ * @param kwh - Energy in kilowatt-hours
+ * @param decimals - Number of decimal places (default: 2)
+ * @returns Formatted energy string
+ *
+ * @example
+ * ```ts
+ * formatEnergy(1.234) // "1.23 kWh"
+ * formatEnergy(12.5, 1) // "12.5 kWh"
+ * ```
+ */
+export function formatEnergy(kwh: number, decimals: number = 2): string {
+  if (!isFinite(kwh) || kwh < 0) {
+    return 'N/A';
+  }
+
+  return `${kwh.toFixed(decimals)} kWh`;
+}
+
+/**
+ * Format an amount of money
+ * @param amount - Amount in the given currency
+ * @param currency - ISO 4217 currency code (e.g. "EUR")
+ * @returns Formatted amount, or the plain number with the code if the code is unknown
+ *
+ * @example
+ * ```ts
+ * formatCurrency(3.456, 'EUR') // "€3.46"
+ * ```
+ */
+export function formatCurrency(amount: number, currency: string): string {
+  if (!isFinite(amount)) {
+    return 'N/A';
+  }
+
+  try {
+    return amount.toLocaleString('en-US', { style: 'currency', currency });
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
 /**
  * Get air quality description based on PM2.5 value
  * Based on US EPA Air Quality Index
@@ -157,6 +224,26 @@ export function getAirQualityColor(pm25: number): string {
   return '#7e0023'; // Maroon
 }
 
+/**
+ * Format an uptime share as a percentage
+ * Rounded down, so a device that was offline at all never shows 100%
+ * @param uptime - Share of time reachable (0-1)
+ * @returns Formatted percentage
+ *
+ * @example
+ * ```ts
+ * formatUptime(1) // "100%"
+ * formatUptime(0.99972) // "99.9%"
+ * ```
+ */
+export function formatUptime(uptime: number): string {
+  if (!isFinite(uptime) || uptime < 0 || uptime > 1) {
+    return 'N/A';
+  }
+
+  return uptime === 1 ? '100%' : `${(Math.floor(uptime * 1000) / 10).toFixed(1)}%`;
+}
+
 /**
  * Format a date/time using date-fns
  * @param timestamp - ISO 8601 timestamp string or Date object
@@ -232,6 +319,37 @@ export function formatRelativeTime(
   }
 }
 
+/**
+ * Format a duration in compact units
+ * @param ms - Duration in milliseconds
+ * @returns Formatted duration string
+ *
+ * @example
+ * ```ts
+ * formatDuration(45000) // "45 s"
+ * formatDuration(720000) // "12 min"
+ * formatDuration(7500000) // "2 h 5 min"
+ * formatDuration(266400000) // "3 d 2 h"
+ * ```
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds} s`;
+  }
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours >= 48) {
+    const days = Math.floor(hours / 24);
+    return hours % 24 > 0 ? `${days} d ${hours % 24} h` : `${days} d`;
+  }
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
 /**
  * Format a number with thousand separators
  * @param value - Number to format
@@ -256,6 +374,32 @@ export function formatNumber(value: number, decimals: number = 0): string {
   });
 }
 
+/**
+ * Format a size in bytes with binary units
+ * @param bytes - Size in bytes
+ * @param decimals - Number of decimal places above bytes (default: 1)
+ * @returns Formatted size string
+ *
+ * @example
+ * ```ts
+ * formatBytes(512) // "512 B"
+ * formatBytes(1536) // "1.5 KB"
+ * formatBytes(5 * 1024 ** 3) // "5.0 GB"
+ * ```
+ */
+export function formatBytes(bytes: number, decimals: number = 1): string {
+  if (!isFinite(bytes) || bytes < 0) {
+    return 'N/A';
+  }
+
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)), units.length - 1);
+  if (exponent === 0) {
+    return `${bytes} B`;
+  }
+  return `${(bytes / 1024 ** exponent).toFixed(decimals)} ${units[exponent]}`;
+}
+
 /**
  * Format a percentage
  * @param value - Number between 0 and 1 (or 0 and 100 if isDecimal is false)
@@ -282,6 +426,32 @@ export function formatPercentage(
   return `${percentage.toFixed(decimals)}%`;
 }
 
+/**
+ * Format the change between two values with its sign
+ * @param delta - New value minus old value
+ * @param decimals - Number of decimal places (default: 0)
+ * @param unit - Unit appended to the number (default: none)
+ * @returns Signed change, "±0" when it rounds to zero
+ *
+ * @example
+ * ```ts
+ * formatDelta(0.42, 1, '°C') // "+0.4°C"
+ * formatDelta(-3.2, 0, ' μg/m³') // "-3 μg/m³"
+ * formatDelta(0.01, 1, '%') // "±0.0%"
+ * ```
+ */
+export function formatDelta(delta: number, decimals: number = 0, unit: string = ''): string {
+  if (!isFinite(delta)) {
+    return 'N/A';
+  }
+
+  const rounded = delta.toFixed(decimals);
+  if (Number(rounded) === 0) {
+    return `±${Math.abs(Number(rounded)).toFixed(decimals)}${unit}`;
+  }
+  return `${delta > 0 ? '+' : ''}${rounded}${unit}`;
+}
+
 /**
  * Truncate text to a maximum length
  * @param text - Text to truncate
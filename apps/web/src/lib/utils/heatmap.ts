@@ -0,0 +1,146 @@
+/**
+ * Heatmap utilities
+ *
+ * Hourly averages of a metric per day, for spotting daily rhythms such as
+ * PM2.5 spikes while cooking or humidity after showers, and the colour
+ * scale of each metric.
+ */
+
+import { eachDayOfInterval, getHours, startOfDay } from 'date-fns';
+import { getAirQualityColor } from './formatters';
+import type { EnvironmentMetric, SeriesPoint } from './metrics';
+
+/**
+ * Average of the readings within one hour
+ */
+export interface HourlyAverage {
+  average: number;
+  count: number;
+}
+
+/**
+ * One heatmap row
+ */
+export interface HeatmapDay {
+  /** Start of the day */
+  date: Date;
+  /** Averages by hour of day (0-23); undefined for hours without readings */
+  hours: (HourlyAverage | undefined)[];
+}
+
+/**
+ * Step of a colour scale
+ */
+export interface ColorStep {
+  /** Upper bound of the step, inclusive */
+  max: number;
+  color: string;
+  label: string;
+}
+
+/**
+ * Colour scale of each metric, lowest step first
+ * PM2.5 follows the EPA Air Quality Index like getAirQualityColor; VOC
+ * follows the Sensirion index, where 100 is the sensor's recent average.
+ */
+export const HEATMAP_SCALES: Record<EnvironmentMetric, ColorStep[]> = {
+  temperature: [
+    { max: 16, color: '#2563eb', label: 'Cold' },
+    { max: 19, color: '#60a5fa', label: 'Cool' },
+    { max: 23, color: '#22c55e', label: 'Comfortable' },
+    { max: 26, color: '#facc15', label: 'Warm' },
+    { max: Infinity, color: '#ef4444', label: 'Hot' },
+  ],
+  humidity: [
+    { max: 30, color: '#f97316', label: 'Dry' },
+    { max: 40, color: '#fcd34d', label: 'Slightly dry' },
+    { max: 60, color: '#22c55e', label: 'Comfortable' },
+    { max: 70, color: '#60a5fa', label: 'Humid' },
+    { max: Infinity, color: '#1d4ed8', label: 'Very humid' },
+  ],
+  pm25: [
+    { max: 12, color: '#00e400', label: 'Good' },
+    { max: 35.4, color: '#ffff00', label: 'Moderate' },
+    { max: 55.4, color: '#ff7e00', label: 'Unhealthy for sensitive groups' },
+    { max: 150.4, color: '#ff0000', label: 'Unhealthy' },
+    { max: 250.4, color: '#8f3f97', label: 'Very unhealthy' },
+    { max: Infinity, color: '#7e0023', label: 'Hazardous' },
+  ],
+  voc: [
+    { max: 100, color: '#22c55e', label: 'Usual or better' },
+    { max: 150, color: '#a3e635', label: 'Slightly elevated' },
+    { max: 250, color: '#facc15', label: 'Elevated' },
+    { max: 400, color: '#f97316', label: 'High' },
+    { max: Infinity, color: '#ef4444', label: 'Very high' },
+  ],
+};
+
+/**
+ * Colour of a heatmap cell
+ * @param metric - Metric shown
+ * @param value - Hourly average
+ * @returns CSS colour value
+ */
+export function getHeatmapColor(metric: EnvironmentMetric, value: number): string {
+  if (metric === 'pm25') {
+    return getAirQualityColor(value);
+  }
+  const steps = HEATMAP_SCALES[metric];
+  return (steps.find((step) => value <= step.max) ?? steps[steps.length - 1]!).color;
+}
+
+/**
+ * Average readings per day and hour of day, in local time
+ * @param points - Readings of one metric
+ * @param range - Days to include
+ * @returns One row per day, oldest first
+ */
+export function buildHourlyHeatmap(
+  points: SeriesPoint[],
+  range: { start: Date; end: Date }
+): HeatmapDay[] {
+  const totals = new Map<number, { sum: number; count: number }[]>();
+
+  for (const { time, value } of points) {
+    const date = new Date(time);
+    const day = startOfDay(date).getTime();
+    const hours = totals.get(day) ?? Array.from({ length: 24 }, () => ({ sum: 0, count: 0 }));
+    const hour = hours[getHours(date)]!;
+    hour.sum += value;
+    hour.count += 1;
+    totals.set(day, hours);
+  }
+
+  return eachDayOfInterval(range).map((day) => {
+    const date = startOfDay(day);
+    const hours = totals.get(date.getTime());
+    return {
+      date,
+      hours: Array.from({ length: 24 }, (_, hour) => {
+        const total = hours?.[hour];
+        return total && total.count > 0
+          ? { average: total.sum / total.count, count: total.count }
+          : undefined;
+      }),
+    };
+  });
+}
+
+/**
+ * Average of each hour of day over all days, weighted by reading count
+ * @returns Averages by hour of day (0-23)
+ */
+export function averageByHourOfDay(days: HeatmapDay[]): (HourlyAverage | undefined)[] {
+  return Array.from({ length: 24 }, (_, hour) => {
+    let sum = 0;
+    let count = 0;
+    for (const day of days) {
+      const cell = day.hours[hour];
+      if (cell) {
+        sum += cell.average * cell.count;
+        count += cell.count;
+      }
+    }
+    return count > 0 ? { average: sum / count, count } : undefined;
+  });
+}
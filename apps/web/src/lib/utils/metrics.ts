@@ -0,0 +1,143 @@
+/**
+ * Environment metric utilities
+ *
+ * Labels, units and formatters of the four environment metrics, and the
+ * merging of several sensors' readings into one chart data set, for charts
+ * that show several sensors or metrics side by side.
+ */
+
+import type { SensorReadingType } from '@zigbee-visualizer/shared-types';
+import { formatHumidity, formatPM25, formatTemperature, formatVOCIndex } from './formatters';
+
+/**
+ * Environment metrics measured by air quality sensors
+ */
+export type EnvironmentMetric = Extract<SensorReadingType, 'temperature' | 'humidity' | 'pm25' | 'voc'>;
+
+/**
+ * Display details of a metric
+ */
+export interface MetricInfo {
+  label: string;
+  /** Unit shown on chart axes */
+  unit: string;
+  format: (value: number) => string;
+  /** Decimals kept in CSV exports */
+  decimals: number;
+}
+
+/**
+ * Environment metrics in display order
+ */
+export const ENVIRONMENT_METRICS: EnvironmentMetric[] = ['temperature', 'humidity', 'pm25', 'voc'];
+
+export const METRIC_INFO: Record<EnvironmentMetric, MetricInfo> = {
+  temperature: {
+    label: 'Temperature',
+    unit: '°C',
+    format: (value) => formatTemperature(value),
+    decimals: 1,
+  },
+  humidity: {
+    label: 'Humidity',
+    unit: '%',
+    format: (value) => formatHumidity(value),
+    decimals: 1,
+  },
+  pm25: {
+    label: 'PM2.5',
+    unit: 'μg/m³',
+    format: (value) => formatPM25(value),
+    decimals: 0,
+  },
+  voc: {
+    label: 'VOC Index',
+    unit: 'Index',
+    format: (value) => formatVOCIndex(value),
+    decimals: 0,
+  },
+};
+
+/**
+ * Colours for chart series, one per device, in assignment order
+ */
+export const SERIES_COLORS = [
+  '#6366f1',
+  '#14b8a6',
+  '#f97316',
+  '#ec4899',
+  '#84cc16',
+  '#0ea5e9',
+  '#a855f7',
+  '#eab308',
+];
+
+/**
+ * Colour of the nth chart series, repeating after the palette runs out
+ */
+export function getSeriesColor(index: number): string {
+  return SERIES_COLORS[index % SERIES_COLORS.length]!;
+}
+
+/**
+ * Most points drawn per series; longer ranges are averaged into buckets
+ */
+const MAX_POINTS_PER_SERIES = 500;
+
+/**
+ * Value of a series at a point in time
+ */
+export interface SeriesPoint {
+  /** Epoch milliseconds */
+  time: number;
+  value: number;
+}
+
+/**
+ * Chart row: a point in time with the value of each series present then
+ */
+export type MergedSeriesRow = { time: number } & Record<string, number>;
+
+/**
+ * Bucket size that keeps a range within the point budget
+ * @param rangeMs - Length of the charted range in milliseconds
+ * @returns Bucket size in milliseconds, at least one minute
+ */
+export function getBucketMs(rangeMs: number): number {
+  return Math.max(60 * 1000, Math.ceil(rangeMs / MAX_POINTS_PER_SERIES));
+}
+
+/**
+ * Merge series into chart rows, averaging each series per time bucket
+ * Readings of different sensors are taken a few seconds apart; bucketing
+ * lines them up so a tooltip shows every series at once.
+ * @param series - Series keyed by the data key their line uses
+ * @param bucketMs - Bucket size in milliseconds (see getBucketMs)
+ * @returns Rows sorted by time, each at the start of its bucket
+ */
+export function mergeSeriesByTime(
+  series: { key: string; points: SeriesPoint[] }[],
+  bucketMs: number
+): MergedSeriesRow[] {
+  const buckets = new Map<number, Map<string, { sum: number; count: number }>>();
+
+  for (const { key, points } of series) {
+    for (const { time, value } of points) {
+      const bucket = Math.floor(time / bucketMs) * bucketMs;
+      const values = buckets.get(bucket) ?? new Map<string, { sum: number; count: number }>();
+      const total = values.get(key) ?? { sum: 0, count: 0 };
+      values.set(key, { sum: total.sum + value, count: total.count + 1 });
+      buckets.set(bucket, values);
+    }
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, values]) => {
+      const row: MergedSeriesRow = { time } as MergedSeriesRow;
+      for (const [key, { sum, count }] of values) {
+        row[key] = sum / count;
+      }
+      return row;
+    });
+}
@@ -0,0 +1,56 @@
+/**
+ * Browser notification utilities
+ *
+ * Thin wrappers around the Notification API that degrade gracefully where
+ * notifications are not supported (e.g. insecure origins, some mobile
+ * browsers).
+ */
+
+/**
+ * Notification permission, or 'unsupported' where the API is missing
+ */
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+/**
+ * Get the current notification permission
+ */
+export function getNotificationPermission(): NotificationPermissionState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+/**
+ * Ask the user for permission to show notifications
+ * Must be called from a user gesture (e.g. a click) in most browsers
+ * @returns Resulting permission
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (typeof Notification === 'undefined') {
+    return 'unsupported';
+  }
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return Notification.permission;
+  }
+}
+
+/**
+ * Show a notification if permission has been granted
+ * @param title - Notification title
+ * @param options - Notification options (body, tag, ...)
+ * @returns Whether the notification was shown
+ */
+export function showNotification(title: string, options?: NotificationOptions): boolean {
+  if (getNotificationPermission() !== 'granted') {
+    return false;
+  }
+  try {
+    new Notification(title, options);
+    return true;
+  } catch (error) {
+    // Some browsers only allow notifications from a service worker
+    console.error('Failed to show notification:', error);
+    return false;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Period comparison utilities
+ *
+ * Lines up the readings of an earlier period with the current one, e.g.
+ * this week against last week, and sums up each period's readings so the
+ * two can be compared.
+ */
+
+import type { SeriesPoint } from './metrics';
+
+/**
+ * How far back the period compared against lies
+ */
+export type ComparisonPeriod = 'day' | 'week' | 'month';
+
+export const COMPARISON_PERIODS: ComparisonPeriod[] = ['day', 'week', 'month'];
+
+/**
+ * Offset of each comparison period in milliseconds; a month is 30 days,
+ * like the 30 day range
+ */
+export const COMPARISON_PERIOD_MS: Record<ComparisonPeriod, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+export const COMPARISON_PERIOD_LABELS: Record<ComparisonPeriod, string> = {
+  day: 'previous day',
+  week: 'previous week',
+  month: 'previous month',
+};
+
+/**
+ * Min, max and average of a period's readings
+ */
+export interface PeriodStats {
+  min: number;
+  max: number;
+  average: number;
+  count: number;
+}
+
+/**
+ * A reading of a period; rolled up readings carry the extremes of their rollup
+ */
+export interface PeriodValue {
+  value: number;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Sum up a period's readings
+ * Min and max come from the rollup extremes where there are any, so rolled
+ * up periods compare like raw ones.
+ * @returns Stats, or undefined when there are no values
+ */
+export function summarizeValues(values: PeriodValue[]): PeriodStats | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  return {
+    min: Math.min(...values.map((value) => value.min ?? value.value)),
+    max: Math.max(...values.map((value) => value.max ?? value.value)),
+    average: values.reduce((sum, value) => sum + value.value, 0) / values.length,
+    count: values.length,
+  };
+}
+
+/**
+ * Largest distance between a time and the earlier point drawn at it
+ * One step of the queried resolution; raw readings have no fixed step, so
+ * the usual (median) spacing of the earlier points is used instead.
+ * @param previous - Points of the earlier period, ascending
+ * @param stepMs - Step of the resolution both periods were queried at (0 for raw)
+ */
+export function getAlignmentTolerance(previous: SeriesPoint[], stepMs: number): number {
+  if (stepMs > 0) {
+    return stepMs;
+  }
+  const gaps = previous
+    .slice(1)
+    .map((point, index) => point.time - previous[index]!.time)
+    .sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)] ?? 0;
+}
+
+/**
+ * Values of the earlier period at the times of the current one
+ * Each time gets the earlier point nearest to it once shifted forward by the
+ * offset. Times with no earlier point within the tolerance get undefined,
+ * so gaps in the earlier period stay gaps.
+ * @param times - Times of the current period in epoch milliseconds, ascending
+ * @param previous - Points of the earlier period, ascending
+ * @param offsetMs - How far back the earlier period lies
+ * @param toleranceMs - Largest distance between a time and its earlier point
+ * @returns One value per time
+ */
+export function alignPreviousPeriod(
+  times: number[],
+  previous: SeriesPoint[],
+  offsetMs: number,
+  toleranceMs: number
+): (number | undefined)[] {
+  let index = 0;
+
+  return times.map((time) => {
+    const target = time - offsetMs;
+    // Advance while the next point is at least as close
+    while (
+      index < previous.length - 1 &&
+      Math.abs(previous[index + 1]!.time - target) <= Math.abs(previous[index]!.time - target)
+    ) {
+      index++;
+    }
+    const point = previous[index];
+    return point && Math.abs(point.time - target) <= toleranceMs ? point.value : undefined;
+  });
+}
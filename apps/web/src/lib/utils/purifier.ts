@@ -0,0 +1,72 @@
+/**
+ * Air purifier utilities
+ *
+ * Helpers for STARKVIND purifiers: fan speed as a percentage and filter
+ * life derived from the filter's rated lifetime and elapsed time.
+ */
+
+import type { EnvironmentSensorAttributes, FanMode } from '@zigbee-visualizer/shared-types';
+
+/**
+ * Highest fan speed (motorState) a STARKVIND reports
+ */
+const MAX_MOTOR_STATE = 50;
+
+/**
+ * Filter life below which the purifier card warns, in percent
+ */
+export const FILTER_LIFE_WARNING_PERCENT = 10;
+
+/**
+ * Fan modes in the order the purifier card offers them
+ */
+export const FAN_MODES: FanMode[] = ['auto', 'low', 'medium', 'high', 'off'];
+
+/**
+ * Display label of each fan mode
+ */
+export const FAN_MODE_LABELS: Record<FanMode, string> = {
+  auto: 'Auto',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  off: 'Off',
+};
+
+/**
+ * Fan speed as a percentage of the maximum
+ * @returns Percentage (0-100), or undefined if the device reports no fan speed
+ */
+export function getFanSpeedPercent(
+  attributes: Pick<EnvironmentSensorAttributes, 'motorState'>
+): number | undefined {
+  if (typeof attributes.motorState !== 'number') {
+    return undefined;
+  }
+  const percent = (attributes.motorState / MAX_MOTOR_STATE) * 100;
+  return Math.round(Math.min(100, Math.max(0, percent)));
+}
+
+/**
+ * Remaining filter life
+ * @returns Percentage (0-100), or undefined if the device reports no filter lifetime
+ */
+export function getFilterLifePercent(attributes: EnvironmentSensorAttributes): number | undefined {
+  const { filterLifetime, filterElapsedTime } = attributes;
+  if (!filterLifetime || typeof filterElapsedTime !== 'number') {
+    return undefined;
+  }
+  const percent = (1 - filterElapsedTime / filterLifetime) * 100;
+  return Math.round(Math.min(100, Math.max(0, percent)));
+}
+
+/**
+ * Whether the filter should be changed soon
+ * True when the device raises its filter alarm or the remaining life drops
+ * below FILTER_LIFE_WARNING_PERCENT
+ */
+export function needsFilterChange(attributes: EnvironmentSensorAttributes): boolean {
+  const life = getFilterLifePercent(attributes);
+  return attributes.filterAlarmStatus === true ||
+    (life !== undefined && life < FILTER_LIFE_WARNING_PERCENT);
+}
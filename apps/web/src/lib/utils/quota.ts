@@ -0,0 +1,77 @@
+/**
+ * Storage quota utilities
+ *
+ * Thin wrappers around the Storage API (navigator.storage). Unless storage
+ * is persistent, the browser may evict the sensor history without asking
+ * once the origin or the disk runs short of space.
+ */
+
+/**
+ * Share of the quota in use above which the app warns about eviction
+ */
+export const QUOTA_WARNING_RATIO = 0.8;
+
+/**
+ * How much storage the app uses and whether it is safe from eviction
+ */
+export interface StorageQuota {
+  /** Bytes used by this origin */
+  usage: number;
+  /** Bytes this origin may use */
+  quota: number;
+  /** Whether the browser keeps the data under storage pressure */
+  persisted: boolean;
+}
+
+/**
+ * Whether the Storage API is available (it needs a secure context)
+ */
+export function isStorageApiSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'storage' in navigator && !!navigator.storage?.estimate;
+}
+
+/**
+ * Get the storage use and quota of the app
+ * @returns Usage and quota, or null where the Storage API is missing
+ */
+export async function getStorageQuota(): Promise<StorageQuota | null> {
+  if (!isStorageApiSupported()) {
+    return null;
+  }
+  try {
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+    ]);
+    return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted };
+  } catch (error) {
+    console.error('Failed to estimate storage:', error);
+    return null;
+  }
+}
+
+/**
+ * Ask the browser to keep the app's data under storage pressure
+ * Some browsers ask the user, others decide from how the site is used
+ * @returns Whether storage is now persistent
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!isStorageApiSupported() || !navigator.storage.persist) {
+    return false;
+  }
+  try {
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.error('Failed to request persistent storage:', error);
+    return false;
+  }
+}
+
+/**
+ * Whether the browser may soon evict the app's data
+ * Persistent storage is not evicted, but writes still fail at the quota.
+ * @param storage - Usage and quota
+ */
+export function isNearQuota(storage: StorageQuota): boolean {
+  return storage.quota > 0 && storage.usage / storage.quota >= QUOTA_WARNING_RATIO;
+}
@@ -0,0 +1,130 @@
+/**
+ * Room utilities
+ *
+ * Groups environment sensors by the room they are assigned to on the hub
+ * and sums up each room's air: average temperature, worst PM2.5 and
+ * highest VOC index.
+ */
+
+import type { EnvironmentSensorDevice, RoomResponse } from '@zigbee-visualizer/shared-types';
+
+/**
+ * Sensors of one room
+ */
+export interface RoomGroup {
+  /** Hub and room ID, unique across hubs */
+  key: string;
+  /** Room from the hub's room list; undefined for sensors without a room */
+  room?: RoomResponse;
+  sensors: EnvironmentSensorDevice[];
+}
+
+/**
+ * Air of a room, from its reachable sensors
+ */
+export interface RoomAggregates {
+  averageTemperature?: number;
+  /** Highest PM2.5 in the room */
+  worstPM25?: number;
+  highestVOC?: number;
+}
+
+/**
+ * Colours of the room colour names used by the IKEA Home smart app
+ * Matched by the colour word, so e.g. ikea_green_no_65 is green
+ */
+const ROOM_COLOR_WORDS: [string, string][] = [
+  ['green', '#16a34a'],
+  ['blue', '#2563eb'],
+  ['yellow', '#ca8a04'],
+  ['pink', '#db2777'],
+  ['red', '#dc2626'],
+  ['orange', '#ea580c'],
+  ['purple', '#9333ea'],
+  ['beige', '#a8834f'],
+  ['brown', '#92400e'],
+  ['grey', '#6b7280'],
+];
+
+const DEFAULT_ROOM_COLOR = '#6366f1';
+
+/**
+ * Key identifying a room across hubs
+ */
+export function getRoomKey(room: { id: string; hubId?: string }): string {
+  return `${room.hubId ?? ''}:${room.id}`;
+}
+
+/**
+ * Colour of a room
+ * @param color - Colour name from the hub, e.g. "ikea_green_no_65"
+ * @returns CSS colour value, indigo for unknown names
+ */
+export function getRoomColor(color?: string): string {
+  const name = color?.toLowerCase() ?? '';
+  return ROOM_COLOR_WORDS.find(([word]) => name.includes(word))?.[1] ?? DEFAULT_ROOM_COLOR;
+}
+
+/**
+ * Group sensors by room
+ * Rooms follow the order of the hub's room list; rooms without sensors are
+ * left out, and sensors without a room come last. A room the list does not
+ * contain (e.g. while it loads) is built from the device's own room.
+ * @param sensors - Environment sensors, from one or several hubs
+ * @param rooms - Rooms of the same hubs, tagged with their hub ID
+ * @returns Groups with at least one sensor
+ */
+export function groupSensorsByRoom(
+  sensors: EnvironmentSensorDevice[],
+  rooms: RoomResponse[]
+): RoomGroup[] {
+  const groups = new Map<string, RoomGroup>(
+    rooms.map((room) => [getRoomKey(room), { key: getRoomKey(room), room, sensors: [] }])
+  );
+  const unassigned: EnvironmentSensorDevice[] = [];
+
+  for (const sensor of sensors) {
+    if (!sensor.room) {
+      unassigned.push(sensor);
+      continue;
+    }
+    const key = getRoomKey({ id: sensor.room.id, hubId: sensor.hubId });
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, room: { ...sensor.room, hubId: sensor.hubId }, sensors: [] };
+      groups.set(key, group);
+    }
+    group.sensors.push(sensor);
+  }
+
+  const result = [...groups.values()].filter((group) => group.sensors.length > 0);
+  if (unassigned.length > 0) {
+    result.push({ key: 'unassigned', sensors: unassigned });
+  }
+  return result;
+}
+
+/**
+ * Sum up the air of a room
+ * Unreachable sensors only repeat their last values and are left out.
+ * @param sensors - Sensors of the room
+ * @returns Aggregates; a value is undefined when no sensor reports it
+ */
+export function summarizeRoom(sensors: EnvironmentSensorDevice[]): RoomAggregates {
+  const reachable = sensors.filter((sensor) => sensor.isReachable);
+  const values = (pick: (sensor: EnvironmentSensorDevice) => number | undefined) =>
+    reachable.map(pick).filter((value): value is number => typeof value === 'number');
+
+  const temperatures = values((sensor) => sensor.attributes.currentTemperature);
+  const pm25 = values((sensor) => sensor.attributes.currentPM25);
+  const voc = values((sensor) => sensor.attributes.vocIndex);
+
+  return {
+    averageTemperature:
+      temperatures.length > 0
+        ? temperatures.reduce((sum, value) => sum + value, 0) / temperatures.length
+        : undefined,
+    worstPM25: pm25.length > 0 ? Math.max(...pm25) : undefined,
+    highestVOC: voc.length > 0 ? Math.max(...voc) : undefined,
+  };
+}
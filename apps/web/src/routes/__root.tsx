@@ -1,8 +1,12 @@
-import { createRootRoute, Link, Outlet } from '@tanstack/react-router';
+import { createRootRoute, Link, Outlet, useRouterState } from '@tanstack/react-router';
 import { TanStackRouterDevtools } from '@tanstack/router-devtools';
-import { Moon, Sun, Activity, Settings, Info } from 'lucide-react';
+import { Moon, Sun, Activity, Settings, Info, Stethoscope, Zap, BatteryMedium, Router, GitCompare, HardDrive } from 'lucide-react';
 import { useEffect, useState } from 'react';
-import { isConfigured } from '../lib/storage/config';
+import { isConfigured, isDemoMode } from '../lib/storage/config';
+import { ConnectivityIndicator } from '../components/ConnectivityIndicator';
+import { LeakAlarmBanner } from '../components/LeakAlarmBanner';
+import { StorageQuotaBanner } from '../components/StorageQuotaBanner';
+import { useHistoryCleanup } from '../lib/api/hooks/useStorage';
 
 export const Route = createRootRoute({
   component: RootComponent,
@@ -12,6 +16,11 @@ export const Route = createRootRoute({
 function RootComponent() {
   const [isDark, setIsDark] = useState(false);
   const [configured, setConfigured] = useState(false);
+  const [demo, setDemo] = useState(false);
+  const pathname = useRouterState({ select: (state) => state.location.pathname });
+
+  // Clean up old history on schedule, whichever page is open
+  useHistoryCleanup(configured);
 
   // Initialize dark mode from localStorage
   useEffect(() => {
@@ -23,10 +32,11 @@ function RootComponent() {
     document.documentElement.classList.toggle('dark', shouldBeDark);
   }, []);
 
-  // Check configuration status
+  // Check configuration status (again after navigating, e.g. leaving Setup)
   useEffect(() => {
     setConfigured(isConfigured());
-  }, []);
+    setDemo(isDemoMode());
+  }, [pathname]);
 
   const toggleDarkMode = () => {
     const newIsDark = !isDark;
@@ -52,12 +62,16 @@ function RootComponent() {
               <h1 className="text-xl font-bold bg-gradient-to-r from-blue-600 to-yellow-500 bg-clip-text text-transparent">
                 ZigBee Visualizer
               </h1>
-              <p className="text-xs text-muted-foreground">IKEA Dirigera Hub</p>
+              <p className="text-xs text-muted-foreground">
+                {demo ? 'Demo mode • synthetic sensors' : 'IKEA Dirigera Hub'}
+              </p>
             </div>
           </div>
 
           {/* Navigation */}
           <nav className="flex items-center gap-2">
+            {configured && !demo && <ConnectivityIndicator className="hidden sm:flex" />}
+
             {configured && (
               <Link
                 to="/dashboard"
@@ -68,6 +82,66 @@ function RootComponent() {
               </Link>
             )}
 
+            {configured && (
+              <Link
+                to="/compare"
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors hover:bg-accent hover:text-accent-foreground [&.active]:bg-accent [&.active]:text-accent-foreground"
+              >
+                <GitCompare className="h-4 w-4" />
+                Compare
+              </Link>
+            )}
+
+            {configured && (
+              <Link
+                to="/energy"
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors hover:bg-accent hover:text-accent-foreground [&.active]:bg-accent [&.active]:text-accent-foreground"
+              >
+                <Zap className="h-4 w-4" />
+                Energy
+              </Link>
+            )}
+
+            {configured && (
+              <Link
+                to="/batteries"
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors hover:bg-accent hover:text-accent-foreground [&.active]:bg-accent [&.active]:text-accent-foreground"
+              >
+                <BatteryMedium className="h-4 w-4" />
+                Batteries
+              </Link>
+            )}
+
+            {configured && (
+              <Link
+                to="/hub"
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors hover:bg-accent hover:text-accent-foreground [&.active]:bg-accent [&.active]:text-accent-foreground"
+              >
+                <Router className="h-4 w-4" />
+                Hub
+              </Link>
+            )}
+
+            {configured && (
+              <Link
+                to="/diagnostics"
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors hover:bg-accent hover:text-accent-foreground [&.active]:bg-accent [&.active]:text-accent-foreground"
+              >
+                <Stethoscope className="h-4 w-4" />
+                Diagnostics
+              </Link>
+            )}
+
+            {configured && (
+              <Link
+                to="/data"
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors hover:bg-accent hover:text-accent-foreground [&.active]:bg-accent [&.active]:text-accent-foreground"
+              >
+                <HardDrive className="h-4 w-4" />
+                Data
+              </Link>
+            )}
+
             <Link
               to="/setup"
               className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-colors hover:bg-accent hover:text-accent-foreground [&.active]:bg-accent [&.active]:text-accent-foreground"
@@ -100,6 +174,12 @@ function RootComponent() {
         </div>
       </header>
 
+      {/* Water leak alarms, on every page */}
+      <LeakAlarmBanner enabled={configured} />
+
+      {/* Storage running out, before the browser evicts the history */}
+      <StorageQuotaBanner enabled={configured} />
+
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
         <Outlet />
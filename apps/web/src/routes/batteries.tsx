@@ -0,0 +1,39 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+
+// Lazy load the Batteries component
+const Batteries = lazy(() => import('../components/Batteries').then(module => ({ default: module.Batteries })));
+
+export const Route = createFileRoute('/batteries')({
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: BatteriesRoute,
+});
+
+/**
+ * Batteries route component
+ * Lists battery-powered devices by urgency
+ */
+function BatteriesRoute() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Batteries</h1>
+        <p className="text-muted-foreground">
+          Battery levels of your sensors and remotes, most urgent first, with projected replacement dates
+        </p>
+      </div>
+
+      {/* Lazy-loaded Batteries component */}
+      <Batteries />
+    </div>
+  );
+}
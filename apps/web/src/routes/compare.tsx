@@ -0,0 +1,78 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+import { ENVIRONMENT_METRICS, type EnvironmentMetric } from '../lib/utils/metrics';
+import type { CompareSelection } from '../components/Compare';
+
+// Lazy load the Compare component
+const Compare = lazy(() => import('../components/Compare').then(module => ({ default: module.Compare })));
+
+/**
+ * Search params for the compare route, so a comparison can be bookmarked
+ */
+interface CompareSearch {
+  /** Device keys of the compared devices (hub ID and device ID) */
+  devices?: string[];
+  metrics?: EnvironmentMetric[];
+}
+
+function isMetric(value: unknown): value is EnvironmentMetric {
+  return ENVIRONMENT_METRICS.includes(value as EnvironmentMetric);
+}
+
+export const Route = createFileRoute('/compare')({
+  validateSearch: (search: Record<string, unknown>): CompareSearch => ({
+    devices: Array.isArray(search.devices)
+      ? search.devices.filter((device): device is string => typeof device === 'string')
+      : undefined,
+    metrics: Array.isArray(search.metrics) ? search.metrics.filter(isMetric) : undefined,
+  }),
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: CompareRoute,
+});
+
+/**
+ * Compare route component
+ * Overlays the history of several devices
+ */
+function CompareRoute() {
+  const { devices, metrics } = Route.useSearch();
+  const navigate = Route.useNavigate();
+
+  const selection: CompareSelection = {
+    devices: devices ?? [],
+    metrics: metrics ?? ['temperature'],
+  };
+
+  const changeSelection = (next: CompareSelection) => {
+    navigate({
+      search: {
+        devices: next.devices.length > 0 ? next.devices : undefined,
+        metrics: next.metrics,
+      },
+      replace: true,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Compare</h1>
+        <p className="text-muted-foreground">
+          Overlay temperature, humidity and air quality of several sensors on one time axis
+        </p>
+      </div>
+
+      {/* Lazy-loaded Compare component */}
+      <Compare selection={selection} onSelectionChange={changeSelection} />
+    </div>
+  );
+}
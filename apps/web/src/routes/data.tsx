@@ -0,0 +1,39 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+
+// Lazy load the DataManagement component
+const DataManagement = lazy(() => import('../components/DataManagement').then(module => ({ default: module.DataManagement })));
+
+export const Route = createFileRoute('/data')({
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: DataRoute,
+});
+
+/**
+ * Data route component
+ * Displays storage use and the retention settings of the local history
+ */
+function DataRoute() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Data</h1>
+        <p className="text-muted-foreground">
+          Storage use, persistence and how long the sensor history is kept in this browser
+        </p>
+      </div>
+
+      {/* Lazy-loaded DataManagement component */}
+      <DataManagement />
+    </div>
+  );
+}
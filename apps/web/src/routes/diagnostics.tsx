@@ -0,0 +1,39 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+
+// Lazy load the Diagnostics component
+const Diagnostics = lazy(() => import('../components/Diagnostics').then(module => ({ default: module.Diagnostics })));
+
+export const Route = createFileRoute('/diagnostics')({
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: DiagnosticsRoute,
+});
+
+/**
+ * Diagnostics route component
+ * Displays hub responses that do not match the expected schema
+ */
+function DiagnosticsRoute() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Diagnostics</h1>
+        <p className="text-muted-foreground">
+          Quarantined devices, unknown attributes and schema mismatches per firmware version
+        </p>
+      </div>
+
+      {/* Lazy-loaded Diagnostics component */}
+      <Diagnostics />
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+
+// Lazy load the Energy component
+const Energy = lazy(() => import('../components/Energy').then(module => ({ default: module.Energy })));
+
+export const Route = createFileRoute('/energy')({
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: EnergyRoute,
+});
+
+/**
+ * Energy route component
+ * Displays power and consumption of energy monitoring outlets
+ */
+function EnergyRoute() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Energy</h1>
+        <p className="text-muted-foreground">
+          Power draw and consumption of your energy monitoring outlets, with cost estimates
+        </p>
+      </div>
+
+      {/* Lazy-loaded Energy component */}
+      <Energy />
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { createFileRoute, redirect, Link } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+import { ChevronLeft } from 'lucide-react';
+
+// Lazy load the DeviceTimeline component
+const DeviceTimeline = lazy(() => import('../components/DeviceTimeline').then(module => ({ default: module.DeviceTimeline })));
+
+/**
+ * Search params for the events route
+ */
+interface EventsSearch {
+  /** Hub the device belongs to (device IDs are only unique per hub) */
+  hubId?: string;
+}
+
+export const Route = createFileRoute('/events/$deviceId')({
+  validateSearch: (search: Record<string, unknown>): EventsSearch => ({
+    hubId: typeof search.hubId === 'string' ? search.hubId : undefined,
+  }),
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: EventsRoute,
+});
+
+/**
+ * Events route component
+ * Displays the event timeline of a motion or door/window sensor
+ */
+function EventsRoute() {
+  const { deviceId } = Route.useParams();
+  const { hubId } = Route.useSearch();
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <div>
+        <Link
+          to="/dashboard"
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors mb-4"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Link>
+
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Event Timeline</h1>
+          <p className="text-muted-foreground">
+            Occupancy, door-open durations and daily counts for device {deviceId}
+          </p>
+        </div>
+      </div>
+
+      {/* Lazy-loaded DeviceTimeline component */}
+      <DeviceTimeline deviceId={deviceId} hubId={hubId} />
+    </div>
+  );
+}
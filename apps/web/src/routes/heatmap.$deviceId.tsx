@@ -0,0 +1,97 @@
+import { createFileRoute, redirect, Link } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+import { ENVIRONMENT_METRICS, type EnvironmentMetric } from '../lib/utils/metrics';
+import { ChevronLeft } from 'lucide-react';
+import type { HeatmapRange } from '../components/Heatmap';
+
+// Lazy load the Heatmap component
+const Heatmap = lazy(() => import('../components/Heatmap').then(module => ({ default: module.Heatmap })));
+
+/**
+ * Search params for the heatmap route
+ */
+interface HeatmapSearch {
+  /** Hub the device belongs to (device IDs are only unique per hub) */
+  hubId?: string;
+  /** Metric shown (default: temperature) */
+  metric?: EnvironmentMetric;
+  /** Days shown (default: 14) */
+  days?: HeatmapRange;
+}
+
+const HEATMAP_RANGES: HeatmapRange[] = [7, 14, 30];
+
+export const Route = createFileRoute('/heatmap/$deviceId')({
+  validateSearch: (search: Record<string, unknown>): HeatmapSearch => ({
+    hubId: typeof search.hubId === 'string' ? search.hubId : undefined,
+    metric: ENVIRONMENT_METRICS.includes(search.metric as EnvironmentMetric)
+      ? (search.metric as EnvironmentMetric)
+      : undefined,
+    days: HEATMAP_RANGES.includes(search.days as HeatmapRange)
+      ? (search.days as HeatmapRange)
+      : undefined,
+  }),
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: HeatmapRoute,
+});
+
+/**
+ * Heatmap route component
+ * Displays hourly averages of a device's metric per day
+ */
+function HeatmapRoute() {
+  const { deviceId } = Route.useParams();
+  const { hubId, metric, days } = Route.useSearch();
+  const navigate = Route.useNavigate();
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <div>
+        <Link
+          to="/history/$deviceId"
+          params={{ deviceId }}
+          search={{ hubId }}
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors mb-4"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Back to History
+        </Link>
+
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Heatmap</h1>
+          <p className="text-muted-foreground">
+            Daily rhythms of device {deviceId}: hourly averages per day
+          </p>
+        </div>
+      </div>
+
+      {/* Lazy-loaded Heatmap component */}
+      <Heatmap
+        deviceId={deviceId}
+        hubId={hubId}
+        metric={metric ?? 'temperature'}
+        days={days ?? 14}
+        onChange={(change) =>
+          navigate({
+            search: {
+              hubId,
+              metric: change.metric === 'temperature' ? undefined : change.metric,
+              days: change.days === 14 ? undefined : change.days,
+            },
+            replace: true,
+          })
+        }
+      />
+    </div>
+  );
+}
@@ -2,11 +2,50 @@ import { createFileRoute, redirect, Link } from '@tanstack/react-router';
 import { lazy } from 'react';
 import { isConfigured } from '../lib/storage/config';
 import { ChevronLeft } from 'lucide-react';
+import { COMPARISON_PERIODS, type ComparisonPeriod } from '../lib/utils/periods';
+import type { HistoryView, TimeRangeOption } from '../components/History';
 
 // Lazy load the History component
 const History = lazy(() => import('../components/History'));
 
+/**
+ * Search params for the history route
+ */
+interface HistorySearch {
+  /** Hub the device belongs to (device IDs are only unique per hub) */
+  hubId?: string;
+  /** Range ending now (default: 24h) */
+  range?: TimeRangeOption;
+  /** Start of an absolute range in epoch milliseconds; set together with `to` */
+  from?: number;
+  to?: number;
+  /** Earlier period overlaid for comparison */
+  compare?: ComparisonPeriod;
+}
+
+const TIME_RANGE_OPTIONS: TimeRangeOption[] = ['24h', '7d', '30d'];
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
 export const Route = createFileRoute('/history/$deviceId')({
+  validateSearch: (search: Record<string, unknown>): HistorySearch => {
+    // An absolute range needs both ends, in order
+    const hasAbsoluteRange =
+      isTimestamp(search.from) && isTimestamp(search.to) && search.from < search.to;
+    return {
+      hubId: typeof search.hubId === 'string' ? search.hubId : undefined,
+      range: TIME_RANGE_OPTIONS.includes(search.range as TimeRangeOption)
+        ? (search.range as TimeRangeOption)
+        : undefined,
+      from: hasAbsoluteRange ? (search.from as number) : undefined,
+      to: hasAbsoluteRange ? (search.to as number) : undefined,
+      compare: COMPARISON_PERIODS.includes(search.compare as ComparisonPeriod)
+        ? (search.compare as ComparisonPeriod)
+        : undefined,
+    };
+  },
   beforeLoad: () => {
     // Protect this route - redirect to setup if not configured
     if (!isConfigured()) {
@@ -25,6 +64,21 @@ export const Route = createFileRoute('/history/$deviceId')({
  */
 function HistoryRoute() {
   const { deviceId } = Route.useParams();
+  const { hubId, range, from, to, compare } = Route.useSearch();
+  const navigate = Route.useNavigate();
+
+  // Each zoom or pan is a history entry, so Back undoes it
+  const changeView = (view: HistoryView) => {
+    navigate({
+      search: {
+        hubId,
+        range: view.range === '24h' ? undefined : view.range,
+        from: view.from,
+        to: view.to,
+        compare: view.compare,
+      },
+    });
+  };
 
   return (
     <div className="space-y-6">
@@ -47,7 +101,12 @@ function HistoryRoute() {
       </div>
 
       {/* Lazy-loaded History component */}
-      <History deviceId={deviceId} />
+      <History
+        deviceId={deviceId}
+        hubId={hubId}
+        view={{ range: range ?? '24h', from, to, compare }}
+        onViewChange={changeView}
+      />
     </div>
   );
 }
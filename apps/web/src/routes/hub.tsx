@@ -0,0 +1,39 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+
+// Lazy load the Hub component
+const Hub = lazy(() => import('../components/Hub').then(module => ({ default: module.Hub })));
+
+export const Route = createFileRoute('/hub')({
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: HubRoute,
+});
+
+/**
+ * Hub route component
+ * Shows hub status, device firmware and reachability
+ */
+function HubRoute() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Hub</h1>
+        <p className="text-muted-foreground">
+          Hub status, firmware and reachability of every device, and a log of devices dropping offline
+        </p>
+      </div>
+
+      {/* Lazy-loaded Hub component */}
+      <Hub />
+    </div>
+  );
+}
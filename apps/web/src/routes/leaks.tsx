@@ -0,0 +1,39 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+
+// Lazy load the LeakIncidents component
+const LeakIncidents = lazy(() => import('../components/LeakIncidents').then(module => ({ default: module.LeakIncidents })));
+
+export const Route = createFileRoute('/leaks')({
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: LeaksRoute,
+});
+
+/**
+ * Leaks route component
+ * Lists water leak sensors and the leak incident log
+ */
+function LeaksRoute() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Water Leaks</h1>
+        <p className="text-muted-foreground">
+          Leak sensors and every recorded leak, from first report to acknowledgement and the all-clear
+        </p>
+      </div>
+
+      {/* Lazy-loaded LeakIncidents component */}
+      <LeakIncidents />
+    </div>
+  );
+}
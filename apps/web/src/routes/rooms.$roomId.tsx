@@ -0,0 +1,67 @@
+import { createFileRoute, redirect, Link } from '@tanstack/react-router';
+import { lazy } from 'react';
+import { isConfigured } from '../lib/storage/config';
+import { ChevronLeft } from 'lucide-react';
+
+// Lazy load the RoomHistory component
+const RoomHistory = lazy(() =>
+  import('../components/RoomHistory').then((module) => ({ default: module.RoomHistory }))
+);
+
+/**
+ * Search params for the room history route
+ */
+interface RoomHistorySearch {
+  /** Hub the room belongs to (room IDs are only unique per hub) */
+  hubId?: string;
+}
+
+export const Route = createFileRoute('/rooms/$roomId')({
+  validateSearch: (search: Record<string, unknown>): RoomHistorySearch => ({
+    hubId: typeof search.hubId === 'string' ? search.hubId : undefined,
+  }),
+  beforeLoad: () => {
+    // Protect this route - redirect to setup if not configured
+    if (!isConfigured()) {
+      throw redirect({
+        to: '/setup',
+        replace: true,
+      });
+    }
+  },
+  component: RoomHistoryRoute,
+});
+
+/**
+ * Room history route component
+ * Overlays the history of every sensor in a room
+ */
+function RoomHistoryRoute() {
+  const { roomId } = Route.useParams();
+  const { hubId } = Route.useSearch();
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <div>
+        <Link
+          to="/dashboard"
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors mb-4"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Link>
+
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Room History</h1>
+          <p className="text-muted-foreground">
+            Every sensor in the room on the same charts
+          </p>
+        </div>
+      </div>
+
+      {/* Lazy-loaded RoomHistory component */}
+      <RoomHistory roomId={roomId} hubId={hubId} />
+    </div>
+  );
+}
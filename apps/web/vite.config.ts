@@ -19,8 +19,16 @@ export default defineConfig({
     port: 3000,
     open: true,
   },
+  // shared-types is a linked CommonJS workspace package; pre-bundle it in dev
+  // and let Rollup convert it in builds so its type guards can be imported
+  optimizeDeps: {
+    include: ['@zigbee-visualizer/shared-types'],
+  },
   build: {
     outDir: 'dist',
     sourcemap: true,
+    commonjsOptions: {
+      include: [/shared-types/, /node_modules/],
+    },
   },
 });
@@ -0,0 +1,121 @@
+/**
+ * Hub proxy configuration
+ *
+ * Configuration is read from environment variables and can be overridden
+ * with `--key=value` command line flags (e.g. `--hub-address=192.168.1.100`).
+ */
+
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Resolved proxy configuration
+ */
+export interface ProxyConfig {
+  /** IP address or hostname of the Dirigera hub */
+  hubAddress: string;
+  /** HTTPS port of the Dirigera hub API (default: 8443) */
+  hubPort: number;
+  /**
+   * Optional SHA-256 fingerprint of the hub certificate
+   * When set, connections to any other certificate are refused
+   */
+  hubFingerprint?: string;
+  /** Interface the proxy listens on (default: 0.0.0.0) */
+  host: string;
+  /** Port the proxy listens on (default: 8080) */
+  port: number;
+  /** Origins allowed to call the proxy ('*' allows any origin) */
+  allowedOrigins: string[];
+  /** Directory containing the built web app, or null to disable static serving */
+  staticDir: string | null;
+  /** Path prefix the web app is built for (matches `base` in vite.config.ts) */
+  basePath: string;
+}
+
+const DEFAULT_STATIC_DIR = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../../apps/web/dist'
+);
+
+/**
+ * Parse `--key=value` flags into a map keyed by the flag name
+ */
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (const arg of argv) {
+    const match = /^--([a-z0-9-]+)(?:=(.*))?$/i.exec(arg);
+    if (match && match[1]) {
+      args.set(match[1].toLowerCase(), match[2] ?? 'true');
+    }
+  }
+  return args;
+}
+
+/**
+ * Parse a port number, throwing a descriptive error when invalid
+ */
+function parsePort(value: string, name: string): number {
+  const port = parseInt(value, 10);
+  if (isNaN(port) || port < 1 || port > 65535) {
+    throw new Error(`${name} must be a port number between 1 and 65535 (got "${value}")`);
+  }
+  return port;
+}
+
+/**
+ * Normalize a certificate fingerprint to uppercase colon-separated hex
+ * Accepts the output of `openssl x509 -fingerprint -sha256` with or without colons
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+  const hex = fingerprint
+    .replace(/^sha256\s*fingerprint\s*=\s*/i, '')
+    .replace(/[^0-9a-f]/gi, '')
+    .toUpperCase();
+
+  if (hex.length !== 64) {
+    throw new Error('HUB_FINGERPRINT must be a SHA-256 fingerprint (64 hex characters)');
+  }
+
+  return hex.match(/.{2}/g)!.join(':');
+}
+
+/**
+ * Load the proxy configuration from the environment and command line
+ * @param argv - Command line arguments (default: process.argv)
+ * @param env - Environment variables (default: process.env)
+ * @returns Resolved configuration
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ProxyConfig {
+  const args = parseArgs(argv);
+  const get = (flag: string, envName: string): string | undefined =>
+    args.get(flag) ?? env[envName] ?? undefined;
+
+  const hubAddress = get('hub-address', 'HUB_ADDRESS');
+  if (!hubAddress) {
+    throw new Error(
+      'Hub address not configured. Set HUB_ADDRESS or pass --hub-address=<ip>.'
+    );
+  }
+
+  const fingerprint = get('hub-fingerprint', 'HUB_FINGERPRINT');
+  const staticDir = get('static-dir', 'STATIC_DIR');
+  const basePath = get('base-path', 'BASE_PATH') ?? '/ZigBee-visualizer/';
+
+  return {
+    hubAddress,
+    hubPort: parsePort(get('hub-port', 'HUB_PORT') ?? '8443', 'HUB_PORT'),
+    hubFingerprint: fingerprint ? normalizeFingerprint(fingerprint) : undefined,
+    host: get('host', 'PROXY_HOST') ?? '0.0.0.0',
+    port: parsePort(get('port', 'PROXY_PORT') ?? '8080', 'PROXY_PORT'),
+    allowedOrigins: (get('allowed-origins', 'ALLOWED_ORIGINS') ?? '*')
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+    staticDir: staticDir === 'false' ? null : path.resolve(staticDir ?? DEFAULT_STATIC_DIR),
+    basePath: `/${basePath.replace(/^\/+|\/+$/g, '')}/`.replace(/^\/\/$/, '/'),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * CORS handling for the hub proxy
+ *
+ * The Dirigera hub does not send any CORS headers, so the proxy adds them
+ * to every response and answers preflight requests itself.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ProxyConfig } from './config.js';
+
+const ALLOWED_METHODS = 'GET, POST, PUT, PATCH, DELETE, OPTIONS';
+const ALLOWED_HEADERS = 'Authorization, Content-Type';
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+/**
+ * Resolve the Access-Control-Allow-Origin value for a request
+ * @returns The origin to echo back, or null when the origin is not allowed
+ */
+function resolveAllowedOrigin(req: IncomingMessage, config: ProxyConfig): string | null {
+  const origin = req.headers.origin;
+
+  if (config.allowedOrigins.includes('*')) {
+    return origin ?? '*';
+  }
+
+  if (origin && config.allowedOrigins.includes(origin)) {
+    return origin;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether the request origin may use the proxy
+ * Requests without an Origin header (same-origin or non-browser) are always allowed
+ */
+export function isOriginAllowed(req: IncomingMessage, config: ProxyConfig): boolean {
+  return !req.headers.origin || resolveAllowedOrigin(req, config) !== null;
+}
+
+/**
+ * Apply CORS headers to a response
+ * @returns false when the request origin is not allowed
+ */
+export function applyCorsHeaders(
+  req: IncomingMessage,
+  res: ServerResponse,
+  config: ProxyConfig
+): boolean {
+  // Same-origin requests (e.g. the web app served by this proxy) carry no Origin header
+  if (!req.headers.origin) {
+    return true;
+  }
+
+  const allowedOrigin = resolveAllowedOrigin(req, config);
+  if (!allowedOrigin) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+  res.setHeader('Access-Control-Allow-Methods', ALLOWED_METHODS);
+  res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+  res.setHeader('Access-Control-Max-Age', PREFLIGHT_MAX_AGE_SECONDS.toString());
+  res.setHeader('Vary', 'Origin');
+  return true;
+}
+
+/**
+ * Answer a CORS preflight request
+ * @returns true if the request was a preflight and has been handled
+ */
+export function handlePreflight(req: IncomingMessage, res: ServerResponse): boolean {
+  if (req.method !== 'OPTIONS') {
+    return false;
+  }
+
+  res.writeHead(204);
+  res.end();
+  return true;
+}
@@ -0,0 +1,78 @@
+/**
+ * HTTPS agent for connecting to the Dirigera hub
+ *
+ * The hub presents a self-signed certificate, so normal CA validation is
+ * disabled. When a fingerprint is configured the agent pins the connection
+ * to that exact certificate instead, which protects against another device
+ * on the LAN impersonating the hub.
+ */
+
+import https from 'node:https';
+import type { Duplex } from 'node:stream';
+import type { TLSSocket } from 'node:tls';
+import type { ProxyConfig } from './config.js';
+
+/**
+ * Error raised when the hub presents an unexpected certificate
+ */
+export class CertificateMismatchError extends Error {
+  expected: string;
+  received: string;
+
+  constructor(expected: string, received: string) {
+    super(
+      `Hub certificate fingerprint mismatch (expected ${expected}, received ${received || 'none'})`
+    );
+    this.name = 'CertificateMismatchError';
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+/**
+ * Verify the certificate of an established TLS connection against a pinned fingerprint
+ * Destroys the socket when the fingerprint does not match
+ * @param socket - Connected TLS socket
+ * @param expected - Normalized SHA-256 fingerprint
+ */
+export function verifyPeerCertificate(socket: TLSSocket, expected: string): void {
+  const received = socket.getPeerCertificate()?.fingerprint256 ?? '';
+  if (received.toUpperCase() !== expected) {
+    socket.destroy(new CertificateMismatchError(expected, received));
+  }
+}
+
+/**
+ * HTTPS agent that accepts self-signed certificates, optionally pinned by fingerprint
+ */
+class HubAgent extends https.Agent {
+  private fingerprint?: string;
+
+  constructor(fingerprint?: string) {
+    super({ keepAlive: true, rejectUnauthorized: false });
+    this.fingerprint = fingerprint;
+  }
+
+  createConnection(
+    options: https.RequestOptions,
+    callback?: (err: Error | null, stream: Duplex) => void
+  ): Duplex | null | undefined {
+    const socket = super.createConnection(options, callback) as TLSSocket | null | undefined;
+    const fingerprint = this.fingerprint;
+
+    if (socket && fingerprint) {
+      socket.once('secureConnect', () => verifyPeerCertificate(socket, fingerprint));
+    }
+
+    return socket;
+  }
+}
+
+/**
+ * Create the HTTPS agent used for all requests to the hub
+ * @param config - Proxy configuration
+ * @returns Agent instance to pass to `https.request`
+ */
+export function createHubAgent(config: ProxyConfig): https.Agent {
+  return new HubAgent(config.hubFingerprint);
+}
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/**
+ * @zigbee-visualizer/hub-proxy
+ *
+ * Local proxy for the IKEA Dirigera hub. Browsers cannot talk to the hub
+ * directly because it uses a self-signed certificate and sends no CORS
+ * headers; this proxy accepts the hub certificate (optionally pinned by
+ * fingerprint), adds CORS headers and serves the built web app.
+ *
+ * @packageDocumentation
+ */
+
+import { loadConfig } from './config.js';
+import { createProxyServer } from './server.js';
+
+/**
+ * Start the proxy using configuration from the environment
+ */
+function main(): void {
+  let config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const server = createProxyServer(config);
+
+  server.listen(config.port, config.host, () => {
+    console.log(`Dirigera hub proxy listening on http://${config.host}:${config.port}`);
+    console.log(`  Forwarding /v1/* to https://${config.hubAddress}:${config.hubPort}/v1`);
+    console.log(`  Forwarding event stream ws://.../v1 to wss://${config.hubAddress}:${config.hubPort}/v1`);
+    console.log(
+      config.hubFingerprint
+        ? `  Pinned hub certificate: ${config.hubFingerprint}`
+        : '  Hub certificate is not pinned (set HUB_FINGERPRINT to pin it)'
+    );
+    if (config.staticDir) {
+      console.log(`  Serving web app from ${config.staticDir} at ${config.basePath}`);
+    }
+  });
+
+  const shutdown = () => {
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -0,0 +1,111 @@
+/**
+ * Request forwarding to the Dirigera hub
+ *
+ * Forwards `/v1/*` requests unchanged (including the Authorization header)
+ * to `https://<hub>:<port>/v1/*` and streams the response back.
+ */
+
+import https from 'node:https';
+import type { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'node:http';
+import type { ProxyConfig } from './config.js';
+import { CertificateMismatchError } from './hub-agent.js';
+
+/**
+ * Path prefix of the hub API
+ */
+export const API_PREFIX = '/v1';
+
+/**
+ * Hop-by-hop and browser-specific headers that must not be forwarded to the hub
+ */
+const STRIPPED_REQUEST_HEADERS = new Set([
+  'host',
+  'origin',
+  'referer',
+  'connection',
+  'keep-alive',
+  'upgrade',
+  'proxy-connection',
+  'transfer-encoding',
+]);
+
+/**
+ * Check whether a request path targets the hub API
+ */
+export function isApiRequest(url: string): boolean {
+  return url === API_PREFIX || url.startsWith(`${API_PREFIX}/`) || url.startsWith(`${API_PREFIX}?`);
+}
+
+/**
+ * Copy request headers that are safe to forward to the hub
+ */
+export function buildUpstreamHeaders(req: IncomingMessage, config: ProxyConfig): OutgoingHttpHeaders {
+  const headers: OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined && !STRIPPED_REQUEST_HEADERS.has(name)) {
+      headers[name] = value;
+    }
+  }
+  headers.host = `${config.hubAddress}:${config.hubPort}`;
+  return headers;
+}
+
+/**
+ * Send a JSON error in the same shape the hub uses, so the web client
+ * surfaces it through DirigeeraApiError
+ */
+export function sendError(res: ServerResponse, status: number, message: string, code: string): void {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ message, code }));
+}
+
+/**
+ * Forward a request to the hub and pipe the response back to the client
+ * @param req - Incoming browser request
+ * @param res - Response to the browser
+ * @param config - Proxy configuration
+ * @param agent - Agent used for hub connections
+ */
+export function forwardToHub(
+  req: IncomingMessage,
+  res: ServerResponse,
+  config: ProxyConfig,
+  agent: https.Agent
+): void {
+  const upstream = https.request(
+    {
+      host: config.hubAddress,
+      port: config.hubPort,
+      method: req.method,
+      path: req.url,
+      headers: buildUpstreamHeaders(req, config),
+      agent,
+      // Below the web client's 10 second timeout, so the client gets the
+      // proxy's answer instead of retrying while this request still runs
+      timeout: 8000,
+    },
+    (hubResponse) => {
+      res.writeHead(hubResponse.statusCode ?? 502, hubResponse.headers);
+      hubResponse.pipe(res);
+    }
+  );
+
+  upstream.on('timeout', () => {
+    upstream.destroy(new Error('Hub did not respond in time'));
+  });
+
+  upstream.on('error', (error) => {
+    console.error(`[proxy] ${req.method} ${req.url} failed:`, error.message);
+    if (error instanceof CertificateMismatchError) {
+      sendError(res, 502, error.message, 'CERTIFICATE_MISMATCH');
+    } else {
+      sendError(res, 502, `Unable to reach Dirigera hub: ${error.message}`, 'HUB_UNREACHABLE');
+    }
+  });
+
+  req.pipe(upstream);
+}
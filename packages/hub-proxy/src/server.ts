@@ -0,0 +1,54 @@
+/**
+ * HTTP server wiring for the hub proxy
+ */
+
+import http from 'node:http';
+import type { ProxyConfig } from './config.js';
+import { applyCorsHeaders, handlePreflight } from './cors.js';
+import { createHubAgent } from './hub-agent.js';
+import { forwardToHub, isApiRequest, sendError } from './proxy.js';
+import { serveStatic } from './static.js';
+import { forwardUpgrade } from './websocket.js';
+
+/**
+ * Create the proxy HTTP server
+ * @param config - Proxy configuration
+ * @returns HTTP server (not yet listening)
+ */
+export function createProxyServer(config: ProxyConfig): http.Server {
+  const agent = createHubAgent(config);
+
+  const server = http.createServer(async (req, res) => {
+    const url = req.url ?? '/';
+
+    try {
+      if (isApiRequest(url)) {
+        if (!applyCorsHeaders(req, res, config)) {
+          sendError(res, 403, 'Origin not allowed by hub proxy', 'ORIGIN_NOT_ALLOWED');
+          return;
+        }
+        if (handlePreflight(req, res)) {
+          return;
+        }
+        forwardToHub(req, res, config, agent);
+        return;
+      }
+
+      if (await serveStatic(req, res, config)) {
+        return;
+      }
+
+      sendError(res, 404, `Not found: ${url}`, 'NOT_FOUND');
+    } catch (error) {
+      console.error(`[proxy] Failed to handle ${req.method} ${url}:`, error);
+      sendError(res, 500, 'Internal proxy error', 'PROXY_ERROR');
+    }
+  });
+
+  // Hub event stream (WebSocket)
+  server.on('upgrade', (req, socket, head) => {
+    forwardUpgrade(req, socket, head, config, agent);
+  });
+
+  return server;
+}
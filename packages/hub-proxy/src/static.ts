@@ -0,0 +1,100 @@
+/**
+ * Static file serving for the built web app
+ *
+ * Serves `apps/web/dist` under the base path the app was built for and falls
+ * back to index.html so client-side routes survive a page reload.
+ */
+
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ProxyConfig } from './config.js';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * Resolve a file path for a request, or null if it is outside the static directory
+ */
+function resolveFilePath(staticDir: string, relativePath: string): string | null {
+  const filePath = path.resolve(staticDir, `.${path.posix.normalize(`/${relativePath}`)}`);
+  if (filePath !== staticDir && !filePath.startsWith(`${staticDir}${path.sep}`)) {
+    return null;
+  }
+  return filePath;
+}
+
+/**
+ * Check whether a path points to a regular file
+ */
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stream a file to the response
+ */
+function sendFile(res: ServerResponse, filePath: string, cacheControl: string): void {
+  const contentType = CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream';
+  res.writeHead(200, { 'Content-Type': contentType, 'Cache-Control': cacheControl });
+  createReadStream(filePath).pipe(res);
+}
+
+/**
+ * Serve the web app for a request
+ * @returns true if the request was handled
+ */
+export async function serveStatic(
+  req: IncomingMessage,
+  res: ServerResponse,
+  config: ProxyConfig
+): Promise<boolean> {
+  if (!config.staticDir || (req.method !== 'GET' && req.method !== 'HEAD')) {
+    return false;
+  }
+
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  // Send the root to the app's base path
+  if (pathname === '/' && config.basePath !== '/') {
+    res.writeHead(302, { Location: config.basePath });
+    res.end();
+    return true;
+  }
+
+  if (!`${pathname}/`.startsWith(config.basePath)) {
+    return false;
+  }
+
+  const relativePath = decodeURIComponent(pathname.slice(config.basePath.length));
+  const filePath = resolveFilePath(config.staticDir, relativePath);
+  if (filePath && (await isFile(filePath))) {
+    // Vite fingerprints everything under assets/, so it can be cached forever
+    const immutable = relativePath.startsWith('assets/');
+    sendFile(res, filePath, immutable ? 'public, max-age=31536000, immutable' : 'no-cache');
+    return true;
+  }
+
+  const indexPath = path.join(config.staticDir, 'index.html');
+  if (await isFile(indexPath)) {
+    sendFile(res, indexPath, 'no-cache');
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,108 @@
+/**
+ * WebSocket forwarding for the hub event stream
+ *
+ * The hub pushes device events over a WebSocket on `/v1`. Browsers cannot
+ * set an Authorization header on WebSocket connections, so the web app sends
+ * the token as an `access_token` query parameter; the proxy moves it into the
+ * header before forwarding the upgrade to the hub.
+ */
+
+import https from 'node:https';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { ProxyConfig } from './config.js';
+import { isOriginAllowed } from './cors.js';
+import { buildUpstreamHeaders, isApiRequest } from './proxy.js';
+
+/**
+ * Write a plain HTTP error response on a raw socket and close it
+ */
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+/**
+ * Serialize a status line and raw headers into an HTTP response head
+ */
+function formatResponseHead(status: number, reason: string, rawHeaders: string[]): string {
+  const lines = [`HTTP/1.1 ${status} ${reason}`];
+  for (let i = 0; i < rawHeaders.length; i += 2) {
+    lines.push(`${rawHeaders[i]}: ${rawHeaders[i + 1]}`);
+  }
+  return `${lines.join('\r\n')}\r\n\r\n`;
+}
+
+/**
+ * Forward a WebSocket upgrade request to the hub and pipe both directions
+ * @param req - Upgrade request from the browser
+ * @param socket - Raw client socket
+ * @param head - First packet of the upgraded stream
+ * @param config - Proxy configuration
+ * @param agent - Agent used for hub connections
+ */
+export function forwardUpgrade(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  config: ProxyConfig,
+  agent: https.Agent
+): void {
+  if (!isApiRequest(req.url ?? '/')) {
+    rejectUpgrade(socket, 404, 'Not Found');
+    return;
+  }
+
+  if (!isOriginAllowed(req, config)) {
+    rejectUpgrade(socket, 403, 'Forbidden');
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const token = url.searchParams.get('access_token');
+  url.searchParams.delete('access_token');
+
+  const headers = buildUpstreamHeaders(req, config);
+  headers.connection = 'Upgrade';
+  headers.upgrade = 'websocket';
+  if (token && !headers.authorization) {
+    headers.authorization = `Bearer ${token}`;
+  }
+
+  const upstream = https.request({
+    host: config.hubAddress,
+    port: config.hubPort,
+    method: 'GET',
+    path: `${url.pathname}${url.search}`,
+    headers,
+    agent,
+  });
+
+  upstream.on('upgrade', (hubResponse, hubSocket, hubHead) => {
+    socket.write(
+      formatResponseHead(101, hubResponse.statusMessage ?? 'Switching Protocols', hubResponse.rawHeaders)
+    );
+    if (hubHead.length > 0) {
+      socket.write(hubHead);
+    }
+    if (head.length > 0) {
+      hubSocket.write(head);
+    }
+
+    hubSocket.on('error', () => socket.destroy());
+    socket.on('error', () => hubSocket.destroy());
+    hubSocket.pipe(socket).pipe(hubSocket);
+  });
+
+  // The hub refused the upgrade (e.g. 401 for a bad token)
+  upstream.on('response', (hubResponse) => {
+    rejectUpgrade(socket, hubResponse.statusCode ?? 502, hubResponse.statusMessage ?? 'Bad Gateway');
+    hubResponse.resume();
+  });
+
+  upstream.on('error', (error) => {
+    console.error(`[proxy] WebSocket ${req.url?.split('?')[0]} failed:`, error.message);
+    rejectUpgrade(socket, 502, 'Bad Gateway');
+  });
+
+  upstream.end();
+}
@@ -0,0 +1,18 @@
+/**
+ * Request authentication for the simulated hub
+ */
+
+import type http from 'node:http';
+
+/**
+ * Whether the request carries a bearer token
+ * The simulator accepts any non-empty token, from either the Authorization
+ * header or an `access_token` query parameter (used by browser WebSockets)
+ * @param req - Incoming request
+ * @param url - Parsed request URL
+ */
+export function isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+  const header = req.headers.authorization ?? '';
+  const token = header.replace(/^Bearer\s+/i, '') || url.searchParams.get('access_token');
+  return Boolean(token);
+}
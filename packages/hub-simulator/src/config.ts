@@ -0,0 +1,72 @@
+/**
+ * Hub simulator configuration
+ *
+ * Configuration is read from environment variables and can be overridden
+ * with `--key=value` command line flags (e.g. `--scenario=flaky`).
+ */
+
+/**
+ * Resolved simulator configuration
+ */
+export interface SimulatorConfig {
+  /** Interface the simulator listens on (default: 0.0.0.0) */
+  host: string;
+  /** Port the simulator listens on (default: 8443, like a real hub) */
+  port: number;
+  /** Built-in scenario name or path to a scenario JSON file */
+  scenario: string;
+  /** Milliseconds after /oauth/authorize until the "button" counts as pressed */
+  pairingDelay: number;
+}
+
+/**
+ * Parse `--key=value` flags into a map keyed by the flag name
+ */
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (const arg of argv) {
+    const match = /^--([a-z0-9-]+)(?:=(.*))?$/i.exec(arg);
+    if (match && match[1]) {
+      args.set(match[1].toLowerCase(), match[2] ?? 'true');
+    }
+  }
+  return args;
+}
+
+/**
+ * Parse a non-negative integer, throwing a descriptive error when invalid
+ */
+function parseInteger(value: string, name: string, min: number, max: number): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < min || parsed > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max} (got "${value}")`);
+  }
+  return parsed;
+}
+
+/**
+ * Load the simulator configuration from the environment and command line
+ * @param argv - Command line arguments (default: process.argv)
+ * @param env - Environment variables (default: process.env)
+ * @returns Resolved configuration
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): SimulatorConfig {
+  const args = parseArgs(argv);
+  const get = (flag: string, envName: string): string | undefined =>
+    args.get(flag) ?? env[envName] ?? undefined;
+
+  return {
+    host: get('host', 'SIMULATOR_HOST') ?? '0.0.0.0',
+    port: parseInteger(get('port', 'SIMULATOR_PORT') ?? '8443', 'SIMULATOR_PORT', 1, 65535),
+    scenario: get('scenario', 'SCENARIO') ?? 'default',
+    pairingDelay: parseInteger(
+      get('pairing-delay', 'PAIRING_DELAY') ?? '5000',
+      'PAIRING_DELAY',
+      0,
+      600000
+    ),
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Random drift for simulated sensor values
+ *
+ * Each value takes a small random step per tick, is pulled back towards its
+ * baseline (so it never wanders off) and, for temperature and humidity,
+ * follows a gentle daily cycle so history charts look plausible.
+ */
+
+import type { SimulatedAttribute } from './scenarios/index.js';
+
+/**
+ * Drift parameters for one attribute
+ */
+interface DriftProfile {
+  /** Lowest value the sensor reports */
+  min: number;
+  /** Highest value the sensor reports */
+  max: number;
+  /** Standard deviation of the per-tick random step */
+  step: number;
+  /** Share of the distance to the baseline recovered per tick (0-1) */
+  reversion: number;
+  /** Amplitude of the daily cycle around the baseline */
+  dailyAmplitude: number;
+  /** Decimal places reported by the hub */
+  decimals: number;
+}
+
+const DRIFT_PROFILES: Record<SimulatedAttribute, DriftProfile> = {
+  currentTemperature: { min: 5, max: 35, step: 0.08, reversion: 0.02, dailyAmplitude: 1.2, decimals: 1 },
+  currentRH: { min: 10, max: 90, step: 0.4, reversion: 0.02, dailyAmplitude: 4, decimals: 0 },
+  currentPM25: { min: 0, max: 500, step: 0.6, reversion: 0.05, dailyAmplitude: 0, decimals: 0 },
+  vocIndex: { min: 1, max: 500, step: 2, reversion: 0.05, dailyAmplitude: 0, decimals: 0 },
+};
+
+/**
+ * Approximately normally distributed random number (mean 0, deviation 1)
+ */
+function randomNormal(): number {
+  // Irwin-Hall approximation is plenty for simulated sensor noise
+  let sum = 0;
+  for (let i = 0; i < 6; i++) {
+    sum += Math.random();
+  }
+  return (sum - 3) / Math.sqrt(0.5);
+}
+
+/**
+ * Round a value to the attribute's reporting precision and clamp it to range
+ * @param attribute - Attribute the value belongs to
+ * @param value - Raw value
+ * @returns Value as the hub would report it
+ */
+export function toReportedValue(attribute: SimulatedAttribute, value: number): number {
+  const { min, max, decimals } = DRIFT_PROFILES[attribute];
+  const factor = 10 ** decimals;
+  return Math.min(max, Math.max(min, Math.round(value * factor) / factor));
+}
+
+/**
+ * Compute the next drifted value
+ * @param attribute - Attribute being simulated
+ * @param current - Current (unrounded) value
+ * @param baseline - Value the sensor drifts around
+ * @param now - Simulation time, used for the daily cycle
+ * @returns Next unrounded value
+ */
+export function driftValue(
+  attribute: SimulatedAttribute,
+  current: number,
+  baseline: number,
+  now: Date = new Date()
+): number {
+  const { min, max, step, reversion, dailyAmplitude } = DRIFT_PROFILES[attribute];
+
+  // Daily cycle peaking mid-afternoon (15:00 local time)
+  const hours = now.getHours() + now.getMinutes() / 60;
+  const target = baseline + dailyAmplitude * Math.cos(((hours - 15) / 24) * 2 * Math.PI);
+
+  const next = current + (target - current) * reversion + randomNormal() * step;
+  return Math.min(max, Math.max(min, next));
+}
@@ -0,0 +1,72 @@
+/**
+ * Simulated hub event stream (WebSocket)
+ *
+ * Accepts WebSocket upgrades on /v1 and pushes a deviceStateChanged message
+ * for every device the simulation changes. Like the proxy, the token may be
+ * given as an Authorization header or an `access_token` query parameter.
+ */
+
+import type http from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { DeviceStateChangedMessage } from '@zigbee-visualizer/shared-types';
+import { WebSocketServer } from 'ws';
+import { isAuthorized } from './auth.js';
+import type { HubState } from './state.js';
+
+/**
+ * Reject an upgrade with a plain HTTP response
+ */
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+/**
+ * Attach the event stream to the simulator HTTP server
+ * @param server - Simulator HTTP server
+ * @param state - Simulated hub state to broadcast changes from
+ */
+export function attachEventStream(server: http.Server, state: HubState): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://simulator.local');
+
+    if (url.pathname.replace(/\/+$/, '') !== '/v1') {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+    if (!isAuthorized(req, url)) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req);
+    });
+  });
+
+  wss.on('connection', (ws) => {
+    console.log(`[simulator] Event stream client connected (${wss.clients.size} total)`);
+    ws.on('close', () => {
+      console.log(`[simulator] Event stream client disconnected (${wss.clients.size} total)`);
+    });
+  });
+
+  state.onDeviceChanged((device) => {
+    const message: DeviceStateChangedMessage = {
+      type: 'deviceStateChanged',
+      data: device,
+      timestamp: new Date().toISOString(),
+    };
+    const payload = JSON.stringify(message);
+    wss.clients.forEach((client) => {
+      if (client.readyState === client.OPEN) {
+        client.send(payload);
+      }
+    });
+  });
+
+  server.on('close', () => {
+    wss.close();
+  });
+}
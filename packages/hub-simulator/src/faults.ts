@@ -0,0 +1,104 @@
+/**
+ * Fault injection for simulated API responses
+ */
+
+import type { FaultSettings } from './scenarios/index.js';
+
+/**
+ * Fault chosen for a single request
+ */
+export type InjectedFault = 'unauthorized' | 'unavailable' | 'malformed' | null;
+
+/**
+ * Kinds of malformed payloads the simulator produces
+ */
+export type MalformationKind = 'wrongTypes' | 'missingFields' | 'truncated';
+
+const MALFORMATION_KINDS: MalformationKind[] = ['wrongTypes', 'missingFields', 'truncated'];
+
+/**
+ * Roll the dice for a request against the scenario's fault rates
+ * Faults are checked in order of severity: 401, then 503, then malformed
+ */
+export function pickFault(faults: FaultSettings | undefined): InjectedFault {
+  if (!faults) {
+    return null;
+  }
+  if (Math.random() < (faults.unauthorizedRate ?? 0)) {
+    return 'unauthorized';
+  }
+  if (Math.random() < (faults.errorRate ?? 0)) {
+    return 'unavailable';
+  }
+  if (Math.random() < (faults.malformedRate ?? 0)) {
+    return 'malformed';
+  }
+  return null;
+}
+
+/**
+ * Wait for the scenario's configured latency (no-op without latency)
+ */
+export function applyLatency(faults: FaultSettings | undefined): Promise<void> {
+  if (!faults?.latency) {
+    return Promise.resolve();
+  }
+  const { min, max } = faults.latency;
+  const delay = min + Math.random() * Math.max(0, max - min);
+  return new Promise((resolve) => setTimeout(resolve, delay));
+}
+
+/**
+ * Turn every number in a payload into a string (e.g. currentPM25: "12")
+ */
+function stringifyNumbers(value: unknown): unknown {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringifyNumbers);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, stringifyNumbers(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Drop one random field from each object in the payload
+ */
+function dropFields(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(dropFields);
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    const dropIndex = Math.floor(Math.random() * entries.length);
+    return Object.fromEntries(entries.filter((_, index) => index !== dropIndex));
+  }
+  return value;
+}
+
+/**
+ * Serialize a payload with a deliberate defect
+ * @param payload - Well-formed response payload
+ * @param kind - Defect to introduce (default: random)
+ * @returns Response body as sent to the client
+ */
+export function malformPayload(
+  payload: unknown,
+  kind: MalformationKind = MALFORMATION_KINDS[Math.floor(Math.random() * MALFORMATION_KINDS.length)]!
+): string {
+  switch (kind) {
+    case 'wrongTypes':
+      return JSON.stringify(stringifyNumbers(payload));
+    case 'missingFields':
+      return JSON.stringify(dropFields(payload));
+    case 'truncated': {
+      const body = JSON.stringify(payload);
+      return body.slice(0, Math.max(1, Math.floor(body.length / 2)));
+    }
+  }
+}
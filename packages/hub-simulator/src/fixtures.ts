@@ -0,0 +1,276 @@
+/**
+ * Initial hub, room and device fixtures for the simulator
+ */
+
+import type {
+  BaseDevice,
+  BaseDeviceAttributes,
+  DirigeeraDevice,
+  EnvironmentSensorDevice,
+  HubInfoResponse,
+  RoomResponse,
+} from '@zigbee-visualizer/shared-types';
+
+/**
+ * Simulated hub identity
+ */
+export const HUB_INFO: HubInfoResponse = {
+  id: 'simulated-dirigera-hub',
+  firmwareVersion: '2.615.8',
+  hardwareVersion: 'P2.5',
+  model: 'DIRIGERA Hub for smart products',
+  serialNumber: 'SIM0000000001',
+  isOnline: true,
+};
+
+/**
+ * Rooms configured on the simulated hub
+ */
+export const ROOMS: RoomResponse[] = [
+  { id: 'room-living', name: 'Living Room', icon: 'rooms_sofa', color: 'ikea_green_no_65' },
+  { id: 'room-bedroom', name: 'Bedroom', icon: 'rooms_bed', color: 'ikea_blue_no_1' },
+  { id: 'room-kitchen', name: 'Kitchen', icon: 'rooms_cutlery', color: 'ikea_yellow_no_24' },
+  { id: 'room-office', name: 'Office', icon: 'rooms_desk', color: 'ikea_pink_no_8' },
+  { id: 'room-hallway', name: 'Hallway', icon: 'rooms_door', color: 'ikea_grey_no_3' },
+];
+
+/**
+ * Fields every fixture shares, derived from its ID, name, room and model
+ */
+function baseFields(
+  id: string,
+  customName: string,
+  roomId: string,
+  canReceive: string[]
+): Omit<BaseDevice, 'type' | 'deviceType'> {
+  const room = ROOMS.find((r) => r.id === roomId)!;
+
+  return {
+    id,
+    customName,
+    isReachable: true,
+    capabilities: {
+      canSend: [],
+      canReceive,
+    },
+    room: { id: room.id, name: room.name },
+  };
+}
+
+/**
+ * Attributes every fixture shares
+ */
+function baseAttributes(customName: string, model: string, firmwareVersion: string) {
+  return {
+    customName,
+    model,
+    manufacturer: 'IKEA of Sweden' as const,
+    firmwareVersion,
+    hardwareVersion: '1',
+  };
+}
+
+/**
+ * Create an environment sensor fixture
+ * Purifiers (fixtures with a fanMode) can also be controlled
+ */
+function environmentSensor(
+  id: string,
+  customName: string,
+  roomId: string,
+  model: 'VINDSTYRKA' | 'STARKVIND',
+  attributes: Omit<EnvironmentSensorDevice['attributes'], keyof BaseDeviceAttributes>,
+  firmwareVersion = '1.0.11'
+): EnvironmentSensorDevice {
+  const room = ROOMS.find((r) => r.id === roomId)!;
+
+  return {
+    id,
+    type: 'environment_sensor',
+    deviceType: 'environmentSensor',
+    customName,
+    isReachable: true,
+    capabilities: {
+      canSend: [],
+      canReceive: attributes.fanMode !== undefined
+        ? ['customName', 'fanMode', 'childLock', 'statusLight']
+        : ['customName'],
+    },
+    room: { id: room.id, name: room.name },
+    attributes: {
+      customName,
+      model,
+      manufacturer: 'IKEA of Sweden',
+      firmwareVersion,
+      hardwareVersion: '1',
+      ...attributes,
+    },
+  };
+}
+
+/**
+ * Create the non-sensor fixtures: lights, outlets, blinds, a remote and
+ * binary sensors
+ */
+function createOtherDevices(): DirigeeraDevice[] {
+  return [
+    {
+      ...baseFields('light-living-ceiling', 'Ceiling Light', 'room-living', [
+        'customName',
+        'isOn',
+        'lightLevel',
+        'colorTemperature',
+      ]),
+      type: 'light',
+      deviceType: 'light',
+      attributes: {
+        ...baseAttributes('Ceiling Light', 'TRADFRI bulb E27 CWS 806lm', '1.0.21'),
+        isOn: true,
+        lightLevel: 80,
+        colorTemperature: 2700,
+        colorTemperatureMin: 4000,
+        colorTemperatureMax: 2202,
+        colorMode: 'temperature',
+      },
+    },
+    {
+      ...baseFields('light-bedroom-lamp', 'Bedside Lamp', 'room-bedroom', [
+        'customName',
+        'isOn',
+        'lightLevel',
+      ]),
+      type: 'light',
+      deviceType: 'light',
+      attributes: {
+        ...baseAttributes('Bedside Lamp', 'TRADFRI bulb E14 W op/ch 400lm', '1.0.21'),
+        isOn: false,
+        lightLevel: 40,
+      },
+    },
+    {
+      ...baseFields('outlet-kitchen-coffee', 'Coffee Maker', 'room-kitchen', ['customName', 'isOn']),
+      type: 'outlet',
+      deviceType: 'outlet',
+      attributes: {
+        ...baseAttributes('Coffee Maker', 'TRETAKT Smart plug', '1.0.12'),
+        isOn: false,
+      },
+    },
+    {
+      ...baseFields('outlet-office-desk', 'Desk Setup', 'room-office', ['customName', 'isOn']),
+      type: 'outlet',
+      deviceType: 'outlet',
+      attributes: {
+        ...baseAttributes('Desk Setup', 'INSPELNING Smart plug', '2.4.45'),
+        isOn: true,
+        currentActivePower: 92.4,
+        currentVoltage: 231,
+        currentAmps: 0.4,
+        totalEnergyConsumed: 148.25,
+        energyConsumedAtLastReset: 0,
+        timeOfLastEnergyReset: '2024-01-01T00:00:00.000Z',
+      },
+    },
+    {
+      ...baseFields('blinds-bedroom', 'Bedroom Blinds', 'room-bedroom', [
+        'customName',
+        'blindsTargetLevel',
+      ]),
+      type: 'blinds',
+      deviceType: 'blinds',
+      attributes: {
+        ...baseAttributes('Bedroom Blinds', 'FYRTUR block-out roller blind', '24.4.5'),
+        blindsCurrentLevel: 0,
+        blindsTargetLevel: 0,
+        blindsState: 'stopped',
+      },
+    },
+    {
+      ...baseFields('controller-living-remote', 'Living Room Remote', 'room-living', ['customName']),
+      type: 'controller',
+      deviceType: 'controller',
+      attributes: {
+        ...baseAttributes('Living Room Remote', 'STYRBAR remote control N2', '2.4.5'),
+        isOn: true,
+        batteryPercentage: 72,
+      },
+    },
+    {
+      ...baseFields('motion-hallway', 'Hallway Motion', 'room-hallway', ['customName']),
+      type: 'motion_sensor',
+      deviceType: 'motionSensor',
+      attributes: {
+        ...baseAttributes('Hallway Motion', 'VALLHORN Wireless Motion Sensor', '1.0.64'),
+        isDetected: false,
+        batteryPercentage: 18,
+      },
+    },
+    {
+      ...baseFields('door-front', 'Front Door', 'room-hallway', ['customName']),
+      type: 'open_close_sensor',
+      deviceType: 'openCloseSensor',
+      attributes: {
+        ...baseAttributes('Front Door', 'PARASOLL Door/Window Sensor', '1.0.19'),
+        isOpen: false,
+        batteryPercentage: 6,
+      },
+    },
+    {
+      ...baseFields('leak-kitchen-sink', 'Under the Sink', 'room-kitchen', ['customName']),
+      type: 'water_sensor',
+      deviceType: 'waterSensor',
+      attributes: {
+        ...baseAttributes('Under the Sink', 'BADRING Water Leakage Sensor', '1.0.7'),
+        waterLeakDetected: false,
+        batteryPercentage: 91,
+      },
+    },
+  ];
+}
+
+/**
+ * Create a fresh copy of the simulated devices
+ */
+export function createDevices(): DirigeeraDevice[] {
+  return [
+    ...createEnvironmentSensors(),
+    ...createOtherDevices(),
+  ];
+}
+
+/**
+ * Create the environment sensor fixtures
+ */
+function createEnvironmentSensors(): EnvironmentSensorDevice[] {
+  return [
+    environmentSensor('sensor-living-room', 'Living Room Air', 'room-living', 'VINDSTYRKA', {
+      currentTemperature: 21.4,
+      currentRH: 42,
+      currentPM25: 6,
+      vocIndex: 98,
+    }),
+    // One update behind the other VINDSTYRKA sensors
+    environmentSensor('sensor-bedroom', 'Bedroom Air', 'room-bedroom', 'VINDSTYRKA', {
+      currentTemperature: 19.8,
+      currentRH: 48,
+      currentPM25: 3,
+      vocIndex: 85,
+    }, '1.0.9'),
+    environmentSensor('sensor-kitchen', 'Kitchen Air', 'room-kitchen', 'VINDSTYRKA', {
+      currentTemperature: 22.6,
+      currentRH: 51,
+      currentPM25: 4,
+      vocIndex: 90,
+    }),
+    environmentSensor('sensor-office', 'Office Purifier', 'room-office', 'STARKVIND', {
+      currentPM25: 2,
+      fanMode: 'auto',
+      motorState: 10,
+      childLock: false,
+      statusLight: true,
+      filterLifetime: 259200,
+      filterElapsedTime: 241920,
+      filterAlarmStatus: false,
+    }),
+  ];
+}
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/**
+ * @zigbee-visualizer/hub-simulator
+ *
+ * Simulated IKEA Dirigera hub for developing and demoing the web app without
+ * hardware. Serves the hub REST API and event stream with drifting or
+ * scripted sensor values, and can inject faults described by a scenario.
+ *
+ * @packageDocumentation
+ */
+
+import { loadConfig } from './config.js';
+import { loadScenario } from './scenarios/index.js';
+import { createSimulatorServer } from './server.js';
+import { HubState } from './state.js';
+
+/**
+ * Start the simulator using configuration from the environment
+ */
+async function main(): Promise<void> {
+  let config;
+  let scenario;
+  try {
+    config = loadConfig();
+    scenario = await loadScenario(config.scenario);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const state = new HubState(scenario);
+  const server = createSimulatorServer(config, scenario, state);
+
+  server.listen(config.port, config.host, () => {
+    state.start();
+    console.log(`Dirigera hub simulator listening on http://${config.host}:${config.port}`);
+    console.log(`  Scenario: ${scenario.name} - ${scenario.description}`);
+    console.log(`  Devices: ${state.getDevices().map((d) => d.id).join(', ')}`);
+    console.log(`  Event stream: ws://${config.host}:${config.port}/v1`);
+    console.log(`  Pairing: button is "pressed" ${config.pairingDelay / 1000}s after authorize`);
+  });
+
+  const shutdown = () => {
+    state.stop();
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
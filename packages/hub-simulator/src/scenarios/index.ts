@@ -0,0 +1,101 @@
+/**
+ * Built-in simulator scenarios and scenario loading
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { Scenario } from './types.js';
+
+export type {
+  Scenario,
+  FaultSettings,
+  LeakWindow,
+  ScriptedValues,
+  SimulatedAttribute,
+  UnreachableWindow,
+} from './types.js';
+
+/**
+ * Scenarios available by name via SCENARIO=<name>
+ */
+export const BUILT_IN_SCENARIOS: Record<string, Scenario> = {
+  default: {
+    name: 'default',
+    description: 'Healthy hub with gently drifting sensor values',
+    tickInterval: 5000,
+  },
+  cooking: {
+    name: 'cooking',
+    description: 'Kitchen PM2.5 and VOC spike every 100 seconds, everything else drifts',
+    tickInterval: 5000,
+    scripts: [
+      {
+        deviceId: 'sensor-kitchen',
+        attribute: 'currentPM25',
+        values: [4, 4, 5, 12, 38, 85, 120, 96, 64, 40, 24, 14, 9, 6, 5, 4, 4, 4, 4, 4],
+      },
+      {
+        deviceId: 'sensor-kitchen',
+        attribute: 'vocIndex',
+        values: [90, 92, 110, 180, 260, 320, 300, 250, 200, 160, 130, 110, 100, 95, 92, 90, 90, 90, 90, 90],
+      },
+    ],
+  },
+  flaky: {
+    name: 'flaky',
+    description: 'Slow hub, occasional 503s and a bedroom sensor that drops off the network',
+    tickInterval: 5000,
+    faults: {
+      latency: { min: 300, max: 2500 },
+      errorRate: 0.1,
+      unreachable: [
+        { deviceId: 'sensor-bedroom', fromTick: 6, toTick: 18 },
+        { deviceId: 'sensor-bedroom', fromTick: 40, toTick: 48 },
+      ],
+    },
+  },
+  leak: {
+    name: 'leak',
+    description: 'The sensor under the kitchen sink reports water after a minute, for two minutes',
+    tickInterval: 5000,
+    leaks: [{ deviceId: 'leak-kitchen-sink', fromTick: 12, toTick: 36 }],
+  },
+  unauthorized: {
+    name: 'unauthorized',
+    description: 'Every API request is rejected with 401 (expired or revoked token)',
+    faults: {
+      unauthorizedRate: 1,
+    },
+  },
+  malformed: {
+    name: 'malformed',
+    description: 'A third of responses have wrong types, missing fields or truncated JSON',
+    faults: {
+      malformedRate: 0.33,
+    },
+  },
+};
+
+/**
+ * Load a scenario by built-in name or from a JSON file path
+ * @param nameOrPath - Built-in scenario name, or path to a .json file
+ * @returns Scenario definition
+ */
+export async function loadScenario(nameOrPath: string): Promise<Scenario> {
+  const builtIn = BUILT_IN_SCENARIOS[nameOrPath];
+  if (builtIn) {
+    return builtIn;
+  }
+
+  if (!nameOrPath.endsWith('.json')) {
+    throw new Error(
+      `Unknown scenario "${nameOrPath}". Use one of: ${Object.keys(BUILT_IN_SCENARIOS).join(', ')}, or a path to a .json file.`
+    );
+  }
+
+  const scenario = JSON.parse(await readFile(nameOrPath, 'utf8')) as Partial<Scenario>;
+  return {
+    name: scenario.name ?? nameOrPath,
+    description: scenario.description ?? `Custom scenario from ${nameOrPath}`,
+    ...scenario,
+  };
+}
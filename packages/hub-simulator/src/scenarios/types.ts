@@ -0,0 +1,94 @@
+/**
+ * Scenario definitions for the hub simulator
+ *
+ * A scenario controls how sensor values evolve and which faults the
+ * simulated hub injects. Scenarios can be built in (see ./index.ts) or
+ * loaded from a JSON file with the same shape.
+ */
+
+/**
+ * Numeric sensor attributes the simulator can drive
+ */
+export type SimulatedAttribute = 'currentTemperature' | 'currentRH' | 'currentPM25' | 'vocIndex';
+
+/**
+ * Values replayed for one device attribute, one value per tick (looping)
+ */
+export interface ScriptedValues {
+  /** Device to drive */
+  deviceId: string;
+  /** Attribute to set */
+  attribute: SimulatedAttribute;
+  /** Values applied on consecutive ticks */
+  values: number[];
+}
+
+/**
+ * Window in which a device reports isReachable: false
+ */
+export interface UnreachableWindow {
+  /** Device to take offline */
+  deviceId: string;
+  /** First tick the device is offline (default: 0) */
+  fromTick?: number;
+  /** First tick the device is back online (default: never) */
+  toTick?: number;
+}
+
+/**
+ * Window in which a water leak sensor reports water
+ */
+export interface LeakWindow {
+  /** Water leak sensor to trigger */
+  deviceId: string;
+  /** First tick the sensor reports water (default: 0) */
+  fromTick?: number;
+  /** First tick the sensor reports dry again (default: never) */
+  toTick?: number;
+}
+
+/**
+ * Fault injection settings
+ * Rates are probabilities between 0 and 1, evaluated per request
+ */
+export interface FaultSettings {
+  /** Added response latency range in milliseconds */
+  latency?: {
+    min: number;
+    max: number;
+  };
+  /** Share of API requests answered with 401 Unauthorized */
+  unauthorizedRate?: number;
+  /** Share of API requests answered with a malformed payload */
+  malformedRate?: number;
+  /** Share of API requests answered with 503 Service Unavailable */
+  errorRate?: number;
+  /** Devices that are unreachable for some or all of the run */
+  unreachable?: UnreachableWindow[];
+}
+
+/**
+ * Complete scenario
+ */
+export interface Scenario {
+  /** Scenario identifier */
+  name: string;
+  /** Human-readable description shown at startup */
+  description: string;
+  /**
+   * Time between simulation ticks in milliseconds
+   * @default 5000
+   */
+  tickInterval?: number;
+  /**
+   * Whether values not covered by scripts drift randomly
+   * @default true
+   */
+  randomDrift?: boolean;
+  /** Scripted values replayed per tick */
+  scripts?: ScriptedValues[];
+  /** Injected faults */
+  faults?: FaultSettings;
+  /** Water leaks reported by leak sensors */
+  leaks?: LeakWindow[];
+}
@@ -0,0 +1,368 @@
+/**
+ * HTTP server for the simulated hub API
+ *
+ * Serves the subset of the Dirigera REST API used by the web app (including
+ * device renames and light, outlet and purifier control), plus the OAuth
+ * pairing endpoints. Unlike a real hub it speaks plain HTTP and sends CORS
+ * headers, so the web app can talk to it directly in proxy mode.
+ */
+
+import { randomBytes } from 'node:crypto';
+import http from 'node:http';
+import type {
+  DeviceUpdateRequest,
+  DirigeeraDevice,
+  FanMode,
+  LightStateUpdate,
+  PurifierStateUpdate,
+} from '@zigbee-visualizer/shared-types';
+import { isAuthorized } from './auth.js';
+import type { SimulatorConfig } from './config.js';
+import { attachEventStream } from './events.js';
+import { applyLatency, malformPayload, pickFault } from './faults.js';
+import type { Scenario } from './scenarios/index.js';
+import type { HubState } from './state.js';
+
+/** Pending authorization codes mapped to the time they were issued */
+type PendingCodes = Map<string, number>;
+
+/**
+ * Add permissive CORS headers; the simulator is a development tool
+ */
+function applyCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse): void {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Max-Age', '600');
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Send an error in the hub's `{ message, code }` shape
+ */
+function sendError(res: http.ServerResponse, status: number, message: string, code: string): void {
+  sendJson(res, status, { message, code });
+}
+
+/**
+ * Read a request body as text
+ */
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * GET /v1/oauth/authorize - issue an authorization code
+ */
+function handleAuthorize(res: http.ServerResponse, url: URL, pendingCodes: PendingCodes): void {
+  if (!url.searchParams.get('code_challenge')) {
+    sendError(res, 400, 'Missing code_challenge', 'BAD_REQUEST');
+    return;
+  }
+  const code = randomBytes(16).toString('hex');
+  pendingCodes.set(code, Date.now());
+  console.log('[simulator] Pairing started, "pressing" the hub button automatically');
+  sendJson(res, 200, { code });
+}
+
+/**
+ * POST /v1/oauth/token - exchange a code for a token once the "button" is pressed
+ */
+async function handleToken(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  config: SimulatorConfig,
+  pendingCodes: PendingCodes
+): Promise<void> {
+  const params = new URLSearchParams(await readBody(req));
+  const code = params.get('code') ?? '';
+  const issuedAt = pendingCodes.get(code);
+
+  if (issuedAt === undefined || !params.get('code_verifier')) {
+    sendError(res, 400, 'Invalid authorization code or code verifier', 'BAD_REQUEST');
+    return;
+  }
+
+  // The real hub answers 403 until the action button has been pressed
+  if (Date.now() - issuedAt < config.pairingDelay) {
+    sendError(res, 403, 'Button not pressed or presence time stamp timed out.', 'FORBIDDEN');
+    return;
+  }
+
+  pendingCodes.delete(code);
+  console.log(`[simulator] Paired client "${params.get('name') ?? 'unknown'}"`);
+  sendJson(res, 200, {
+    access_token: `simulated-${randomBytes(24).toString('hex')}`,
+    token_type: 'Bearer',
+  });
+}
+
+/**
+ * Device state that can be written with PATCH
+ */
+type DeviceState = LightStateUpdate & PurifierStateUpdate;
+
+/** State attributes accepted by PATCH and their expected type */
+const STATE_ATTRIBUTE_TYPES: Record<keyof DeviceState, 'boolean' | 'number' | 'string'> = {
+  isOn: 'boolean',
+  lightLevel: 'number',
+  colorTemperature: 'number',
+  colorHue: 'number',
+  colorSaturation: 'number',
+  fanMode: 'string',
+  childLock: 'boolean',
+  statusLight: 'boolean',
+};
+
+const FAN_MODES: FanMode[] = ['auto', 'low', 'medium', 'high', 'off'];
+
+/**
+ * State attributes each device type accepts; the device must also list them
+ * in capabilities.canReceive
+ */
+const WRITABLE_ATTRIBUTES: Partial<Record<DirigeeraDevice['type'], (keyof DeviceState)[]>> = {
+  light: ['isOn', 'lightLevel', 'colorTemperature', 'colorHue', 'colorSaturation'],
+  outlet: ['isOn'],
+  environment_sensor: ['fanMode', 'childLock', 'statusLight'],
+};
+
+/**
+ * Read a PATCH /v1/devices/{id} body
+ * The hub takes a list of updates; a single update object is accepted too
+ * @returns The new name (null if not renamed) and state attributes, or an
+ * error message if the body has nothing to apply or values of the wrong type
+ */
+function readDeviceUpdate(
+  body: unknown
+): { customName: string | null; state: DeviceState } | { error: string } {
+  const updates = (Array.isArray(body) ? body : [body]) as DeviceUpdateRequest[];
+  const attributes: Record<string, unknown> = Object.assign(
+    {},
+    ...updates.map((update) => update?.attributes ?? {})
+  );
+
+  const { customName, ...rest } = attributes;
+  if (customName !== undefined && (typeof customName !== 'string' || !customName.trim())) {
+    return { error: 'Expected attributes.customName to be a non-empty string' };
+  }
+
+  const state: Record<string, unknown> = {};
+  for (const [attribute, value] of Object.entries(rest)) {
+    const expected = STATE_ATTRIBUTE_TYPES[attribute as keyof DeviceState];
+    if (!expected) {
+      return { error: `Unsupported attribute ${attribute}` };
+    }
+    if (typeof value !== expected) {
+      return { error: `Expected attributes.${attribute} to be a ${expected}` };
+    }
+    if (attribute === 'fanMode' && !FAN_MODES.includes(value as FanMode)) {
+      return { error: `Expected attributes.fanMode to be one of ${FAN_MODES.join(', ')}` };
+    }
+    state[attribute] = value;
+  }
+
+  if (customName === undefined && Object.keys(state).length === 0) {
+    return { error: 'Expected attributes to update' };
+  }
+  return {
+    customName: typeof customName === 'string' ? customName.trim() : null,
+    state: state as DeviceState,
+  };
+}
+
+/**
+ * Resolve the payload for an authenticated API route
+ * @param body - Parsed request body (PATCH only)
+ * @returns Status and body (undefined for an empty response), or null if no route matches
+ */
+function routeApiRequest(
+  method: string,
+  path: string,
+  body: unknown,
+  state: HubState
+): { status: number; body: unknown } | null {
+  if (method === 'PATCH') {
+    const patchMatch = /^\/v1\/devices\/([^/]+)$/.exec(path);
+    if (!patchMatch) {
+      return null;
+    }
+
+    const deviceId = decodeURIComponent(patchMatch[1]!);
+    const device = state.getDevice(deviceId);
+    if (!device) {
+      return { status: 404, body: { message: 'Device not found', code: 'NOT_FOUND' } };
+    }
+
+    const update = readDeviceUpdate(body);
+    if ('error' in update) {
+      return { status: 400, body: { message: update.error, code: 'BAD_REQUEST' } };
+    }
+
+    // Like the hub, only accept attributes the device lists in canReceive
+    const stateAttributes = Object.keys(update.state) as (keyof DeviceState)[];
+    const writable = WRITABLE_ATTRIBUTES[device.type] ?? [];
+    const rejected = stateAttributes.find(
+      (attribute) => !writable.includes(attribute) || !device.capabilities.canReceive.includes(attribute)
+    );
+    if (rejected) {
+      return { status: 400, body: { message: `Device does not accept ${rejected}`, code: 'BAD_REQUEST' } };
+    }
+
+    if (update.customName) {
+      state.renameDevice(deviceId, update.customName);
+    }
+    if (stateAttributes.length > 0) {
+      if (device.type === 'outlet') {
+        state.setOutletOn(deviceId, update.state.isOn!);
+      } else if (device.type === 'environment_sensor') {
+        state.updatePurifier(deviceId, update.state);
+      } else {
+        state.updateLight(deviceId, update.state);
+      }
+    }
+    return { status: 202, body: undefined };
+  }
+
+  if (method !== 'GET') {
+    return null;
+  }
+
+  if (path === '/v1/devices') {
+    return { status: 200, body: state.getDevices() };
+  }
+
+  const deviceMatch = /^\/v1\/devices\/([^/]+)$/.exec(path);
+  if (deviceMatch) {
+    const device = state.getDevice(decodeURIComponent(deviceMatch[1]!));
+    return device
+      ? { status: 200, body: device }
+      : { status: 404, body: { message: 'Device not found', code: 'NOT_FOUND' } };
+  }
+
+  if (path === '/v1/hub') {
+    return { status: 200, body: state.getHubInfo() };
+  }
+
+  if (path === '/v1/rooms') {
+    return { status: 200, body: state.getRooms() };
+  }
+
+  return null;
+}
+
+/**
+ * Create the simulator HTTP server with the event stream attached
+ * @param config - Simulator configuration
+ * @param scenario - Active scenario
+ * @param state - Simulated hub state
+ * @returns HTTP server (not yet listening)
+ */
+export function createSimulatorServer(
+  config: SimulatorConfig,
+  scenario: Scenario,
+  state: HubState
+): http.Server {
+  const pendingCodes: PendingCodes = new Map();
+
+  const server = http.createServer(async (req, res) => {
+    const method = req.method ?? 'GET';
+    const url = new URL(req.url ?? '/', 'http://simulator.local');
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+
+    try {
+      applyCorsHeaders(req, res);
+      if (method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      await applyLatency(scenario.faults);
+
+      if (method === 'GET' && path === '/v1/health') {
+        sendJson(res, 200, {
+          healthy: true,
+          timestamp: new Date().toISOString(),
+          uptime: state.getUptime(),
+        });
+        return;
+      }
+
+      if (method === 'GET' && path === '/v1/oauth/authorize') {
+        handleAuthorize(res, url, pendingCodes);
+        return;
+      }
+
+      if (method === 'POST' && path === '/v1/oauth/token') {
+        await handleToken(req, res, config, pendingCodes);
+        return;
+      }
+
+      if (!isAuthorized(req, url)) {
+        sendError(res, 401, 'Missing bearer token', 'UNAUTHORIZED');
+        return;
+      }
+
+      let body: unknown;
+      if (method === 'PATCH') {
+        try {
+          body = JSON.parse(await readBody(req));
+        } catch {
+          sendError(res, 400, 'Request body is not valid JSON', 'BAD_REQUEST');
+          return;
+        }
+      }
+
+      const route = routeApiRequest(method, path, body, state);
+      if (!route) {
+        sendError(res, 404, `No route for ${method} ${path}`, 'NOT_FOUND');
+        return;
+      }
+
+      const fault = pickFault(scenario.faults);
+      if (fault === 'unauthorized') {
+        sendError(res, 401, 'Token is invalid or has been revoked', 'UNAUTHORIZED');
+        return;
+      }
+      if (fault === 'unavailable') {
+        sendError(res, 503, 'Hub is busy, try again later', 'SERVICE_UNAVAILABLE');
+        return;
+      }
+      if (fault === 'malformed' && route.status === 200) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(malformPayload(route.body));
+        return;
+      }
+
+      if (route.body === undefined) {
+        res.writeHead(route.status);
+        res.end();
+        return;
+      }
+      sendJson(res, route.status, route.body);
+    } catch (error) {
+      console.error(`[simulator] Failed to handle ${method} ${url.pathname}:`, error);
+      if (!res.headersSent) {
+        sendError(res, 500, 'Simulator error', 'SIMULATOR_ERROR');
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  attachEventStream(server, state);
+
+  return server;
+}
@@ -0,0 +1,421 @@
+/**
+ * Simulated hub state
+ *
+ * Holds the device list and advances it one tick at a time: scripted values
+ * are replayed, everything else drifts, motion and door sensors toggle now
+ * and then, energy monitoring outlets meter what they draw, purifier fans
+ * follow PM2.5 in auto mode while their filters age, batteries drain slowly,
+ * and unreachable windows toggle isReachable. Listeners are notified of every device that changed so the
+ * event stream can push deviceStateChanged messages.
+ */
+
+import type {
+  DirigeeraDevice,
+  EnvironmentSensorDevice,
+  FanMode,
+  HubInfoResponse,
+  LightStateUpdate,
+  PurifierStateUpdate,
+  RoomResponse,
+} from '@zigbee-visualizer/shared-types';
+import { driftValue, toReportedValue } from './drift.js';
+import { createDevices, HUB_INFO, ROOMS } from './fixtures.js';
+import type { Scenario, SimulatedAttribute } from './scenarios/index.js';
+
+const SIMULATED_ATTRIBUTES: SimulatedAttribute[] = [
+  'currentTemperature',
+  'currentRH',
+  'currentPM25',
+  'vocIndex',
+];
+
+const DEFAULT_TICK_INTERVAL = 5000;
+
+/** Chance per tick that a motion sensor flips between detected and clear */
+const MOTION_TOGGLE_CHANCE = 0.15;
+/** Chance per tick that a door or window sensor opens or closes */
+const OPEN_CLOSE_TOGGLE_CHANCE = 0.05;
+/** Chance per tick that a battery-powered device loses one percent */
+const BATTERY_DRAIN_CHANCE = 0.01;
+
+/** Purifier fan speed (motorState) of each manual fan mode */
+const MANUAL_MOTOR_STATES: Record<Exclude<FanMode, 'auto'>, number> = {
+  low: 10,
+  medium: 25,
+  high: 50,
+  off: 0,
+};
+
+/** Largest per-tick change of an outlet's power draw, as a share of its baseline */
+const POWER_JITTER = 0.08;
+
+/**
+ * Listener for device changes
+ */
+export type DeviceChangeListener = (device: DirigeeraDevice) => void;
+
+/**
+ * Unrounded value and drift baseline for one device attribute
+ */
+interface AttributeState {
+  value: number;
+  baseline: number;
+}
+
+/**
+ * Mutable state of the simulated hub
+ */
+export class HubState {
+  private readonly scenario: Scenario;
+  private readonly devices: DirigeeraDevice[];
+  private readonly values = new Map<string, Map<SimulatedAttribute, AttributeState>>();
+  private readonly powerBaselines = new Map<string, number>();
+  /** Unrounded filter age of each purifier, in minutes */
+  private readonly filterAges = new Map<string, number>();
+  private readonly listeners = new Set<DeviceChangeListener>();
+  private readonly startedAt = Date.now();
+  private lastTickAt = Date.now();
+  private tickCount = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(scenario: Scenario) {
+    this.scenario = scenario;
+    this.devices = createDevices();
+
+    for (const device of this.devices) {
+      const attributes = new Map<SimulatedAttribute, AttributeState>();
+      if (device.type === 'environment_sensor') {
+        for (const attribute of SIMULATED_ATTRIBUTES) {
+          const value = device.attributes[attribute];
+          if (typeof value === 'number') {
+            attributes.set(attribute, { value, baseline: value });
+          }
+        }
+      }
+      this.values.set(device.id, attributes);
+      if (device.type === 'outlet' && device.attributes.currentActivePower !== undefined) {
+        this.powerBaselines.set(device.id, device.attributes.currentActivePower);
+      }
+      if (device.type === 'environment_sensor' && device.attributes.filterElapsedTime !== undefined) {
+        this.filterAges.set(device.id, device.attributes.filterElapsedTime);
+      }
+      device.isReachable = this.isReachableAt(device.id, 0);
+    }
+  }
+
+  /**
+   * Start advancing the simulation on the scenario's tick interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(
+      () => this.tick(),
+      this.scenario.tickInterval ?? DEFAULT_TICK_INTERVAL
+    );
+  }
+
+  /**
+   * Stop advancing the simulation
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Subscribe to device changes
+   * @returns Unsubscribe function
+   */
+  onDeviceChanged(listener: DeviceChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Advance the simulation by one tick and notify listeners of changes
+   */
+  tick(): void {
+    this.tickCount++;
+    const now = new Date();
+    const elapsed = now.getTime() - this.lastTickAt;
+    this.lastTickAt = now.getTime();
+
+    for (const device of this.devices) {
+      const isReachable = this.isReachableAt(device.id, this.tickCount);
+      let changed = isReachable !== device.isReachable;
+      device.isReachable = isReachable;
+
+      // Unreachable sensors keep reporting their last known values
+      if (isReachable && this.scenario.randomDrift !== false) {
+        if (device.type === 'motion_sensor' && Math.random() < MOTION_TOGGLE_CHANCE) {
+          device.attributes.isDetected = !device.attributes.isDetected;
+          changed = true;
+        } else if (device.type === 'open_close_sensor' && Math.random() < OPEN_CLOSE_TOGGLE_CHANCE) {
+          device.attributes.isOpen = !device.attributes.isOpen;
+          changed = true;
+        }
+
+        const { batteryPercentage } = device.attributes;
+        if (batteryPercentage !== undefined && batteryPercentage > 0 && Math.random() < BATTERY_DRAIN_CHANCE) {
+          device.attributes.batteryPercentage = batteryPercentage - 1;
+          changed = true;
+        }
+      }
+
+      if (isReachable && device.type === 'water_sensor') {
+        const isLeaking = this.isLeakingAt(device.id, this.tickCount);
+        if (device.attributes.waterLeakDetected !== isLeaking) {
+          device.attributes.waterLeakDetected = isLeaking;
+          changed = true;
+        }
+      }
+
+      if (isReachable && device.type === 'outlet' && this.powerBaselines.has(device.id)) {
+        changed = this.meterOutlet(device, elapsed) || changed;
+      }
+
+      if (isReachable && device.type === 'environment_sensor') {
+        for (const [attribute, state] of this.values.get(device.id) ?? []) {
+          const scripted = this.getScriptedValue(device.id, attribute);
+          if (scripted !== undefined) {
+            state.value = scripted;
+          } else if (this.scenario.randomDrift !== false) {
+            state.value = driftValue(attribute, state.value, state.baseline, now);
+          }
+
+          const reported = toReportedValue(attribute, state.value);
+          if (device.attributes[attribute] !== reported) {
+            device.attributes[attribute] = reported;
+            changed = true;
+          }
+        }
+      }
+
+      if (isReachable && device.type === 'environment_sensor' && device.attributes.fanMode !== undefined) {
+        changed = this.runPurifier(device, elapsed) || changed;
+      }
+
+      if (changed) {
+        const snapshot = structuredClone(device);
+        this.listeners.forEach((listener) => listener(snapshot));
+      }
+    }
+  }
+
+  /**
+   * Rename a device and notify listeners, as the hub does after a PATCH
+   * @returns Updated device, or undefined if no device has this ID
+   */
+  renameDevice(deviceId: string, customName: string): DirigeeraDevice | undefined {
+    const device = this.devices.find((d) => d.id === deviceId);
+    if (!device) {
+      return undefined;
+    }
+
+    device.customName = customName;
+    device.attributes.customName = customName;
+    const snapshot = structuredClone(device);
+    this.listeners.forEach((listener) => listener(snapshot));
+    return structuredClone(device);
+  }
+
+  /**
+   * Change a light and notify listeners, as the hub does after a PATCH
+   * @returns Updated device, or undefined if no light has this ID
+   */
+  updateLight(deviceId: string, state: LightStateUpdate): DirigeeraDevice | undefined {
+    const device = this.devices.find((d) => d.id === deviceId);
+    if (!device || device.type !== 'light') {
+      return undefined;
+    }
+
+    Object.assign(device.attributes, state);
+    if (state.colorHue !== undefined || state.colorSaturation !== undefined) {
+      device.attributes.colorMode = 'color';
+    } else if (state.colorTemperature !== undefined) {
+      device.attributes.colorMode = 'temperature';
+    }
+    const snapshot = structuredClone(device);
+    this.listeners.forEach((listener) => listener(snapshot));
+    return structuredClone(device);
+  }
+
+  /**
+   * Change a purifier's fan mode, child lock or status light and notify
+   * listeners, as the hub does after a PATCH
+   * @returns Updated device, or undefined if no purifier has this ID
+   */
+  updatePurifier(deviceId: string, state: PurifierStateUpdate): DirigeeraDevice | undefined {
+    const device = this.devices.find((d) => d.id === deviceId);
+    if (!device || device.type !== 'environment_sensor' || device.attributes.fanMode === undefined) {
+      return undefined;
+    }
+
+    Object.assign(device.attributes, state);
+    this.runPurifier(device, 0);
+    const snapshot = structuredClone(device);
+    this.listeners.forEach((listener) => listener(snapshot));
+    return structuredClone(device);
+  }
+
+  /**
+   * Switch an outlet and notify listeners, as the hub does after a PATCH
+   * A switched off outlet draws nothing
+   * @returns Updated device, or undefined if no outlet has this ID
+   */
+  setOutletOn(deviceId: string, isOn: boolean): DirigeeraDevice | undefined {
+    const device = this.devices.find((d) => d.id === deviceId);
+    if (!device || device.type !== 'outlet') {
+      return undefined;
+    }
+
+    device.attributes.isOn = isOn;
+    const baseline = this.powerBaselines.get(device.id);
+    if (baseline !== undefined) {
+      this.setOutletPower(device, isOn ? baseline : 0);
+    }
+    const snapshot = structuredClone(device);
+    this.listeners.forEach((listener) => listener(snapshot));
+    return structuredClone(device);
+  }
+
+  /**
+   * Get a copy of all devices
+   */
+  getDevices(): DirigeeraDevice[] {
+    return structuredClone(this.devices);
+  }
+
+  /**
+   * Get a copy of a single device
+   * @returns Device, or undefined if no device has this ID
+   */
+  getDevice(deviceId: string): DirigeeraDevice | undefined {
+    const device = this.devices.find((d) => d.id === deviceId);
+    return device ? structuredClone(device) : undefined;
+  }
+
+  /**
+   * Get the simulated hub information
+   */
+  getHubInfo(): HubInfoResponse {
+    return { ...HUB_INFO };
+  }
+
+  /**
+   * Get the rooms configured on the simulated hub
+   */
+  getRooms(): RoomResponse[] {
+    return ROOMS.map((room) => ({ ...room }));
+  }
+
+  /**
+   * Seconds since the simulator started
+   */
+  getUptime(): number {
+    return Math.floor((Date.now() - this.startedAt) / 1000);
+  }
+
+  /**
+   * Add what an energy monitoring outlet drew since the last tick to its
+   * meter, then let its power draw drift around the baseline while it is on
+   * @returns Whether a reported attribute changed
+   */
+  private meterOutlet(device: Extract<DirigeeraDevice, { type: 'outlet' }>, elapsed: number): boolean {
+    const { attributes } = device;
+    const { currentActivePower: previousPower, totalEnergyConsumed: previousEnergy } = attributes;
+
+    if (attributes.totalEnergyConsumed !== undefined && attributes.currentActivePower) {
+      // W × ms → kWh
+      const kwh = (attributes.currentActivePower * elapsed) / 3.6e9;
+      attributes.totalEnergyConsumed = Math.round((attributes.totalEnergyConsumed + kwh) * 1e4) / 1e4;
+    }
+
+    const baseline = this.powerBaselines.get(device.id) ?? 0;
+    if (!attributes.isOn) {
+      this.setOutletPower(device, 0);
+    } else if (this.scenario.randomDrift !== false) {
+      const current = attributes.currentActivePower || baseline;
+      const next = current + (baseline - current) * 0.2 + (Math.random() * 2 - 1) * POWER_JITTER * baseline;
+      this.setOutletPower(device, Math.max(0, next));
+    }
+
+    return attributes.currentActivePower !== previousPower || attributes.totalEnergyConsumed !== previousEnergy;
+  }
+
+  /**
+   * Set a purifier's fan speed from its fan mode (in auto mode from PM2.5)
+   * and age its filter by the time since the last tick
+   * @returns Whether a reported attribute changed
+   */
+  private runPurifier(device: EnvironmentSensorDevice, elapsed: number): boolean {
+    const { attributes } = device;
+    const { motorState: previousMotorState, filterElapsedTime: previousFilterAge } = attributes;
+
+    attributes.motorState = attributes.fanMode === 'auto'
+      ? Math.min(50, Math.max(5, Math.round(5 + (attributes.currentPM25 ?? 0) * 4)))
+      : MANUAL_MOTOR_STATES[attributes.fanMode ?? 'off'];
+
+    const filterAge = this.filterAges.get(device.id);
+    if (filterAge !== undefined && attributes.motorState > 0) {
+      const age = filterAge + elapsed / 60000;
+      this.filterAges.set(device.id, age);
+      attributes.filterElapsedTime = Math.floor(age);
+      attributes.filterAlarmStatus =
+        attributes.filterLifetime !== undefined && age >= attributes.filterLifetime;
+    }
+
+    return attributes.motorState !== previousMotorState || attributes.filterElapsedTime !== previousFilterAge;
+  }
+
+  /**
+   * Report a new power draw, with the current that goes with it
+   */
+  private setOutletPower(device: Extract<DirigeeraDevice, { type: 'outlet' }>, watts: number): void {
+    const power = Math.round(watts * 10) / 10;
+    device.attributes.currentActivePower = power;
+    if (device.attributes.currentVoltage) {
+      device.attributes.currentAmps = Math.round((power / device.attributes.currentVoltage) * 1000) / 1000;
+    }
+  }
+
+  /**
+   * Scripted value for the current tick, if a script drives this attribute
+   */
+  private getScriptedValue(deviceId: string, attribute: SimulatedAttribute): number | undefined {
+    const script = this.scenario.scripts?.find(
+      (s) => s.deviceId === deviceId && s.attribute === attribute && s.values.length > 0
+    );
+    return script ? script.values[this.tickCount % script.values.length] : undefined;
+  }
+
+  /**
+   * Whether a water leak sensor is inside one of its leak windows at a tick
+   */
+  private isLeakingAt(deviceId: string, tick: number): boolean {
+    return (this.scenario.leaks ?? []).some(
+      (window) =>
+        window.deviceId === deviceId &&
+        tick >= (window.fromTick ?? 0) &&
+        (window.toTick === undefined || tick < window.toTick)
+    );
+  }
+
+  /**
+   * Whether a device is outside all of its unreachable windows at a tick
+   */
+  private isReachableAt(deviceId: string, tick: number): boolean {
+    return !(this.scenario.faults?.unreachable ?? []).some(
+      (window) =>
+        window.deviceId === deviceId &&
+        tick >= (window.fromTick ?? 0) &&
+        (window.toTick === undefined || tick < window.toTick)
+    );
+  }
+}
@@ -5,7 +5,7 @@
  * and authentication from the IKEA Dirigera hub.
  */
 
-import { DirigeeraDevice } from './device';
+import { DirigeeraDevice, EnvironmentSensorAttributes, LightAttributes } from './device';
 
 /**
  * Authentication token storage
@@ -100,9 +100,24 @@ export interface DeviceUpdateRequest {
   attributes?: {
     /** New custom name for the device */
     customName?: string;
-  };
+  } & LightStateUpdate & PurifierStateUpdate;
 }
 
+/**
+ * Light attributes that can be written with PATCH /v1/devices/{id}
+ * Only attributes listed in the light's capabilities.canReceive are accepted
+ */
+export type LightStateUpdate = Partial<
+  Pick<LightAttributes, 'isOn' | 'lightLevel' | 'colorTemperature' | 'colorHue' | 'colorSaturation'>
+>;
+
+/**
+ * Air purifier attributes that can be written with PATCH /v1/devices/{id}
+ */
+export type PurifierStateUpdate = Partial<
+  Pick<EnvironmentSensorAttributes, 'fanMode' | 'childLock' | 'statusLight'>
+>;
+
 /**
  * Hub information response
  * Response from GET /v1/hub endpoint
@@ -134,6 +149,11 @@ export interface RoomResponse {
   icon?: string;
   /** Color assigned to the room */
   color?: string;
+  /**
+   * Hub the room belongs to
+   * Not sent by the hub; set by the app when combining rooms from several hubs
+   */
+  hubId?: string;
 }
 
 /**
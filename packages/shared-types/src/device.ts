@@ -8,18 +8,40 @@
 /**
  * Base device type identifier
  */
-export type DeviceType = 'environment_sensor' | 'light' | 'blinds' | 'outlet' | 'controller';
+export type DeviceType =
+  | 'environment_sensor'
+  | 'light'
+  | 'blinds'
+  | 'outlet'
+  | 'controller'
+  | 'motion_sensor'
+  | 'open_close_sensor'
+  | 'water_sensor';
 
 /**
  * Device type identifier (camelCase variant)
  */
-export type DeviceTypeIdentifier = 'environmentSensor' | 'light' | 'blinds' | 'outlet' | 'controller';
+export type DeviceTypeIdentifier =
+  | 'environmentSensor'
+  | 'light'
+  | 'blinds'
+  | 'outlet'
+  | 'controller'
+  | 'motionSensor'
+  | 'openCloseSensor'
+  | 'waterSensor';
 
 /**
  * Supported sensor models
  */
 export type SensorModel = 'VINDSTYRKA' | 'STARKVIND';
 
+/**
+ * Air purifier fan mode
+ * 'auto' follows the PM2.5 level; 'low', 'medium' and 'high' are manual levels
+ */
+export type FanMode = 'auto' | 'low' | 'medium' | 'high' | 'off';
+
 /**
  * Manufacturer information
  */
@@ -49,6 +71,8 @@ export interface BaseDeviceAttributes {
   firmwareVersion: string;
   /** Hardware version identifier */
   hardwareVersion: string;
+  /** Battery level percentage (0-100, battery-powered devices only) */
+  batteryPercentage?: number;
 }
 
 /**
@@ -64,6 +88,110 @@ export interface EnvironmentSensorAttributes extends BaseDeviceAttributes {
   currentPM25?: number;
   /** Volatile Organic Compounds index (1-500) */
   vocIndex?: number;
+  /** Fan mode (air purifiers such as STARKVIND) */
+  fanMode?: FanMode;
+  /** Current fan speed (0-50, air purifiers) */
+  motorState?: number;
+  /** Whether the buttons on the device are locked (air purifiers) */
+  childLock?: boolean;
+  /** Whether the status light is on (air purifiers) */
+  statusLight?: boolean;
+  /** Rated filter lifetime in minutes (air purifiers) */
+  filterLifetime?: number;
+  /** Minutes the current filter has been in use (air purifiers) */
+  filterElapsedTime?: number;
+  /** Whether the device asks for a filter change (air purifiers) */
+  filterAlarmStatus?: boolean;
+}
+
+/**
+ * Light specific attributes
+ */
+export interface LightAttributes extends BaseDeviceAttributes {
+  /** Whether the light is on */
+  isOn: boolean;
+  /** Brightness percentage (1-100) */
+  lightLevel: number;
+  /** Color temperature in Kelvin (white spectrum lights) */
+  colorTemperature?: number;
+  /**
+   * Coolest supported color temperature in Kelvin
+   * The hub orders the range by mired, so this is the larger Kelvin value
+   */
+  colorTemperatureMin?: number;
+  /** Warmest supported color temperature in Kelvin (the smaller Kelvin value) */
+  colorTemperatureMax?: number;
+  /** Hue in degrees (0-360, color lights) */
+  colorHue?: number;
+  /** Saturation (0-1, color lights) */
+  colorSaturation?: number;
+  /** Whether the light currently shows a color temperature or a color */
+  colorMode?: 'temperature' | 'color';
+}
+
+/**
+ * Outlet (smart plug) specific attributes
+ * Energy monitoring outlets (e.g. INSPELNING) also report power and energy
+ */
+export interface OutletAttributes extends BaseDeviceAttributes {
+  /** Whether the outlet is switched on */
+  isOn: boolean;
+  /** Active power in watts */
+  currentActivePower?: number;
+  /** Current in amperes */
+  currentAmps?: number;
+  /** Voltage in volts */
+  currentVoltage?: number;
+  /** Energy consumed since the outlet was first used, in kWh */
+  totalEnergyConsumed?: number;
+  /** Energy consumed since the last reset in the IKEA app, in kWh */
+  energyConsumedAtLastReset?: number;
+  /** When the energy counter was last reset (ISO 8601 format) */
+  timeOfLastEnergyReset?: string;
+}
+
+/**
+ * Blinds specific attributes
+ */
+export interface BlindsAttributes extends BaseDeviceAttributes {
+  /** Current position percentage (0 = open, 100 = closed) */
+  blindsCurrentLevel: number;
+  /** Position the blinds are moving to */
+  blindsTargetLevel?: number;
+  /** Movement state */
+  blindsState?: 'stopped' | 'up' | 'down';
+}
+
+/**
+ * Controller (remote, shortcut button) specific attributes
+ */
+export interface ControllerAttributes extends BaseDeviceAttributes {
+  /** Whether the devices the controller drives are on, for light controllers */
+  isOn?: boolean;
+}
+
+/**
+ * Motion sensor specific attributes
+ */
+export interface MotionSensorAttributes extends BaseDeviceAttributes {
+  /** Whether motion is currently detected */
+  isDetected: boolean;
+}
+
+/**
+ * Open/close (door and window) sensor specific attributes
+ */
+export interface OpenCloseSensorAttributes extends BaseDeviceAttributes {
+  /** Whether the door or window is open */
+  isOpen: boolean;
+}
+
+/**
+ * Water leak sensor specific attributes
+ */
+export interface WaterSensorAttributes extends BaseDeviceAttributes {
+  /** Whether water is detected */
+  waterLeakDetected: boolean;
 }
 
 /**
@@ -94,6 +222,11 @@ export interface BaseDevice {
   capabilities: DeviceCapabilities;
   /** Room where the device is located */
   room?: Room;
+  /**
+   * Hub the device belongs to
+   * Not sent by the hub; set by the app when combining devices from several hubs
+   */
+  hubId?: string;
 }
 
 /**
@@ -107,11 +240,89 @@ export interface EnvironmentSensorDevice extends BaseDevice {
   attributes: EnvironmentSensorAttributes;
 }
 
+/**
+ * Light device (bulbs, panels, LED strips)
+ */
+export interface LightDevice extends BaseDevice {
+  type: 'light';
+  deviceType: 'light';
+  /** Light-specific attributes including on/off state, brightness and color */
+  attributes: LightAttributes;
+}
+
+/**
+ * Outlet device (smart plugs such as TRETAKT)
+ */
+export interface OutletDevice extends BaseDevice {
+  type: 'outlet';
+  deviceType: 'outlet';
+  /** Outlet-specific attributes */
+  attributes: OutletAttributes;
+}
+
+/**
+ * Blinds device (e.g. FYRTUR, KADRILJ)
+ */
+export interface BlindsDevice extends BaseDevice {
+  type: 'blinds';
+  deviceType: 'blinds';
+  /** Blinds-specific attributes including position */
+  attributes: BlindsAttributes;
+}
+
+/**
+ * Controller device (e.g. STYRBAR remote, SOMRIG shortcut button)
+ */
+export interface ControllerDevice extends BaseDevice {
+  type: 'controller';
+  deviceType: 'controller';
+  /** Controller-specific attributes */
+  attributes: ControllerAttributes;
+}
+
+/**
+ * Motion sensor device (e.g. VALLHORN)
+ */
+export interface MotionSensorDevice extends BaseDevice {
+  type: 'motion_sensor';
+  deviceType: 'motionSensor';
+  /** Motion sensor attributes */
+  attributes: MotionSensorAttributes;
+}
+
+/**
+ * Open/close sensor device (e.g. PARASOLL)
+ */
+export interface OpenCloseSensorDevice extends BaseDevice {
+  type: 'open_close_sensor';
+  deviceType: 'openCloseSensor';
+  /** Open/close sensor attributes */
+  attributes: OpenCloseSensorAttributes;
+}
+
+/**
+ * Water leak sensor device (e.g. BADRING)
+ */
+export interface WaterSensorDevice extends BaseDevice {
+  type: 'water_sensor';
+  deviceType: 'waterSensor';
+  /** Water leak sensor attributes */
+  attributes: WaterSensorAttributes;
+}
+
 /**
  * Union type of all supported device types
  * Add additional device types here as they are implemented
  */
-export type DirigeeraDevice = EnvironmentSensorDevice;
+export type DirigeeraDevice =
+  | EnvironmentSensorDevice
+  | LightDevice
+  | OutletDevice
+  | BlindsDevice
+  | ControllerDevice
+  | MotionSensorDevice
+  | OpenCloseSensorDevice
+  | WaterSensorDevice;
 
 /**
  * Type guard to check if a device is an environment sensor
@@ -120,6 +331,71 @@ export function isEnvironmentSensor(device: DirigeeraDevice): device is Environm
   return device.type === 'environment_sensor' && device.deviceType === 'environmentSensor';
 }
 
+/**
+ * Type guard to check if a device is a light
+ */
+export function isLight(device: DirigeeraDevice): device is LightDevice {
+  return device.type === 'light' && device.deviceType === 'light';
+}
+
+/**
+ * Type guard to check if a device is an outlet
+ */
+export function isOutlet(device: DirigeeraDevice): device is OutletDevice {
+  return device.type === 'outlet' && device.deviceType === 'outlet';
+}
+
+/**
+ * Type guard to check if a device is a set of blinds
+ */
+export function isBlinds(device: DirigeeraDevice): device is BlindsDevice {
+  return device.type === 'blinds' && device.deviceType === 'blinds';
+}
+
+/**
+ * Type guard to check if a device is a controller
+ */
+export function isController(device: DirigeeraDevice): device is ControllerDevice {
+  return device.type === 'controller' && device.deviceType === 'controller';
+}
+
+/**
+ * Type guard to check if a device is a motion sensor
+ */
+export function isMotionSensor(device: DirigeeraDevice): device is MotionSensorDevice {
+  return device.type === 'motion_sensor' && device.deviceType === 'motionSensor';
+}
+
+/**
+ * Type guard to check if a device is an open/close sensor
+ */
+export function isOpenCloseSensor(device: DirigeeraDevice): device is OpenCloseSensorDevice {
+  return device.type === 'open_close_sensor' && device.deviceType === 'openCloseSensor';
+}
+
+/**
+ * Type guard to check if a device is a water leak sensor
+ */
+export function isWaterSensor(device: DirigeeraDevice): device is WaterSensorDevice {
+  return device.type === 'water_sensor' && device.deviceType === 'waterSensor';
+}
+
+/**
+ * Type guard to check if a device is an air purifier (e.g. STARKVIND)
+ * The hub lists purifiers as environment sensors that also report a fan mode
+ */
+export function isAirPurifier(device: DirigeeraDevice): device is EnvironmentSensorDevice {
+  return isEnvironmentSensor(device) &&
+    (device.attributes.model === 'STARKVIND' || device.attributes.fanMode !== undefined);
+}
+
+/**
+ * Check whether a device reports a battery level
+ */
+export function hasBattery(device: DirigeeraDevice): boolean {
+  return typeof device.attributes.batteryPercentage === 'number';
+}
+
 /**
  * Type guard to check if a device has temperature readings
  */
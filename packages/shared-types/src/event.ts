@@ -0,0 +1,59 @@
+/**
+ * IKEA Dirigera API Device Event Type Definitions
+ *
+ * This module contains TypeScript type definitions for storing state
+ * changes of event-based devices. Motion and door/window sensors report
+ * when something happens rather than a value at regular intervals, so
+ * their history is a list of state changes instead of sensor readings.
+ * Every device's reachability is kept the same way.
+ */
+
+import type { TimeRange } from './sensor';
+
+/**
+ * Device event type identifier
+ * - motion: a motion sensor started or stopped detecting motion
+ * - contact: a door/window sensor was opened or closed
+ * - reachability: a device dropped off the network or came back
+ */
+export type DeviceEventType = 'motion' | 'contact' | 'reachability';
+
+/**
+ * State change of an event-based device
+ */
+export interface DeviceStateEvent {
+  /** Hub the device belongs to (device IDs are only unique per hub) */
+  hubId?: string;
+  /** Unique identifier for the device */
+  deviceId: string;
+  /** Device name for easier identification */
+  deviceName: string;
+  /** Room where the device is located */
+  roomName?: string;
+  /** Timestamp of the state change (ISO 8601 format) */
+  timestamp: string;
+  /** Type of event */
+  type: DeviceEventType;
+  /**
+   * New state: true when motion is detected, the door/window is open or
+   * the device is unreachable; false when motion has cleared, the
+   * door/window is closed or the device is reachable again
+   */
+  active: boolean;
+}
+
+/**
+ * Query parameters for fetching stored device events
+ */
+export interface DeviceEventQuery {
+  /** Hub ID to query */
+  hubId?: string;
+  /** Device ID to query */
+  deviceId?: string;
+  /** Event types to include */
+  types?: DeviceEventType[];
+  /** Time range for the query */
+  timeRange?: TimeRange;
+  /** Only return the most recent events, up to this number */
+  limit?: number;
+}
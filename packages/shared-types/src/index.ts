@@ -16,16 +16,40 @@ export {
   DeviceType,
   DeviceTypeIdentifier,
   SensorModel,
+  FanMode,
   Manufacturer,
   Room,
   BaseDeviceAttributes,
   EnvironmentSensorAttributes,
+  LightAttributes,
+  OutletAttributes,
+  BlindsAttributes,
+  ControllerAttributes,
+  MotionSensorAttributes,
+  OpenCloseSensorAttributes,
+  WaterSensorAttributes,
   DeviceCapabilities,
   BaseDevice,
   EnvironmentSensorDevice,
+  LightDevice,
+  OutletDevice,
+  BlindsDevice,
+  ControllerDevice,
+  MotionSensorDevice,
+  OpenCloseSensorDevice,
+  WaterSensorDevice,
   DirigeeraDevice,
   // Device type guards
   isEnvironmentSensor,
+  isLight,
+  isOutlet,
+  isBlinds,
+  isController,
+  isMotionSensor,
+  isOpenCloseSensor,
+  isWaterSensor,
+  isAirPurifier,
+  hasBattery,
   hasTemperature,
   hasHumidity,
   hasPM25,
@@ -41,9 +65,15 @@ export {
   HumidityReading,
   PM25Reading,
   VOCReading,
+  PowerReading,
+  EnergyReading,
+  FanSpeedReading,
+  BatteryReading,
   SensorReading,
   DeviceSensorSnapshot,
   TimeRange,
+  ReadingResolution,
+  SensorRollup,
   SensorDataQuery,
   SensorStatistics,
   // Sensor type guards
@@ -51,8 +81,19 @@ export {
   isHumidityReading,
   isPM25Reading,
   isVOCReading,
+  isPowerReading,
+  isEnergyReading,
+  isFanSpeedReading,
+  isBatteryReading,
 } from './sensor';
 
+// Export device event types
+export {
+  DeviceEventType,
+  DeviceStateEvent,
+  DeviceEventQuery,
+} from './event';
+
 // Export all API-related types
 export {
   // Authentication types
@@ -65,6 +106,8 @@ export {
   DeviceListResponse,
   DeviceResponse,
   DeviceUpdateRequest,
+  LightStateUpdate,
+  PurifierStateUpdate,
   HubInfoResponse,
   RoomResponse,
   RoomListResponse,
@@ -84,3 +127,35 @@ export {
   isDeviceAddedMessage,
   isDeviceRemovedMessage,
 } from './api';
+
+// Export runtime schemas for API responses
+export {
+  // Schema types
+  SchemaFieldType,
+  SchemaField,
+  ObjectSchema,
+  SchemaIssueKind,
+  SchemaIssue,
+  ValidationResult,
+  // Schemas
+  BASE_DEVICE_SCHEMA,
+  DEVICE_CAPABILITIES_SCHEMA,
+  DEVICE_ROOM_SCHEMA,
+  BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  ENVIRONMENT_SENSOR_ATTRIBUTES_SCHEMA,
+  LIGHT_ATTRIBUTES_SCHEMA,
+  OUTLET_ATTRIBUTES_SCHEMA,
+  BLINDS_ATTRIBUTES_SCHEMA,
+  CONTROLLER_ATTRIBUTES_SCHEMA,
+  MOTION_SENSOR_ATTRIBUTES_SCHEMA,
+  OPEN_CLOSE_SENSOR_ATTRIBUTES_SCHEMA,
+  WATER_SENSOR_ATTRIBUTES_SCHEMA,
+  DEVICE_ATTRIBUTE_SCHEMAS,
+  HUB_INFO_SCHEMA,
+  ROOM_SCHEMA,
+  // Validators
+  checkObject,
+  validateDevice,
+  validateHubInfo,
+  validateRoom,
+} from './schema';
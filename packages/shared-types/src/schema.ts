@@ -0,0 +1,419 @@
+/**
+ * Runtime Schemas for IKEA Dirigera API Responses
+ *
+ * The interfaces in this package only exist at compile time. The schemas in
+ * this module mirror them so responses can be checked at runtime, which
+ * catches firmware updates that move or retype fields before they reach
+ * charts and history.
+ *
+ * Issues are either errors (the value does not match the type, so it cannot
+ * be used safely) or warnings (the value is usable but the hub sent something
+ * the types do not describe, such as an unknown attribute).
+ */
+
+import { DeviceType, DeviceTypeIdentifier, DirigeeraDevice } from './device';
+import { HubInfoResponse, RoomResponse } from './api';
+
+/**
+ * Runtime type of a schema field
+ */
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/**
+ * Schema of a single field
+ */
+export interface SchemaField {
+  /** Expected runtime type */
+  type: SchemaFieldType;
+  /** Whether the field must be present */
+  required?: boolean;
+  /** Known values (strings only); others are reported as warnings */
+  values?: readonly string[];
+}
+
+/**
+ * Schema of an object: field name to field schema
+ */
+export type ObjectSchema = Readonly<Record<string, SchemaField>>;
+
+/**
+ * Kind of schema issue
+ */
+export type SchemaIssueKind =
+  | 'notAnObject'
+  | 'missingField'
+  | 'wrongType'
+  | 'unexpectedValue'
+  | 'unknownAttribute';
+
+/**
+ * A difference between a response and its schema
+ */
+export interface SchemaIssue {
+  /** Kind of issue */
+  kind: SchemaIssueKind;
+  /** Errors make the value unusable; warnings are reported only */
+  severity: 'error' | 'warning';
+  /** Dotted path of the field, e.g. "attributes.currentPM25" */
+  path: string;
+  /** Expected type or values */
+  expected?: string;
+  /** Received type (or value for unexpected values) */
+  received?: string;
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export interface ValidationResult<T> {
+  /** Whether the value has no error-level issues */
+  valid: boolean;
+  /** The value, typed, when valid */
+  value?: T;
+  /** All issues found, including warnings */
+  issues: SchemaIssue[];
+}
+
+const DEVICE_TYPES: readonly DeviceType[] = [
+  'environment_sensor',
+  'light',
+  'blinds',
+  'outlet',
+  'controller',
+  'motion_sensor',
+  'open_close_sensor',
+  'water_sensor',
+];
+
+const DEVICE_TYPE_IDENTIFIERS: readonly DeviceTypeIdentifier[] = [
+  'environmentSensor',
+  'light',
+  'blinds',
+  'outlet',
+  'controller',
+  'motionSensor',
+  'openCloseSensor',
+  'waterSensor',
+];
+
+/**
+ * Schema mirroring BaseDevice
+ */
+export const BASE_DEVICE_SCHEMA: ObjectSchema = {
+  id: { type: 'string', required: true },
+  type: { type: 'string', required: true, values: DEVICE_TYPES },
+  deviceType: { type: 'string', required: true, values: DEVICE_TYPE_IDENTIFIERS },
+  customName: { type: 'string', required: true },
+  isReachable: { type: 'boolean', required: true },
+  capabilities: { type: 'object', required: true },
+  room: { type: 'object' },
+  attributes: { type: 'object', required: true },
+};
+
+/**
+ * Schema mirroring DeviceCapabilities
+ */
+export const DEVICE_CAPABILITIES_SCHEMA: ObjectSchema = {
+  canSend: { type: 'array', required: true },
+  canReceive: { type: 'array', required: true },
+};
+
+/**
+ * Schema mirroring Room
+ */
+export const DEVICE_ROOM_SCHEMA: ObjectSchema = {
+  id: { type: 'string', required: true },
+  name: { type: 'string', required: true },
+};
+
+/**
+ * Schema mirroring BaseDeviceAttributes
+ */
+export const BASE_DEVICE_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  customName: { type: 'string', required: true },
+  model: { type: 'string', required: true },
+  manufacturer: { type: 'string', required: true },
+  firmwareVersion: { type: 'string', required: true },
+  hardwareVersion: { type: 'string', required: true },
+  batteryPercentage: { type: 'number' },
+};
+
+/**
+ * Schema mirroring EnvironmentSensorAttributes
+ */
+export const ENVIRONMENT_SENSOR_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  ...BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  currentTemperature: { type: 'number' },
+  currentRH: { type: 'number' },
+  currentPM25: { type: 'number' },
+  vocIndex: { type: 'number' },
+  fanMode: { type: 'string', values: ['auto', 'low', 'medium', 'high', 'off'] },
+  motorState: { type: 'number' },
+  childLock: { type: 'boolean' },
+  statusLight: { type: 'boolean' },
+  filterLifetime: { type: 'number' },
+  filterElapsedTime: { type: 'number' },
+  filterAlarmStatus: { type: 'boolean' },
+};
+
+/**
+ * Schema mirroring LightAttributes
+ */
+export const LIGHT_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  ...BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  isOn: { type: 'boolean', required: true },
+  lightLevel: { type: 'number', required: true },
+  colorTemperature: { type: 'number' },
+  colorTemperatureMin: { type: 'number' },
+  colorTemperatureMax: { type: 'number' },
+  colorHue: { type: 'number' },
+  colorSaturation: { type: 'number' },
+  colorMode: { type: 'string', values: ['temperature', 'color'] },
+};
+
+/**
+ * Schema mirroring OutletAttributes
+ */
+export const OUTLET_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  ...BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  isOn: { type: 'boolean', required: true },
+  currentActivePower: { type: 'number' },
+  currentAmps: { type: 'number' },
+  currentVoltage: { type: 'number' },
+  totalEnergyConsumed: { type: 'number' },
+  energyConsumedAtLastReset: { type: 'number' },
+  timeOfLastEnergyReset: { type: 'string' },
+};
+
+/**
+ * Schema mirroring BlindsAttributes
+ */
+export const BLINDS_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  ...BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  blindsCurrentLevel: { type: 'number', required: true },
+  blindsTargetLevel: { type: 'number' },
+  blindsState: { type: 'string', values: ['stopped', 'up', 'down'] },
+};
+
+/**
+ * Schema mirroring ControllerAttributes
+ */
+export const CONTROLLER_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  ...BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  isOn: { type: 'boolean' },
+};
+
+/**
+ * Schema mirroring MotionSensorAttributes
+ */
+export const MOTION_SENSOR_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  ...BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  isDetected: { type: 'boolean', required: true },
+};
+
+/**
+ * Schema mirroring OpenCloseSensorAttributes
+ */
+export const OPEN_CLOSE_SENSOR_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  ...BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  isOpen: { type: 'boolean', required: true },
+};
+
+/**
+ * Schema mirroring WaterSensorAttributes
+ */
+export const WATER_SENSOR_ATTRIBUTES_SCHEMA: ObjectSchema = {
+  ...BASE_DEVICE_ATTRIBUTES_SCHEMA,
+  waterLeakDetected: { type: 'boolean', required: true },
+};
+
+/**
+ * Attribute schema for each device type
+ */
+export const DEVICE_ATTRIBUTE_SCHEMAS: Readonly<Record<DeviceType, ObjectSchema>> = {
+  environment_sensor: ENVIRONMENT_SENSOR_ATTRIBUTES_SCHEMA,
+  light: LIGHT_ATTRIBUTES_SCHEMA,
+  outlet: OUTLET_ATTRIBUTES_SCHEMA,
+  blinds: BLINDS_ATTRIBUTES_SCHEMA,
+  controller: CONTROLLER_ATTRIBUTES_SCHEMA,
+  motion_sensor: MOTION_SENSOR_ATTRIBUTES_SCHEMA,
+  open_close_sensor: OPEN_CLOSE_SENSOR_ATTRIBUTES_SCHEMA,
+  water_sensor: WATER_SENSOR_ATTRIBUTES_SCHEMA,
+};
+
+/**
+ * Schema mirroring HubInfoResponse
+ */
+export const HUB_INFO_SCHEMA: ObjectSchema = {
+  id: { type: 'string', required: true },
+  firmwareVersion: { type: 'string', required: true },
+  hardwareVersion: { type: 'string', required: true },
+  model: { type: 'string', required: true },
+  serialNumber: { type: 'string' },
+  isOnline: { type: 'boolean', required: true },
+};
+
+/**
+ * Schema mirroring RoomResponse
+ */
+export const ROOM_SCHEMA: ObjectSchema = {
+  id: { type: 'string', required: true },
+  name: { type: 'string', required: true },
+  icon: { type: 'string' },
+  color: { type: 'string' },
+};
+
+/**
+ * Describe the runtime type of a value for issue messages
+ */
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Check an object against a schema and collect issues
+ * @param value - Value to check
+ * @param schema - Expected fields
+ * @param path - Path of the value, used as prefix for issue paths
+ * @param reportUnknown - Whether fields missing from the schema are reported as warnings
+ * @returns Issues found
+ */
+export function checkObject(
+  value: unknown,
+  schema: ObjectSchema,
+  path = '',
+  reportUnknown = false
+): SchemaIssue[] {
+  if (!isPlainObject(value)) {
+    return [
+      {
+        kind: 'notAnObject',
+        severity: 'error',
+        path: path || '(root)',
+        expected: 'object',
+        received: describeType(value),
+      },
+    ];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  for (const [key, field] of Object.entries(schema)) {
+    const fieldValue = value[key];
+    const fieldPath = joinPath(path, key);
+
+    if (fieldValue === undefined) {
+      if (field.required) {
+        issues.push({ kind: 'missingField', severity: 'error', path: fieldPath, expected: field.type });
+      }
+      continue;
+    }
+
+    const received = describeType(fieldValue);
+    if (received !== field.type || (field.type === 'number' && !Number.isFinite(fieldValue))) {
+      issues.push({
+        kind: 'wrongType',
+        severity: 'error',
+        path: fieldPath,
+        expected: field.type,
+        received,
+      });
+      continue;
+    }
+
+    // Values added by newer firmware are drift, not a broken payload
+    if (field.values && !field.values.includes(fieldValue as string)) {
+      issues.push({
+        kind: 'unexpectedValue',
+        severity: 'warning',
+        path: fieldPath,
+        expected: field.values.join(' | '),
+        received: String(fieldValue),
+      });
+    }
+  }
+
+  if (reportUnknown) {
+    for (const key of Object.keys(value)) {
+      if (!(key in schema)) {
+        issues.push({
+          kind: 'unknownAttribute',
+          severity: 'warning',
+          path: joinPath(path, key),
+          received: describeType(value[key]),
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function toResult<T>(value: unknown, issues: SchemaIssue[]): ValidationResult<T> {
+  const valid = !issues.some((issue) => issue.severity === 'error');
+  return { valid, value: valid ? (value as T) : undefined, issues };
+}
+
+/**
+ * Validate a device payload
+ * Attributes are checked against the schema of the device type, and
+ * attributes the types do not know are reported as warnings. Devices of an
+ * unknown type or device type are kept with a warning and only have their
+ * base attributes checked.
+ * @param value - Raw device from the hub
+ * @returns Validation result with the typed device when valid
+ */
+export function validateDevice(value: unknown): ValidationResult<DirigeeraDevice> {
+  const issues = checkObject(value, BASE_DEVICE_SCHEMA);
+  if (!isPlainObject(value)) {
+    return toResult(value, issues);
+  }
+
+  if (isPlainObject(value.capabilities)) {
+    issues.push(...checkObject(value.capabilities, DEVICE_CAPABILITIES_SCHEMA, 'capabilities'));
+  }
+  if (isPlainObject(value.room)) {
+    issues.push(...checkObject(value.room, DEVICE_ROOM_SCHEMA, 'room'));
+  }
+  if (isPlainObject(value.attributes)) {
+    const attributeSchema = Object.prototype.hasOwnProperty.call(DEVICE_ATTRIBUTE_SCHEMAS, String(value.type))
+      ? DEVICE_ATTRIBUTE_SCHEMAS[value.type as DeviceType]
+      : undefined;
+    issues.push(
+      ...(attributeSchema
+        ? checkObject(value.attributes, attributeSchema, 'attributes', true)
+        : checkObject(value.attributes, BASE_DEVICE_ATTRIBUTES_SCHEMA, 'attributes'))
+    );
+  }
+
+  return toResult(value, issues);
+}
+
+/**
+ * Validate a hub information payload
+ * @param value - Raw response of GET /v1/hub
+ * @returns Validation result with the typed hub info when valid
+ */
+export function validateHubInfo(value: unknown): ValidationResult<HubInfoResponse> {
+  return toResult(value, checkObject(value, HUB_INFO_SCHEMA));
+}
+
+/**
+ * Validate a room payload
+ * @param value - Raw room from GET /v1/rooms
+ * @returns Validation result with the typed room when valid
+ */
+export function validateRoom(value: unknown): ValidationResult<RoomResponse> {
+  return toResult(value, checkObject(value, ROOM_SCHEMA));
+}
@@ -8,13 +8,23 @@
 /**
  * Sensor reading type identifier
  */
-export type SensorReadingType = 'temperature' | 'humidity' | 'pm25' | 'voc';
+export type SensorReadingType =
+  | 'temperature'
+  | 'humidity'
+  | 'pm25'
+  | 'voc'
+  | 'power'
+  | 'energy'
+  | 'fanSpeed'
+  | 'battery';
 
 /**
  * Base sensor reading interface
  * Used for storing time-series data from sensors
  */
 export interface BaseSensorReading {
+  /** Hub the device belongs to (device IDs are only unique per hub) */
+  hubId?: string;
   /** Unique identifier for the device */
   deviceId: string;
   /** Device name for easier identification */
@@ -25,6 +35,12 @@ export interface BaseSensorReading {
   timestamp: string;
   /** Type of sensor reading */
   type: SensorReadingType;
+  /** Rollup the reading stands for in a rolled up query; unset for raw readings */
+  resolution?: Exclude<ReadingResolution, 'raw'>;
+  /** Lowest reading in the rollup period; unset for raw readings */
+  min?: number;
+  /** Highest reading in the rollup period; unset for raw readings */
+  max?: number;
 }
 
 /**
@@ -71,6 +87,53 @@ export interface VOCReading extends BaseSensorReading {
   unit: 'index';
 }
 
+/**
+ * Active power reading from an energy monitoring outlet
+ */
+export interface PowerReading extends BaseSensorReading {
+  type: 'power';
+  /** Active power in watts */
+  value: number;
+  /** Unit of measurement */
+  unit: 'W';
+}
+
+/**
+ * Energy meter reading from an energy monitoring outlet
+ * The value is the outlet's running total, not the consumption since the
+ * previous reading; consumption is the difference between two readings
+ */
+export interface EnergyReading extends BaseSensorReading {
+  type: 'energy';
+  /** Total energy consumed in kilowatt-hours */
+  value: number;
+  /** Unit of measurement */
+  unit: 'kWh';
+}
+
+/**
+ * Fan speed reading from an air purifier
+ */
+export interface FanSpeedReading extends BaseSensorReading {
+  type: 'fanSpeed';
+  /** Fan speed as a percentage of the maximum (0-100) */
+  value: number;
+  /** Unit of measurement */
+  unit: '%';
+}
+
+/**
+ * Battery level reading from a battery-powered device
+ * Stored once a day, as battery levels change slowly
+ */
+export interface BatteryReading extends BaseSensorReading {
+  type: 'battery';
+  /** Battery level percentage (0-100) */
+  value: number;
+  /** Unit of measurement */
+  unit: '%';
+}
+
 /**
  * Union type of all sensor reading types
  */
@@ -78,12 +141,18 @@ export type SensorReading =
   | TemperatureReading
   | HumidityReading
   | PM25Reading
-  | VOCReading;
+  | VOCReading
+  | PowerReading
+  | EnergyReading
+  | FanSpeedReading
+  | BatteryReading;
 
 /**
  * Aggregated sensor readings from a single device at a point in time
  */
 export interface DeviceSensorSnapshot {
+  /** Hub the device belongs to */
+  hubId?: string;
   /** Unique identifier for the device */
   deviceId: string;
   /** Device name for easier identification */
@@ -100,6 +169,12 @@ export interface DeviceSensorSnapshot {
   pm25?: number;
   /** VOC index (1-500) */
   vocIndex?: number;
+  /** Active power in watts */
+  power?: number;
+  /** Total energy consumed in kWh */
+  energy?: number;
+  /** Air purifier fan speed percentage (0-100) */
+  fanSpeed?: number;
 }
 
 /**
@@ -112,10 +187,57 @@ export interface TimeRange {
   end: string;
 }
 
+/**
+ * Resolution of stored sensor history
+ * - raw: readings as they were taken
+ * - 5m, 1h, 1d: rollups summarizing the readings of 5 minutes, an hour or a day
+ */
+export type ReadingResolution = 'raw' | '5m' | '1h' | '1d';
+
+/**
+ * Summary of the readings of one device and type within a fixed period
+ * Raw readings are only kept for a few days; rollups keep the history for
+ * months or years at a coarser resolution.
+ */
+export interface SensorRollup {
+  /** Unique key built from resolution, hub, device, type and period start */
+  id: string;
+  /** Length of the summarized period */
+  resolution: Exclude<ReadingResolution, 'raw'>;
+  /** Hub the device belongs to (device IDs are only unique per hub) */
+  hubId?: string;
+  /** Unique identifier for the device */
+  deviceId: string;
+  /** Device name at the time of the latest reading */
+  deviceName: string;
+  /** Room of the device at the time of the latest reading */
+  roomName?: string;
+  /** Start of the period (ISO 8601 format) */
+  timestamp: string;
+  /** Type of sensor reading */
+  type: SensorReadingType;
+  /** Unit of measurement */
+  unit: SensorReading['unit'];
+  /** Lowest reading in the period */
+  min: number;
+  /** Highest reading in the period */
+  max: number;
+  /** Average of the readings in the period */
+  avg: number;
+  /** Number of readings in the period */
+  count: number;
+  /** Latest reading in the period, for running totals such as energy */
+  last: number;
+  /** Timestamp of the latest reading (ISO 8601 format) */
+  lastTimestamp: string;
+}
+
 /**
  * Query parameters for fetching historical sensor data
  */
 export interface SensorDataQuery {
+  /** Hub ID to query */
+  hubId?: string;
   /** Device ID to query */
   deviceId?: string;
   /** Room name to filter by */
@@ -128,6 +250,12 @@ export interface SensorDataQuery {
   limit?: number;
   /** Offset for pagination */
   offset?: number;
+  /**
+   * Resolution to return; 'auto' (the default) picks one from the length
+   * and age of the time range. Queries without a time range return raw
+   * readings.
+   */
+  resolution?: ReadingResolution | 'auto';
 }
 
 /**
@@ -177,3 +305,31 @@ export function isPM25Reading(reading: SensorReading): reading is PM25Reading {
 export function isVOCReading(reading: SensorReading): reading is VOCReading {
   return reading.type === 'voc';
 }
+
+/**
+ * Type guard to check if a reading is a power reading
+ */
+export function isPowerReading(reading: SensorReading): reading is PowerReading {
+  return reading.type === 'power';
+}
+
+/**
+ * Type guard to check if a reading is an energy reading
+ */
+export function isEnergyReading(reading: SensorReading): reading is EnergyReading {
+  return reading.type === 'energy';
+}
+
+/**
+ * Type guard to check if a reading is a fan speed reading
+ */
+export function isFanSpeedReading(reading: SensorReading): reading is FanSpeedReading {
+  return reading.type === 'fanSpeed';
+}
+
+/**
+ * Type guard to check if a reading is a battery reading
+ */
+export function isBatteryReading(reading: SensorReading): reading is BatteryReading {
+  return reading.type === 'battery';
+}